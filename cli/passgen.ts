@@ -0,0 +1,222 @@
+// passgen: the web app's generator on the command line. It imports the same
+// modules the app does, so both always apply the same rules.
+//
+//   npm run build:cli && node dist-cli/passgen.mjs --help
+
+import { readFileSync } from 'node:fs';
+import { webcrypto } from 'node:crypto';
+import { parseArgs } from 'node:util';
+import {
+  CHARACTER_CLASSES,
+  DEFAULT_CHARACTER_POLICY,
+  PolicyValidationError,
+  entropyBits,
+  generate,
+  validateCharacterPolicy,
+  type CharacterPolicy,
+  type ClassRule,
+  type GeneratorPolicy,
+} from '../src/lib/generator';
+import {
+  DEFAULT_PASSPHRASE_OPTIONS,
+  parseWordlist,
+  registerWordlist,
+  type Capitalization,
+  type PassphraseExtra,
+  type PassphraseOptions,
+} from '../src/lib/passphrase';
+
+const MAX_COUNT = 10000;
+
+const USAGE = `Usage: passgen [options]
+
+Generates passwords or passphrases with the same engine as the web app.
+
+General:
+  -m, --mode <mode>          characters (default) or passphrase
+  -n, --count <n>            How many to generate (default 1, at most ${MAX_COUNT})
+      --json                 Print JSON: { mode, entropyBits, policy, passwords }
+  -h, --help                 Show this help
+
+Character mode:
+  -l, --length <n>           Length (default ${DEFAULT_CHARACTER_POLICY.length})
+      --no-<class>           Leave out a class: uppercase, lowercase, numbers, symbols
+      --min-<class> <n>      At least n characters of a class (default 1)
+      --max-<class> <n>      At most n characters of a class (default unlimited)
+      --symbol-set <chars>   Symbols to draw from (default ${DEFAULT_CHARACTER_POLICY.symbolSet})
+      --exclude <chars>      Characters never to use
+      --avoid-ambiguous      Leave out look-alike characters (0Oo1lI|)
+      --no-repeats           Use every character at most once
+      --start-with-letter    Begin with a letter
+
+Passphrase mode:
+  -w, --words <n>            Number of words (default ${DEFAULT_PASSPHRASE_OPTIONS.wordCount})
+      --separator <s>        Between words (default "${DEFAULT_PASSPHRASE_OPTIONS.separator}")
+      --case <case>          lowercase, capitalize, uppercase or random (default ${DEFAULT_PASSPHRASE_OPTIONS.capitalization})
+      --append <extra>       none, number or symbol (default ${DEFAULT_PASSPHRASE_OPTIONS.extra})
+      --wordlist <file>      Words to pick from, e.g. in another language: one per
+                             line or diceware lines (default: EFF large wordlist)
+
+In text mode the passwords go to stdout, one per line, and the entropy to
+stderr, so output can be piped straight into other tools.
+`;
+
+// Thrown for bad arguments; reported with the usage hint and exit code 2.
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const classOptions = Object.fromEntries(CHARACTER_CLASSES.flatMap(cls => [
+  [`no-${cls}`, { type: 'boolean' }],
+  [`min-${cls}`, { type: 'string' }],
+  [`max-${cls}`, { type: 'string' }],
+])) as Record<string, { type: 'boolean' | 'string' }>;
+
+const parseCommandLine = (argv: string[]) => {
+  try {
+    return parseArgs({
+      args: argv,
+      strict: true,
+      options: {
+        mode: { type: 'string', short: 'm' },
+        count: { type: 'string', short: 'n' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        length: { type: 'string', short: 'l' },
+        'symbol-set': { type: 'string' },
+        exclude: { type: 'string' },
+        'avoid-ambiguous': { type: 'boolean' },
+        'no-repeats': { type: 'boolean' },
+        'start-with-letter': { type: 'boolean' },
+        words: { type: 'string', short: 'w' },
+        separator: { type: 'string' },
+        case: { type: 'string' },
+        append: { type: 'string' },
+        wordlist: { type: 'string' },
+        ...classOptions,
+      },
+    }).values as Record<string, string | boolean | undefined>;
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+};
+
+const parseInteger = (name: string, value: string): number => {
+  if (!/^\d+$/.test(value)) throw new UsageError(`--${name} must be a whole number, got "${value}".`);
+  return Number(value);
+};
+
+const parseChoice = <T extends string>(name: string, value: string, choices: readonly T[]): T => {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}, got "${value}".`);
+  }
+  return value as T;
+};
+
+const buildCharacterPolicy = (values: Record<string, string | boolean | undefined>): CharacterPolicy => {
+  const string = (name: string) => values[name] as string | undefined;
+  const classes = {} as Record<(typeof CHARACTER_CLASSES)[number], ClassRule>;
+  for (const cls of CHARACTER_CLASSES) {
+    const defaults = DEFAULT_CHARACTER_POLICY.classes[cls];
+    const enabled = !values[`no-${cls}`];
+    const min = string(`min-${cls}`);
+    const max = string(`max-${cls}`);
+    classes[cls] = {
+      enabled,
+      min: min === undefined ? defaults.min : parseInteger(`min-${cls}`, min),
+      max: max === undefined ? defaults.max : parseInteger(`max-${cls}`, max),
+    };
+  }
+  const length = string('length');
+  return {
+    length: length === undefined ? DEFAULT_CHARACTER_POLICY.length : parseInteger('length', length),
+    classes,
+    symbolSet: string('symbol-set') ?? DEFAULT_CHARACTER_POLICY.symbolSet,
+    exclude: string('exclude') ?? DEFAULT_CHARACTER_POLICY.exclude,
+    avoidAmbiguous: Boolean(values['avoid-ambiguous']),
+    noRepeats: Boolean(values['no-repeats']),
+    startWithLetter: Boolean(values['start-with-letter']),
+  };
+};
+
+// Registers the --wordlist file, if any, and returns the id to generate from.
+const loadWordlist = (path: string | undefined): string => {
+  if (path === undefined) return DEFAULT_PASSPHRASE_OPTIONS.wordlist;
+  let words: string[];
+  try {
+    words = parseWordlist(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`--wordlist ${path}: ${(error as Error).message}`);
+  }
+  registerWordlist({ id: 'file', name: path, words, builtIn: false });
+  return 'file';
+};
+
+const buildPassphraseOptions = (values: Record<string, string | boolean | undefined>): PassphraseOptions => {
+  const string = (name: string) => values[name] as string | undefined;
+  const words = string('words');
+  const wordCount = words === undefined ? DEFAULT_PASSPHRASE_OPTIONS.wordCount : parseInteger('words', words);
+  if (wordCount < 1) throw new UsageError('--words must be at least 1.');
+  return {
+    wordlist: loadWordlist(string('wordlist')),
+    wordCount,
+    separator: string('separator') ?? DEFAULT_PASSPHRASE_OPTIONS.separator,
+    capitalization: parseChoice<Capitalization>(
+      'case', string('case') ?? DEFAULT_PASSPHRASE_OPTIONS.capitalization,
+      ['lowercase', 'capitalize', 'uppercase', 'random']
+    ),
+    extra: parseChoice<PassphraseExtra>(
+      'append', string('append') ?? DEFAULT_PASSPHRASE_OPTIONS.extra,
+      ['none', 'number', 'symbol']
+    ),
+  };
+};
+
+const run = (argv: string[]): number => {
+  const values = parseCommandLine(argv);
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const mode = parseChoice('mode', (values.mode as string | undefined) ?? 'characters', ['characters', 'passphrase'] as const);
+  const count = values.count === undefined ? 1 : parseInteger('count', values.count as string);
+  if (count < 1 || count > MAX_COUNT) throw new UsageError(`--count must be between 1 and ${MAX_COUNT}.`);
+
+  const policy: GeneratorPolicy = mode === 'passphrase'
+    ? { mode, ...buildPassphraseOptions(values) }
+    : { mode, ...buildCharacterPolicy(values) };
+  if (policy.mode === 'characters') {
+    const errors = validateCharacterPolicy(policy);
+    if (errors.length > 0) throw new PolicyValidationError(errors);
+  }
+
+  // Node 18 has Web Crypto only as node:crypto's `webcrypto`, not as a global
+  const passwords = Array.from({ length: count }, () => generate(policy, webcrypto));
+  const bits = entropyBits(policy);
+
+  if (values.json) {
+    process.stdout.write(JSON.stringify({ mode, entropyBits: Number(bits.toFixed(1)), policy, passwords }, null, 2) + '\n');
+  } else {
+    process.stdout.write(passwords.join('\n') + '\n');
+    process.stderr.write(`Entropy: ${bits.toFixed(1)} bits${count > 1 ? ' each' : ''}\n`);
+  }
+  return 0;
+};
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof UsageError) {
+    process.stderr.write(`passgen: ${error.message}\nRun "passgen --help" for usage.\n`);
+    process.exitCode = 2;
+  } else if (error instanceof PolicyValidationError) {
+    process.stderr.write(error.errors.map(e => `passgen: ${e}`).join('\n') + '\n');
+    process.exitCode = 1;
+  } else {
+    throw error;
+  }
+}
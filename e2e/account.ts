@@ -0,0 +1,47 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { loadEnv } from 'vite';
+
+// The test account for the signed-in tests, from the environment or `.env`:
+// E2E_EMAIL and E2E_PASSWORD sign in (without a second factor), and
+// E2E_PASSPHRASE unlocks its vault, which needs at least one saved entry
+// since the extension won't create a vault. Without them those tests skip.
+
+const env = loadEnv('', process.cwd(), '');
+
+export interface TestAccount {
+  email: string;
+  password: string;
+  passphrase: string;
+}
+
+export const account: TestAccount | null = env.E2E_EMAIL && env.E2E_PASSWORD && env.E2E_PASSPHRASE
+  ? { email: env.E2E_EMAIL, password: env.E2E_PASSWORD, passphrase: env.E2E_PASSPHRASE }
+  : null;
+
+// Runs `action` signed in as the test account, straight against Supabase.
+const asAccount = async <T>(action: (client: SupabaseClient) => Promise<T>): Promise<T> => {
+  if (!account) throw new Error('No test account is configured.');
+  const client = createClient(env.VITE_SUPABASE_URL, env.VITE_SUPABASE_ANON_KEY, {
+    auth: { persistSession: false },
+  });
+  const { error } = await client.auth.signInWithPassword({ email: account.email, password: account.password });
+  if (error) throw error;
+  try {
+    return await action(client);
+  } finally {
+    await client.auth.signOut();
+  }
+};
+
+// The test account's saved logins for `username`, without their secrets.
+export const savedLogins = (username: string) => asAccount(async (client) => {
+  const { data, error } = await client.from('passwords').select('id, label, url').eq('username', username);
+  if (error) throw error;
+  return data;
+});
+
+// Tests save logins under a username of their own and delete them afterwards.
+export const deleteLogins = (username: string) => asAccount(async (client) => {
+  const { error } = await client.from('passwords').delete().eq('username', username);
+  if (error) throw error;
+});
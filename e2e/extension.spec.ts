@@ -0,0 +1,77 @@
+import type { Page } from '@playwright/test';
+import { DEFAULT_CHARACTER_POLICY } from '../src/lib/generator';
+import { account, deleteLogins, savedLogins } from './account';
+import { chooseFromKeyMenu, expect, extensionUi, focusPasswordField, test, unlockVault } from './extension';
+
+const fillGenerated = async (page: Page) => {
+  const password = page.getByLabel('Password', { exact: true });
+  await focusPasswordField(page, password);
+  await chooseFromKeyMenu(page);
+  await expect(password).not.toHaveValue('');
+  return password.inputValue();
+};
+
+test('generates a password into the field and its confirmation', async ({ page }) => {
+  await page.goto('/signup.html');
+  const password = await fillGenerated(page);
+
+  await expect(page.getByLabel('Confirm password')).toHaveValue(password);
+  expect(password).toHaveLength(DEFAULT_CHARACTER_POLICY.length); // Signed out, the built-in defaults apply
+});
+
+test.describe('with the vault unlocked', () => {
+  test.skip(!account, 'Set E2E_EMAIL, E2E_PASSWORD and E2E_PASSPHRASE to run the signed-in tests.');
+
+  // A username of the test's own, so its logins can be found and removed
+  let username: string;
+
+  test.beforeEach(async ({ context, extensionId }, testInfo) => {
+    username = `e2e-${Date.now()}-${testInfo.workerIndex}@example.com`;
+    await unlockVault(context, extensionId, account!);
+  });
+
+  test.afterEach(async () => {
+    await deleteLogins(username);
+  });
+
+  // Signs up on the fixture page with a generated password and saves it from
+  // the bar the next page offers; the bar's buttons come after the page's own
+  // (the welcome page has none) in the tab order.
+  const signUpAndSave = async (page: Page) => {
+    await page.goto('/signup.html');
+    await page.getByLabel('Username').fill(username);
+    const password = await fillGenerated(page);
+    await page.getByRole('button', { name: 'Create account' }).click();
+
+    await expect(page).toHaveURL(/welcome\.html$/);
+    await expect(extensionUi(page)).toBeAttached();
+    await page.keyboard.press('Tab'); // Not now
+    await page.keyboard.press('Tab'); // Save
+    await page.keyboard.press('Enter');
+    return password;
+  };
+
+  test('offers to save a password submitted in a form', async ({ page }) => {
+    await signUpAndSave(page);
+
+    await expect.poll(() => savedLogins(username)).toEqual([
+      expect.objectContaining({ label: 'localhost', url: 'http://localhost:4174' }),
+    ]);
+  });
+
+  test('fills a saved login into the login form', async ({ page }) => {
+    const password = await signUpAndSave(page);
+    await expect.poll(async () => (await savedLogins(username)).length).toBe(1);
+
+    await page.goto('/login.html');
+    const passwordField = page.getByLabel('Password', { exact: true });
+    await focusPasswordField(page, passwordField);
+    // The login follows "Generate password" once the worker has looked it up
+    await expect(async () => {
+      await passwordField.focus();
+      await chooseFromKeyMenu(page, 1);
+      await expect(passwordField).toHaveValue(password, { timeout: 1000 });
+    }).toPass();
+    await expect(page.getByLabel('Email')).toHaveValue(username);
+  });
+});
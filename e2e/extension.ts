@@ -0,0 +1,62 @@
+import { fileURLToPath } from 'node:url';
+import { chromium, expect, test as base, type BrowserContext, type Locator, type Page } from '@playwright/test';
+import type { TestAccount } from './account';
+
+const EXTENSION_PATH = fileURLToPath(new URL('../dist-extension', import.meta.url));
+
+// Each test gets a fresh browser with the unpacked extension loaded; the
+// `chromium` channel is the one that runs extensions headless. (The fixture
+// callback isn't named `use`, which the React hooks lint rule would claim.)
+export const test = base.extend<{ context: BrowserContext; extensionId: string }>({
+  // eslint-disable-next-line no-empty-pattern
+  context: async ({}, provide) => {
+    const context = await chromium.launchPersistentContext('', {
+      channel: 'chromium',
+      args: [`--disable-extensions-except=${EXTENSION_PATH}`, `--load-extension=${EXTENSION_PATH}`],
+    });
+    await provide(context);
+    await context.close();
+  },
+  extensionId: async ({ context }, provide) => {
+    const worker = context.serviceWorkers()[0] ?? await context.waitForEvent('serviceworker');
+    await provide(new URL(worker.url()).host);
+  },
+});
+
+export { expect };
+
+// The content script's UI sits in a closed shadow root, which locators can't
+// reach, so tests drive it from the keyboard the way its users can. Its host
+// is the only element it adds to <html>, once there is something to show.
+export const extensionUi = (page: Page): Locator => page.locator('html > div');
+
+// Focuses a password field once the content script has loaded (it runs at
+// document_idle) and put its key button on the field.
+export const focusPasswordField = async (page: Page, field: Locator) => {
+  await expect(async () => {
+    await field.blur();
+    await field.focus();
+    await expect(extensionUi(page)).toBeAttached({ timeout: 500 });
+  }).toPass();
+};
+
+// Opens the key button's menu with Alt+Down and picks the item `steps` below
+// "Generate password", the first one. Saved logins follow it once loaded.
+export const chooseFromKeyMenu = async (page: Page, steps = 0) => {
+  await page.keyboard.press('Alt+ArrowDown');
+  for (let i = 0; i < steps; i++) await page.keyboard.press('Tab');
+  await page.keyboard.press('Enter');
+};
+
+// Signs in and unlocks the vault from the toolbar popup.
+export const unlockVault = async (context: BrowserContext, extensionId: string, account: TestAccount) => {
+  const popup = await context.newPage();
+  await popup.goto(`chrome-extension://${extensionId}/popup.html`);
+  await popup.getByPlaceholder('Email').fill(account.email);
+  await popup.getByPlaceholder('Password', { exact: true }).fill(account.password);
+  await popup.getByRole('button', { name: 'Login', exact: true }).click();
+  await popup.getByPlaceholder('Master passphrase').fill(account.passphrase);
+  await popup.getByRole('button', { name: 'Unlock', exact: true }).click();
+  await expect(popup.getByText('Vault unlocked')).toBeVisible({ timeout: 30_000 }); // Key derivation is slow on purpose
+  await popup.close();
+};
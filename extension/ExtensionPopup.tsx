@@ -0,0 +1,133 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, Unlock, LogOut, RefreshCw } from 'lucide-react';
+import { isSupabaseConfigured } from './supabaseClient';
+import { signOut } from '../src/lib/auth';
+import { useAuth } from '../src/lib/authContext';
+import LoginPage from '../src/pages/LoginPage';
+import VaultUnlock from '../src/components/VaultUnlock';
+import { useI18n } from '../src/lib/localeContext';
+import type { ExtensionRequest, ExtensionResponse, ExtensionResult, ExtensionStatus } from './messages';
+
+const send = async <R extends ExtensionRequest>(request: R): Promise<ExtensionResult<R>> => {
+  const response = await chrome.runtime.sendMessage<R, ExtensionResponse<R>>(request);
+  if (!response.ok) throw new Error(response.error);
+  return response.value;
+};
+
+// A password from the user's default preset, to copy into a page the
+// extension doesn't recognise.
+const GeneratePanel: React.FC = () => {
+  const { t } = useI18n();
+  const [password, setPassword] = useState<string>('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const regenerate = useCallback(() => {
+    setNotice(null);
+    send({ type: 'generate' })
+      .then(setPassword)
+      .catch(error => setNotice(error instanceof Error ? error.message : t('extension.popup.generateFailed')));
+  }, [t]);
+
+  useEffect(regenerate, [regenerate]);
+
+  const copy = () => {
+    navigator.clipboard.writeText(password)
+      .then(() => setNotice(t('extension.popup.copied')))
+      .catch(() => setNotice(t('extension.popup.copyFailed')));
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center space-x-1 rtl:space-x-reverse">
+        <input
+          type="text"
+          readOnly
+          value={password}
+          aria-label={t('extension.popup.password')}
+          dir="ltr"
+          className="flex-grow p-2 border border-gray-300 rounded-md bg-gray-50 font-mono text-sm"
+        />
+        <button type="button" onClick={regenerate} className="p-2 text-gray-600 hover:text-orange-600" title={t('extension.popup.regenerate')} aria-label={t('extension.popup.regenerate')}>
+          <RefreshCw size={16} aria-hidden="true" />
+        </button>
+        <button type="button" onClick={copy} disabled={!password} className="p-2 text-gray-600 hover:text-orange-600" title={t('extension.popup.copy')} aria-label={t('generate.copy')}>
+          <Copy size={16} aria-hidden="true" />
+        </button>
+      </div>
+      {notice && <p role="status" className="mt-1 text-xs text-gray-500">{notice}</p>}
+    </div>
+  );
+};
+
+// The worker's vault: unlock it here to fill and save logins on pages.
+const VaultPanel: React.FC = () => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<ExtensionStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    send({ type: 'status' })
+      .then(setStatus)
+      .catch(err => setError(err instanceof Error ? err.message : t('extension.popup.unreachable')));
+  }, [t]);
+
+  const handleLogout = async () => {
+    await send({ type: 'lock' }).catch(() => undefined);
+    await signOut().catch(() => undefined); // The session is cleared even if the request fails
+  };
+
+  if (error) return <p role="alert" className="text-red-500 text-sm">{error}</p>;
+  if (!status) return <p className="text-sm text-gray-500">{t('app.loading')}</p>;
+
+  return (
+    <>
+      {status.unlocked ? (
+        <div className="mb-4 p-3 flex items-center justify-between bg-green-50 border border-green-200 rounded-md">
+          <p className="flex items-center text-sm text-green-800">
+            <Unlock size={16} className="me-1" aria-hidden="true" />
+            {t('extension.popup.unlocked')}
+          </p>
+          <button
+            type="button"
+            onClick={() => send({ type: 'lock' }).then(setStatus)}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md"
+          >
+            {t('extension.popup.lock')}
+          </button>
+        </div>
+      ) : (
+        <VaultUnlock isNewVault={false} onUnlock={async (passphrase) => setStatus(await send({ type: 'unlock', passphrase }))} />
+      )}
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="truncate">{status.email}</span>
+        <button type="button" onClick={handleLogout} className="flex items-center hover:text-red-600">
+          <LogOut size={14} className="me-1" aria-hidden="true" /> {t('nav.logout')}
+        </button>
+      </div>
+    </>
+  );
+};
+
+// The toolbar popup: sign in with the app's own sign-in steps, unlock, and
+// generate. Filling and saving happen on the page itself.
+const ExtensionPopup: React.FC = () => {
+  const { loading, user, mfaRequired } = useAuth();
+  const { t } = useI18n();
+
+  return (
+    <main className="w-80 p-4 bg-white">
+      <GeneratePanel />
+      {!isSupabaseConfigured ? (
+        <p className="text-sm text-gray-500">{t('extension.popup.notConfigured')}</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-500">{t('app.loading')}</p>
+      ) : user && !mfaRequired ? (
+        <VaultPanel key={user.id} />
+      ) : (
+        <LoginPage />
+      )}
+    </main>
+  );
+};
+
+export default ExtensionPopup;
@@ -0,0 +1,281 @@
+// The extension's background worker. It holds the unlocked vault for the
+// popup and the content scripts, and does everything that needs the session
+// or the keyring: generating with the user's default preset, looking up and
+// decrypting logins for a page, and saving new ones. Secrets only ever leave
+// it for the frame whose site they belong to, and not over plain http.
+
+import type { User } from '@supabase/supabase-js';
+import { isSupabaseConfigured, supabase } from './supabaseClient';
+import { getAssurance } from '../src/lib/auth';
+import { generate, validateCharacterPolicy, type GenerationMode, type GeneratorPolicy } from '../src/lib/generator';
+import { validatePassphraseOptions } from '../src/lib/passphrase';
+import { DEFAULT_GENERATOR_SETTINGS, presetSettings, type GeneratorSettings } from '../src/lib/presets';
+import { fetchPresets } from '../src/lib/presetRepository';
+import { fetchEntry, fetchKdfSamples, fetchSiteEntries, insertEntries, personalScope } from '../src/lib/passwordRepository';
+import { decryptPassword, newEntryRow, unlockVault } from '../src/lib/vault';
+import type { VaultKeyring } from '../src/lib/vaultCrypto';
+import { canFillPage, siteOrigin } from '../src/lib/sites';
+import { recordEvent } from '../src/lib/auditLog';
+import { DEFAULT_USER_SETTINGS } from '../src/lib/userSettings';
+import { detectLocale, localize, setActiveLocale } from '../src/lib/i18n';
+import type {
+  ContentMessage,
+  Credentials,
+  ExtensionRequest,
+  ExtensionResponse,
+  ExtensionStatus,
+  PendingSave,
+  SiteLogin,
+} from './messages';
+
+// Browsers stop an idle worker after about 30 seconds, which would drop the
+// keyring; calling an extension API more often than that keeps it running
+// while the vault is unlocked.
+const KEEP_ALIVE_MS = 20_000;
+
+// How long a submitted password can still be saved, e.g. across the redirect
+// after signing up
+const PENDING_SAVE_MS = 5 * 60_000;
+
+// Errors reach the popup and the pages in the browser's language
+setActiveLocale(detectLocale(navigator.languages));
+
+interface UnlockedVault {
+  userId: string;
+  keyring: VaultKeyring;
+  autoLockMinutes: number; // The account's auto-lock setting; 0 = never
+  lastUsed: number;
+}
+
+let vault: UnlockedVault | null = null;
+let keepAlive: ReturnType<typeof setInterval> | undefined;
+// The last password handed out by `generate`, so saving it records the mode
+// it came from; anything else the user typed is 'manual'.
+let lastGenerated: { password: string; mode: GenerationMode } | null = null;
+// Submitted passwords not yet saved or dismissed, by tab
+const pendingSaves = new Map<number, PendingSave & { origin: string; password: string; expires: number }>();
+
+const lock = () => {
+  vault = null;
+  lastGenerated = null;
+  pendingSaves.clear();
+  clearInterval(keepAlive);
+};
+
+// --- Session ---
+
+// The signed-in user, or null while signed out or before the second factor
+// (the database hides the vault until then anyway).
+const currentUser = async (): Promise<User | null> => {
+  if (!isSupabaseConfigured) return null;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+  const assurance = await getAssurance();
+  return assurance.current === 'aal1' && assurance.next === 'aal2' ? null : session.user;
+};
+
+const status = async (): Promise<ExtensionStatus> => {
+  const user = await currentUser();
+  if (vault && vault.userId !== user?.id) lock(); // Signed out, or in as someone else
+  return { email: user?.email ?? null, unlocked: vault !== null };
+};
+
+const unlock = async (passphrase: string): Promise<ExtensionStatus> => {
+  const user = await currentUser();
+  if (!user) throw new Error(localize('extension.error.signIn'));
+  const samples = await fetchKdfSamples(user.id);
+  // A first passphrase would become the master passphrase; that's the app's job.
+  if (samples.length === 0) throw new Error(localize('extension.error.emptyVault'));
+  const keyring = await unlockVault(passphrase, samples);
+
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('auto_lock_minutes')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error) console.error("Error fetching settings:", error);
+
+  vault = {
+    userId: user.id,
+    keyring,
+    autoLockMinutes: (data ?? DEFAULT_USER_SETTINGS).auto_lock_minutes,
+    lastUsed: Date.now(),
+  };
+  clearInterval(keepAlive);
+  keepAlive = setInterval(() => {
+    if (vault && vault.autoLockMinutes > 0 && Date.now() - vault.lastUsed > vault.autoLockMinutes * 60_000) {
+      lock();
+      return;
+    }
+    chrome.runtime.getPlatformInfo();
+  }, KEEP_ALIVE_MS);
+  return status();
+};
+
+// The unlocked vault, for the signed-in user only.
+const requireVault = async (): Promise<UnlockedVault> => {
+  await status();
+  if (!vault) throw new Error(localize('extension.error.locked'));
+  vault.lastUsed = Date.now();
+  return vault;
+};
+
+// --- Generating ---
+
+const policyFor = (settings: GeneratorSettings): GeneratorPolicy =>
+  settings.mode === 'passphrase'
+    ? { mode: 'passphrase', ...settings.passphrase_options }
+    : { mode: 'characters', ...settings.character_policy };
+
+const isValid = (settings: GeneratorSettings): boolean =>
+  (settings.mode === 'passphrase'
+    ? validatePassphraseOptions(settings.passphrase_options)
+    : validateCharacterPolicy(settings.character_policy)
+  ).length === 0;
+
+// The user's default preset, like the generator page starts with. A preset
+// this device can't use (say, with a wordlist added in the app) falls back to
+// the built-in defaults.
+const generatorSettings = async (): Promise<GeneratorSettings> => {
+  const user = await currentUser().catch(() => null);
+  if (!user) return DEFAULT_GENERATOR_SETTINGS;
+  try {
+    const preset = (await fetchPresets(user.id)).find(p => p.is_default);
+    const settings = preset && presetSettings(preset);
+    return settings && isValid(settings) ? settings : DEFAULT_GENERATOR_SETTINGS;
+  } catch {
+    return DEFAULT_GENERATOR_SETTINGS;
+  }
+};
+
+const generatePassword = async (): Promise<string> => {
+  const settings = await generatorSettings();
+  const password = generate(policyFor(settings));
+  lastGenerated = { password, mode: settings.mode };
+  return password;
+};
+
+// --- Logins ---
+
+const senderUrl = (sender: chrome.runtime.MessageSender): URL => {
+  const url = sender.url ? new URL(sender.url) : null;
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    throw new Error(localize('extension.error.webPagesOnly'));
+  }
+  return url;
+};
+
+// Whether the sender's frame may have the entry's login: the top frame of a
+// page on the entry's site (see `canFillPage`), or a frame showing exactly the
+// entry's origin. Other frames, say one embedded from a subdomain, get nothing.
+const mayFill = (entryUrl: string, sender: chrome.runtime.MessageSender): boolean => {
+  const page = senderUrl(sender);
+  return sender.frameId === 0 ? canFillPage(entryUrl, page.href) : page.origin === siteOrigin(entryUrl);
+};
+
+const logins = async (sender: chrome.runtime.MessageSender): Promise<SiteLogin[]> => {
+  const { userId } = await requireVault();
+  const entries = await fetchSiteEntries(personalScope(userId), senderUrl(sender).hostname);
+  return entries
+    .filter(entry => mayFill(entry.url!, sender))
+    .map(({ id, label, username }) => ({ id, label, username }));
+};
+
+const fill = async (id: string, sender: chrome.runtime.MessageSender): Promise<Credentials> => {
+  const { keyring } = await requireVault();
+  const host = senderUrl(sender).hostname;
+  const entry = await fetchEntry(id);
+  if (!entry.url || !mayFill(entry.url, sender)) throw new Error(localize('extension.error.otherSite'));
+  const password = await decryptPassword(keyring, entry);
+  recordEvent({ type: 'entry_filled', entry, details: { site: host } });
+  return { username: entry.username ?? '', password };
+};
+
+const tabId = (sender: chrome.runtime.MessageSender): number => {
+  if (sender.tab?.id === undefined) throw new Error(localize('extension.error.saveWebPagesOnly'));
+  return sender.tab.id;
+};
+
+// Offers to save only what isn't saved yet: a login whose username the site
+// doesn't have.
+const offerSave = async (credentials: Credentials, sender: chrome.runtime.MessageSender): Promise<boolean> => {
+  const { userId } = await requireVault();
+  const host = senderUrl(sender).hostname;
+  const username = credentials.username.trim();
+  const known = await fetchSiteEntries(personalScope(userId), host);
+  if (!credentials.password || known.some(e => (e.username ?? '').toLowerCase() === username.toLowerCase())) return false;
+
+  const tab = tabId(sender);
+  pendingSaves.set(tab, {
+    host: host.replace(/^www\./, ''),
+    origin: new URL(sender.url!).origin,
+    username,
+    password: credentials.password,
+    expires: Date.now() + PENDING_SAVE_MS,
+  });
+  const message: ContentMessage = { type: 'saveOffered' };
+  chrome.tabs.sendMessage(tab, message, { frameId: 0 }).catch(() => undefined); // The page may be navigating away
+  return true;
+};
+
+const pendingFor = (sender: chrome.runtime.MessageSender) => {
+  const tab = tabId(sender);
+  const pending = pendingSaves.get(tab);
+  if (pending && pending.expires < Date.now()) pendingSaves.delete(tab);
+  return pendingSaves.get(tab) ?? null;
+};
+
+const save = async (sender: chrome.runtime.MessageSender): Promise<null> => {
+  const { userId, keyring } = await requireVault();
+  const pending = pendingFor(sender);
+  if (!pending) throw new Error(localize('extension.error.nothingToSave'));
+  const { row } = await newEntryRow(keyring, userId, {
+    label: pending.host,
+    username: pending.username,
+    url: pending.origin,
+    notes: '',
+    totp: '',
+    tags: [],
+    folder: '',
+    password: pending.password,
+    source: lastGenerated?.password === pending.password ? lastGenerated.mode : 'manual',
+  });
+  await insertEntries([row]);
+  pendingSaves.delete(tabId(sender));
+  lastGenerated = null;
+  return null;
+};
+
+// --- Messages ---
+
+// Only the popup (an extension page, not a tab) may unlock or lock.
+const POPUP_ONLY: ExtensionRequest['type'][] = ['unlock', 'lock'];
+
+const handle = async (request: ExtensionRequest, sender: chrome.runtime.MessageSender): Promise<unknown> => {
+  if (sender.tab && POPUP_ONLY.includes(request.type)) throw new Error(localize('extension.error.notAllowed'));
+  switch (request.type) {
+    case 'status': return status();
+    case 'unlock': return unlock(request.passphrase);
+    case 'lock': lock(); return status();
+    case 'generate': return generatePassword();
+    case 'logins': return logins(sender);
+    case 'fill': return fill(request.id, sender);
+    case 'offerSave': return offerSave(request, sender);
+    case 'pendingSave': {
+      const pending = pendingFor(sender);
+      return pending && { host: pending.host, username: pending.username };
+    }
+    case 'save': return save(sender);
+    case 'dismissSave': pendingSaves.delete(tabId(sender)); return null;
+  }
+};
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  handle(message as ExtensionRequest, sender)
+    .then(value => sendResponse({ ok: true, value } as ExtensionResponse))
+    .catch(error => {
+      console.error("Error handling extension request:", error);
+      sendResponse({ ok: false, error: error instanceof Error ? error.message : localize('extension.error.failed') } as ExtensionResponse);
+    });
+  return true; // Answered asynchronously
+});
@@ -0,0 +1,311 @@
+// The content script: a key button on the focused password field that fills
+// in a generated password or a saved login for the site, and a bar offering
+// to save passwords submitted in forms. Everything else happens in the
+// background worker. The UI lives in a shadow root so page styles can't
+// reach it.
+
+import type { MessageKey } from '../src/lib/locales/en';
+import type { ContentMessage, ExtensionRequest, ExtensionResponse, ExtensionResult, SiteLogin } from './messages';
+
+const send = async <R extends ExtensionRequest>(request: R): Promise<ExtensionResult<R>> => {
+  const response = await chrome.runtime.sendMessage<R, ExtensionResponse<R>>(request);
+  if (!response.ok) throw new Error(response.error);
+  return response.value;
+};
+
+// The page's text comes from the _locales files the build writes out of the
+// app's catalogs, since this script can't load the catalogs themselves.
+const message = (key: MessageKey, ...substitutions: string[]) =>
+  chrome.i18n.getMessage(key.replace(/\./g, '_'), substitutions);
+
+// How long the "Saved" confirmation stays up
+const SAVED_NOTICE_MS = 3000;
+
+const USERNAME_TYPES = ['text', 'email', 'tel'];
+
+const STYLES = `
+  :host { all: initial; }
+  * { box-sizing: border-box; font: 13px/1.4 system-ui, sans-serif; }
+  .key {
+    position: fixed; z-index: 2147483647; width: 24px; height: 24px; padding: 0;
+    display: flex; align-items: center; justify-content: center;
+    color: #fff; background: #f97316; border: none; border-radius: 6px; cursor: pointer;
+  }
+  .key:hover { background: #ea580c; }
+  .panel {
+    position: fixed; z-index: 2147483647; min-width: 220px; max-width: 320px; padding: 4px;
+    color: #374151; background: #fff; border: 1px solid #d1d5db; border-radius: 8px;
+    box-shadow: 0 10px 15px -3px rgb(0 0 0 / 0.15);
+  }
+  .item {
+    display: block; width: 100%; padding: 6px 8px; text-align: start;
+    color: inherit; background: none; border: none; border-radius: 4px; cursor: pointer;
+  }
+  .item:hover, .item:focus { background: #ffedd5; outline: none; }
+  .note { padding: 6px 8px; color: #6b7280; }
+  .error { padding: 6px 8px; color: #ef4444; }
+  .bar { top: 12px; inset-inline-end: 12px; padding: 12px; }
+  .actions { display: flex; gap: 8px; margin-top: 8px; justify-content: flex-end; }
+  .button { padding: 4px 12px; border: none; border-radius: 6px; cursor: pointer; }
+  .primary { color: #fff; background: #22c55e; }
+  .secondary { color: #374151; background: #e5e7eb; }
+  [hidden] { display: none; }
+`;
+
+const KEY_ICON = '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><circle cx="7.5" cy="15.5" r="5.5"/><path d="m21 2-9.6 9.6"/><path d="m15.5 7.5 3 3L22 7l-3-3"/></svg>';
+
+// --- Page fields ---
+
+const isUsable = (input: HTMLInputElement): boolean =>
+  !input.disabled && !input.readOnly && input.getClientRects().length > 0;
+
+// The form the field is in, or the whole page for forms built without <form>.
+const scopeOf = (field: HTMLInputElement): ParentNode => field.form ?? document;
+
+const inputsIn = (scope: ParentNode): HTMLInputElement[] =>
+  Array.from(scope.querySelectorAll('input')).filter(isUsable);
+
+// The username for a password field: the one marked as such, or else the last
+// text field before it.
+const usernameFieldFor = (field: HTMLInputElement): HTMLInputElement | null => {
+  const inputs = inputsIn(scopeOf(field));
+  const before = inputs.slice(0, inputs.indexOf(field)).filter(input => USERNAME_TYPES.includes(input.type));
+  return before.find(input => /\b(username|email)\b/.test(input.autocomplete)) ?? before.at(-1) ?? null;
+};
+
+// Sets the value through the prototype's setter, so frameworks that track
+// the value (React, for one) see the change.
+const setValue = (input: HTMLInputElement, value: string) => {
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, value);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+};
+
+// --- UI ---
+
+const host = document.createElement('div');
+host.dir = chrome.i18n.getMessage('@@bidi_dir');
+const root = host.attachShadow({ mode: 'closed' });
+root.innerHTML = `<style>${STYLES}</style>`;
+
+const element = <K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text = ''): HTMLElementTagNameMap[K] => {
+  const el = document.createElement(tag);
+  el.className = className;
+  el.textContent = text;
+  return el;
+};
+
+const keyButton = element('button', 'key');
+keyButton.type = 'button';
+keyButton.innerHTML = KEY_ICON;
+keyButton.title = message('extension.page.keyTitle');
+keyButton.setAttribute('aria-label', message('extension.page.key'));
+keyButton.setAttribute('aria-haspopup', 'menu');
+keyButton.hidden = true;
+
+const menu = element('div', 'panel');
+menu.setAttribute('role', 'menu');
+menu.hidden = true;
+
+const saveBar = element('div', 'panel bar');
+saveBar.setAttribute('role', 'dialog');
+saveBar.setAttribute('aria-label', message('extension.page.saveBar'));
+saveBar.hidden = true;
+
+root.append(keyButton, menu, saveBar);
+
+const attach = () => {
+  if (!host.isConnected) document.documentElement.append(host);
+};
+
+// --- Key button and menu ---
+
+let field: HTMLInputElement | null = null; // The password field the button is on
+
+const place = () => {
+  if (!field) return;
+  const rect = field.getBoundingClientRect();
+  keyButton.style.top = `${rect.top + (rect.height - 24) / 2}px`;
+  keyButton.style.left = `${rect.right - 28}px`;
+  menu.style.top = `${rect.bottom + 4}px`;
+  menu.style.left = `${Math.max(rect.right - 220, 4)}px`;
+};
+
+const closeMenu = () => {
+  menu.hidden = true;
+  keyButton.setAttribute('aria-expanded', 'false');
+};
+
+const hide = () => {
+  closeMenu();
+  keyButton.hidden = true;
+  field = null;
+};
+
+const showFor = (input: HTMLInputElement) => {
+  field = input;
+  attach();
+  keyButton.hidden = false;
+  place();
+};
+
+const showMenuMessage = (kind: 'note' | 'error', text: string) => {
+  const line = element('div', kind, text);
+  if (kind === 'error') line.setAttribute('role', 'alert');
+  menu.append(line);
+};
+
+const menuItem = (text: string, onSelect: () => Promise<void>): HTMLButtonElement => {
+  const item = element('button', 'item', text);
+  item.type = 'button';
+  item.setAttribute('role', 'menuitem');
+  item.addEventListener('click', () => {
+    onSelect()
+      .then(() => {
+        const input = field;
+        hide();
+        input?.focus();
+      })
+      .catch(error => showMenuMessage('error', error instanceof Error ? error.message : String(error)));
+  });
+  return item;
+};
+
+// Fills the field, and any empty password fields after it (a "confirm" box).
+const fillGenerated = async (input: HTMLInputElement) => {
+  const password = await send({ type: 'generate' });
+  const passwords = inputsIn(scopeOf(input)).filter(i => i.type === 'password');
+  passwords.slice(passwords.indexOf(input) + 1).filter(i => !i.value).forEach(i => setValue(i, password));
+  setValue(input, password);
+};
+
+const fillLogin = async (input: HTMLInputElement, login: SiteLogin) => {
+  const credentials = await send({ type: 'fill', id: login.id });
+  const username = usernameFieldFor(input);
+  if (username && credentials.username) setValue(username, credentials.username);
+  setValue(input, credentials.password);
+};
+
+const openMenu = async (focusFirst: boolean) => {
+  const input = field;
+  if (!input) return;
+  menu.replaceChildren(menuItem(message('extension.page.generate'), () => fillGenerated(input)));
+  menu.hidden = false;
+  keyButton.setAttribute('aria-expanded', 'true');
+  if (focusFirst) menu.querySelector<HTMLButtonElement>('.item')?.focus();
+
+  try {
+    const { unlocked } = await send({ type: 'status' });
+    if (!unlocked) {
+      showMenuMessage('note', message('extension.page.unlockToFill'));
+      return;
+    }
+    const logins = await send({ type: 'logins' });
+    if (field !== input || menu.hidden) return; // Closed meanwhile
+    if (logins.length === 0) showMenuMessage('note', message('extension.page.noLogins'));
+    logins.forEach(login => menu.append(menuItem(
+      message('extension.page.fill', login.username || login.label || message('extension.page.savedLogin')),
+      () => fillLogin(input, login)
+    )));
+  } catch (error) {
+    showMenuMessage('error', error instanceof Error ? error.message : String(error));
+  }
+};
+
+keyButton.addEventListener('click', () => {
+  if (menu.hidden) openMenu(false);
+  else closeMenu();
+});
+
+root.addEventListener('keydown', (e) => {
+  const event = e as KeyboardEvent;
+  if (event.key !== 'Escape') return;
+  const input = field;
+  hide();
+  input?.focus();
+});
+
+document.addEventListener('focusin', (e) => {
+  if (e.target instanceof HTMLInputElement && e.target.type === 'password' && isUsable(e.target)) {
+    if (e.target !== field) closeMenu();
+    showFor(e.target);
+  }
+});
+
+// Focus inside the button and menu shows up as the host, from outside the
+// shadow root; moving between them and the field keeps them open.
+document.addEventListener('focusout', (e) => {
+  if (field && (e.target === field || e.target === host) && e.relatedTarget !== host && e.relatedTarget !== field) hide();
+});
+
+document.addEventListener('keydown', (e) => {
+  if (e.target === field && e.altKey && e.key === 'ArrowDown') {
+    e.preventDefault();
+    openMenu(true);
+  }
+});
+
+document.addEventListener('scroll', place, true);
+window.addEventListener('resize', place);
+
+// --- Saving ---
+
+const showSaveBar = async () => {
+  const pending = await send({ type: 'pendingSave' }).catch(() => null);
+  if (!pending) return;
+
+  const title = element('div', '', message('extension.page.saveTitle', pending.host));
+  const detail = element('div', 'note', pending.username || message('extension.page.noUsername'));
+  const error = element('div', 'error');
+  error.setAttribute('role', 'alert');
+  error.hidden = true;
+  const saveButton = element('button', 'button primary', message('extension.page.save'));
+  const dismissButton = element('button', 'button secondary', message('extension.page.notNow'));
+
+  saveButton.addEventListener('click', () => {
+    saveButton.disabled = true;
+    send({ type: 'save' })
+      .then(() => {
+        saveBar.replaceChildren(element('div', '', message('extension.page.saved')));
+        setTimeout(() => { saveBar.hidden = true; }, SAVED_NOTICE_MS);
+      })
+      .catch(err => {
+        error.textContent = err instanceof Error ? err.message : String(err);
+        error.hidden = false;
+        saveButton.disabled = false;
+      });
+  });
+  dismissButton.addEventListener('click', () => {
+    saveBar.hidden = true;
+    send({ type: 'dismissSave' }).catch(() => undefined);
+  });
+
+  const actions = element('div', 'actions');
+  actions.append(dismissButton, saveButton);
+  saveBar.replaceChildren(title, detail, error, actions);
+  attach();
+  saveBar.hidden = false;
+};
+
+// The submitted form's new password if it has one (sign-up, change password),
+// else its last filled password field.
+const submittedCredentials = (form: HTMLFormElement) => {
+  const passwords = inputsIn(form).filter(input => input.type === 'password' && input.value);
+  const password = passwords.find(input => input.autocomplete === 'new-password') ?? passwords.at(-1);
+  if (!password) return null;
+  return { username: usernameFieldFor(password)?.value ?? '', password: password.value };
+};
+
+document.addEventListener('submit', (e) => {
+  const credentials = e.target instanceof HTMLFormElement ? submittedCredentials(e.target) : null;
+  // The worker tells the top frame when there's something to offer. Failing
+  // quietly is right here: a locked vault just means no offer.
+  if (credentials) send({ type: 'offerSave', ...credentials }).catch(() => undefined);
+}, true);
+
+if (window === window.top) {
+  chrome.runtime.onMessage.addListener((message) => {
+    if ((message as ContentMessage).type === 'saveOffered') showSaveBar();
+  });
+  showSaveBar(); // Offered before the page navigated here
+}
@@ -0,0 +1,64 @@
+// What the popup and the content script ask the background worker, and what
+// it answers. Types only: the content script can't share code with the other
+// entries (see vite.extension.config.ts), so each side sends its own messages.
+
+export type ExtensionRequest =
+  | { type: 'status' }
+  | { type: 'unlock'; passphrase: string }
+  | { type: 'lock' }
+  | { type: 'generate' }
+  // Logins are always for the sender's frame; the worker never takes a URL on trust.
+  | { type: 'logins' }
+  | { type: 'fill'; id: string }
+  // A form with a password was submitted. The worker keeps the password and,
+  // if it's new for the site, has the tab's top frame offer to save it.
+  | { type: 'offerSave'; username: string; password: string }
+  | { type: 'pendingSave' }
+  | { type: 'save' }
+  | { type: 'dismissSave' };
+
+export interface ExtensionStatus {
+  email: string | null; // null when signed out, or the second factor is still due
+  unlocked: boolean;
+}
+
+// A saved login for the current page, without its secret.
+export interface SiteLogin {
+  id: string;
+  label: string | null;
+  username: string | null;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+// A password waiting to be saved, without the password.
+export interface PendingSave {
+  host: string;
+  username: string;
+}
+
+interface Results {
+  status: ExtensionStatus;
+  unlock: ExtensionStatus;
+  lock: ExtensionStatus;
+  generate: string;
+  logins: SiteLogin[];
+  fill: Credentials;
+  offerSave: boolean; // Whether saving will be offered
+  pendingSave: PendingSave | null;
+  save: null;
+  dismissSave: null;
+}
+
+export type ExtensionResult<R extends ExtensionRequest> = Results[R['type']];
+
+// Errors come back as messages fit to show the user.
+export type ExtensionResponse<R extends ExtensionRequest = ExtensionRequest> =
+  | { ok: true; value: ExtensionResult<R> }
+  | { ok: false; error: string };
+
+// Sent by the worker to a tab's top frame.
+export type ContentMessage = { type: 'saveOffered' };
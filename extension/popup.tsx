@@ -0,0 +1,16 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import ExtensionPopup from './ExtensionPopup.tsx'
+import AuthProvider from '../src/components/AuthProvider.tsx'
+import LocaleProvider from '../src/components/LocaleProvider.tsx'
+import '../src/index.css'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <AuthProvider>
+      <LocaleProvider>
+        <ExtensionPopup />
+      </LocaleProvider>
+    </AuthProvider>
+  </StrictMode>,
+)
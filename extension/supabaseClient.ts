@@ -0,0 +1,42 @@
+import { createClient, navigatorLock, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../src/lib/database.types'
+
+// Stands in for src/lib/supabaseClient.ts in the extension build (see
+// vite.extension.config.ts). The popup and the background worker keep the
+// session in extension storage instead of localStorage, which workers don't
+// have, so both use the one session the popup signed in with. The lock keeps
+// them from refreshing it at the same time, as it does for tabs of the app.
+// It is a separate sign-in from the app's: the app's session lives in its own
+// origin's localStorage, and two clients refreshing one session would trip
+// Supabase's refresh token reuse detection, which signs both out.
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+if (!isSupabaseConfigured) {
+  console.warn("Supabase URL and Anon Key are not set in .env; the extension can only generate passwords.")
+}
+
+const extensionStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    const value = (await chrome.storage.local.get(key))[key]
+    return typeof value === 'string' ? value : null
+  },
+  setItem: (key: string, value: string): Promise<void> => chrome.storage.local.set({ [key]: value }),
+  removeItem: (key: string): Promise<void> => chrome.storage.local.remove(key),
+}
+
+// As in the app: without a project, using the client fails with the reason.
+const unconfiguredClient = new Proxy({} as SupabaseClient<Database>, {
+  get: (_target, property) => {
+    throw new Error(`Supabase is not configured (set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY); can't use supabase.${String(property)}.`)
+  },
+})
+
+export const supabase: SupabaseClient<Database> = isSupabaseConfigured
+  ? createClient<Database>(supabaseUrl!, supabaseAnonKey!, {
+    auth: { storage: extensionStorage, lock: navigatorLock, detectSessionInUrl: false },
+  })
+  : unconfiguredClient
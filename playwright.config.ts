@@ -0,0 +1,21 @@
+import { defineConfig } from '@playwright/test'
+
+// End-to-end tests of the browser extension (e2e/). They load the unpacked
+// build from dist-extension, so build it first: `npm run test:e2e` does both.
+// The fixture pages are served over plain http on localhost.
+export default defineConfig({
+  testDir: './e2e',
+  fullyParallel: false,
+  workers: 1, // Each test starts its own browser with the extension loaded
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? 'list' : 'html',
+  use: {
+    baseURL: 'http://localhost:4174',
+    trace: 'retain-on-failure',
+  },
+  webServer: {
+    command: 'npx --no-install vite e2e/fixtures --port 4174 --strictPort',
+    url: 'http://localhost:4174/signup.html',
+    reuseExistingServer: !process.env.CI,
+  },
+})
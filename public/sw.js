@@ -0,0 +1,67 @@
+// Service worker: caches the app shell so the generator (and the encrypted
+// offline vault) keep working without a connection. Only same-origin GETs are
+// handled; Supabase and breach-check requests always go to the network.
+
+// Replaced with a hash of the build's bundles when building (see
+// vite.config.ts), so each deploy gets its own cache.
+const CACHE_NAME = 'password-gen-shell-__BUILD_VERSION__';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Vite fingerprints the built bundles, so their URLs are read from index.html.
+const bundleUrls = async () => {
+  const response = await fetch('/index.html', { cache: 'no-store' });
+  const html = await response.text();
+  return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll([...SHELL_URLS, ...await bundleUrls()]);
+    await self.skipWaiting();
+  })());
+});
+
+// Earlier builds' caches, with their bundles, are dropped once this one is in charge.
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages: network first, so a deploy is picked up as soon as we're online.
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        // An error page mustn't replace the offline shell
+        if (response.ok) {
+          const cache = await caches.open(CACHE_NAME);
+          await cache.put('/index.html', response.clone());
+        }
+        return response;
+      } catch {
+        return (await caches.match('/index.html')) ?? Response.error();
+      }
+    })());
+    return;
+  }
+
+  // Fingerprinted assets never change, so the cache wins.
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname.startsWith('/assets/')) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
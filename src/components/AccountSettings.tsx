@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import {
+  MIN_ACCOUNT_PASSWORD_LENGTH,
+  changeEmail,
+  countRecoveryCodes,
+  enrollTotp,
+  generateRecoveryCodes,
+  listTotpFactors,
+  unenrollTotp,
+  updatePassword,
+  verifyTotp,
+  type TotpEnrollment,
+} from '../lib/auth';
+import { useAuth } from '../lib/authContext';
+import { clipboardService } from '../lib/clipboard';
+import { useConfirm } from '../lib/dialogContext';
+import { useI18n } from '../lib/localeContext';
+
+interface AccountSettingsProps {
+  user: User;
+}
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm";
+const buttonClass = "px-3 py-2 text-sm font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-md disabled:bg-gray-400 disabled:cursor-not-allowed";
+
+const messageOf = (err: unknown, fallback: string) => err instanceof Error ? err.message : fallback;
+
+// Email, login password and two-step verification for the signed-in account.
+const AccountSettings: React.FC<AccountSettingsProps> = ({ user }) => {
+  const { refreshAssurance } = useAuth();
+  const confirm = useConfirm();
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const [newEmail, setNewEmail] = useState<string>('');
+  const [newPassword, setNewPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+
+  // The verified TOTP factor: undefined while loading, null when MFA is off
+  const [factorId, setFactorId] = useState<string | null | undefined>(undefined);
+  const [codesLeft, setCodesLeft] = useState<number>(0);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [verifyCode, setVerifyCode] = useState<string>('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const loadMfaStatus = useCallback(async () => {
+    const verified = (await listTotpFactors()).find(f => f.status === 'verified');
+    setFactorId(verified?.id ?? null);
+    setCodesLeft(verified ? await countRecoveryCodes(user.id) : 0);
+  }, [user.id]);
+
+  useEffect(() => {
+    loadMfaStatus().catch(err => setError(messageOf(err, t('account.mfaLoadFailed'))));
+  }, [loadMfaStatus, t]);
+
+  // Runs an action with shared busy/error/notice handling.
+  const run = async (action: () => Promise<string | void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const message = await action();
+      if (message) setNotice(message);
+    } catch (err) {
+      setError(messageOf(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await changeEmail(newEmail);
+      setNewEmail('');
+      return t('account.emailConfirm', { email: newEmail });
+    }, t('account.emailFailed'));
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (newPassword.length < MIN_ACCOUNT_PASSWORD_LENGTH) {
+        throw new Error(t('newPassword.tooShort', { min: MIN_ACCOUNT_PASSWORD_LENGTH }));
+      }
+      if (newPassword !== confirmPassword) throw new Error(t('newPassword.mismatch'));
+      await updatePassword(newPassword);
+      setNewPassword('');
+      setConfirmPassword('');
+      return t('account.passwordUpdated');
+    }, t('newPassword.failed'));
+  };
+
+  const handleStartEnrollment = () => run(async () => {
+    setEnrollment(await enrollTotp());
+    setVerifyCode('');
+  }, t('account.setUpFailed'));
+
+  // Verifying upgrades the session to aal2, which generating codes requires.
+  const handleVerifyEnrollment = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await verifyTotp(enrollment!.factorId, verifyCode);
+      setEnrollment(null);
+      await refreshAssurance();
+      setRecoveryCodes(await generateRecoveryCodes());
+      await loadMfaStatus();
+      return t('account.mfaEnabled');
+    }, t('account.verifyFailed'));
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!await confirm({
+      title: t('account.replaceCodesConfirm'),
+      message: t('account.replaceCodesMessage'),
+      confirmLabel: t('account.replaceCodes'),
+    })) return;
+    run(async () => {
+      setRecoveryCodes(await generateRecoveryCodes());
+      await loadMfaStatus();
+    }, t('account.codesFailed'));
+  };
+
+  const handleDisable = async () => {
+    if (!await confirm({
+      title: t('account.disableConfirm'),
+      message: t('account.disableMessage'),
+      confirmLabel: t('account.turnOff'),
+      destructive: true,
+    })) return;
+    run(async () => {
+      await unenrollTotp(factorId!);
+      setRecoveryCodes(null);
+      await refreshAssurance();
+      await loadMfaStatus();
+      return t('account.mfaDisabled');
+    }, t('account.disableFailed'));
+  };
+
+  return (
+    <div className="mb-6 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-4">
+      <h2 className="text-sm font-semibold text-gray-700">{t('account.title')}</h2>
+
+      <form onSubmit={handleChangeEmail} className="space-y-2">
+        <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700">
+          {t('account.email')} <span className="font-normal text-gray-500">({user.email})</span>
+        </label>
+        {user.new_email && (
+          <p className="text-xs text-gray-500">{t('account.emailPending', { email: user.new_email })}</p>
+        )}
+        <div className="flex space-x-2 rtl:space-x-reverse">
+          <input
+            id="newEmail"
+            type="email"
+            placeholder={t('account.newEmail')}
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            required
+            autoComplete="email"
+            className={inputClass}
+          />
+          <button type="submit" disabled={busy} className={buttonClass}>{t('account.emailChange')}</button>
+        </div>
+      </form>
+
+      <form onSubmit={handleChangePassword} className="space-y-2">
+        <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">{t('account.password')}</label>
+        <input
+          id="newPassword"
+          type="password"
+          placeholder={t('newPassword.password')}
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        <div className="flex space-x-2 rtl:space-x-reverse">
+          <input
+            type="password"
+            placeholder={t('newPassword.confirm')}
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <button type="submit" disabled={busy} className={buttonClass}>{t('account.passwordUpdate')}</button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <span className="block text-sm font-medium text-gray-700">{t('account.mfa')}</span>
+        {factorId === undefined ? (
+          <p className="text-xs text-gray-500">{t('app.loading')}</p>
+        ) : factorId ? (
+          <>
+            <p className="text-sm text-green-700">
+              {t('account.mfaOn', { count: codesLeft })}
+            </p>
+            <div className="flex space-x-2 rtl:space-x-reverse">
+              <button type="button" onClick={handleRegenerateCodes} disabled={busy} className={buttonClass}>
+                {t('account.newCodes')}
+              </button>
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={busy}
+                className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800 disabled:text-gray-400"
+              >
+                {t('account.turnOff')}
+              </button>
+            </div>
+          </>
+        ) : enrollment ? (
+          <form onSubmit={handleVerifyEnrollment} className="space-y-2">
+            <p className="text-xs text-gray-600">{t('account.scan')}</p>
+            <img src={enrollment.qrCode} alt={t('account.qrAlt')} className="h-40 w-40 mx-auto bg-white p-1 border border-gray-200" />
+            <p className="text-xs text-gray-600 break-all">
+              {t('account.manualKey')} <code className="font-mono text-gray-800">{enrollment.secret}</code>
+            </p>
+            <div className="flex space-x-2 rtl:space-x-reverse">
+              <input
+                type="text"
+                placeholder="123456"
+                value={verifyCode}
+                onChange={(e) => setVerifyCode(e.target.value)}
+                required
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className={`${inputClass} font-mono tracking-widest`}
+              />
+              <button type="submit" disabled={busy} className={buttonClass}>{t('account.verify')}</button>
+            </div>
+            <button type="button" onClick={() => setEnrollment(null)} className="text-xs text-gray-500 hover:text-gray-800">
+              {t('dialog.cancel')}
+            </button>
+          </form>
+        ) : (
+          <>
+            <p className="text-xs text-gray-500">{t('account.mfaIntro')}</p>
+            <button type="button" onClick={handleStartEnrollment} disabled={busy} className={buttonClass}>
+              {t('account.setUp')}
+            </button>
+          </>
+        )}
+      </div>
+
+      {recoveryCodes && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md space-y-2">
+          <p className="text-sm font-medium text-yellow-800">
+            {t('account.codesSave')}
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-800">
+            {recoveryCodes.map((code) => <li key={code}>{code}</li>)}
+          </ul>
+          <div className="flex space-x-3 rtl:space-x-reverse">
+            <button
+              type="button"
+              onClick={() => clipboardService.copy(recoveryCodes.join('\n'), t('account.codes'))}
+              className="text-xs text-orange-600 hover:underline"
+            >
+              {t('account.copy')}
+            </button>
+            <button type="button" onClick={() => setRecoveryCodes(null)} className="text-xs text-gray-500 hover:text-gray-800">
+              {t('account.codesSaved')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p role="alert" className="text-red-500 text-sm">{error}</p>}
+      {notice && <p className="text-green-700 text-sm">{notice}</p>}
+    </div>
+  );
+};
+
+export default AccountSettings;
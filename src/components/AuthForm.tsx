@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { requestPasswordReset, signIn, signUp } from '../lib/auth';
+import { useI18n } from '../lib/localeContext';
+import type { MessageKey } from '../lib/locales/en';
+
+type AuthFormMode = 'login' | 'signup' | 'forgot';
+
+const TITLES: Record<AuthFormMode, MessageKey> = {
+  login: 'auth.login',
+  signup: 'auth.signUp',
+  forgot: 'auth.reset',
+};
+
+const inputClass = "w-full p-3 mb-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500";
+
+// Email and password sign-in, sign-up and the forgot-password request.
+const AuthForm: React.FC = () => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<AuthFormMode>('login');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const switchMode = (next: AuthFormMode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+    setPassword('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (mode === 'login') {
+        await signIn(email, password);
+      } else if (mode === 'signup') {
+        const needsConfirmation = await signUp(email, password);
+        if (needsConfirmation) {
+          setMode('login');
+          setPassword('');
+          setNotice(t('auth.confirmEmail'));
+        }
+      } else {
+        await requestPasswordReset(email);
+        setNotice(t('auth.resetSent'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('auth.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <h2 className="text-xl font-semibold text-center text-gray-700 mb-4">{t(TITLES[mode])}</h2>
+      <form onSubmit={handleSubmit}>
+        <input
+          type="email"
+          placeholder={t('account.email')}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          autoComplete="email"
+          className={inputClass}
+        />
+        {mode !== 'forgot' && (
+          <input
+            type="password"
+            placeholder={t('field.password')}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+            className={`${inputClass} mb-4`}
+          />
+        )}
+        {error && <p role="alert" className="text-red-500 text-sm mb-3">{error}</p>}
+        {notice && <p className="text-green-700 text-sm mb-3">{notice}</p>}
+        <button
+          type="submit"
+          disabled={busy}
+          className={`w-full p-3 text-lg font-semibold text-white rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 ${busy ? 'bg-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-orange-500 to-red-600 hover:from-orange-600 hover:to-red-700'}`}
+        >
+          {busy ? t('auth.processing') : mode === 'forgot' ? t('auth.sendReset') : t(TITLES[mode])}
+        </button>
+      </form>
+      {mode === 'login' && (
+        <button
+          onClick={() => switchMode('forgot')}
+          className="mt-3 text-center w-full text-sm text-gray-600 hover:underline"
+        >
+          {t('auth.forgot')}
+        </button>
+      )}
+      <button
+        onClick={() => switchMode(mode === 'login' ? 'signup' : 'login')}
+        className="mt-2 text-center w-full text-sm text-orange-600 hover:underline"
+      >
+        {mode === 'login' ? t('auth.needAccount') : t('auth.backToLogin')}
+      </button>
+    </>
+  );
+};
+
+export default AuthForm;
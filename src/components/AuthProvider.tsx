@@ -0,0 +1,80 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { isSupabaseConfigured, supabase } from '../lib/supabaseClient';
+import { getAssurance, type Assurance } from '../lib/auth';
+import { AuthContext, type AuthState } from '../lib/authContext';
+
+// Owns the Supabase session and its MFA assurance level for the whole app;
+// read it with `useAuth()`.
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loadingSession, setLoadingSession] = useState<boolean>(isSupabaseConfigured);
+  const [assurance, setAssurance] = useState<{ userId: string; value: Assurance } | null>(null);
+  const [passwordRecovery, setPasswordRecovery] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured) return; // Local-only mode: no accounts
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setLoadingSession(false);
+    });
+
+    // Other Supabase calls must not be awaited inside this callback (they
+    // would deadlock on the auth lock), so the assurance check runs in an effect.
+    const { data: authListener } = supabase.auth.onAuthStateChange((event, session) => {
+      setSession(session);
+      setLoadingSession(false);
+      if (event === 'PASSWORD_RECOVERY') setPasswordRecovery(true);
+      if (event === 'SIGNED_OUT') setPasswordRecovery(false);
+    });
+
+    return () => {
+      authListener?.subscription.unsubscribe();
+    };
+  }, []);
+
+  const refreshAssurance = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      setAssurance(null);
+      return;
+    }
+    setAssurance({ userId: session.user.id, value: await getAssurance() });
+  }, []);
+
+  // Re-checked on every new access token: verifying a factor or redeeming a
+  // recovery code changes the level. If the check fails the app isn't held
+  // up; the database still refuses vault data without the second factor.
+  const accessToken = session?.access_token;
+  const sessionUserId = session?.user.id;
+  useEffect(() => {
+    if (!accessToken || !sessionUserId) {
+      setAssurance(null);
+      return;
+    }
+    refreshAssurance().catch(error => {
+      console.error("Error checking assurance level:", error);
+      setAssurance({ userId: sessionUserId, value: { current: null, next: null } });
+    });
+  }, [accessToken, sessionUserId, refreshAssurance]);
+
+  const endPasswordRecovery = useCallback(() => setPasswordRecovery(false), []);
+
+  const value = useMemo<AuthState>(() => {
+    const userId = session?.user.id;
+    return {
+      session,
+      user: session?.user ?? null,
+      loading: loadingSession || (userId !== undefined && assurance?.userId !== userId),
+      mfaRequired: assurance?.value.current === 'aal1' && assurance.value.next === 'aal2',
+      passwordRecovery,
+      refreshAssurance,
+      endPasswordRecovery,
+    };
+  }, [session, loadingSession, assurance, passwordRecovery, refreshAssurance, endPasswordRecovery]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldX } from 'lucide-react';
+import { checkBreached } from '../lib/breach';
+import { useI18n } from '../lib/localeContext';
+
+interface BreachCheckProps {
+  password: string; // Remount (key) on change to clear the previous result
+}
+
+// Checks on demand only: every lookup sends a hash prefix to the breach API.
+const BreachCheck: React.FC<BreachCheckProps> = ({ password }) => {
+  const { t } = useI18n();
+  const [checking, setChecking] = useState<boolean>(false);
+  const [count, setCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      setCount(await checkBreached(password));
+    } catch (err) {
+      console.error("Error checking password against breaches:", err);
+      setError(err instanceof Error ? err.message : t('breach.failed'));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (count !== null) {
+    return count > 0 ? (
+      <p className="flex items-center justify-center text-sm text-red-600 mb-4">
+        <ShieldX size={16} className="me-1" /> {t('breach.found', { count })}
+      </p>
+    ) : (
+      <p className="flex items-center justify-center text-sm text-green-600 mb-4">
+        <ShieldCheck size={16} className="me-1" /> {t('breach.notFound')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-center mb-4">
+      <button
+        type="button"
+        onClick={handleCheck}
+        disabled={checking}
+        className="text-xs text-orange-600 hover:underline"
+        title={t('breach.privacy')}
+      >
+        {checking ? t('breach.checking') : t('breach.check')}
+      </button>
+      {error && <p role="alert" className="text-red-500 text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default BreachCheck;
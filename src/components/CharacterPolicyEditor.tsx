@@ -0,0 +1,159 @@
+import React from 'react';
+import {
+  AMBIGUOUS_CHARACTERS,
+  CHARACTER_CLASSES,
+  CHARACTER_SETS,
+  CLASS_LABELS,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  type CharacterClass,
+  type CharacterPolicy,
+  type ClassRule,
+} from '../lib/generator';
+import { useI18n } from '../lib/localeContext';
+
+interface CharacterPolicyEditorProps {
+  policy: CharacterPolicy;
+  errors: string[]; // From validateCharacterPolicy
+  onChange: (changes: Partial<CharacterPolicy>) => void;
+}
+
+const CLASS_HINTS: Record<CharacterClass, string> = {
+  uppercase: 'A-Z',
+  lowercase: 'a-z',
+  numbers: '0-9',
+  symbols: '!@#...',
+};
+
+const numberInputClass = "w-14 p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm text-center disabled:bg-gray-100";
+const textInputClass = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm font-mono";
+const checkboxClass = "h-4 w-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500 cursor-pointer";
+
+const CharacterPolicyEditor: React.FC<CharacterPolicyEditorProps> = ({ policy, errors, onChange }) => {
+  const { t } = useI18n();
+  const updateClass = (cls: CharacterClass, changes: Partial<ClassRule>) => {
+    onChange({ classes: { ...policy.classes, [cls]: { ...policy.classes[cls], ...changes } } });
+  };
+
+  return (
+    <>
+      {/* Length Slider */}
+      <div className="mb-6">
+        <label htmlFor="length" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('policy.length')} <span className="font-bold text-orange-600">{policy.length}</span>
+        </label>
+        <input
+          type="range"
+          id="length"
+          min={MIN_PASSWORD_LENGTH}
+          max={MAX_PASSWORD_LENGTH}
+          value={policy.length}
+          onChange={(e) => onChange({ length: parseInt(e.target.value, 10) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-slider"
+        />
+      </div>
+
+      {/* Character Classes with min/max counts */}
+      <div className="mb-4">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-2 items-center">
+          <span />
+          <span className="text-xs text-gray-500 text-center">{t('policy.min')}</span>
+          <span className="text-xs text-gray-500 text-center">{t('policy.max')}</span>
+          {CHARACTER_CLASSES.map((cls) => {
+            const rule = policy.classes[cls];
+            return (
+              <React.Fragment key={cls}>
+                <div className="flex items-center">
+                  <input type="checkbox" id={cls} checked={rule.enabled} onChange={(e) => updateClass(cls, { enabled: e.target.checked })} className={checkboxClass} />
+                  <label htmlFor={cls} className="ms-2 block text-sm text-gray-900 cursor-pointer">{t(CLASS_LABELS[cls])} ({CLASS_HINTS[cls]})</label>
+                </div>
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.min}
+                  disabled={!rule.enabled}
+                  onChange={(e) => updateClass(cls, { min: e.target.value === '' ? 0 : Number(e.target.value) })}
+                  className={numberInputClass}
+                  aria-label={t('policy.minimum', { class: t(CLASS_LABELS[cls]) })}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.max ?? ''}
+                  placeholder="—"
+                  disabled={!rule.enabled}
+                  onChange={(e) => updateClass(cls, { max: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={numberInputClass}
+                  aria-label={t('policy.maximum', { class: t(CLASS_LABELS[cls]) })}
+                />
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Alphabet Rules */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="symbolSet" className="block text-sm font-medium text-gray-700 mb-1">{t('policy.symbolSet')}</label>
+          <div className="flex space-x-1 rtl:space-x-reverse">
+            <input
+              type="text"
+              id="symbolSet"
+              value={policy.symbolSet}
+              disabled={!policy.classes.symbols.enabled}
+              onChange={(e) => onChange({ symbolSet: e.target.value })}
+              spellCheck={false}
+              className={`${textInputClass} disabled:bg-gray-100`}
+            />
+            {policy.symbolSet !== CHARACTER_SETS.symbols && (
+              <button
+                type="button"
+                onClick={() => onChange({ symbolSet: CHARACTER_SETS.symbols })}
+                className="px-2 text-xs text-gray-600 hover:text-gray-900"
+                title={t('policy.resetSymbols')}
+              >
+                {t('policy.reset')}
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label htmlFor="exclude" className="block text-sm font-medium text-gray-700 mb-1">{t('policy.exclude')}</label>
+          <input
+            type="text"
+            id="exclude"
+            value={policy.exclude}
+            placeholder={t('policy.excludePlaceholder')}
+            onChange={(e) => onChange({ exclude: e.target.value })}
+            spellCheck={false}
+            className={textInputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-6">
+        <div className="flex items-center">
+          <input type="checkbox" id="avoidAmbiguous" checked={policy.avoidAmbiguous} onChange={(e) => onChange({ avoidAmbiguous: e.target.checked })} className={checkboxClass} />
+          <label htmlFor="avoidAmbiguous" className="ms-2 block text-sm text-gray-900 cursor-pointer">{t('policy.avoidAmbiguous')} (<span className="font-mono">{AMBIGUOUS_CHARACTERS}</span>)</label>
+        </div>
+        <div className="flex items-center">
+          <input type="checkbox" id="noRepeats" checked={policy.noRepeats} onChange={(e) => onChange({ noRepeats: e.target.checked })} className={checkboxClass} />
+          <label htmlFor="noRepeats" className="ms-2 block text-sm text-gray-900 cursor-pointer">{t('policy.noRepeats')}</label>
+        </div>
+        <div className="flex items-center">
+          <input type="checkbox" id="startWithLetter" checked={policy.startWithLetter} onChange={(e) => onChange({ startWithLetter: e.target.checked })} className={checkboxClass} />
+          <label htmlFor="startWithLetter" className="ms-2 block text-sm text-gray-900 cursor-pointer">{t('policy.startWithLetter')}</label>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-red-500 text-sm mb-4 -mt-2 list-disc list-inside">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default CharacterPolicyEditor;
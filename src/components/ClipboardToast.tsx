@@ -0,0 +1,48 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { ClipboardCheck, ClipboardX } from 'lucide-react';
+import { clipboardService } from '../lib/clipboard';
+import { useI18n } from '../lib/localeContext';
+
+// Shows the outcome of the last copy, with a countdown to auto-clear. Screen
+// readers hear it through LiveAnnouncer rather than this short-lived element.
+const ClipboardToast: React.FC = () => {
+  const status = useSyncExternalStore(clipboardService.subscribe, clipboardService.getStatus);
+  const [now, setNow] = useState<number>(Date.now());
+  const { t } = useI18n();
+
+  const clearsAt = status?.kind === 'copied' ? status.clearsAt : null;
+  useEffect(() => {
+    if (clearsAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [clearsAt]);
+
+  if (!status) return null;
+
+  const secondsLeft = clearsAt !== null ? Math.max(0, Math.ceil((clearsAt - now) / 1000)) : null;
+  const isError = status.kind === 'error';
+
+  return (
+    <div
+      className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center px-4 py-2 text-sm text-white rounded-md shadow-lg ${isError ? 'bg-red-600' : 'bg-gray-800'}`}
+    >
+      {isError ? <ClipboardX size={16} className="me-2" aria-hidden="true" /> : <ClipboardCheck size={16} className="me-2" aria-hidden="true" />}
+      <span>
+        {status.message}
+        {secondsLeft !== null && ` · ${t('clipboard.clearsIn', { seconds: secondsLeft })}`}
+      </span>
+      {status.kind === 'copied' && (
+        <button
+          type="button"
+          onClick={clipboardService.clearNow}
+          className="ms-3 text-xs text-orange-300 hover:text-orange-200 underline"
+        >
+          {t('clipboard.clearNow')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ClipboardToast;
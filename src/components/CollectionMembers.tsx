@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trash2, UserPlus } from 'lucide-react';
+import {
+  COLLECTION_ROLES,
+  changeMemberRole,
+  deleteCollection,
+  fetchMembers,
+  inviteMember,
+  removeMember,
+  renameCollection,
+  rotateCollectionKey,
+  type CollectionMember,
+  type CollectionRole,
+  type Membership,
+} from '../lib/collections';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import { useOperations } from '../lib/operations';
+import { useConfirm } from '../lib/dialogContext';
+import { useI18n } from '../lib/localeContext';
+
+interface CollectionMembersProps {
+  membership: Membership;
+  keyring: VaultKeyring; // The collection's, to wrap its key for new members
+  userId: string;
+  onChanged: () => Promise<void>; // Reloads the user's memberships
+  onClose: () => void;
+}
+
+const ROLES = Object.keys(COLLECTION_ROLES) as CollectionRole[];
+
+// Who a shared collection is shared with. Owners invite by email, change
+// roles, remove members, and rename or delete the collection; anyone can leave.
+const CollectionMembers: React.FC<CollectionMembersProps> = ({ membership, keyring, userId, onChanged, onClose }) => {
+  const { collectionId, role } = membership;
+  const isOwner = role === 'owner';
+  const { run, isPending, error: operationError } = useOperations();
+  const confirm = useConfirm();
+  const { t } = useI18n();
+
+  const [members, setMembers] = useState<CollectionMember[] | null>(null);
+  const [email, setEmail] = useState<string>('');
+  const [inviteRole, setInviteRole] = useState<CollectionRole>('viewer');
+  const [name, setName] = useState<string>(membership.name);
+
+  const loadMembers = useCallback(async () => {
+    const loaded = await run('members', () => fetchMembers(collectionId), t('collection.membersFailed'));
+    if (loaded) setMembers(loaded);
+  }, [run, collectionId, t]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invited = await run('invite', async () => {
+      await inviteMember(collectionId, keyring, userId, email, inviteRole);
+      return true;
+    }, t('collection.inviteFailed'));
+    if (!invited) return;
+    setEmail('');
+    await loadMembers();
+  };
+
+  const handleChangeRole = async (member: CollectionMember, next: CollectionRole) => {
+    await run('members', async () => {
+      await changeMemberRole(collectionId, member.user_id, next);
+      await loadMembers();
+      if (member.user_id === userId) await onChanged();
+    }, t('collection.roleFailed'));
+  };
+
+  const handleRemove = async (member: CollectionMember) => {
+    const leaving = member.user_id === userId;
+    const confirmed = await confirm(leaving
+      ? {
+        title: t('collection.leaveConfirm', { name: membership.name }),
+        message: t('collection.leaveConfirmMessage'),
+        confirmLabel: t('collection.leaveLabel'),
+        destructive: true,
+      }
+      : {
+        title: t('collection.removeConfirm', { email: member.email, name: membership.name }),
+        message: t('collection.removeConfirmMessage'),
+        confirmLabel: t('dialog.remove'),
+        destructive: true,
+      });
+    if (!confirmed) return;
+    const removed = await run('members', async () => {
+      await removeMember(collectionId, member.user_id);
+      if (leaving) await onChanged();
+      else await loadMembers();
+      return !leaving;
+    }, leaving ? t('collection.leaveFailed') : t('collection.removeFailed'));
+    if (removed) await handleRotateKey();
+  };
+
+  // Also offered again if replacing the key failed after a removal.
+  const handleRotateKey = async () => {
+    await run('rotate', async () => {
+      await rotateCollectionKey(userId, collectionId, keyring);
+      await onChanged(); // Picks up our copy of the new key
+    }, t('collection.rotateFailed'));
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await run('collection', async () => {
+      await renameCollection(collectionId, name.trim());
+      await onChanged();
+    }, t('collection.renameFailed'));
+  };
+
+  const handleDelete = async () => {
+    if (!await confirm({
+      title: t('collection.deleteConfirm', { name: membership.name }),
+      message: t('collection.deleteConfirmMessage'),
+      confirmLabel: t('collection.delete'),
+      destructive: true,
+    })) return;
+    await run('collection', async () => {
+      await deleteCollection(collectionId);
+      await onChanged();
+    }, t('collection.deleteFailed'));
+  };
+
+  const self = members?.find(m => m.user_id === userId);
+  const errors = ['members', 'invite', 'collection']
+    .map(key => operationError(key))
+    .filter((message): message is string => message !== null);
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-semibold text-gray-700">{t('collection.membersOf', { name: membership.name })}</span>
+        <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800" aria-label={t('collection.closeMembers')}>{t('dialog.close')}</button>
+      </div>
+
+      {members === null ? (
+        <p className="text-gray-500 text-sm">{t('collection.loadingMembers')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {members.map((m) => (
+            <li key={m.user_id} className="flex items-center justify-between text-sm">
+              <span className="truncate me-2" title={m.email}>
+                {m.email}{m.user_id === userId && <span className="text-gray-500"> {t('collection.you')}</span>}
+              </span>
+              <div className="flex items-center space-x-1 rtl:space-x-reverse flex-shrink-0">
+                {isOwner ? (
+                  <select
+                    value={m.role}
+                    onChange={(e) => handleChangeRole(m, e.target.value as CollectionRole)}
+                    disabled={isPending('members')}
+                    className="p-1 border border-gray-300 rounded-md text-xs"
+                    aria-label={t('collection.roleOf', { email: m.email })}
+                  >
+                    {ROLES.map(r => <option key={r} value={r}>{t(COLLECTION_ROLES[r].label)}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-xs text-gray-500">{t(COLLECTION_ROLES[m.role].label)}</span>
+                )}
+                {isOwner && m.user_id !== userId && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(m)}
+                    disabled={isPending('members')}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title={t('collection.removeMember')}
+                    aria-label={t('collection.removeMemberFor', { email: m.email })}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="space-y-1">
+          <div className="flex space-x-2 rtl:space-x-reverse">
+            <input
+              type="email"
+              placeholder={t('collection.invitePlaceholder')}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="flex-grow min-w-0 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as CollectionRole)}
+              className="p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+              aria-label={t('collection.inviteRole')}
+            >
+              {ROLES.map(r => <option key={r} value={r}>{t(COLLECTION_ROLES[r].label)}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={isPending('invite') || !email.trim()}
+              className="flex items-center px-3 py-1 text-sm text-white bg-green-500 hover:bg-green-600 rounded-md disabled:bg-gray-400"
+            >
+              <UserPlus size={14} className="me-1" /> {t('collection.invite')}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">{t(COLLECTION_ROLES[inviteRole].description)}</p>
+        </form>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleRename} className="flex space-x-2 rtl:space-x-reverse">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            className="flex-grow min-w-0 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+            aria-label={t('collection.name')}
+          />
+          <button
+            type="submit"
+            disabled={isPending('collection') || !name.trim() || name.trim() === membership.name}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md disabled:text-gray-400"
+          >
+            {t('collection.rename')}
+          </button>
+        </form>
+      )}
+
+      {errors.map(message => <p key={message} role="alert" className="text-red-500 text-sm">{message}</p>)}
+      {isPending('rotate') && <p role="status" className="text-gray-500 text-sm">{t('collection.rotating')}</p>}
+      {isOwner && operationError('rotate') && (
+        <div role="alert" className="text-red-500 text-sm">
+          {t('collection.rotateRetry', { error: operationError('rotate') ?? '' })}{' '}
+          <button type="button" onClick={handleRotateKey} className="underline hover:text-red-700">{t('collection.tryAgain')}</button>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        {self && (
+          <button
+            type="button"
+            onClick={() => handleRemove(self)}
+            disabled={isPending('members')}
+            className="text-xs text-gray-600 hover:text-red-600"
+            title={t('collection.leaveHint')}
+          >
+            {t('collection.leave')}
+          </button>
+        )}
+        {isOwner && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isPending('collection')}
+            className="text-xs text-red-600 hover:text-red-800"
+          >
+            {t('collection.delete')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionMembers;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Users } from 'lucide-react';
+import type { Membership } from '../lib/collections';
+import { useI18n } from '../lib/localeContext';
+
+interface CollectionPickerProps {
+  memberships: Membership[];
+  selected: Membership | null; // null for the personal vault
+  onSelect: (membership: Membership | null) => void;
+  onCreate: (name: string) => Promise<void>;
+  canCreate: boolean; // False until the user's sharing keys are loaded
+  onShowMembers: () => void;
+}
+
+// Switches the vault page between the personal vault and shared collections.
+const CollectionPicker: React.FC<CollectionPickerProps> = ({
+  memberships,
+  selected,
+  onSelect,
+  onCreate,
+  canCreate,
+  onShowMembers,
+}) => {
+  const { t } = useI18n();
+  const [naming, setNaming] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onCreate(trimmed);
+      setNaming(false);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('collection.createFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label htmlFor="collection" className="block text-sm font-medium text-gray-700 mb-1">{t('collection.showing')}</label>
+      <div className="flex items-center space-x-1 rtl:space-x-reverse">
+        <select
+          id="collection"
+          value={selected?.collectionId ?? ''}
+          onChange={(e) => onSelect(memberships.find(m => m.collectionId === e.target.value) ?? null)}
+          className="flex-grow p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+        >
+          <option value="">{t('collection.personal')}</option>
+          {memberships.map((m) => (
+            <option key={m.collectionId} value={m.collectionId}>
+              {t('collection.option', { name: m.name, role: t(`collection.role.${m.role}`) })}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <button
+            type="button"
+            onClick={onShowMembers}
+            className="p-2 text-gray-500 hover:text-gray-800"
+            title={t('collection.members')}
+            aria-label={t('collection.membersOf', { name: selected.name })}
+          >
+            <Users size={16} />
+          </button>
+        )}
+        {!naming && canCreate && (
+          <button
+            type="button"
+            onClick={() => setNaming(true)}
+            className="px-2 py-2 text-xs text-orange-600 hover:underline whitespace-nowrap"
+          >
+            {t('collection.new')}
+          </button>
+        )}
+      </div>
+      {naming && (
+        <form onSubmit={handleCreate} className="flex space-x-2 rtl:space-x-reverse mt-2">
+          <input
+            type="text"
+            placeholder={t('collection.namePlaceholder')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+            className="flex-grow p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          />
+          <button type="submit" disabled={busy || !name.trim()} className="px-3 py-1 text-sm text-white bg-green-500 hover:bg-green-600 rounded-md disabled:bg-gray-400">
+            {t('collection.create')}
+          </button>
+          <button type="button" onClick={() => { setNaming(false); setName(''); }} className="px-3 py-1 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md">
+            {t('dialog.cancel')}
+          </button>
+        </form>
+      )}
+      {error && <p role="alert" className="text-red-500 text-sm mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default CollectionPicker;
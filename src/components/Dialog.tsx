@@ -0,0 +1,46 @@
+import React, { useEffect, useId, useRef } from 'react';
+
+interface DialogProps {
+  title: string;
+  role?: 'dialog' | 'alertdialog'; // alertdialog for questions that interrupt, like confirmations
+  description?: string;
+  onClose: () => void; // Escape, or the caller's own close button
+  children: React.ReactNode;
+}
+
+// A modal built on the native <dialog>: the browser keeps focus inside it and
+// makes the rest of the page inert. Focus goes back to whatever had it before
+// when the dialog unmounts.
+const Dialog: React.FC<DialogProps> = ({ title, role = 'dialog', description, onClose, children }) => {
+  const ref = useRef<HTMLDialogElement>(null);
+  const titleId = useId();
+  const descriptionId = useId();
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    dialog.showModal();
+    return () => {
+      dialog.close();
+      previous?.focus();
+    };
+  }, []);
+
+  return (
+    <dialog
+      ref={ref}
+      role={role}
+      aria-labelledby={titleId}
+      aria-describedby={description ? descriptionId : undefined}
+      onCancel={(e) => { e.preventDefault(); onClose(); }}
+      className="w-full max-w-sm p-5 rounded-lg shadow-xl backdrop:bg-black/40"
+    >
+      <h2 id={titleId} className="text-lg font-semibold text-gray-800 mb-2">{title}</h2>
+      {description && <p id={descriptionId} className="text-sm text-gray-600 mb-4">{description}</p>}
+      {children}
+    </dialog>
+  );
+};
+
+export default Dialog;
@@ -0,0 +1,26 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, screen } from '@testing-library/react';
+import { useConfirm } from '../lib/dialogContext';
+import { axe } from '../test/axe';
+import { renderWithProviders } from '../test/render';
+
+const DeleteButton: React.FC = () => {
+  const confirm = useConfirm();
+  return (
+    <button onClick={() => confirm({ title: 'Delete "Email"?', message: 'Its password history is deleted with it.', confirmLabel: 'Delete', destructive: true })}>
+      Delete
+    </button>
+  );
+};
+
+describe('DialogProvider', () => {
+  it('asks for confirmation in an accessible alert dialog', async () => {
+    const { container } = renderWithProviders(<DeleteButton />);
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await screen.findByRole('alertdialog', { name: 'Delete "Email"?', description: 'Its password history is deleted with it.' });
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
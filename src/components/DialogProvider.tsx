@@ -0,0 +1,57 @@
+import React, { useCallback, useState } from 'react';
+import { DialogContext, type ConfirmOptions } from '../lib/dialogContext';
+import { useI18n } from '../lib/localeContext';
+import Dialog from './Dialog';
+
+interface PendingConfirm extends ConfirmOptions {
+  resolve: (confirmed: boolean) => void;
+}
+
+// Shows confirmation dialogs for the whole app; ask with `useConfirm()`.
+// A second question while one is open answers the first with "cancel".
+const DialogProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+  const { t } = useI18n();
+
+  const confirm = useCallback((options: ConfirmOptions) => new Promise<boolean>((resolve) => {
+    setPending(prev => {
+      prev?.resolve(false);
+      return { ...options, resolve };
+    });
+  }), []);
+
+  const answer = (confirmed: boolean) => {
+    pending?.resolve(confirmed);
+    setPending(null);
+  };
+
+  return (
+    <DialogContext.Provider value={confirm}>
+      {children}
+      {pending && (
+        <Dialog key={pending.title} role="alertdialog" title={pending.title} description={pending.message} onClose={() => answer(false)}>
+          <div className="flex justify-end space-x-2 rtl:space-x-reverse">
+            <button
+              type="button"
+              onClick={() => answer(false)}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-400"
+            >
+              {t('dialog.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={() => answer(true)}
+              className={`px-4 py-2 text-sm font-semibold text-white rounded-md focus:outline-none focus:ring-2 focus:ring-offset-1 ${
+                pending.destructive ? 'bg-red-500 hover:bg-red-600 focus:ring-red-500' : 'bg-orange-500 hover:bg-orange-600 focus:ring-orange-500'
+              }`}
+            >
+              {pending.confirmLabel ?? t('dialog.ok')}
+            </button>
+          </div>
+        </Dialog>
+      )}
+    </DialogContext.Provider>
+  );
+};
+
+export default DialogProvider;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import StrengthBadge from './StrengthBadge';
+import TotpKeyInput from './TotpKeyInput';
+import { estimateStrength } from '../lib/strength';
+import { parseTags, type EntryDraft, type PasswordSource, type SavedPassword } from '../lib/vault';
+import type { GenerationMode } from '../lib/generator';
+import { parseTotp, toOtpAuthUri } from '../lib/totp';
+import { useI18n } from '../lib/localeContext';
+
+interface EntryFormProps {
+  entry?: SavedPassword; // Edit mode when set, create mode otherwise
+  initialNotes?: string; // Decrypted notes of `entry`
+  initialTotp?: string; // Decrypted authenticator key of `entry`
+  initialPassword?: string;
+  initialSource?: PasswordSource;
+  folders: string[]; // Existing folders, offered as suggestions
+  generationMode: GenerationMode;
+  onGenerate: () => string;
+  onSave: (draft: EntryDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm";
+
+const EntryForm: React.FC<EntryFormProps> = ({
+  entry,
+  initialNotes = '',
+  initialTotp = '',
+  initialPassword = '',
+  initialSource = 'manual',
+  folders,
+  generationMode,
+  onGenerate,
+  onSave,
+  onCancel,
+}) => {
+  const { t } = useI18n();
+  const isEdit = entry !== undefined;
+  const [label, setLabel] = useState<string>(entry?.label ?? '');
+  const [username, setUsername] = useState<string>(entry?.username ?? '');
+  const [url, setUrl] = useState<string>(entry?.url ?? '');
+  const [notes, setNotes] = useState<string>(initialNotes);
+  const [totp, setTotp] = useState<string>(initialTotp);
+  const [tags, setTags] = useState<string>((entry?.tags ?? []).join(', '));
+  const [folder, setFolder] = useState<string>(entry?.folder ?? '');
+  const [password, setPassword] = useState<string>(initialPassword);
+  const [source, setSource] = useState<PasswordSource>(initialSource);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Generation fails when the current policy is invalid
+  const handleGenerate = () => {
+    try {
+      setPassword(onGenerate());
+      setSource(generationMode);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('entryForm.generateFailed'));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isEdit && !password) {
+      setError(t('entryForm.passwordRequired'));
+      return;
+    }
+    let totpUri = '';
+    try {
+      if (totp.trim()) totpUri = toOtpAuthUri(parseTotp(totp));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('totp.invalid'));
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        label: label.trim(),
+        username: username.trim(),
+        url: url.trim(),
+        notes,
+        totp: totpUri,
+        tags: parseTags(tags),
+        folder: folder.trim(),
+        password: password || null,
+        source,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('entryForm.saveFailed'));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full space-y-2">
+      <input type="text" placeholder={t('entryForm.label')} value={label} onChange={(e) => setLabel(e.target.value)} className={inputClass} />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input type="text" placeholder={t('field.username')} value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="off" className={inputClass} />
+        <input type="url" placeholder="https://example.com" value={url} onChange={(e) => setUrl(e.target.value)} className={inputClass} />
+      </div>
+      <div className="flex items-center space-x-2 rtl:space-x-reverse">
+        <input
+          type="text"
+          placeholder={isEdit ? t('entryForm.newPassword') : t('field.password')}
+          value={password}
+          onChange={(e) => { setPassword(e.target.value); setSource('manual'); }}
+          spellCheck={false}
+          autoComplete="off"
+          className={`${inputClass} flex-grow font-mono`}
+        />
+        <button
+          type="button"
+          onClick={handleGenerate}
+          className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors duration-200"
+          title={t('entryForm.generateTitle')}
+          aria-label={t('entryForm.generate')}
+        >
+          <RefreshCw size={16} />
+        </button>
+      </div>
+      {password && (
+        <p className="text-xs text-gray-600">{t('entryForm.strength')} <StrengthBadge score={estimateStrength(password).score} /></p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input type="text" placeholder={t('entryForm.tags')} value={tags} onChange={(e) => setTags(e.target.value)} className={inputClass} />
+        <input type="text" placeholder={t('field.folder')} value={folder} onChange={(e) => setFolder(e.target.value)} list="entry-folders" className={inputClass} />
+        <datalist id="entry-folders">
+          {folders.map((f) => <option key={f} value={f} />)}
+        </datalist>
+      </div>
+      <textarea placeholder={t('entryForm.notes')} value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className={inputClass} />
+      <TotpKeyInput value={totp} onChange={setTotp} />
+      {error && <p role="alert" className="text-red-500 text-sm">{error}</p>}
+      <div className="flex justify-end space-x-2 rtl:space-x-reverse">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors duration-200"
+        >
+          {t('dialog.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className={`px-3 py-1 text-sm font-semibold text-white rounded-md transition-colors duration-200 ${saving ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'}`}
+        >
+          {saving ? t('entryForm.saving') : t('entryForm.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default EntryForm;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import { downloadFile, encryptExport, exportToCsv, type PlainEntry } from '../lib/vaultTransfer';
+import { useI18n } from '../lib/localeContext';
+
+interface ExportPanelProps {
+  loadEntries: () => Promise<PlainEntry[]>; // Fetches and decrypts every entry
+  onExported: (format: 'json' | 'csv', count: number) => void;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ loadEntries, onExported, onClose }) => {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<'json' | 'csv'>('json');
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
+  const [acknowledged, setAcknowledged] = useState<boolean>(false);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setDone(null);
+    if (format === 'json') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(t('export.passphraseTooShort', { min: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError(t('export.passphraseMismatch'));
+        return;
+      }
+    }
+    setExporting(true);
+    try {
+      const entries = await loadEntries();
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'json') {
+        downloadFile(`vault-export-${date}.json`, await encryptExport(entries, passphrase), 'application/json');
+      } else {
+        downloadFile(`vault-export-${date}.csv`, exportToCsv(entries), 'text/csv');
+      }
+      onExported(format, entries.length);
+      setDone(t('export.done', { count: entries.length }));
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('export.failed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleExport} className="mb-4 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-semibold text-gray-700">{t('export.title')}</span>
+        <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800">{t('dialog.close')}</button>
+      </div>
+      <div className="flex space-x-4 rtl:space-x-reverse text-sm">
+        <label className="flex items-center cursor-pointer">
+          <input type="radio" name="export-format" checked={format === 'json'} onChange={() => setFormat('json')} className="me-1" />
+          {t('export.json')}
+        </label>
+        <label className="flex items-center cursor-pointer">
+          <input type="radio" name="export-format" checked={format === 'csv'} onChange={() => setFormat('csv')} className="me-1" />
+          {t('export.csv')}
+        </label>
+      </div>
+
+      {format === 'json' ? (
+        <>
+          <p className="text-xs text-gray-500">
+            {t('export.jsonHint')}
+          </p>
+          <input
+            type="password"
+            placeholder={t('export.passphrase')}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="new-password"
+            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          />
+          <input
+            type="password"
+            placeholder={t('export.confirmPassphrase')}
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            autoComplete="new-password"
+            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          />
+        </>
+      ) : (
+        <div className="p-2 bg-red-50 border border-red-300 rounded-md">
+          <p className="flex items-center text-sm font-semibold text-red-700">
+            <AlertTriangle size={16} className="me-1" /> {t('export.csvWarningTitle')}
+          </p>
+          <p className="text-xs text-red-700 mt-1">
+            {t('export.csvWarning')}
+          </p>
+          <label className="flex items-center mt-2 text-xs text-red-800 cursor-pointer">
+            <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} className="me-1" />
+            {t('export.acknowledge')}
+          </label>
+        </div>
+      )}
+
+      {error && <p role="alert" className="text-red-500 text-sm">{error}</p>}
+      {done && <p className="text-green-600 text-sm">{done}</p>}
+      <button
+        type="submit"
+        disabled={exporting || (format === 'csv' && !acknowledged)}
+        className={`flex items-center justify-center w-full p-2 text-sm font-semibold text-white rounded-md transition-colors duration-200 ${
+          exporting || (format === 'csv' && !acknowledged) ? 'bg-gray-400 cursor-not-allowed' : format === 'csv' ? 'bg-red-600 hover:bg-red-700' : 'bg-green-500 hover:bg-green-600'
+        }`}
+      >
+        <Download size={16} className="me-1" /> {exporting ? t('export.exporting') : t('export.submit')}
+      </button>
+    </form>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSignedInUser } from '../lib/authContext';
+import { GeneratorContext, type GeneratorState } from '../lib/generatorContext';
+import { useI18n } from '../lib/localeContext';
+import {
+  DEFAULT_CHARACTER_POLICY,
+  generate,
+  validateCharacterPolicy,
+  type CharacterPolicy,
+  type GenerationMode,
+  type GeneratorPolicy,
+} from '../lib/generator';
+import { DEFAULT_PASSPHRASE_OPTIONS, validatePassphraseOptions, type PassphraseOptions } from '../lib/passphrase';
+import { matchesPreset, presetSettings, type GeneratorPreset, type GeneratorSettings } from '../lib/presets';
+import {
+  deletePreset as deletePresetRow,
+  fetchPresets,
+  insertPreset,
+  setDefaultPreset,
+  updatePreset as updatePresetRow,
+} from '../lib/presetRepository';
+import type { PasswordSource } from '../lib/vault';
+
+// Owns the generator settings, the current password and the user's presets,
+// so they survive moving between pages. Read it with `useGenerator()`.
+const GeneratorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const user = useSignedInUser();
+  const { locale } = useI18n();
+
+  const [mode, setMode] = useState<GenerationMode>('characters');
+  const [passphraseOptions, setPassphraseOptions] = useState<PassphraseOptions>(DEFAULT_PASSPHRASE_OPTIONS);
+  const [characterPolicy, setCharacterPolicy] = useState<CharacterPolicy>(DEFAULT_CHARACTER_POLICY);
+  const [password, setPassword] = useState<string>('');
+  const [source, setSource] = useState<PasswordSource>('characters');
+
+  const [presets, setPresets] = useState<GeneratorPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const defaultPresetAppliedFor = useRef<string | null>(null); // User whose default preset was applied
+
+  // --- Password Generation ---
+
+  const policy = useMemo<GeneratorPolicy>(() => (
+    mode === 'passphrase' ? { mode, ...passphraseOptions } : { mode, ...characterPolicy }
+  ), [mode, passphraseOptions, characterPolicy]);
+
+  // The messages are in the interface language, so they're redone when it changes
+  const policyErrors = useMemo(
+    () => mode === 'characters' ? validateCharacterPolicy(characterPolicy) : validatePassphraseOptions(passphraseOptions),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [mode, characterPolicy, passphraseOptions, locale]
+  );
+  const canGenerate = policyErrors.length === 0;
+
+  const generatePassword = useCallback(() => {
+    if (!canGenerate) return; // The policy editor lists what needs fixing
+    setPassword(generate(policy));
+    setSource(policy.mode);
+  }, [policy, canGenerate]);
+
+  useEffect(() => {
+    generatePassword(); // A fresh password whenever the settings change
+  }, [generatePassword]);
+
+  const setManualPassword = useCallback((value: string) => {
+    setPassword(value);
+    setSource('manual');
+  }, []);
+
+  const updatePassphraseOptions = useCallback((changes: Partial<PassphraseOptions>) => {
+    setPassphraseOptions(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const updateCharacterPolicy = useCallback((changes: Partial<CharacterPolicy>) => {
+    setCharacterPolicy(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  // --- Presets ---
+
+  const settings = useMemo<GeneratorSettings>(() => ({
+    mode,
+    character_policy: characterPolicy,
+    passphrase_options: passphraseOptions,
+  }), [mode, characterPolicy, passphraseOptions]);
+
+  const applyPreset = useCallback((preset: GeneratorPreset) => {
+    const next = presetSettings(preset);
+    setMode(next.mode);
+    setCharacterPolicy(next.character_policy);
+    setPassphraseOptions(next.passphrase_options);
+    setSelectedPresetId(preset.id);
+  }, []);
+
+  const reloadPresets = useCallback(async (): Promise<GeneratorPreset[]> => {
+    if (!user) return [];
+    const rows = await fetchPresets(user.id).catch(() => []);
+    setPresets(rows);
+    return rows;
+  }, [user]);
+
+  // The default preset is applied once per sign-in, not on every token refresh
+  useEffect(() => {
+    if (!user) {
+      setPresets([]);
+      setSelectedPresetId(null);
+      defaultPresetAppliedFor.current = null;
+      return;
+    }
+    reloadPresets().then((rows) => {
+      if (defaultPresetAppliedFor.current === user.id) return;
+      defaultPresetAppliedFor.current = user.id;
+      const preset = rows.find(p => p.is_default);
+      if (preset) applyPreset(preset);
+    });
+  }, [user, reloadPresets, applyPreset]);
+
+  const selectedPreset = presets.find(p => p.id === selectedPresetId) ?? null;
+  const presetModified = selectedPreset !== null && !matchesPreset(settings, selectedPreset);
+
+  const selectPreset = useCallback((preset: GeneratorPreset | null) => {
+    if (preset) applyPreset(preset);
+    else setSelectedPresetId(null);
+  }, [applyPreset]);
+
+  const savePreset = useCallback(async (name: string) => {
+    if (!user) return;
+    const id = await insertPreset(user.id, name, settings);
+    await reloadPresets();
+    setSelectedPresetId(id);
+  }, [user, settings, reloadPresets]);
+
+  const updatePreset = useCallback(async (preset: GeneratorPreset) => {
+    await updatePresetRow(preset.id, settings);
+    await reloadPresets();
+  }, [settings, reloadPresets]);
+
+  const deletePreset = useCallback(async (preset: GeneratorPreset) => {
+    await deletePresetRow(preset.id);
+    setSelectedPresetId(null);
+    await reloadPresets();
+  }, [reloadPresets]);
+
+  const toggleDefaultPreset = useCallback(async (preset: GeneratorPreset) => {
+    await setDefaultPreset(preset.is_default ? null : preset.id);
+    await reloadPresets();
+  }, [reloadPresets]);
+
+  const value = useMemo<GeneratorState>(() => ({
+    mode,
+    setMode,
+    characterPolicy,
+    updateCharacterPolicy,
+    passphraseOptions,
+    updatePassphraseOptions,
+    policy,
+    policyErrors,
+    password,
+    source,
+    setManualPassword,
+    generatePassword,
+    presets,
+    selectedPreset,
+    presetModified,
+    selectPreset,
+    savePreset,
+    updatePreset,
+    deletePreset,
+    toggleDefaultPreset,
+  }), [
+    mode, characterPolicy, updateCharacterPolicy, passphraseOptions, updatePassphraseOptions, policy, policyErrors,
+    password, source, setManualPassword, generatePassword, presets, selectedPreset, presetModified, selectPreset,
+    savePreset, updatePreset, deletePreset, toggleDefaultPreset,
+  ]);
+
+  return <GeneratorContext.Provider value={value}>{children}</GeneratorContext.Provider>;
+};
+
+export default GeneratorProvider;
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import {
+  ENTRY_FIELDS,
+  IMPORT_FORMATS,
+  buildMapping,
+  decryptExport,
+  detectFormat,
+  findDuplicates,
+  isEncryptedExport,
+  mapCsvRow,
+  readCsv,
+  type ColumnMapping,
+  type EntryField,
+  type EntryIdentity,
+  type ImportFormat,
+  type ImportItem,
+  type ImportReport,
+  type ParsedCsv,
+  type PlainEntry,
+} from '../lib/vaultTransfer';
+import { useI18n } from '../lib/localeContext';
+import type { MessageKey } from '../lib/locales/en';
+
+interface ImportPanelProps {
+  loadExisting: () => Promise<EntryIdentity[]>; // Label/username/URL of every saved entry
+  onImport: (items: ImportItem[]) => Promise<ImportReport>;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const FIELD_LABELS: Record<EntryField, MessageKey> = {
+  label: 'field.label', username: 'field.username', url: 'field.url', password: 'field.password', notes: 'field.notes',
+  totp: 'field.totp', tags: 'field.tags', folder: 'field.folder',
+};
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ loadExisting, onImport, onClose }) => {
+  const { t } = useI18n();
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [jsonEntries, setJsonEntries] = useState<PlainEntry[] | null>(null);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [existing, setExisting] = useState<EntryIdentity[] | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const needsPassphrase = fileText !== null && jsonEntries === null && isEncryptedExport(fileText);
+
+  useEffect(() => {
+    loadExisting()
+      .then(setExisting)
+      .catch(() => setError(t('import.existingFailed')));
+  }, [loadExisting, t]);
+
+  const candidates = useMemo<PlainEntry[]>(() => {
+    if (jsonEntries) return jsonEntries;
+    if (csv && mapping) return csv.rows.map(row => mapCsvRow(row, mapping));
+    return [];
+  }, [csv, mapping, jsonEntries]);
+
+  const duplicates = useMemo(() => findDuplicates(candidates, existing ?? []), [candidates, existing]);
+  const invalidCount = candidates.filter(c => !c.password).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setReport(null);
+    setJsonEntries(null);
+    setCsv(null);
+    const text = await file.text();
+    setFileText(text);
+    if (isEncryptedExport(text)) return; // Wait for the passphrase
+    const parsed = readCsv(text);
+    if (parsed.headers.length === 0) {
+      setError(t('import.notCsv'));
+      return;
+    }
+    const detected = detectFormat(parsed.headers);
+    setCsv(parsed);
+    setFormat(detected);
+    setMapping(buildMapping(detected, parsed.headers));
+  };
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      setJsonEntries(await decryptExport(fileText!, passphrase));
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('import.decryptFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const items: ImportItem[] = [];
+    const invalid: ImportReport['errors'] = [];
+    let skipped = 0;
+    candidates.forEach((entry, i) => {
+      if (!entry.password) invalid.push({ row: i + 1, label: entry.label, error: t('import.missingPassword') });
+      else if (skipDuplicates && duplicates.has(i)) skipped++;
+      else items.push({ row: i + 1, entry });
+    });
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await onImport(items);
+      setReport({ imported: result.imported, skipped, errors: [...invalid, ...result.errors].sort((a, b) => a.row - b.row) });
+      setFileText(null);
+      setCsv(null);
+      setJsonEntries(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('import.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectClass = "w-full p-1 border border-gray-300 rounded-md text-xs";
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-semibold text-gray-700">{t('import.title')}</span>
+        <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800">{t('dialog.close')}</button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {t('import.hint')}
+      </p>
+      <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="block w-full text-xs" />
+
+      {needsPassphrase && (
+        <form onSubmit={handleDecrypt} className="flex space-x-2 rtl:space-x-reverse">
+          <input
+            type="password"
+            placeholder={t('export.passphrase')}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="flex-grow p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          />
+          <button type="submit" disabled={busy} className="px-3 py-1 text-sm text-white bg-orange-500 hover:bg-orange-600 rounded-md">
+            {busy ? t('import.decrypting') : t('import.decrypt')}
+          </button>
+        </form>
+      )}
+
+      {csv && mapping && format && (
+        <div className="space-y-2">
+          <label className="flex items-center text-xs text-gray-700">
+            {t('import.layout')}
+            <select
+              value={format.id}
+              onChange={(e) => {
+                const next = IMPORT_FORMATS.find(f => f.id === e.target.value)!;
+                setFormat(next);
+                setMapping(buildMapping(next, csv.headers));
+              }}
+              className="ms-2 p-1 border border-gray-300 rounded-md text-xs"
+            >
+              {IMPORT_FORMATS.map((f) => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {ENTRY_FIELDS.map((field) => (
+              <label key={field} className="text-xs text-gray-600">
+                {t(FIELD_LABELS[field])}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  <option value="">{t('import.notImported')}</option>
+                  {csv.headers.map((header, i) => <option key={i} value={i}>{header || t('import.column', { number: i + 1 })}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-start">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="pe-2">#</th><th className="pe-2">{t('field.label')}</th><th className="pe-2">{t('field.username')}</th><th className="pe-2">{t('field.url')}</th><th className="pe-2">{t('field.password')}</th><th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {candidates.slice(0, PREVIEW_ROWS).map((c, i) => (
+                  <tr key={i} className="text-gray-700">
+                    <td className="pe-2">{i + 1}</td>
+                    <td className="pe-2 truncate max-w-[6rem]">{c.label}</td>
+                    <td className="pe-2 truncate max-w-[6rem]">{c.username}</td>
+                    <td className="pe-2 truncate max-w-[6rem]">{c.url}</td>
+                    <td className="pe-2 font-mono">{c.password ? '••••••••' : <span className="text-red-600">{t('import.missing')}</span>}</td>
+                    <td>{duplicates.has(i) && <span className="text-yellow-700">{t('import.duplicate')}</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-600">
+            {t('import.rows', { count: candidates.length })} · {t('import.duplicates', { count: duplicates.size })}
+            {existing === null && ` ${t('import.checking')}`} · {t('import.withoutPassword', { count: invalidCount })}
+          </p>
+          <label className="flex items-center text-xs text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} className="me-1" />
+            {t('import.skipDuplicates')}
+          </label>
+          <button
+            onClick={handleImport}
+            disabled={busy || existing === null}
+            className={`flex items-center justify-center w-full p-2 text-sm font-semibold text-white rounded-md transition-colors duration-200 ${busy || existing === null ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'}`}
+          >
+            <Upload size={16} className="me-1" /> {busy ? t('import.importing') : t('import.submit')}
+          </button>
+        </>
+      )}
+
+      {error && <p role="alert" className="text-red-500 text-sm">{error}</p>}
+      {report && (
+        <div className="text-xs">
+          <p className="text-green-700">
+            {t('import.report', { imported: report.imported, skipped: report.skipped, failed: report.errors.length })}
+          </p>
+          {report.errors.length > 0 && (
+            <ul className="mt-1 max-h-32 overflow-y-auto text-red-600">
+              {report.errors.map((e) => (
+                <li key={e.row}>{t(e.label ? 'import.rowErrorLabelled' : 'import.rowError', { row: e.row, label: e.label, error: e.error })}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from '../lib/localeContext';
+import { useVault } from '../lib/vaultContext';
+import { LOCALES, isLocale, type Locale } from '../lib/i18n';
+
+// The interface language, in the navbar. Signed in, the choice is saved to
+// the account; a failed save is shown in the select's tooltip.
+const LanguagePicker: React.FC = () => {
+  const { t, preference, setPreference } = useI18n();
+  const { user } = useVault();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (value: string) => {
+    setError(null);
+    try {
+      await setPreference(isLocale(value) ? value : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('security.saveFailed'));
+    }
+  };
+
+  return (
+    <label className="flex items-center text-sm text-gray-600">
+      <Languages size={16} className="me-1" aria-hidden="true" />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={preference ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`p-1 border rounded-md text-sm bg-white ${error ? 'border-red-500' : 'border-gray-300'}`}
+        title={error ?? (user ? t('language.hint') : undefined)}
+        aria-invalid={error !== null}
+      >
+        <option value="">{t('language.browser')}</option>
+        {(Object.keys(LOCALES) as Locale[]).map(locale => (
+          <option key={locale} value={locale} lang={locale}>{LOCALES[locale].name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguagePicker;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { navigate, usePath } from '../lib/router';
+
+interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+  activeClassName?: string; // Added while `to` is the current page
+}
+
+// An in-app link: a real <a href> (so middle-click and "open in new tab"
+// work) that navigates without a page load on a plain click.
+const Link: React.FC<LinkProps> = ({ to, activeClassName, className, onClick, children, ...props }) => {
+  const path = usePath();
+  const active = path === to.split('#')[0];
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a
+      href={to}
+      onClick={handleClick}
+      aria-current={active ? 'page' : undefined}
+      className={[className, active && activeClassName].filter(Boolean).join(' ')}
+      {...props}
+    >
+      {children}
+    </a>
+  );
+};
+
+export default Link;
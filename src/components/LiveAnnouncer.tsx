@@ -0,0 +1,28 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { announce, getAnnouncement, subscribeAnnouncements } from '../lib/announcer';
+import { clipboardService } from '../lib/clipboard';
+
+// The page's live regions. They're always in the DOM (screen readers ignore
+// regions that appear along with their text); each announcement replaces the
+// previous one. Clipboard outcomes are announced here too, since the toast
+// that shows them comes and goes.
+const LiveAnnouncer: React.FC = () => {
+  const announcement = useSyncExternalStore(subscribeAnnouncements, getAnnouncement);
+
+  useEffect(() => clipboardService.subscribe(() => {
+    const status = clipboardService.getStatus();
+    if (status) announce(status.message, status.kind === 'error' ? 'assertive' : 'polite');
+  }), []);
+
+  const text = (politeness: 'polite' | 'assertive') =>
+    announcement?.politeness === politeness ? <span key={announcement.id}>{announcement.message}</span> : null;
+
+  return (
+    <>
+      <div role="status" aria-live="polite" className="sr-only">{text('polite')}</div>
+      <div role="alert" aria-live="assertive" className="sr-only">{text('assertive')}</div>
+    </>
+  );
+};
+
+export default LiveAnnouncer;
@@ -0,0 +1,64 @@
+import React, { useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { VaultContext } from '../lib/vaultContext';
+import { LocaleContext, type LocaleState } from '../lib/localeContext';
+import {
+  LOCALES,
+  detectLocale,
+  formatDateTime,
+  formatNumber,
+  isLocale,
+  readStoredLocale,
+  setActiveLocale,
+  storeLocale,
+  translate,
+  type Locale,
+} from '../lib/i18n';
+
+// Owns the interface language: the account's choice when signed in, else the
+// one remembered on this device, else the browser's. Also sets `lang` and
+// `dir` on the page, so right-to-left languages mirror the layout, and the
+// locale of library messages (`localize`). Read it with `useI18n()`. The
+// extension popup has no vault, so there it goes by the device and browser.
+const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const vault = useContext(VaultContext);
+  const [devicePreference, setDevicePreference] = useState<Locale | null>(readStoredLocale);
+
+  const accountLocale = vault?.user ? vault.settings.locale : null;
+  const accountPreference = isLocale(accountLocale) ? accountLocale : null;
+  const preference = accountPreference ?? devicePreference;
+  const locale = preference ?? detectLocale(navigator.languages);
+  setActiveLocale(locale); // While rendering, so children that localize see it
+  const { dir } = LOCALES[locale];
+
+  // The account's choice is remembered for the sign-in page next time
+  useEffect(() => {
+    if (!accountPreference) return;
+    storeLocale(accountPreference);
+    setDevicePreference(accountPreference);
+  }, [accountPreference]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setPreference = useCallback(async (next: Locale | null) => {
+    storeLocale(next);
+    setDevicePreference(next);
+    if (vault?.user) await vault.saveSettings({ ...vault.settings, locale: next });
+  }, [vault]);
+
+  const value = useMemo<LocaleState>(() => ({
+    locale,
+    dir,
+    preference,
+    setPreference,
+    t: (key, params) => translate(locale, key, params),
+    formatDate: (date) => formatDateTime(locale, date),
+    formatNumber: (number) => formatNumber(locale, number),
+  }), [locale, dir, preference, setPreference]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export default LocaleProvider;
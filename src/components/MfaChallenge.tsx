@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { listTotpFactors, redeemRecoveryCode, signOut, verifyTotp } from '../lib/auth';
+import { useAuth } from '../lib/authContext';
+import { useI18n } from '../lib/localeContext';
+
+// The second step of signing in for users with an authenticator: a TOTP code,
+// or one of their recovery codes.
+const MfaChallenge: React.FC = () => {
+  const { refreshAssurance } = useAuth();
+  const { t } = useI18n();
+  const [useRecoveryCode, setUseRecoveryCode] = useState<boolean>(false);
+  const [code, setCode] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(code);
+      } else {
+        const factor = (await listTotpFactors()).find(f => f.status === 'verified');
+        if (!factor) throw new Error(t('mfa.noFactor'));
+        await verifyTotp(factor.id, code);
+      }
+      await refreshAssurance();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('mfa.failed'));
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <h2 className="flex items-center justify-center text-xl font-semibold text-gray-700 mb-2">
+        <ShieldCheck size={20} className="me-2" /> {t('account.mfa')}
+      </h2>
+      <p className="text-sm text-gray-600 text-center mb-4">
+        {useRecoveryCode
+          ? t('mfa.recoveryHint')
+          : t('mfa.codeHint')}
+      </p>
+      <form onSubmit={handleSubmit}>
+        <input
+          type="text"
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx-xxxxx-xxxxx' : '123456'}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          pattern={useRecoveryCode ? undefined : '\\s*\\d{3}\\s*\\d{3}\\s*'}
+          className="w-full p-3 mb-3 text-center tracking-widest font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+        />
+        {error && <p role="alert" className="text-red-500 text-sm mb-3">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy}
+          className={`w-full p-3 text-lg font-semibold text-white rounded-md transition-colors duration-200 ${busy ? 'bg-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-orange-500 to-red-600 hover:from-orange-600 hover:to-red-700'}`}
+        >
+          {busy ? t('mfa.verifying') : t('account.verify')}
+        </button>
+      </form>
+      <button
+        onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(null); }}
+        className="mt-3 text-center w-full text-sm text-orange-600 hover:underline"
+      >
+        {useRecoveryCode ? t('mfa.useAuthenticator') : t('mfa.useRecoveryCode')}
+      </button>
+      <button
+        onClick={() => signOut().catch(err => setError(err.message))}
+        className="mt-2 text-center w-full text-sm text-gray-600 hover:underline"
+      >
+        {t('mfa.signOut')}
+      </button>
+    </>
+  );
+};
+
+export default MfaChallenge;
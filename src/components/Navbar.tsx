@@ -1,29 +1,69 @@
 import React from 'react';
 import { BellIcon, UserCircleIcon } from '@heroicons/react/24/outline';
+import { LogOut } from 'lucide-react';
+import { useVault } from '../lib/vaultContext';
+import { useOperations } from '../lib/operations';
+import { ROUTES } from '../lib/router';
+import { useUnreadAlerts } from '../lib/auditLog';
+import { useI18n } from '../lib/localeContext';
+import Link from './Link';
+import LanguagePicker from './LanguagePicker';
+
+const iconLinkClass = "p-2 rounded-full text-gray-600 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+const pageLinkClass = "px-3 py-2 rounded-md text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100";
 
 const Navbar: React.FC = () => {
+  const { user, logout } = useVault();
+  const { track, isPending } = useOperations();
+  const unreadAlerts = useUnreadAlerts(user?.id ?? null);
+  const { t, formatNumber } = useI18n();
+
   return (
-    <nav className="bg-white shadow-md">
+    <nav className="bg-white shadow-md" aria-label={t('nav.label')}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16 items-center">
-          <div className="flex-shrink-0">
-            <h1 className="text-xl font-bold text-gray-800">Password Generator</h1>
+          <div className="flex items-center space-x-6 rtl:space-x-reverse">
+            <Link to={ROUTES.generate} className="flex-shrink-0 text-xl font-bold text-gray-800">{t('nav.brand')}</Link>
+            {user && (
+              <div className="hidden sm:flex space-x-1 rtl:space-x-reverse">
+                <Link to={ROUTES.generate} className={pageLinkClass} activeClassName="bg-gray-100 text-gray-900">{t('nav.generate')}</Link>
+                <Link to={ROUTES.vault} className={pageLinkClass} activeClassName="bg-gray-100 text-gray-900">{t('nav.vault')}</Link>
+                <Link to={ROUTES.settings} className={pageLinkClass} activeClassName="bg-gray-100 text-gray-900">{t('nav.settings')}</Link>
+              </div>
+            )}
           </div>
-          
-          <div className="flex items-center space-x-4">
-            <button
-              className="p-2 rounded-full text-gray-600 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              aria-label="Notifications"
-            >
-              <BellIcon className="h-6 w-6" />
-            </button>
-            
-            <button
-              className="p-2 rounded-full text-gray-600 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              aria-label="Profile"
-            >
-              <UserCircleIcon className="h-6 w-6" />
-            </button>
+
+          <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            <LanguagePicker />
+            {user && (
+              <>
+                {/* Security alerts (new-device sign-ins, exports) and the activity log */}
+                <Link
+                  to={ROUTES.activity}
+                  className={`relative ${iconLinkClass}`}
+                  aria-label={unreadAlerts > 0 ? t('nav.activityUnread', { count: unreadAlerts }) : t('nav.activity')}
+                >
+                  <BellIcon className="h-6 w-6" aria-hidden="true" />
+                  {unreadAlerts > 0 && (
+                    <span aria-hidden="true" className="absolute top-0 end-0 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[0.65rem] leading-[1.1rem] text-center">
+                      {unreadAlerts > 9 ? `${formatNumber(9)}+` : formatNumber(unreadAlerts)}
+                    </span>
+                  )}
+                </Link>
+
+                <Link to={ROUTES.settings} className={iconLinkClass} aria-label={t('nav.profile')}>
+                  <UserCircleIcon className="h-6 w-6" aria-hidden="true" />
+                </Link>
+
+                <button
+                  onClick={() => track('logout', logout)}
+                  disabled={isPending('logout')}
+                  className="flex items-center px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors duration-200"
+                >
+                  <LogOut size={16} className="me-1" aria-hidden="true" /> {t('nav.logout')}
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -31,4 +71,4 @@ const Navbar: React.FC = () => {
   );
 };
 
-export default Navbar; 
\ No newline at end of file
+export default Navbar;
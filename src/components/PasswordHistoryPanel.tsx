@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, RotateCcw } from 'lucide-react';
+import StrengthBadge from './StrengthBadge';
+import type { PasswordHistoryEntry } from '../lib/vault';
+import { useConfirm } from '../lib/dialogContext';
+import { useI18n } from '../lib/localeContext';
+
+interface PasswordHistoryPanelProps {
+  entries: PasswordHistoryEntry[] | null; // null while loading
+  onReveal: (entry: PasswordHistoryEntry) => Promise<string | null>;
+  onRestore?: (entry: PasswordHistoryEntry) => Promise<void>; // Omitted when read-only
+  onClose: () => void;
+}
+
+const PasswordHistoryPanel: React.FC<PasswordHistoryPanelProps> = ({ entries, onReveal, onRestore, onClose }) => {
+  const [revealed, setRevealed] = useState<Record<string, string>>({});
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const confirm = useConfirm();
+  const { t, formatDate } = useI18n();
+
+  const toggleReveal = async (entry: PasswordHistoryEntry) => {
+    if (revealed[entry.id] !== undefined) {
+      setRevealed(prev => {
+        const newState = {...prev};
+        delete newState[entry.id];
+        return newState;
+      });
+      return;
+    }
+    const plaintext = await onReveal(entry);
+    if (plaintext !== null) setRevealed(prev => ({ ...prev, [entry.id]: plaintext }));
+  };
+
+  const handleRestore = async (entry: PasswordHistoryEntry) => {
+    if (!await confirm({
+      title: t('history.restoreConfirm'),
+      message: t('history.restoreConfirmMessage'),
+      confirmLabel: t('history.restoreLabel'),
+    })) return;
+    setRestoring(entry.id);
+    try {
+      await onRestore!(entry);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="w-full mt-2 p-2 bg-white border border-gray-200 rounded-md">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-semibold text-gray-700">{t('history.title')}</span>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800" aria-label={t('history.close')}>{t('dialog.close')}</button>
+      </div>
+      {entries === null ? (
+        <p className="text-xs text-gray-500">{t('history.loading')}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('history.empty')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between text-xs">
+              <div className="flex-1 overflow-hidden me-2">
+                <span className="flex items-center text-gray-600">
+                  <time dateTime={entry.replaced_at}>{t('history.replaced', { date: formatDate(entry.replaced_at) })}</time>
+                  {entry.strength_score !== null && <StrengthBadge score={entry.strength_score} />}
+                </span>
+                <span className="font-mono text-gray-500 block truncate">
+                  {revealed[entry.id] ?? <><span aria-hidden="true">••••••••</span><span className="sr-only">{t('entry.passwordHidden')}</span></>}
+                </span>
+              </div>
+              <div className="flex items-center space-x-1 rtl:space-x-reverse flex-shrink-0">
+                <button
+                  onClick={() => toggleReveal(entry)}
+                  className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                  title={revealed[entry.id] !== undefined ? t('entry.hidePassword') : t('entry.showPassword')}
+                  aria-label={t(revealed[entry.id] !== undefined ? 'history.hide' : 'history.show', { date: formatDate(entry.replaced_at) })}
+                  aria-pressed={revealed[entry.id] !== undefined}
+                >
+                  {revealed[entry.id] !== undefined ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+                {onRestore && (
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    disabled={restoring !== null}
+                    className="p-1 text-gray-500 hover:text-orange-600 transition-colors"
+                    title={t('history.restoreTitle')}
+                    aria-label={t('history.restore', { date: formatDate(entry.replaced_at) })}
+                  >
+                    <RotateCcw size={14} />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordHistoryPanel;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Save, Star, Trash2 } from 'lucide-react';
+import type { GeneratorPreset } from '../lib/presets';
+import { useConfirm } from '../lib/dialogContext';
+import { announce } from '../lib/announcer';
+import { useI18n } from '../lib/localeContext';
+
+interface PresetPickerProps {
+  presets: GeneratorPreset[];
+  selected: GeneratorPreset | null;
+  modified: boolean; // The generator settings differ from `selected`
+  onSelect: (preset: GeneratorPreset | null) => void;
+  onSaveNew: (name: string) => Promise<void>;
+  onUpdate: (preset: GeneratorPreset) => Promise<void>;
+  onDelete: (preset: GeneratorPreset) => Promise<void>;
+  onToggleDefault: (preset: GeneratorPreset) => Promise<void>;
+}
+
+const PresetPicker: React.FC<PresetPickerProps> = ({
+  presets,
+  selected,
+  modified,
+  onSelect,
+  onSaveNew,
+  onUpdate,
+  onDelete,
+  onToggleDefault,
+}) => {
+  const [naming, setNaming] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const confirm = useConfirm();
+  const { t } = useI18n();
+
+  const run = async (action: () => Promise<void>, done?: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      if (done) announce(done);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('preset.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    run(async () => {
+      await onSaveNew(trimmed);
+      setNaming(false);
+      setName('');
+    }, t('preset.saved'));
+  };
+
+  const handleDelete = async (preset: GeneratorPreset) => {
+    if (!await confirm({ title: t('preset.deleteConfirm', { name: preset.name }), confirmLabel: t('dialog.delete'), destructive: true })) return;
+    await run(() => onDelete(preset), t('preset.deleted'));
+  };
+
+  const iconButtonClass = "p-2 text-gray-500 hover:text-gray-800 disabled:text-gray-300";
+
+  return (
+    <div className="mb-6">
+      <label htmlFor="preset" className="block text-sm font-medium text-gray-700 mb-1">{t('preset.label')}</label>
+      <div className="flex items-center space-x-1 rtl:space-x-reverse">
+        <select
+          id="preset"
+          value={selected?.id ?? ''}
+          onChange={(e) => onSelect(presets.find(p => p.id === e.target.value) ?? null)}
+          className="flex-grow p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+        >
+          <option value="">{t('preset.custom')}</option>
+          {presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.is_default ? t('preset.default', { name: p.name }) : p.name}{p.id === selected?.id && modified ? ' *' : ''}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <>
+            <button
+              type="button"
+              onClick={() => run(() => onToggleDefault(selected))}
+              disabled={busy}
+              className={selected.is_default ? "p-2 text-yellow-500 hover:text-yellow-600" : iconButtonClass}
+              title={selected.is_default ? t('preset.stopApplyOnLoad') : t('preset.applyOnLoad')}
+              aria-label={t('preset.applyOnLoad')}
+              aria-pressed={selected.is_default}
+            >
+              <Star size={16} fill={selected.is_default ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              type="button"
+              onClick={() => run(() => onUpdate(selected), t('preset.saved'))}
+              disabled={busy || !modified}
+              className={iconButtonClass}
+              title={t('preset.update')}
+              aria-label={t('preset.update')}
+            >
+              <Save size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(selected)}
+              disabled={busy}
+              className={iconButtonClass}
+              title={t('preset.delete')}
+              aria-label={t('preset.deleteFor', { name: selected.name })}
+            >
+              <Trash2 size={16} />
+            </button>
+          </>
+        )}
+        {!naming && (
+          <button
+            type="button"
+            onClick={() => setNaming(true)}
+            className="px-2 py-2 text-xs text-orange-600 hover:underline whitespace-nowrap"
+          >
+            {t('preset.saveAs')}
+          </button>
+        )}
+      </div>
+      {naming && (
+        <form onSubmit={handleSaveNew} className="flex space-x-2 rtl:space-x-reverse mt-2">
+          <input
+            type="text"
+            placeholder={t('preset.namePlaceholder')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+            aria-label={t('preset.name')}
+            className="flex-grow p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          />
+          <button type="submit" disabled={busy || !name.trim()} className="px-3 py-1 text-sm text-white bg-green-500 hover:bg-green-600 rounded-md disabled:bg-gray-400">
+            {t('preset.save')}
+          </button>
+          <button type="button" onClick={() => { setNaming(false); setName(''); }} className="px-3 py-1 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md">
+            {t('dialog.cancel')}
+          </button>
+        </form>
+      )}
+      {error && <p role="alert" className="text-red-500 text-sm mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Copy, ExternalLink, Eye, EyeOff, History, Pencil, ShieldAlert, ShieldX, StickyNote, Trash2 } from 'lucide-react';
+import StrengthBadge from './StrengthBadge';
+import TotpCode from './TotpCode';
+import { isEncrypted, type SavedPassword } from '../lib/vault';
+import type { StrengthScore } from '../lib/strength';
+import { useI18n } from '../lib/localeContext';
+
+interface SavedPasswordItemProps {
+  entry: SavedPassword;
+  revealed: string | undefined; // Plaintext while the entry is shown
+  totpKey?: string; // Decrypted authenticator key, once loaded
+  strengthScore: StrengthScore | null;
+  breachCount?: number; // From the last breach audit, if any
+  busy: boolean;
+  onToggleShow: () => void;
+  onCopy: () => void;
+  onEdit?: () => void; // Edit and delete are omitted when read-only
+  onShowHistory: () => void;
+  onDelete?: () => void;
+  onSelectTag: (tag: string) => void;
+  children?: React.ReactNode; // Rendered below the row (e.g. the history panel)
+}
+
+const SavedPasswordItem: React.FC<SavedPasswordItemProps> = ({
+  entry: p,
+  revealed,
+  totpKey,
+  strengthScore,
+  breachCount,
+  busy,
+  onToggleShow,
+  onCopy,
+  onEdit,
+  onShowHistory,
+  onDelete,
+  onSelectTag,
+  children,
+}) => {
+  const { t } = useI18n();
+  const shown = revealed !== undefined;
+  const name = p.label || t('entry.unlabelled'); // For the buttons' accessible names
+  // Only link out to well-formed http(s) URLs; anything else is shown as plain text
+  const linkHost = (() => {
+    if (!p.url || !/^https?:\/\//i.test(p.url)) return null;
+    try {
+      return new URL(p.url).hostname;
+    } catch {
+      return null;
+    }
+  })();
+
+  return (
+    <li className="bg-gray-50 p-3 rounded-md shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex-1 overflow-hidden me-2">
+          <span className="flex items-center text-sm font-medium text-gray-800 truncate" title={p.label || t('entry.noLabel')}>
+            {!isEncrypted(p) && (
+              <span title={t('entry.unencryptedTitle')} role="img" aria-label={t('entry.unencrypted')}>
+                <ShieldAlert size={14} className="me-1 text-yellow-600 flex-shrink-0" />
+              </span>
+            )}
+            {p.label || <i className="text-gray-400">{t('entry.noLabel')}</i>}
+            {strengthScore !== null && <StrengthBadge score={strengthScore} />}
+            {breachCount !== undefined && breachCount > 0 && (
+              <span
+                className="ms-2 flex items-center px-1.5 py-0.5 text-[10px] font-semibold uppercase text-white bg-red-600 rounded"
+                title={t('entry.breachedTitle', { count: breachCount })}
+              >
+                <ShieldX size={10} className="me-0.5" aria-hidden="true" /> {t('entry.breached')}
+              </span>
+            )}
+            {p.generation_mode === 'passphrase' && (
+              <span className="ms-2 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-blue-700 bg-blue-100 rounded">{t('entry.passphrase')}</span>
+            )}
+            {p.notes_ciphertext && (
+              <span title={t('entry.notesTitle')} role="img" aria-label={t('entry.notes')}>
+                <StickyNote size={12} className="ms-2 text-gray-400 flex-shrink-0" />
+              </span>
+            )}
+          </span>
+          {(p.username || p.url) && (
+            <span className="flex items-center text-xs text-gray-600 truncate">
+              {p.username && <span className="truncate">{p.username}</span>}
+              {p.username && p.url && <span className="mx-1 text-gray-400">·</span>}
+              {linkHost ? (
+                <a href={p.url!} target="_blank" rel="noopener noreferrer" className="flex items-center truncate text-blue-600 hover:underline">
+                  {linkHost} <ExternalLink size={10} className="ms-0.5 flex-shrink-0" aria-hidden="true" />
+                  <span className="sr-only">{t('entry.newTab')}</span>
+                </a>
+              ) : (
+                p.url && <span className="truncate">{p.url}</span>
+              )}
+            </span>
+          )}
+          <span className="text-xs text-gray-500 font-mono block truncate" dir="ltr" title={shown ? revealed : '••••••••'}>
+            {shown ? revealed : <><span aria-hidden="true">••••••••</span><span className="sr-only">{t('entry.passwordHidden')}</span></>}
+          </span>
+          {totpKey && <TotpCode uri={totpKey} label={p.label} />}
+          {p.tags.length > 0 && (
+            <span className="flex flex-wrap gap-1 mt-1">
+              {p.tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => onSelectTag(tag)}
+                  className="px-1.5 py-0.5 text-[10px] text-gray-600 bg-gray-200 hover:bg-gray-300 rounded"
+                  title={t('entry.showTag', { tag })}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 rtl:space-x-reverse flex-shrink-0">
+          <button
+            onClick={onToggleShow}
+            className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+            title={shown ? t('entry.hidePassword') : t('entry.showPassword')}
+            aria-label={t(shown ? 'entry.hidePasswordFor' : 'entry.showPasswordFor', { name })}
+            aria-pressed={shown}
+          >
+            {shown ? <EyeOff size={16} /> : <Eye size={16} />}
+          </button>
+          <button
+            onClick={onCopy}
+            className="p-1 text-gray-500 hover:text-green-600 transition-colors"
+            title={t('entry.copyPassword')}
+            aria-label={t('entry.copyPasswordFor', { name })}
+          >
+            <Copy size={16} />
+          </button>
+          {onEdit && (
+            <button
+              onClick={onEdit}
+              className="p-1 text-gray-500 hover:text-orange-600 transition-colors"
+              title={t('entry.edit')}
+              aria-label={t('entry.editFor', { name })}
+              disabled={busy}
+            >
+              <Pencil size={16} />
+            </button>
+          )}
+          <button
+            onClick={onShowHistory}
+            className="p-1 text-gray-500 hover:text-purple-600 transition-colors"
+            title={t('entry.history')}
+            aria-label={t('entry.historyFor', { name })}
+          >
+            <History size={16} />
+          </button>
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+              title={t('entry.delete')}
+              aria-label={t('entry.deleteFor', { name })}
+              disabled={busy}
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+      {children}
+    </li>
+  );
+};
+
+export default SavedPasswordItem;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import StrengthBadge from './StrengthBadge';
+import type { StrengthScore } from '../lib/strength';
+import { useI18n } from '../lib/localeContext';
+import { passwordAgeDays, type HealthEntry, type HealthOptions, type VaultHealthReport } from '../lib/vaultHealth';
+
+interface SecurityReportProps {
+  report: VaultHealthReport | null; // null while loading
+  skipped: number; // Entries that couldn't be decrypted
+  options: HealthOptions;
+  onOptionsChange: (options: HealthOptions) => void;
+  auditing: boolean;
+  onRunBreachAudit: () => void;
+  onRegenerate?: (id: string) => Promise<void>; // Replaces the password with a freshly generated one; omitted when read-only
+  onClose: () => void;
+}
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-red-600';
+
+const SecurityReport: React.FC<SecurityReportProps> = ({
+  report,
+  skipped,
+  options,
+  onOptionsChange,
+  auditing,
+  onRunBreachAudit,
+  onRegenerate,
+  onClose,
+}) => {
+  const { t, formatNumber } = useI18n();
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRegenerate = async (id: string) => {
+    setRegenerating(id);
+    setError(null);
+    try {
+      await onRegenerate!(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('report.regenerateFailed'));
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const entryRow = (e: HealthEntry, detail: React.ReactNode) => (
+    <li key={e.id} className="flex items-center justify-between text-xs">
+      <span className="truncate me-2">
+        <span className="font-medium text-gray-800">{e.label || <i className="text-gray-400">{t('entry.noLabel')}</i>}</span>
+        <span className="ms-2 text-gray-500">{detail}</span>
+      </span>
+      {onRegenerate && (
+        <button
+          type="button"
+          onClick={() => handleRegenerate(e.id)}
+          disabled={regenerating !== null}
+          className="flex items-center flex-shrink-0 px-2 py-0.5 text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          title={t('report.regenerateTitle')}
+        >
+          <RefreshCw size={12} className={`me-1 ${regenerating === e.id ? 'animate-spin' : ''}`} /> {t('report.regenerate')}
+        </button>
+      )}
+    </li>
+  );
+
+  const section = (title: string, count: number, children: React.ReactNode) => (
+    <details open={count > 0} className="border-t border-gray-200 pt-2">
+      <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+        {title} <span className={count > 0 ? 'text-red-600' : 'text-green-600'}>({formatNumber(count)})</span>
+      </summary>
+      {count > 0 && <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">{children}</ul>}
+    </details>
+  );
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-semibold text-gray-700">{t('report.title')}</span>
+        <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800">{t('dialog.close')}</button>
+      </div>
+
+      {report === null ? (
+        <p className="text-gray-500 text-sm text-center">{t('report.loading')}</p>
+      ) : (
+        <>
+          <div className="text-center">
+            <p className={`text-4xl font-bold ${scoreColor(report.score)}`}>{formatNumber(report.score)}</p>
+            <p className="text-xs text-gray-500">
+              {t('report.health', { count: report.total })}{skipped > 0 && ` ${t('report.skipped', { count: skipped })}`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <label className="text-gray-600">
+              {t('report.weakBelow')}
+              <select
+                value={options.minStrength}
+                onChange={(e) => onOptionsChange({ ...options, minStrength: Number(e.target.value) as StrengthScore })}
+                className="w-full p-1 border border-gray-300 rounded-md"
+              >
+                {([1, 2, 3, 4] as StrengthScore[]).map((score) => (
+                  <option key={score} value={score}>{t(`strength.${score}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-gray-600">
+              {t('report.oldAfter')}
+              <input
+                type="number"
+                min={1}
+                value={options.maxAgeDays}
+                onChange={(e) => onOptionsChange({ ...options, maxAgeDays: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-full p-1 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+
+          {report.breachChecked ? (
+            section(t('report.breached'), report.breached.length,
+              report.breached.map(e => entryRow(e, t('report.breachCount', { count: e.breachCount! }))))
+          ) : (
+            <div className="border-t border-gray-200 pt-2 flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-700">{t('report.breached')}</span>
+              <button
+                type="button"
+                onClick={onRunBreachAudit}
+                disabled={auditing}
+                className="text-xs text-orange-600 hover:underline"
+              >
+                {auditing ? t('report.checking') : t('report.runBreachCheck')}
+              </button>
+            </div>
+          )}
+          {section(t('report.reused'), report.reused.reduce((n, group) => n + group.length, 0),
+            report.reused.map((group, i) => (
+              <li key={i} className="space-y-1">
+                <p className="text-xs text-gray-500">{t('report.reusedGroup', { count: group.length })}</p>
+                <ul className="ps-3 space-y-1">{group.map(e => entryRow(e, ''))}</ul>
+              </li>
+            )))}
+          {section(t('report.weak'), report.weak.length,
+            report.weak.map(e => entryRow(e, <StrengthBadge score={e.strengthScore} />)))}
+          {section(t('report.old', { count: options.maxAgeDays }), report.old.length,
+            report.old.map(e => entryRow(e, t('report.age', { count: passwordAgeDays(e) }))))}
+        </>
+      )}
+      {error && <p role="alert" className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default SecurityReport;
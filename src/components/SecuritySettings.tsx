@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import {
+  AUTO_LOCK_OPTIONS,
+  SIGN_OUT_OPTIONS,
+  formatMinutes,
+  type UserSettings,
+} from '../lib/userSettings';
+import { useI18n } from '../lib/localeContext';
+
+interface SecuritySettingsProps {
+  settings: UserSettings;
+  onChange: (settings: UserSettings) => Promise<void>;
+}
+
+const selectClass = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm";
+
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (changes: Partial<UserSettings>) => {
+    setError(null);
+    try {
+      await onChange({ ...settings, ...changes });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('security.saveFailed'));
+    }
+  };
+
+  return (
+    <div className="mb-6 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-3">
+      <h2 className="text-sm font-semibold text-gray-700">{t('security.title')}</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="autoLock" className="block text-sm font-medium text-gray-700 mb-1">{t('security.autoLock')}</label>
+          <select
+            id="autoLock"
+            value={settings.auto_lock_minutes}
+            onChange={(e) => update({ auto_lock_minutes: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {AUTO_LOCK_OPTIONS.map((minutes) => <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="signOut" className="block text-sm font-medium text-gray-700 mb-1">{t('security.signOut')}</label>
+          <select
+            id="signOut"
+            value={settings.sign_out_minutes}
+            onChange={(e) => update({ sign_out_minutes: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {SIGN_OUT_OPTIONS.map((minutes) => <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="lockWhenHidden"
+          checked={settings.lock_when_hidden}
+          onChange={(e) => update({ lock_when_hidden: e.target.checked })}
+          className="h-4 w-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500 cursor-pointer"
+        />
+        <label htmlFor="lockWhenHidden" className="ms-2 block text-sm text-gray-900 cursor-pointer">
+          {t('security.lockWhenHidden')}
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">{t('security.hint')}</p>
+      {error && <p role="alert" className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default SecuritySettings;
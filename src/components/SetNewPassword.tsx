@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { MIN_ACCOUNT_PASSWORD_LENGTH, updatePassword } from '../lib/auth';
+import { useI18n } from '../lib/localeContext';
+
+interface SetNewPasswordProps {
+  onDone: () => void;
+}
+
+// Shown after following a password-reset link. This changes the login
+// password only; the vault's master passphrase is separate and unaffected.
+const SetNewPassword: React.FC<SetNewPasswordProps> = ({ onDone }) => {
+  const { t } = useI18n();
+  const [password, setPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password.length < MIN_ACCOUNT_PASSWORD_LENGTH) {
+      setError(t('newPassword.tooShort', { min: MIN_ACCOUNT_PASSWORD_LENGTH }));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('newPassword.mismatch'));
+      return;
+    }
+    setBusy(true);
+    try {
+      await updatePassword(password);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('newPassword.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full p-3 mb-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500";
+
+  return (
+    <>
+      <h2 className="text-xl font-semibold text-center text-gray-700 mb-2">{t('newPassword.title')}</h2>
+      <p className="text-xs text-gray-500 text-center mb-4">
+        {t('newPassword.hint')}
+      </p>
+      <form onSubmit={handleSubmit}>
+        <input
+          type="password"
+          placeholder={t('newPassword.password')}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          placeholder={t('newPassword.confirm')}
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        {error && <p role="alert" className="text-red-500 text-sm mb-3">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy}
+          className={`w-full p-3 text-lg font-semibold text-white rounded-md transition-colors duration-200 ${busy ? 'bg-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-orange-500 to-red-600 hover:from-orange-600 hover:to-red-700'}`}
+        >
+          {busy ? t('newPassword.saving') : t('newPassword.submit')}
+        </button>
+      </form>
+    </>
+  );
+};
+
+export default SetNewPassword;
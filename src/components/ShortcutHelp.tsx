@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { activeShortcuts, useShortcuts } from '../lib/shortcuts';
+import { useI18n } from '../lib/localeContext';
+import Dialog from './Dialog';
+import ShortcutToggle from './ShortcutToggle';
+
+// "?" lists the keyboard shortcuts of the current page.
+const ShortcutHelp: React.FC = () => {
+  const [open, setOpen] = useState<boolean>(false);
+  const { t } = useI18n();
+
+  useShortcuts([{ key: '?', description: t('shortcut.help'), run: () => setOpen(true) }]);
+
+  if (!open) return null;
+
+  return (
+    <Dialog title={t('shortcuts.title')} onClose={() => setOpen(false)}>
+      <table className="w-full text-sm text-gray-700 mb-4">
+        <tbody>
+          {activeShortcuts().map(shortcut => (
+            <tr key={shortcut.key}>
+              <td className="py-1 pe-3"><kbd className="px-1.5 py-0.5 font-mono text-xs bg-gray-100 border border-gray-300 rounded">{shortcut.key}</kbd></td>
+              <td className="py-1">{shortcut.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mb-4">{t('shortcuts.hint')}</p>
+      <div className="mb-4">
+        <ShortcutToggle id="shortcutHelpEnabled" />
+        <p className="text-xs text-gray-500 mt-1">{t('shortcuts.deviceHint')}</p>
+      </div>
+      <div className="text-end">
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-400"
+        >
+          {t('dialog.close')}
+        </button>
+      </div>
+    </Dialog>
+  );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { useI18n } from '../lib/localeContext';
+import ShortcutToggle from './ShortcutToggle';
+
+const ShortcutSettings: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <div className="mb-6 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-3">
+      <h2 className="text-sm font-semibold text-gray-700">{t('shortcuts.title')}</h2>
+      <ShortcutToggle id="shortcutsEnabled" />
+      <p className="text-xs text-gray-500">{t('shortcuts.deviceHint')}</p>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
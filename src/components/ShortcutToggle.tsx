@@ -0,0 +1,26 @@
+import React from 'react';
+import { setShortcutsEnabled, useShortcutsEnabled } from '../lib/shortcuts';
+import { useI18n } from '../lib/localeContext';
+
+// Turns the single-key shortcuts on or off on this device (WCAG 2.1.4).
+const ShortcutToggle: React.FC<{ id: string }> = ({ id }) => {
+  const enabled = useShortcutsEnabled();
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center">
+      <input
+        type="checkbox"
+        id={id}
+        checked={enabled}
+        onChange={(e) => setShortcutsEnabled(e.target.checked)}
+        className="h-4 w-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500 cursor-pointer"
+      />
+      <label htmlFor={id} className="ms-2 block text-sm text-gray-900 cursor-pointer">
+        {t('shortcuts.enabled')}
+      </label>
+    </div>
+  );
+};
+
+export default ShortcutToggle;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { STRENGTH_LEVELS, type StrengthScore } from '../lib/strength';
+import { useI18n } from '../lib/localeContext';
+
+interface StrengthBadgeProps {
+  score: StrengthScore;
+}
+
+const StrengthBadge: React.FC<StrengthBadgeProps> = ({ score }) => {
+  const level = STRENGTH_LEVELS[score];
+  const { t } = useI18n();
+  return (
+    <span className={`ms-2 px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded whitespace-nowrap ${level.badgeColor}`}>
+      <span className="sr-only">{t('strength.label')} </span>{t(`strength.${score}`)}
+    </span>
+  );
+};
+
+export default StrengthBadge;
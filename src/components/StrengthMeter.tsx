@@ -0,0 +1,65 @@
+import React, { useId } from 'react';
+import { STRENGTH_LEVELS, formatCrackTime, type StrengthResult } from '../lib/strength';
+import { useI18n } from '../lib/localeContext';
+
+const MAX_SCORE = 4;
+
+interface StrengthMeterProps {
+  result: StrengthResult;
+}
+
+// The bar's color repeats the level named beside it, so nothing depends on
+// color alone; assistive technology reads it as a meter with that label.
+const StrengthMeter: React.FC<StrengthMeterProps> = ({ result }) => {
+  const level = STRENGTH_LEVELS[result.score];
+  const labelId = useId();
+  const { t } = useI18n();
+  const label = t(`strength.${result.score}`);
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-1">
+        <span id={labelId} className="text-sm font-medium text-gray-600">{t('strength.label')}</span>
+        <span className={`text-sm font-semibold ${level.textColor}`} aria-hidden="true">{label}</span>
+      </div>
+      <div
+        role="meter"
+        aria-labelledby={labelId}
+        aria-valuemin={0}
+        aria-valuemax={MAX_SCORE}
+        aria-valuenow={result.score}
+        aria-valuetext={`${label}, ${t('generate.bits', { bits: Math.round(result.entropyBits) })}`}
+        className="w-full bg-gray-200 rounded-full h-2.5"
+      >
+        <div className={`h-2.5 rounded-full transition-all duration-300 ${level.barColor}`} style={{ width: level.width }}></div>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {t('strength.estimate', { bits: Math.round(result.entropyBits), charsetBits: Math.round(result.charsetEntropyBits) })}
+      </p>
+
+      {result.warnings.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {result.warnings.map((warning) => (
+            <li key={warning} className="text-xs text-yellow-700">{t(warning)}</li>
+          ))}
+        </ul>
+      )}
+
+      <details className="mt-2">
+        <summary className="text-xs text-gray-600 cursor-pointer">{t('strength.crackTime')}</summary>
+        <table className="mt-1 w-full text-xs text-gray-600">
+          <tbody>
+            {result.crackTimes.map(({ model, seconds }) => (
+              <tr key={model.name}>
+                <td className="pe-2 py-0.5">{t(model.name)}</td>
+                <td className="py-0.5 text-end font-medium">{formatCrackTime(seconds)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+};
+
+export default StrengthMeter;
@@ -0,0 +1,76 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy } from 'lucide-react';
+import { generateTotp, parseTotp, secondsRemaining, type TotpConfig } from '../lib/totp';
+import { clipboardService } from '../lib/clipboard';
+import { useI18n } from '../lib/localeContext';
+
+interface TotpCodeProps {
+  uri: string; // The entry's decrypted otpauth:// URI
+  label: string | null; // The entry's label, for the clipboard notice
+}
+
+// Splits a code in two for reading, e.g. "123 456".
+const groupDigits = (code: string): string => `${code.slice(0, code.length / 2)} ${code.slice(code.length / 2)}`;
+
+// The live two-step verification code of a vault entry, with a countdown to
+// the next one.
+const TotpCode: React.FC<TotpCodeProps> = ({ uri, label }) => {
+  const { t } = useI18n();
+  const config = useMemo<TotpConfig | null>(() => {
+    try {
+      return parseTotp(uri);
+    } catch {
+      return null;
+    }
+  }, [uri]);
+  const [now, setNow] = useState<number>(Date.now());
+  const [code, setCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Recomputed only when a new period starts
+  const counter = config ? Math.floor(now / 1000 / config.period) : null;
+  useEffect(() => {
+    if (!config || counter === null) return;
+    let cancelled = false;
+    generateTotp(config, counter * config.period * 1000)
+      .then(next => { if (!cancelled) setCode(next); })
+      .catch(() => { if (!cancelled) setCode(null); });
+    return () => { cancelled = true; };
+  }, [config, counter]);
+
+  if (!config) {
+    return <span className="text-xs text-red-600">{t('totp.invalidEntry')}</span>;
+  }
+
+  const remaining = secondsRemaining(config, now);
+  return (
+    <span className="flex items-center text-xs text-gray-700">
+      <span className="font-mono text-sm tracking-wider">
+        {code ? groupDigits(code) : '··· ···'}
+      </span>
+      <span
+        className={`ms-2 ${remaining <= 5 ? 'text-red-600' : 'text-gray-500'}`}
+        title={t('totp.remaining')}
+        aria-hidden="true"
+      >
+        {t('totp.seconds', { seconds: remaining })}
+      </span>
+      <button
+        type="button"
+        onClick={() => code && clipboardService.copy(code, label ? t('totp.codeFor', { label }) : t('totp.code'))}
+        disabled={!code}
+        className="ms-1 p-1 text-gray-500 hover:text-green-600"
+        title={t('totp.copy')}
+        aria-label={label ? t('totp.copyFor', { label }) : t('totp.copyCode')}
+      >
+        <Copy size={12} />
+      </button>
+    </span>
+  );
+};
+
+export default TotpCode;
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, ImageUp, KeyRound, X } from 'lucide-react';
+import {
+  TOTP_ALGORITHMS,
+  TOTP_DIGITS,
+  parseTotp,
+  toOtpAuthUri,
+  type TotpAlgorithm,
+  type TotpConfig,
+} from '../lib/totp';
+import { isCameraAvailable, isQrReadingSupported, readQrFromImage, scanQrWithCamera } from '../lib/qr';
+import { useI18n } from '../lib/localeContext';
+
+interface TotpKeyInputProps {
+  value: string; // An otpauth:// URI or bare key as typed; '' for none
+  onChange: (value: string) => void;
+}
+
+// Periods offered besides the key's own; other values come from otpauth:// links
+const TOTP_PERIODS = [15, 30, 60, 90];
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm";
+
+// The entry form's authenticator key: pasted, scanned with the camera or read
+// from an uploaded QR image. Once the key parses, its algorithm, digits and
+// period can be adjusted for sites whose QR codes leave them out.
+const TotpKeyInput: React.FC<TotpKeyInputProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState<boolean>(value !== '');
+  const [scanning, setScanning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  let config: TotpConfig | null = null;
+  let parseError: string | null = null;
+  if (value.trim()) {
+    try {
+      config = parseTotp(value);
+    } catch (err) {
+      parseError = err instanceof Error ? err.message : t('totp.invalid');
+    }
+  }
+
+  // The camera runs only while scanning; unmounting or cancelling stops it
+  useEffect(() => {
+    if (!scanning || !videoRef.current) return;
+    const controller = new AbortController();
+    scanQrWithCamera(videoRef.current, controller.signal)
+      .then(text => {
+        if (text !== null) onChange(text);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : t('totp.scanFailed')))
+      .finally(() => setScanning(false));
+    return () => controller.abort();
+  }, [scanning, onChange, t]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(await readQrFromImage(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('qr.imageFailed'));
+    }
+  };
+
+  const adjust = (changes: Partial<TotpConfig>) => {
+    if (config) onChange(toOtpAuthUri({ ...config, ...changes }));
+  };
+
+  if (!open) {
+    return (
+      <button type="button" onClick={() => setOpen(true)} className="flex items-center text-xs text-orange-600 hover:underline">
+        <KeyRound size={12} className="me-1" /> {t('totp.add')}
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-2 rtl:space-x-reverse">
+        <input
+          type="text"
+          placeholder={t('totp.placeholder')}
+          value={value}
+          onChange={(e) => { onChange(e.target.value); setError(null); }}
+          spellCheck={false}
+          autoComplete="off"
+          className={`${inputClass} flex-grow font-mono`}
+          aria-label={t('field.totp')}
+        />
+        {isCameraAvailable() && (
+          <button
+            type="button"
+            onClick={() => { setError(null); setScanning(!scanning); }}
+            className="p-2 text-gray-500 hover:text-gray-800"
+            title={scanning ? t('totp.stopScan') : t('totp.scan')}
+            aria-label={scanning ? t('totp.stopScan') : t('totp.scan')}
+            aria-pressed={scanning}
+          >
+            <Camera size={16} />
+          </button>
+        )}
+        {isQrReadingSupported() && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="p-2 text-gray-500 hover:text-gray-800"
+              title={t('totp.upload')}
+              aria-label={t('totp.upload')}
+            >
+              <ImageUp size={16} />
+            </button>
+            <input ref={fileRef} type="file" accept="image/*" onChange={handleUpload} className="hidden" aria-hidden="true" tabIndex={-1} />
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => { onChange(''); setScanning(false); setOpen(false); }}
+          className="p-2 text-gray-500 hover:text-red-600"
+          title={t('totp.remove')}
+          aria-label={t('totp.remove')}
+        >
+          <X size={16} />
+        </button>
+      </div>
+      {scanning && (
+        <video ref={videoRef} muted playsInline aria-label={t('totp.preview')} className="w-full max-h-48 rounded-md bg-black" />
+      )}
+      {config && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          {(config.issuer || config.account) && (
+            <span className="truncate">{[config.issuer, config.account].filter(Boolean).join(' · ')}</span>
+          )}
+          <select
+            value={config.algorithm}
+            onChange={(e) => adjust({ algorithm: e.target.value as TotpAlgorithm })}
+            className="p-1 border border-gray-300 rounded-md"
+            aria-label={t('totp.algorithm')}
+          >
+            {TOTP_ALGORITHMS.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <select
+            value={config.digits}
+            onChange={(e) => adjust({ digits: Number(e.target.value) as TotpConfig['digits'] })}
+            className="p-1 border border-gray-300 rounded-md"
+            aria-label={t('totp.digits')}
+          >
+            {TOTP_DIGITS.map(d => <option key={d} value={d}>{t('totp.digitsOption', { count: d })}</option>)}
+          </select>
+          <select
+            value={config.period}
+            onChange={(e) => adjust({ period: Number(e.target.value) })}
+            className="p-1 border border-gray-300 rounded-md"
+            aria-label={t('totp.period')}
+          >
+            {Array.from(new Set([...TOTP_PERIODS, config.period])).sort((x, y) => x - y).map(seconds => (
+              <option key={seconds} value={seconds}>{t('totp.periodOption', { seconds })}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {(error || parseError) && <p className="text-red-500 text-xs">{error ?? parseError}</p>}
+    </div>
+  );
+};
+
+export default TotpKeyInput;
@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  decryptNotes,
+  decryptTotp,
+  encryptNotes,
+  encryptTotp,
+  isUnderActiveKey,
+  passwordChangeColumns,
+} from '../lib/vault';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import type { VaultAudit } from '../lib/vaultAudit';
+import { useGenerator } from '../lib/generatorContext';
+import { announce } from '../lib/announcer';
+import { useI18n } from '../lib/localeContext';
+import { generate } from '../lib/generator';
+import { fetchEntry, updateEntry, type VaultScope } from '../lib/passwordRepository';
+import SecurityReport from './SecurityReport';
+
+interface VaultAuditPanelProps {
+  audit: VaultAudit;
+  reportOpen: boolean;
+  scope: VaultScope;
+  keyring: VaultKeyring;
+  canEdit: boolean;
+  onRegenerated: () => Promise<void>;
+  onCloseReport: () => void;
+}
+
+// Breach audit progress and results, and the security report while it's open.
+const VaultAuditPanel: React.FC<VaultAuditPanelProps> = ({
+  audit,
+  reportOpen,
+  scope,
+  keyring,
+  canEdit,
+  onRegenerated,
+  onCloseReport,
+}) => {
+  const { policy } = useGenerator();
+  const { t } = useI18n();
+  const { isPending, error: operationError } = audit.operations;
+
+  // Replaces an entry's password with one from the current generator settings.
+  // The old value goes to the entry's history, so this can be undone there.
+  const regenerateEntry = async (id: string) => {
+    const newPassword = generate(policy); // Throws if the generator settings are invalid
+    const entry = await fetchEntry(id);
+    await updateEntry(scope, id, {
+      ...(await passwordChangeColumns(keyring, newPassword, policy.mode)),
+      // Notes and the authenticator key have to move to the active key along with the password
+      ...(isUnderActiveKey(keyring, entry) ? {} : {
+        ...(await encryptNotes(keyring, await decryptNotes(keyring, entry))),
+        ...(await encryptTotp(keyring, await decryptTotp(keyring, entry))),
+      }),
+    });
+    audit.updateReportEntry(id, newPassword);
+    await onRegenerated();
+    announce(t('vault.regenerated'));
+  };
+
+  const errors = ['audit', 'report']
+    .map(key => operationError(key))
+    .filter((message): message is string => message !== null);
+
+  return (
+    <>
+      {audit.progress && (
+        <p className="text-gray-500 text-sm text-center mb-3">
+          {t('vault.auditProgress', { done: audit.progress.done, total: audit.progress.total })}
+        </p>
+      )}
+      {audit.summary && <p className="text-gray-700 text-sm text-center mb-3">{audit.summary}</p>}
+      {errors.map(message => <p key={message} role="alert" className="text-red-500 text-sm text-center mb-3">{message}</p>)}
+      {reportOpen && (
+        <SecurityReport
+          report={audit.report}
+          skipped={audit.skipped}
+          options={audit.options}
+          onOptionsChange={audit.setOptions}
+          auditing={isPending('audit')}
+          onRunBreachAudit={audit.runBreachAudit}
+          onRegenerate={canEdit ? regenerateEntry : undefined}
+          onClose={onCloseReport}
+        />
+      )}
+    </>
+  );
+};
+
+export default VaultAuditPanel;
@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Download, Plus, ShieldAlert, ShieldCheck, Upload } from 'lucide-react';
+import { encryptPassword, entryDetailColumns, type EntryDraft, type SavedPassword } from '../lib/vault';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import { useVault } from '../lib/vaultContext';
+import { useGenerator } from '../lib/generatorContext';
+import { useVaultList } from '../lib/vaultList';
+import { useVaultAudit } from '../lib/vaultAudit';
+import { useI18n } from '../lib/localeContext';
+import { announce } from '../lib/announcer';
+import { navigate, useHash } from '../lib/router';
+import { generate } from '../lib/generator';
+import { estimateStrength } from '../lib/strength';
+import { insertEntries, type VaultScope } from '../lib/passwordRepository';
+import { canEditEntries, type CollectionRole } from '../lib/collections';
+import EntryForm from './EntryForm';
+import VaultEntryList from './VaultEntryList';
+import VaultAuditPanel from './VaultAuditPanel';
+import VaultTransferPanel from './VaultTransferPanel';
+
+interface VaultBrowserProps {
+  scope: VaultScope;
+  keyring: VaultKeyring; // The collection's keyring for a shared scope
+  role: CollectionRole; // 'owner' for the personal vault
+}
+
+// The unlocked vault: the toolbar and add form over the entry list, the
+// breach audit and security report, and import/export. It only exists while
+// the vault is unlocked, so locking drops everything it decrypted.
+//
+// It shows either the personal vault or one shared collection. Only the
+// personal vault is cached for offline use; viewers get a read-only list.
+const VaultBrowser: React.FC<VaultBrowserProps> = ({ scope, keyring, role }) => {
+  const { kdfSamples, refreshKdfSamples, online, scheduleCacheSync, createEntry } = useVault();
+  const { mode, policy } = useGenerator();
+  const list = useVaultList(scope, keyring);
+  const audit = useVaultAudit(scope, keyring);
+  const hash = useHash();
+  const { t } = useI18n();
+  const shared = scope.collectionId !== null;
+  const canEdit = canEditEntries(role);
+  const { reload } = list;
+  const { loadReport, clearReport, forget } = audit;
+
+  const [adding, setAdding] = useState<boolean>(false);
+  const [vaultPanel, setVaultPanel] = useState<'export' | 'import' | 'report' | null>(null);
+
+  // The offline cache only holds the personal vault
+  const syncCache = useCallback(() => {
+    if (!shared) scheduleCacheSync();
+  }, [shared, scheduleCacheSync]);
+
+  const handleCreateEntry = async (draft: EntryDraft) => {
+    if (!draft.password) return;
+    if (!shared) {
+      await createEntry({ ...draft, password: draft.password });
+    } else {
+      if (!online) throw new Error(t('vault.sharedOffline'));
+      await insertEntries([{
+        user_id: scope.userId,
+        collection_id: scope.collectionId,
+        ...(await encryptPassword(keyring, draft.password)),
+        ...(await entryDetailColumns(keyring, draft)),
+        generation_mode: draft.source,
+        strength_score: estimateStrength(draft.password).score,
+      }]);
+      await reload();
+    }
+    setAdding(false);
+    announce(t('vault.entrySaved'));
+  };
+
+  const handleEntryChanged = useCallback(async (entry: SavedPassword, passwordChanged: boolean) => {
+    if (passwordChanged) forget(entry.id);
+    await reload();
+    syncCache();
+  }, [forget, reload, syncCache]);
+
+  const handleRegenerated = useCallback(async () => {
+    await reload();
+    syncCache();
+  }, [reload, syncCache]);
+
+  const handleImported = useCallback(async () => {
+    await reload();
+    syncCache();
+    if (!shared && !kdfSamples?.length) await refreshKdfSamples(); // First entries of a new vault
+  }, [reload, syncCache, shared, kdfSamples, refreshKdfSamples]);
+
+  const openReport = useCallback(async () => {
+    setVaultPanel('report');
+    if (!await loadReport()) setVaultPanel(null);
+  }, [loadReport]);
+
+  // /vault#report (the navbar's bell) opens the report straight away
+  useEffect(() => {
+    if (hash === '#report' && online) openReport();
+  }, [hash, online, openReport]);
+
+  const closePanel = () => {
+    setVaultPanel(null);
+    if (hash) navigate(window.location.pathname, { replace: true });
+  };
+
+  // Closing the report drops the plaintext it decrypted
+  useEffect(() => {
+    if (vaultPanel !== 'report') clearReport();
+  }, [vaultPanel, clearReport]);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-700">{t('vault.title')}</h2>
+        <div className="flex space-x-2 rtl:space-x-reverse">
+          {canEdit && (
+            <button
+              onClick={() => setAdding(!adding)}
+              className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+              title={t('vault.addTitle')}
+            >
+              <Plus size={14} className="me-1" /> {t('vault.add')}
+            </button>
+          )}
+          {online && (
+            <>
+              <button
+                onClick={() => vaultPanel === 'report' ? closePanel() : openReport()}
+                className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+                title={t('vault.reportTitle')}
+              >
+                <ShieldCheck size={14} className="me-1" /> {t('vault.report')}
+              </button>
+              <button
+                onClick={audit.runBreachAudit}
+                disabled={audit.operations.isPending('audit')}
+                className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+                title={t('vault.auditTitle')}
+              >
+                <ShieldAlert size={14} className="me-1" /> {t('vault.audit')}
+              </button>
+              {canEdit && (
+                <button
+                  onClick={() => setVaultPanel(vaultPanel === 'import' ? null : 'import')}
+                  className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+                  title={t('vault.importTitle')}
+                >
+                  <Upload size={14} className="me-1" /> {t('vault.import')}
+                </button>
+              )}
+              <button
+                onClick={() => setVaultPanel(vaultPanel === 'export' ? null : 'export')}
+                className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+                title={t('vault.exportTitle')}
+              >
+                <Download size={14} className="me-1" /> {t('vault.export')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {adding && (
+        <div className="mb-4 p-3 bg-gray-50 rounded-md border border-gray-200">
+          <EntryForm
+            folders={list.folders}
+            generationMode={mode}
+            onGenerate={() => generate(policy)}
+            onSave={handleCreateEntry}
+            onCancel={() => setAdding(false)}
+          />
+        </div>
+      )}
+      <VaultAuditPanel
+        audit={audit}
+        reportOpen={vaultPanel === 'report' && online}
+        scope={scope}
+        keyring={keyring}
+        canEdit={canEdit}
+        onRegenerated={handleRegenerated}
+        onCloseReport={closePanel}
+      />
+      {(vaultPanel === 'export' || (vaultPanel === 'import' && canEdit)) && online && (
+        <VaultTransferPanel
+          panel={vaultPanel}
+          scope={scope}
+          keyring={keyring}
+          onImported={handleImported}
+          onClose={() => setVaultPanel(null)}
+        />
+      )}
+      <VaultEntryList
+        list={list}
+        scope={scope}
+        keyring={keyring}
+        canEdit={canEdit}
+        breachCounts={audit.breachCounts}
+        onEntryChanged={handleEntryChanged}
+      />
+    </div>
+  );
+};
+
+export default VaultBrowser;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { decryptPassword, decryptTotp, type SavedPassword } from '../lib/vault';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import { useGenerator } from '../lib/generatorContext';
+import { useOperations } from '../lib/operations';
+import { useConfirm } from '../lib/dialogContext';
+import { useEntryEditing } from '../lib/entryEditing';
+import { useI18n } from '../lib/localeContext';
+import { announce } from '../lib/announcer';
+import { generate } from '../lib/generator';
+import { estimateStrength } from '../lib/strength';
+import { clipboardService } from '../lib/clipboard';
+import { recordEvent } from '../lib/auditLog';
+import type { VaultScope } from '../lib/passwordRepository';
+import SavedPasswordItem from './SavedPasswordItem';
+import EntryForm from './EntryForm';
+import PasswordHistoryPanel from './PasswordHistoryPanel';
+
+interface VaultEntryProps {
+  entry: SavedPassword;
+  scope: VaultScope;
+  keyring: VaultKeyring;
+  canEdit: boolean;
+  generation: number; // A new list generation hides the password again
+  folders: string[];
+  breachCount?: number;
+  deleting: boolean;
+  deleteError: string | null;
+  onDelete: (entry: SavedPassword) => Promise<boolean>;
+  onChanged: (entry: SavedPassword, passwordChanged: boolean) => Promise<void>;
+  onSelectTag: (tag: string) => void;
+}
+
+// One saved entry: its row, or the edit form while editing, and its history.
+// Plaintext is only kept while the user has the password revealed.
+const VaultEntry: React.FC<VaultEntryProps> = ({
+  entry,
+  scope,
+  keyring,
+  canEdit,
+  generation,
+  folders,
+  breachCount,
+  deleting,
+  deleteError,
+  onDelete,
+  onChanged,
+  onSelectTag,
+}) => {
+  const { mode, policy } = useGenerator();
+  const { run, error: operationError } = useOperations();
+  const confirm = useConfirm();
+  const { t } = useI18n();
+  const editing = useEntryEditing(entry, scope, keyring, (passwordChanged) => onChanged(entry, passwordChanged));
+  const [revealed, setRevealed] = useState<string | undefined>(undefined);
+  const [totpKey, setTotpKey] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    setRevealed(undefined);
+  }, [generation]);
+
+  // The authenticator key, so the entry can show its code live
+  useEffect(() => {
+    let cancelled = false;
+    setTotpKey(undefined);
+    if (!entry.totp_ciphertext) return;
+    decryptTotp(keyring, entry).then(
+      key => { if (!cancelled) setTotpKey(key); },
+      () => {} // Locked under another passphrase; the entry shows no code
+    );
+    return () => { cancelled = true; };
+  }, [entry, keyring]);
+
+  // Decrypts on demand, unless the password is already revealed.
+  const readPassword = async (): Promise<string | undefined> =>
+    revealed ?? run('reveal', () => decryptPassword(keyring, entry), t('entry.decryptFailed'));
+
+  const copyPassword = async () => {
+    const plaintext = await readPassword();
+    if (plaintext === undefined) return;
+    await clipboardService.copy(plaintext, entry.label ? t('clipboard.passwordFor', { label: entry.label }) : t('clipboard.password'));
+    recordEvent({ type: 'entry_copied', entry });
+  };
+
+  const toggleShowPassword = async () => {
+    if (revealed !== undefined) {
+      setRevealed(undefined); // Hiding drops the plaintext again
+      return;
+    }
+    const plaintext = await readPassword();
+    if (plaintext === undefined) return;
+    recordEvent({ type: 'entry_revealed', entry });
+    setRevealed(plaintext);
+  };
+
+  const handleDelete = async () => {
+    if (!await confirm({
+      title: entry.label ? t('entry.deleteConfirm', { label: entry.label }) : t('entry.deleteConfirmUnlabelled'),
+      message: t('entry.deleteConfirmMessage'),
+      confirmLabel: t('dialog.delete'),
+      destructive: true,
+    })) return;
+    if (await onDelete(entry)) announce(t('entry.deleted'));
+  };
+
+  if (editing.draft) {
+    return (
+      <li className="bg-gray-50 p-3 rounded-md shadow-sm">
+        <EntryForm
+          entry={entry}
+          initialNotes={editing.draft.notes}
+          initialTotp={editing.draft.totp}
+          initialSource={entry.generation_mode ?? 'manual'}
+          folders={folders}
+          generationMode={mode}
+          onGenerate={() => generate(policy)}
+          onSave={editing.save}
+          onCancel={editing.cancelEditing}
+        />
+      </li>
+    );
+  }
+
+  const errors = [
+    deleteError,
+    operationError('reveal'),
+    ...['edit', 'history', 'reveal', 'restore'].map(key => editing.operations.error(key)),
+  ].filter((message): message is string => message !== null);
+
+  return (
+    <SavedPasswordItem
+      entry={entry}
+      revealed={revealed}
+      totpKey={totpKey}
+      // Rows saved before scores were stored get rated once revealed
+      strengthScore={entry.strength_score ?? (revealed !== undefined ? estimateStrength(revealed).score : null)}
+      breachCount={breachCount}
+      busy={deleting}
+      onToggleShow={toggleShowPassword}
+      onCopy={copyPassword}
+      onEdit={canEdit ? editing.startEditing : undefined}
+      onShowHistory={editing.toggleHistory}
+      onDelete={canEdit ? handleDelete : undefined}
+      onSelectTag={onSelectTag}
+    >
+      {errors.map(message => <p key={message} role="alert" className="text-red-500 text-xs mt-1">{message}</p>)}
+      {editing.historyOpen && (
+        <PasswordHistoryPanel
+          entries={editing.history}
+          onReveal={editing.revealHistory}
+          onRestore={canEdit ? editing.restore : undefined}
+          onClose={editing.toggleHistory}
+        />
+      )}
+    </SavedPasswordItem>
+  );
+};
+
+export default VaultEntry;
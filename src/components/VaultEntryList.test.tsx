@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import type { SavedPassword } from '../lib/vault';
+import type { VaultList } from '../lib/vaultList';
+import type { Operations } from '../lib/operations';
+import { DEFAULT_PASSWORD_QUERY } from '../lib/passwordQuery';
+import { KDF_ALGORITHM, VAULT_ENCRYPTION_VERSION } from '../lib/vaultCrypto';
+import { axe } from '../test/axe';
+import { TEST_KEYRING, renderWithProviders } from '../test/render';
+import VaultEntryList from './VaultEntryList';
+
+const entry = (id: string, changes: Partial<SavedPassword> = {}): SavedPassword => ({
+  id,
+  label: `Entry ${id}`,
+  username: 'someone@example.com',
+  url: 'https://example.com/login',
+  password_text: null,
+  ciphertext: 'AAAA',
+  iv: 'AAAA',
+  kdf_algorithm: KDF_ALGORITHM,
+  kdf_salt: '',
+  kdf_iterations: 1,
+  encryption_version: VAULT_ENCRYPTION_VERSION,
+  notes_ciphertext: null,
+  notes_iv: null,
+  totp_ciphertext: null,
+  totp_iv: null,
+  tags: [],
+  folder: null,
+  collection_id: null,
+  generation_mode: 'characters',
+  strength_score: 4,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: null,
+  password_changed_at: '2026-01-01T00:00:00Z',
+  ...changes,
+});
+
+const idle: Operations = {
+  isPending: () => false,
+  error: () => null,
+  run: async (_key, action) => action(),
+  track: (_key, action) => action(),
+  clearError: () => {},
+};
+
+const list = (entries: SavedPassword[], changes: Partial<VaultList> = {}): VaultList => ({
+  entries,
+  hasMore: false,
+  generation: 0,
+  folders: [],
+  query: DEFAULT_PASSWORD_QUERY,
+  setQuery: () => {},
+  reload: async () => {},
+  loadMore: async () => {},
+  remove: async () => true,
+  operations: idle,
+  ...changes,
+});
+
+const renderList = (vaultList: VaultList, canEdit = true) => renderWithProviders(
+  <VaultEntryList
+    list={vaultList}
+    scope={{ userId: 'user-1', collectionId: null }}
+    keyring={TEST_KEYRING}
+    canEdit={canEdit}
+    breachCounts={{ b: 3 }}
+    onEntryChanged={async () => {}}
+  />,
+  { keyring: TEST_KEYRING, online: true }
+);
+
+describe('VaultEntryList', () => {
+  it('has no accessibility violations with entries in folders', async () => {
+    const { container } = renderList(list([
+      entry('a', { folder: 'Work', tags: ['email'] }),
+      entry('b', { folder: 'Work', strength_score: 1 }),
+      entry('c', { label: null }),
+    ], { folders: ['Work'] }));
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+    expect(await axe(container)).toHaveNoViolations();
+  });
+
+  it('has no accessibility violations read-only', async () => {
+    const { container } = renderList(list([entry('a')]), false);
+    expect(await axe(container)).toHaveNoViolations();
+  });
+
+  it('has no accessibility violations when a search matches nothing', async () => {
+    const { container } = renderList(list([], { query: { ...DEFAULT_PASSWORD_QUERY, tag: 'email' } }));
+    screen.getByText('No entries match your search.');
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
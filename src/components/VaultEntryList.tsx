@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import type { SavedPassword } from '../lib/vault';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import type { VaultList } from '../lib/vaultList';
+import { useShortcuts, useShortcutsEnabled } from '../lib/shortcuts';
+import { useI18n } from '../lib/localeContext';
+import { SORT_OPTIONS, type SortOption } from '../lib/passwordQuery';
+import type { VaultScope } from '../lib/passwordRepository';
+import VaultEntry from './VaultEntry';
+
+interface VaultEntryListProps {
+  list: VaultList;
+  scope: VaultScope;
+  keyring: VaultKeyring;
+  canEdit: boolean;
+  breachCounts: Record<string, number>;
+  onEntryChanged: (entry: SavedPassword, passwordChanged: boolean) => Promise<void>;
+}
+
+// Search, sorting and the tag filter over the entries, grouped by folder and
+// loaded a page at a time as the list scrolls.
+const VaultEntryList: React.FC<VaultEntryListProps> = ({ list, scope, keyring, canEdit, breachCounts, onEntryChanged }) => {
+  const { entries, hasMore, generation, folders, query, setQuery, loadMore, remove, operations } = list;
+  const { isPending, error: operationError } = operations;
+  const { t } = useI18n();
+  const shortcutsOn = useShortcutsEnabled();
+  const [searchInput, setSearchInput] = useState<string>('');
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Debounce typing into the search box
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(prev => prev.search === searchInput ? prev : { ...prev, search: searchInput });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, setQuery]);
+
+  // "/" or Ctrl/Cmd+K focuses the search box; the latter works while typing too
+  useShortcuts([{ key: '/', description: t('shortcut.search'), run: () => searchInputRef.current?.focus() }]);
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'k' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Infinite scroll: load the next page when the sentinel scrolls into view
+  const loadingMore = isPending('more');
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0].isIntersecting) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, loadMore]);
+
+  // Entries grouped by folder. Pages arrive sorted by folder first (unfiled
+  // last), so groups keep the server's order and "Load more" only ever adds
+  // to the last group or starts new ones.
+  const entriesByFolder = useMemo(() => {
+    const groups = new Map<string | null, SavedPassword[]>();
+    entries.forEach(p => {
+      const folder = p.folder || null;
+      if (!groups.has(folder)) groups.set(folder, []);
+      groups.get(folder)!.push(p);
+    });
+    return Array.from(groups.entries());
+  }, [entries]);
+
+  const isFiltered = query.search.trim() !== '' || query.tag !== null;
+  const selectTag = (tag: string) => setQuery(prev => ({ ...prev, tag }));
+
+  const errors = ['list', 'more']
+    .map(key => operationError(key))
+    .filter((message): message is string => message !== null);
+
+  return (
+    <div>
+      {errors.map(message => <p key={message} role="alert" className="text-red-500 text-sm text-center mb-3">{message}</p>)}
+
+      {/* Search, Filter & Sort */}
+      <div className="flex items-center space-x-2 rtl:space-x-reverse mb-2">
+        <div className="relative flex-grow">
+          <Search size={14} className="absolute start-2 top-1/2 -translate-y-1/2 text-gray-400" aria-hidden="true" />
+          <input
+            ref={searchInputRef}
+            type="search"
+            placeholder={t('vault.searchPlaceholder')}
+            aria-label={t('vault.search')}
+            aria-keyshortcuts={shortcutsOn ? '/ Control+K Meta+K' : 'Control+K Meta+K'}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') { setSearchInput(''); e.currentTarget.blur(); } }}
+            className="w-full ps-7 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          />
+        </div>
+        <select
+          value={query.sort}
+          onChange={(e) => setQuery(prev => ({ ...prev, sort: e.target.value as SortOption }))}
+          className="p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          aria-label={t('vault.sort')}
+        >
+          {(Object.keys(SORT_OPTIONS) as SortOption[]).map((option) => (
+            <option key={option} value={option}>{t(SORT_OPTIONS[option].label)}</option>
+          ))}
+        </select>
+      </div>
+      {query.tag && (
+        <div className="mb-2">
+          <button
+            onClick={() => setQuery(prev => ({ ...prev, tag: null }))}
+            className="inline-flex items-center px-2 py-0.5 text-xs text-gray-700 bg-gray-200 hover:bg-gray-300 rounded"
+            title={t('vault.clearTag')}
+            aria-label={t('vault.clearTagFor', { tag: query.tag })}
+          >
+            #{query.tag} <X size={12} className="ms-1" aria-hidden="true" />
+          </button>
+        </div>
+      )}
+
+      {isPending('list') ? (
+        <p className="text-gray-500 text-center">{t('vault.loading')}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-500 text-center">{isFiltered ? t('vault.noMatches') : t('vault.empty')}</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto pe-2 space-y-4">
+          {entriesByFolder.map(([folder, group]) => (
+            <section key={folder ?? ''}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                {folder ?? t('vault.unfiled')} <span className="font-normal">({group.length})</span>
+              </h3>
+              <ul className="space-y-3">
+                {group.map((p) => (
+                  <VaultEntry
+                    key={p.id}
+                    entry={p}
+                    scope={scope}
+                    keyring={keyring}
+                    canEdit={canEdit}
+                    generation={generation}
+                    folders={folders}
+                    breachCount={breachCounts[p.id]}
+                    deleting={isPending(`delete:${p.id}`)}
+                    deleteError={operationError(`delete:${p.id}`)}
+                    onDelete={remove}
+                    onChanged={onEntryChanged}
+                    onSelectTag={selectTag}
+                  />
+                ))}
+              </ul>
+            </section>
+          ))}
+          {hasMore && (
+            <div ref={loadMoreRef} className="text-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="text-sm text-orange-600 hover:underline"
+              >
+                {loadingMore ? t('vault.loadingMore') : t('vault.loadMore')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultEntryList;
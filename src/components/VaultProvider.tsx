@@ -0,0 +1,360 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '../lib/supabaseClient';
+import { signOut } from '../lib/auth';
+import { useSignedInUser } from '../lib/authContext';
+import { VaultContext, type VaultState } from '../lib/vaultContext';
+import {
+  encryptPassword,
+  newEntryRow,
+  unlockVault,
+  type EncryptedPasswordColumns,
+  type NewEntry,
+  type SavedPassword,
+  type SecretColumns,
+} from '../lib/vault';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import { clipboardService } from '../lib/clipboard';
+import { DEFAULT_USER_SETTINGS, formatMinutes, type UserSettings } from '../lib/userSettings';
+import { watchHidden, watchIdle } from '../lib/activity';
+import { localize } from '../lib/i18n';
+import {
+  clearCachedVault,
+  deleteCachedEntry,
+  enqueueChange,
+  loadKdfSamples,
+  loadQueue,
+  putCachedEntry,
+  queueLength,
+  removeQueued,
+  replaceCachedEntries,
+  saveKdfSamples,
+  type QueuedChange,
+} from '../lib/offlineStore';
+import { flushOfflineQueue } from '../lib/offlineSync';
+import {
+  encryptPlaintextEntry,
+  fetchAllEntries,
+  fetchKdfSamples,
+  fetchPlaintextEntries,
+  insertEntries,
+  personalScope,
+} from '../lib/passwordRepository';
+import { fetchMemberships, loadMemberIdentity, type MemberIdentity, type Membership } from '../lib/collections';
+
+// How long after a change the offline cache is refreshed, so bursts of edits sync once
+const CACHE_SYNC_DELAY_MS = 2000;
+
+// Owns the signed-in user's vault session: settings, the unlocked keyring,
+// auto-lock, and the offline cache and sync queue. Read it with `useVault()`.
+const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const user = useSignedInUser();
+
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [keyring, setKeyring] = useState<VaultKeyring | null>(null);
+  const [kdfSamples, setKdfSamples] = useState<SecretColumns[] | null>(null);
+  const [lockNotice, setLockNotice] = useState<string | null>(null);
+
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState<number>(0);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [revision, setRevision] = useState<number>(0);
+  const cacheSyncTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const [identity, setIdentity] = useState<MemberIdentity | null>(null);
+  const [sharingError, setSharingError] = useState<string | null>(null);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+
+  // --- Settings ---
+
+  useEffect(() => {
+    if (!user) {
+      setSettings(DEFAULT_USER_SETTINGS);
+      return;
+    }
+    supabase
+      .from('user_settings')
+      .select('auto_lock_minutes, lock_when_hidden, sign_out_minutes, locale')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching settings:", error);
+        setSettings(data ?? DEFAULT_USER_SETTINGS);
+      });
+  }, [user]);
+
+  const saveSettings = useCallback(async (next: UserSettings) => {
+    if (!user) return;
+    const previous = settings;
+    setSettings(next);
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: user.id, ...next, updated_at: new Date().toISOString() });
+    if (error) {
+      console.error("Error saving settings:", error);
+      setSettings(previous);
+      throw new Error(localize('security.saveFailed'));
+    }
+  }, [user, settings]);
+
+  // --- Unlocking & Locking ---
+
+  const refreshKdfSamples = useCallback(async () => {
+    if (!user) return;
+    try {
+      const samples = await fetchKdfSamples(user.id);
+      setKdfSamples(samples);
+      saveKdfSamples(user.id, samples).catch(error => console.error("Error caching vault parameters:", error));
+    } catch {
+      // Offline: unlock with the parameters cached on this device, if any
+      setKdfSamples(await loadKdfSamples(user.id).catch(() => null));
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) refreshKdfSamples();
+    else setKdfSamples(null);
+  }, [user, refreshKdfSamples]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    // Throws on a wrong passphrase; VaultUnlock shows the message
+    setKeyring(await unlockVault(passphrase, kdfSamples ?? []));
+    setLockNotice(null);
+  }, [kdfSamples]);
+
+  const lock = useCallback((options: { notice?: string; keepClipboard?: boolean } = {}) => {
+    setKeyring(null); // Views holding decrypted data unmount with it
+    setLockNotice(options.notice ?? null);
+    if (!options.keepClipboard) clipboardService.clearNow(); // Don't leave a copied secret behind a locked vault
+  }, []);
+
+  // Signing out (here or in another tab) locks the vault
+  useEffect(() => {
+    if (!user) lock();
+  }, [user, lock]);
+
+  const logout = useCallback(async () => {
+    if (user) await clearCachedVault(user.id).catch(error => console.error("Error clearing offline cache:", error));
+    await signOut().catch(() => undefined); // The local session is cleared even if the request fails
+    lock();
+  }, [user, lock]);
+
+  // --- Auto-lock ---
+
+  const unlocked = keyring !== null;
+  useEffect(() => {
+    if (!unlocked || settings.auto_lock_minutes === 0) return;
+    const minutes = settings.auto_lock_minutes;
+    return watchIdle(minutes * 60_000, () => lock({
+      notice: localize('vault.lockedIdle', { duration: formatMinutes(minutes) }),
+    }));
+  }, [unlocked, settings.auto_lock_minutes, lock]);
+
+  useEffect(() => {
+    if (!unlocked || !settings.lock_when_hidden) return;
+    return watchHidden(() => lock({ notice: localize('vault.lockedHidden'), keepClipboard: true }));
+  }, [unlocked, settings.lock_when_hidden, lock]);
+
+  useEffect(() => {
+    if (!user || settings.sign_out_minutes === 0) return;
+    return watchIdle(settings.sign_out_minutes * 60_000, () => {
+      lock();
+      signOut().catch(() => undefined);
+    });
+  }, [user, settings.sign_out_minutes, lock]);
+
+  // --- Offline Cache & Sync ---
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Changes queued in an earlier session are still waiting, even while locked.
+  useEffect(() => {
+    if (!user) {
+      setPendingChanges(0);
+      setSyncNotice(null);
+      return;
+    }
+    queueLength(user.id)
+      .then(setPendingChanges)
+      .catch(error => console.error("Error reading offline queue:", error));
+  }, [user]);
+
+  // Re-seals the whole vault into IndexedDB so it can be used offline.
+  const syncOfflineCache = useCallback(async () => {
+    if (!user || !keyring || !online) return;
+    await replaceCachedEntries(user.id, keyring, await fetchAllEntries(personalScope(user.id)));
+  }, [user, keyring, online]);
+
+  const scheduleCacheSync = useCallback(() => {
+    clearTimeout(cacheSyncTimer.current);
+    cacheSyncTimer.current = setTimeout(() => {
+      syncOfflineCache().catch(error => console.error("Error updating offline cache:", error));
+    }, CACHE_SYNC_DELAY_MS);
+  }, [syncOfflineCache]);
+
+  // Entries saved before encryption still have their password on the server in
+  // plaintext; the first unlock encrypts them. History never keeps plaintext,
+  // so nothing of it is left behind.
+  const encryptPlaintextEntries = useCallback(async () => {
+    if (!user || !keyring) return;
+    const scope = personalScope(user.id);
+    const entries = await fetchPlaintextEntries(scope);
+    for (const entry of entries) {
+      await encryptPlaintextEntry(scope, entry.id, await encryptPassword(keyring, entry.password_text!));
+    }
+    if (entries.length > 0) {
+      setRevision(n => n + 1);
+      refreshKdfSamples(); // A vault of only legacy entries has its params pinned now
+    }
+  }, [user, keyring, refreshKdfSamples]);
+
+  // Whenever the vault is unlocked while online: send changes queued offline,
+  // encrypt legacy entries, then refresh the cache.
+  useEffect(() => {
+    if (!user || !keyring || !online) return;
+    const sync = async () => {
+      if (await queueLength(user.id) > 0) {
+        const report = await flushOfflineQueue(user.id, keyring);
+        setSyncNotice([
+          localize('vault.synced', { count: report.applied }),
+          ...report.conflicts,
+          report.failed > 0 && localize('vault.syncFailed', { failed: report.failed }),
+        ].filter(Boolean).join(' '));
+        setRevision(n => n + 1);
+        refreshKdfSamples(); // A vault created offline has its first rows now
+      }
+      setPendingChanges(await queueLength(user.id));
+      await encryptPlaintextEntries();
+      await syncOfflineCache();
+    };
+    sync().catch(error => console.error("Error syncing offline changes:", error));
+  }, [user, keyring, online, syncOfflineCache, refreshKdfSamples, encryptPlaintextEntries]);
+
+  // `secret` holds the row's encrypted password columns.
+  const queueOfflineCreate = useCallback(async (
+    row: Extract<QueuedChange, { kind: 'create' }>['row'],
+    secret: EncryptedPasswordColumns
+  ) => {
+    const now = new Date().toISOString();
+    await enqueueChange(user!.id, keyring!, { kind: 'create', row });
+    await putCachedEntry(user!.id, keyring!, {
+      ...row, password_text: null, created_at: now, updated_at: null, password_changed_at: now,
+    } as SavedPassword);
+    if (!kdfSamples?.length) {
+      // First entry of a vault created offline: remember its params so the
+      // same passphrase unlocks it next time
+      const sample = { ...secret, password_text: null };
+      setKdfSamples([sample]);
+      await saveKdfSamples(user!.id, [sample]);
+    }
+    setPendingChanges(await queueLength(user!.id));
+  }, [user, keyring, kdfSamples]);
+
+  // Deleting an entry that was created offline just drops the queued create.
+  const queueOfflineDelete = useCallback(async (entry: SavedPassword) => {
+    const queued = (await loadQueue(user!.id, keyring!))
+      .find(({ change }) => change?.kind === 'create' && change.row.id === entry.id);
+    if (queued) {
+      await removeQueued(queued.seq);
+    } else {
+      await enqueueChange(user!.id, keyring!, {
+        kind: 'delete', id: entry.id, label: entry.label, version: entry.updated_at ?? entry.created_at,
+      });
+    }
+    await deleteCachedEntry(user!.id, entry.id);
+    setPendingChanges(await queueLength(user!.id));
+  }, [user, keyring]);
+
+  // --- Entries ---
+
+  const createEntry = useCallback(async (entry: NewEntry) => {
+    if (!user || !keyring) throw new Error(localize('vault.unlockToSave'));
+    try {
+      const { row, secret } = await newEntryRow(keyring, user.id, entry);
+      if (online) {
+        await insertEntries([row]);
+        scheduleCacheSync();
+        if (!kdfSamples?.length) await refreshKdfSamples(); // First entry of a new vault
+      } else {
+        await queueOfflineCreate(row, secret);
+      }
+      setRevision(n => n + 1);
+    } catch (error) {
+      console.error("Error saving password:", error);
+      throw new Error(localize('vault.saveFailed'));
+    }
+  }, [user, keyring, online, kdfSamples, scheduleCacheSync, refreshKdfSamples, queueOfflineCreate]);
+
+  // --- Sharing ---
+
+  // The key pair is unsealed with the vault key, so it comes and goes with it.
+  useEffect(() => {
+    setIdentity(null);
+    setSharingError(null);
+    if (!user || !keyring || !online) return;
+    let cancelled = false;
+    loadMemberIdentity(user.id, keyring)
+      .then(loaded => {
+        if (cancelled) return;
+        setIdentity(loaded);
+        refreshKdfSamples(); // A vault without entries now has its params pinned by the sealed key
+      })
+      .catch(error => {
+        if (!cancelled) setSharingError(error instanceof Error ? error.message : localize('vault.sharingUnavailable'));
+      });
+    return () => { cancelled = true; };
+  }, [user, keyring, online, refreshKdfSamples]);
+
+  const reloadMemberships = useCallback(async () => {
+    if (!user || !online) return;
+    setMemberships(await fetchMemberships(user.id));
+  }, [user, online]);
+
+  useEffect(() => {
+    if (!identity) {
+      setMemberships([]);
+      return;
+    }
+    reloadMemberships().catch(error => setSharingError(error instanceof Error ? error.message : localize('collection.error.loadCollections')));
+  }, [identity, reloadMemberships]);
+
+  const value = useMemo<VaultState>(() => ({
+    user,
+    settings,
+    saveSettings,
+    keyring,
+    kdfSamples,
+    unlock,
+    lock,
+    lockNotice,
+    refreshKdfSamples,
+    online,
+    pendingChanges,
+    syncNotice,
+    revision,
+    scheduleCacheSync,
+    createEntry,
+    queueOfflineDelete,
+    identity,
+    sharingError,
+    memberships,
+    reloadMemberships,
+    logout,
+  }), [
+    user, settings, saveSettings, keyring, kdfSamples, unlock, lock, lockNotice, refreshKdfSamples,
+    online, pendingChanges, syncNotice, revision, scheduleCacheSync, createEntry, queueOfflineDelete,
+    identity, sharingError, memberships, reloadMemberships, logout,
+  ]);
+
+  return <VaultContext.Provider value={value}>{children}</VaultContext.Provider>;
+};
+
+export default VaultProvider;
@@ -0,0 +1,33 @@
+import React from 'react';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import { useVaultImportExport } from '../lib/vaultImportExport';
+import { recordEvent } from '../lib/auditLog';
+import type { VaultScope } from '../lib/passwordRepository';
+import ExportPanel from './ExportPanel';
+import ImportPanel from './ImportPanel';
+
+interface VaultTransferPanelProps {
+  panel: 'export' | 'import';
+  scope: VaultScope;
+  keyring: VaultKeyring;
+  onImported: () => Promise<void>; // After an import saved at least one entry
+  onClose: () => void;
+}
+
+// Exporting the vault to a file, or importing entries from one.
+const VaultTransferPanel: React.FC<VaultTransferPanelProps> = ({ panel, scope, keyring, onImported, onClose }) => {
+  const { loadPlainEntries, loadExisting, importEntries } = useVaultImportExport(scope, keyring, onImported);
+
+  if (panel === 'import') {
+    return <ImportPanel loadExisting={loadExisting} onImport={importEntries} onClose={onClose} />;
+  }
+  return (
+    <ExportPanel
+      loadEntries={loadPlainEntries}
+      onExported={(format, count) => recordEvent({ type: 'vault_exported', collectionId: scope.collectionId, details: { format, count } })}
+      onClose={onClose}
+    />
+  );
+};
+
+export default VaultTransferPanel;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useI18n } from '../lib/localeContext';
+
+interface VaultUnlockProps {
+  isNewVault: boolean; // No encrypted entries yet: ask to set (and confirm) a passphrase
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+const VaultUnlock: React.FC<VaultUnlockProps> = ({ isNewVault, onUnlock }) => {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (isNewVault) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(t('unlock.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError(t('unlock.mismatch'));
+        return;
+      }
+    }
+    setUnlocking(true);
+    try {
+      await onUnlock(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('unlock.failed'));
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+      <p className="flex items-center text-sm font-medium text-gray-700 mb-2">
+        <Lock size={16} className="me-1" />
+        {isNewVault ? t('unlock.setTitle') : t('unlock.locked')}
+      </p>
+      {isNewVault && (
+        <p className="text-xs text-gray-500 mb-3">
+          {t('unlock.setHint')}
+        </p>
+      )}
+      <input
+        type="password"
+        placeholder={t('unlock.passphrase')}
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        required
+        autoComplete={isNewVault ? 'new-password' : 'current-password'}
+        className="w-full p-2 mb-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+      />
+      {isNewVault && (
+        <input
+          type="password"
+          placeholder={t('unlock.confirm')}
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          required
+          autoComplete="new-password"
+          className="w-full p-2 mb-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+        />
+      )}
+      {error && <p role="alert" className="text-red-500 text-sm mb-2">{error}</p>}
+      <button
+        type="submit"
+        disabled={unlocking}
+        className={`w-full p-2 text-sm font-semibold text-white rounded-md transition-colors duration-200 ${unlocking ? 'bg-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-orange-500 to-red-600 hover:from-orange-600 hover:to-red-700'}`}
+      >
+        {unlocking ? t('unlock.deriving') : (isNewVault ? t('unlock.create') : t('unlock.submit'))}
+      </button>
+    </form>
+  );
+};
+
+export default VaultUnlock;
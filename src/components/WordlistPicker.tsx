@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { DEFAULT_WORDLIST_ID, MIN_WORDLIST_SIZE, availableWordlists } from '../lib/passphrase';
+import { addCustomWordlist, removeCustomWordlist } from '../lib/customWordlists';
+import { useI18n } from '../lib/localeContext';
+import { useConfirm } from '../lib/dialogContext';
+
+interface WordlistPickerProps {
+  value: string; // The selected wordlist's id
+  onChange: (id: string) => void;
+}
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm";
+
+// Picks the passphrase wordlist, and adds lists in other languages from a
+// file. Added lists stay on this device.
+const WordlistPicker: React.FC<WordlistPickerProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const confirm = useConfirm();
+  const [adding, setAdding] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const wordlists = availableWordlists();
+  const selected = wordlists.find(w => w.id === value);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !name.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const wordlist = await addCustomWordlist(name, file);
+      setAdding(false);
+      setName('');
+      setFile(null);
+      onChange(wordlist.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('wordlist.readFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!selected || selected.builtIn) return;
+    if (!await confirm({ title: t('wordlist.removeConfirm', { name: selected.name }), confirmLabel: t('dialog.remove'), destructive: true })) return;
+    try {
+      removeCustomWordlist(selected.id);
+      onChange(DEFAULT_WORDLIST_ID);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('wordlist.removeFailed'));
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label htmlFor="wordlist" className="block text-sm font-medium text-gray-700 mb-1">{t('wordlist.label')}</label>
+      <div className="flex items-center space-x-1 rtl:space-x-reverse">
+        <select
+          id="wordlist"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${inputClass} flex-grow`}
+        >
+          {!selected && <option value={value} disabled>—</option>}
+          {wordlists.map(w => (
+            <option key={w.id} value={w.id}>{t('wordlist.size', { name: w.name, count: w.words.length })}</option>
+          ))}
+        </select>
+        {selected && !selected.builtIn && (
+          <button
+            type="button"
+            onClick={handleRemove}
+            className="p-2 text-gray-500 hover:text-red-600"
+            title={t('wordlist.remove')}
+            aria-label={t('wordlist.remove')}
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+        {!adding && (
+          <button
+            type="button"
+            onClick={() => setAdding(true)}
+            className="px-2 py-2 text-xs text-orange-600 hover:underline whitespace-nowrap"
+          >
+            {t('wordlist.add')}
+          </button>
+        )}
+      </div>
+      {adding && (
+        <form onSubmit={handleAdd} className="mt-2 p-2 bg-gray-50 rounded-md border border-gray-200 space-y-2">
+          <input
+            type="text"
+            placeholder={t('wordlist.name')}
+            aria-label={t('wordlist.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={50}
+            autoFocus
+            className={inputClass}
+          />
+          <input
+            type="file"
+            accept=".txt,.asc,text/plain"
+            aria-label={t('wordlist.file')}
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-600"
+          />
+          <p className="text-xs text-gray-500">{t('wordlist.hint', { min: MIN_WORDLIST_SIZE })}</p>
+          <div className="flex space-x-2 rtl:space-x-reverse">
+            <button
+              type="submit"
+              disabled={busy || !file || !name.trim()}
+              className="flex items-center px-3 py-1 text-sm text-white bg-green-500 hover:bg-green-600 rounded-md disabled:bg-gray-400"
+            >
+              <Upload size={14} className="me-1" aria-hidden="true" /> {t('generate.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setAdding(false); setError(null); }}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md"
+            >
+              {t('dialog.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+      {error && <p role="alert" className="text-red-500 text-sm mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default WordlistPicker;
@@ -0,0 +1,56 @@
+// Browser activity watchers for auto-lock. Each returns a function that stops
+// watching.
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+// Calls `onIdle` once after `idleMs` without user input. Activity only records
+// a timestamp; the timer re-arms itself lazily. Background tabs throttle
+// timers, so the clock is checked again whenever the page becomes visible or
+// sees input, and an overdue timeout fires then instead of being reset.
+export const watchIdle = (idleMs: number, onIdle: () => void): (() => void) => {
+  let lastActivity = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const idleFor = () => Date.now() - lastActivity;
+  const check = () => {
+    if (idleFor() >= idleMs) {
+      stop();
+      onIdle();
+    } else {
+      clearTimeout(timer);
+      timer = setTimeout(check, idleMs - idleFor());
+    }
+  };
+  const onActivity = () => {
+    if (idleFor() >= idleMs) check();
+    else lastActivity = Date.now();
+  };
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  const stop = () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity, true));
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { capture: true, passive: true }));
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  timer = setTimeout(check, idleMs);
+  return stop;
+};
+
+// Calls `onHidden` when the page is hidden: switching tabs, minimising the
+// window, locking the screen, or navigating away.
+export const watchHidden = (onHidden: () => void): (() => void) => {
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') onHidden();
+  };
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('pagehide', onHidden);
+  return () => {
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('pagehide', onHidden);
+  };
+};
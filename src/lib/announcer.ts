@@ -0,0 +1,28 @@
+// Messages for screen readers ("Saved", "Deleted", "Password copied"...). They
+// are read out by the page's live regions (see LiveAnnouncer), which stay
+// mounted so assistive technology notices every change.
+
+export type Politeness = 'polite' | 'assertive';
+
+export interface Announcement {
+  id: number; // Increases with every announcement, so a repeated message is read again
+  message: string;
+  politeness: Politeness;
+}
+
+let current: Announcement | null = null;
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+// Errors should be 'assertive'; everything else waits for the reader to pause.
+export const announce = (message: string, politeness: Politeness = 'polite'): void => {
+  current = { id: nextId++, message, politeness };
+  listeners.forEach(listener => listener());
+};
+
+export const getAnnouncement = (): Announcement | null => current;
+
+export const subscribeAnnouncements = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
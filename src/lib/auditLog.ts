@@ -0,0 +1,192 @@
+// The account's activity log, `audit_events`. Sign-ins and entry changes are
+// recorded by database triggers; reveals, copies, exports and the extension's
+// autofills only happen in the browser, so the clients record those here.
+
+import { useEffect, useState } from 'react';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import type { Json } from './database.types';
+import type { SavedPassword } from './vault';
+import { localize } from './i18n';
+import type { MessageKey } from './locales/en';
+
+export type AuditEventType =
+  | 'login'
+  | 'entry_created'
+  | 'entry_updated'
+  | 'entry_deleted'
+  | 'entry_revealed'
+  | 'entry_copied'
+  | 'entry_filled'
+  | 'vault_exported';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, MessageKey> = {
+  login: 'activity.event.login',
+  entry_created: 'activity.event.entryCreated',
+  entry_updated: 'activity.event.entryUpdated',
+  entry_deleted: 'activity.event.entryDeleted',
+  entry_revealed: 'activity.event.entryRevealed',
+  entry_copied: 'activity.event.entryCopied',
+  entry_filled: 'activity.event.entryFilled',
+  vault_exported: 'activity.event.vaultExported',
+};
+
+export interface AuditEvent {
+  id: string;
+  event_type: AuditEventType;
+  entry_id: string | null;
+  collection_id: string | null;
+  entry_label: string | null;
+  details: { [key: string]: Json | undefined };
+  user_agent: string | null;
+  new_device: boolean;
+  alert: boolean; // Security-relevant: a sign-in from a new device, or an export
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface AuditQuery {
+  type: AuditEventType | null; // null for every type
+  alertsOnly: boolean;
+}
+
+export const DEFAULT_AUDIT_QUERY: AuditQuery = { type: null, alertsOnly: false };
+
+export const AUDIT_PAGE_SIZE = 50;
+
+const fail = (message: MessageKey, error: PostgrestError): never => {
+  console.error(`Error (${message}):`, error);
+  throw new Error(localize(message));
+};
+
+// --- Recording ---
+
+// Alerts changed (one was recorded or read); the navbar recounts.
+const alertListeners = new Set<() => void>();
+const notifyAlerts = () => alertListeners.forEach(listener => listener());
+
+interface ClientEvent {
+  type: 'entry_revealed' | 'entry_copied' | 'entry_filled' | 'vault_exported';
+  entry?: Pick<SavedPassword, 'id' | 'label' | 'collection_id'>;
+  collectionId?: string | null; // For exports; entries carry their own
+  details?: { [key: string]: Json };
+}
+
+// Best effort: a failure is logged but never gets in the way of the action.
+// The database fills in the user and the user agent.
+export const recordEvent = ({ type, entry, collectionId, details = {} }: ClientEvent): void => {
+  supabase
+    .from('audit_events')
+    .insert({
+      event_type: type,
+      entry_id: entry?.id ?? null,
+      entry_label: entry?.label ?? null,
+      collection_id: entry?.collection_id ?? collectionId ?? null,
+      details,
+    })
+    .then(({ error }) => {
+      if (error) console.error("Error recording activity:", error);
+      else if (type === 'vault_exported') notifyAlerts();
+    });
+};
+
+// --- Reading ---
+
+// One page of events, newest first; `hasMore` when the page is full.
+export const fetchAuditEvents = async (
+  userId: string,
+  query: AuditQuery,
+  offset = 0
+): Promise<{ events: AuditEvent[]; hasMore: boolean }> => {
+  let request = supabase.from('audit_events').select('*').eq('user_id', userId);
+  if (query.type) request = request.eq('event_type', query.type);
+  if (query.alertsOnly) request = request.eq('alert', true);
+  const { data, error } = await request
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(offset, offset + AUDIT_PAGE_SIZE - 1);
+  if (error) fail('activity.loadFailed', error);
+  const events = data as AuditEvent[];
+  return { events, hasMore: events.length === AUDIT_PAGE_SIZE };
+};
+
+export const countUnreadAlerts = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('audit_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('alert', true)
+    .is('read_at', null);
+  if (error) fail('activity.countFailed', error);
+  return count ?? 0;
+};
+
+export const markAlertsRead = async (userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('audit_events')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('alert', true)
+    .is('read_at', null);
+  if (error) fail('activity.markFailed', error);
+  notifyAlerts();
+};
+
+// How often the navbar checks for alerts raised elsewhere, e.g. a sign-in on another device
+const ALERT_POLL_MS = 60_000;
+
+// The number of unread alerts, kept current while the app is open.
+export const useUnreadAlerts = (userId: string | null): number => {
+  const [count, setCount] = useState<number>(0);
+
+  useEffect(() => {
+    if (!userId) {
+      setCount(0);
+      return;
+    }
+    const refresh = () => {
+      countUnreadAlerts(userId).then(setCount).catch(() => undefined); // Offline: keep the last count
+    };
+    refresh();
+    alertListeners.add(refresh);
+    const timer = setInterval(refresh, ALERT_POLL_MS);
+    window.addEventListener('focus', refresh);
+    return () => {
+      alertListeners.delete(refresh);
+      clearInterval(timer);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [userId]);
+
+  return count;
+};
+
+// --- Display ---
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A short name for the client, e.g. "Firefox on Windows"; anything
+// unrecognised (the CLI, scripts) is shown as-is.
+export const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return localize('activity.device.unknown');
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent;
+  if (!system) return browser!;
+  return localize('activity.device', { browser: browser ?? localize('activity.device.browser'), system });
+};
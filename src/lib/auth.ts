@@ -0,0 +1,151 @@
+// Account operations on top of Supabase Auth: sign-in and sign-up, password
+// reset, email change, and TOTP multi-factor authentication with recovery
+// codes. Every function throws an Error with a message fit to show the user.
+
+import type { AuthError, Factor } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { localize } from './i18n';
+
+// Assurance levels: aal1 = password only, aal2 = password plus a second factor.
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+export interface Assurance {
+  current: AssuranceLevel | null;
+  next: AssuranceLevel | null; // aal2 when the user has a verified factor
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string; // data: URL of an SVG image
+  secret: string; // For authenticator apps that can't scan
+}
+
+const fail = (context: string, error: AuthError | Error): never => {
+  console.error(`Error ${context}:`, error);
+  throw new Error(error.message || `Failed ${context}.`);
+};
+
+// Links in reset and confirmation emails lead back to the app.
+const redirectUrl = () => window.location.origin;
+
+// --- Sign-in and sign-up ---
+
+export const signIn = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) fail('signing in', error);
+};
+
+// Resolves to true when the user must confirm their email before signing in.
+export const signUp = async (email: string, password: string): Promise<boolean> => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: redirectUrl() },
+  });
+  if (error) fail('signing up', error);
+  return data.session === null;
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) fail('signing out', error);
+};
+
+// --- Password reset and account changes ---
+
+export const MIN_ACCOUNT_PASSWORD_LENGTH = 8;
+
+// The email links back with a recovery session; onAuthStateChange then fires
+// PASSWORD_RECOVERY and the app asks for a new password.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: redirectUrl() });
+  if (error) fail('requesting a password reset', error);
+};
+
+export const updatePassword = async (password: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) fail('updating your password', error);
+};
+
+// The change takes effect once confirmed from the new address (and, with
+// secure email change enabled, the old one too).
+export const changeEmail = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectUrl() });
+  if (error) fail('changing your email', error);
+};
+
+// --- Multi-factor authentication ---
+
+export const getAssurance = async (): Promise<Assurance> => {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) fail('checking your sign-in level', error);
+  return { current: data!.currentLevel, next: data!.nextLevel };
+};
+
+export const listTotpFactors = async (): Promise<Factor[]> => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) fail('listing authenticators', error);
+  return data!.totp;
+};
+
+// Starts enrolment; the factor stays unverified until `verifyTotp` succeeds.
+// Leftover unverified factors from abandoned attempts are removed first, as
+// Supabase rejects a second factor with the same name.
+export const enrollTotp = async (): Promise<TotpEnrollment> => {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) fail('listing authenticators', listError);
+  for (const factor of factors!.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id });
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    issuer: 'Password Generator',
+    friendlyName: 'Authenticator app',
+  });
+  if (error) fail('setting up the authenticator', error);
+  return { factorId: data!.id, qrCode: data!.totp.qr_code, secret: data!.totp.secret };
+};
+
+// Used both to finish enrolment and to pass the login challenge; on success
+// the session is upgraded to aal2.
+export const verifyTotp = async (factorId: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+  if (error) fail('verifying the code', error);
+};
+
+export const unenrollTotp = async (factorId: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) fail('removing the authenticator', error);
+};
+
+// --- Recovery codes ---
+
+// Replaces any earlier codes. Needs an aal2 session.
+export const generateRecoveryCodes = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) fail('generating recovery codes', error);
+  return data as string[];
+};
+
+export const countRecoveryCodes = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('mfa_recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+  if (error) fail('counting recovery codes', error);
+  return count ?? 0;
+};
+
+// A valid code removes the user's authenticators so they can get in with
+// their password and enrol a new one. The session is refreshed so the
+// assurance level reflects that. After a few wrong codes the database
+// refuses to check more for a while, and the error says so.
+export const redeemRecoveryCode = async (code: string): Promise<void> => {
+  const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', { code });
+  if (error) fail('checking the recovery code', error);
+  if (!data) throw new Error(localize('mfa.invalidRecoveryCode'));
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  if (refreshError) fail('refreshing your session', refreshError);
+};
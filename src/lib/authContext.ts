@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  loading: boolean; // Until the initial session and its assurance level are known
+  // Signed in with a password, but a verified authenticator still has to be used
+  mfaRequired: boolean;
+  // Arrived through a password-reset link; a new password must be set first
+  passwordRecovery: boolean;
+  refreshAssurance: () => Promise<void>;
+  endPasswordRecovery: () => void;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const useAuth = (): AuthState => {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used inside an AuthProvider.');
+  return auth;
+};
+
+// The user whose data may be loaded: signed in all the way, including the
+// second factor when enrolled, and not midway through a password reset.
+export const useSignedInUser = (): User | null => {
+  const { user, mfaRequired, passwordRecovery } = useAuth();
+  return mfaRequired || passwordRecovery ? null : user;
+};
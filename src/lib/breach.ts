@@ -0,0 +1,106 @@
+// Breached-password lookups using k-anonymity range queries in the
+// Have I Been Pwned "Pwned Passwords" format: the password is SHA-1 hashed
+// locally and only the first 5 hex characters of the hash leave the browser.
+// The server answers with every known hash suffix under that prefix
+// ("SUFFIX:COUNT" per line) and the match happens here.
+
+import { localize } from './i18n';
+
+export const HASH_PREFIX_LENGTH = 5;
+
+export const DEFAULT_BREACH_API_URL = 'https://api.pwnedpasswords.com/range/';
+
+// Where range responses come from. The default talks HTTP to the configured
+// endpoint; a self-hosted mirror or a local stub can be swapped in.
+export interface BreachRangeSource {
+  fetchRange(prefix: string): Promise<string>;
+}
+
+// `endpoint` is the range URL with the prefix appended, e.g.
+// https://api.pwnedpasswords.com/range/ + 21BD1.
+export const httpRangeSource = (endpoint: string): BreachRangeSource => ({
+  fetchRange: async (prefix) => {
+    const response = await fetch(`${endpoint}${prefix}`, {
+      headers: { 'Add-Padding': 'true' }, // Hides the real size of the response
+    });
+    if (!response.ok) throw new Error(localize('breach.httpFailed', { status: response.status }));
+    return response.text();
+  },
+});
+
+// Memoises ranges by prefix, so a bulk audit asks for each prefix only once.
+export const cachedRangeSource = (source: BreachRangeSource): BreachRangeSource => {
+  const cache = new Map<string, Promise<string>>();
+  return {
+    fetchRange: (prefix) => {
+      if (!cache.has(prefix)) {
+        cache.set(prefix, source.fetchRange(prefix).catch((error) => {
+          cache.delete(prefix); // Let a failed range be retried
+          throw error;
+        }));
+      }
+      return cache.get(prefix)!;
+    },
+  };
+};
+
+export const defaultBreachSource: BreachRangeSource = httpRangeSource(
+  import.meta.env.VITE_BREACH_API_URL || DEFAULT_BREACH_API_URL
+);
+
+export const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+// Occurrences of `suffix` in a range response; padding entries have a count of 0.
+export const parseRangeResponse = (body: string, suffix: string): number => {
+  for (const line of body.split('\n')) {
+    const [hashSuffix, count] = line.trim().split(':');
+    if (hashSuffix?.toUpperCase() === suffix) return parseInt(count, 10) || 0;
+  }
+  return 0;
+};
+
+// How many times the password appears in the breach corpus (0 = not found).
+export const checkBreached = async (
+  password: string,
+  source: BreachRangeSource = defaultBreachSource
+): Promise<number> => {
+  const hash = await sha1Hex(password);
+  const body = await source.fetchRange(hash.slice(0, HASH_PREFIX_LENGTH));
+  return parseRangeResponse(body, hash.slice(HASH_PREFIX_LENGTH));
+};
+
+export interface BreachAuditResult {
+  counts: Record<string, number>; // Entry id -> breach count
+  failed: string[]; // Entry ids whose lookup failed
+}
+
+const AUDIT_CONCURRENCY = 4;
+
+// Checks many passwords with a few lookups in flight at a time, reporting
+// progress after each one. A failed lookup doesn't stop the audit.
+export const auditPasswords = async (
+  items: { id: string; password: string }[],
+  onProgress?: (done: number, total: number) => void,
+  source: BreachRangeSource = cachedRangeSource(defaultBreachSource)
+): Promise<BreachAuditResult> => {
+  const result: BreachAuditResult = { counts: {}, failed: [] };
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        result.counts[item.id] = await checkBreached(item.password, source);
+      } catch (error) {
+        console.error("Error checking password against breaches:", error);
+        result.failed.push(item.id);
+      }
+      onProgress?.(++done, items.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(AUDIT_CONCURRENCY, items.length) }, worker));
+  return result;
+};
@@ -0,0 +1,129 @@
+// One place for copying secrets. Copies are cleared again after a
+// configurable delay, but only while the clipboard still holds what we put
+// there, and every outcome (copied, cleared, failed) is published for the
+// toast to show.
+import { localize } from './i18n';
+
+export type ClipboardStatus =
+  | { kind: 'copied'; message: string; clearsAt: number | null } // clearsAt: epoch ms, null = never
+  | { kind: 'cleared' | 'error'; message: string };
+
+export const CLEAR_DELAY_OPTIONS = [0, 15, 30, 60, 120]; // Seconds; 0 = never clear
+export const DEFAULT_CLEAR_SECONDS = 30;
+
+const STORAGE_KEY = 'clipboard-clear-seconds';
+const NOTICE_MS = 3000; // How long "cleared" and error notices stay up
+
+const readStoredDelay = (): number => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored !== null && CLEAR_DELAY_OPTIONS.includes(Number(stored)) ? Number(stored) : DEFAULT_CLEAR_SECONDS;
+};
+
+// Reading the clipboard prompts for permission in most browsers, so it's only
+// done when the permission has already been granted.
+const canReadClipboard = async (): Promise<boolean> => {
+  try {
+    return (await navigator.permissions.query({ name: 'clipboard-read' as PermissionName })).state === 'granted';
+  } catch {
+    return false; // Unknown permission name (Firefox, Safari)
+  }
+};
+
+export const createClipboardService = (getClipboard: () => Clipboard | undefined = () => navigator.clipboard) => {
+  let status: ClipboardStatus | null = null;
+  let ours: string | null = null; // What we last wrote, until it's cleared or replaced
+  let clearAfterSeconds = readStoredDelay();
+  let clearTimer: ReturnType<typeof setTimeout> | undefined;
+  let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryOnFocus = false;
+  const listeners = new Set<() => void>();
+
+  const publish = (next: ClipboardStatus | null) => {
+    status = next;
+    clearTimeout(noticeTimer);
+    if (next && next.kind !== 'copied') noticeTimer = setTimeout(() => publish(null), NOTICE_MS);
+    listeners.forEach(listener => listener());
+  };
+
+  // Anything the user copies inside the page afterwards isn't ours to clear.
+  const forget = () => {
+    ours = null;
+    clearTimeout(clearTimer);
+    if (status?.kind === 'copied') publish(null);
+  };
+  document.addEventListener('copy', forget);
+  document.addEventListener('cut', forget);
+
+  const clear = async () => {
+    clearTimeout(clearTimer);
+    if (ours === null) return;
+    const clipboard = getClipboard();
+    try {
+      if (await canReadClipboard()) {
+        if ((await clipboard!.readText()) !== ours) {
+          forget(); // Replaced outside the page; leave it alone
+          return;
+        }
+      }
+      await clipboard!.writeText('');
+      ours = null;
+      publish({ kind: 'cleared', message: localize('clipboard.cleared') });
+    } catch {
+      // Browsers refuse clipboard access while the page isn't focused; try
+      // again as soon as it is.
+      if (!retryOnFocus) {
+        retryOnFocus = true;
+        window.addEventListener('focus', () => {
+          retryOnFocus = false;
+          clear();
+        }, { once: true });
+      }
+    }
+  };
+
+  // Resolves to whether the copy succeeded; failures are published as errors.
+  const copy = async (text: string, label = localize('clipboard.password')): Promise<boolean> => {
+    const clipboard = getClipboard();
+    if (!clipboard?.writeText) {
+      publish({ kind: 'error', message: localize('clipboard.unavailable') });
+      return false;
+    }
+    try {
+      await clipboard.writeText(text);
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      publish({
+        kind: 'error',
+        message: error instanceof DOMException && error.name === 'NotAllowedError'
+          ? localize('clipboard.denied')
+          : localize('clipboard.failed'),
+      });
+      return false;
+    }
+    ours = text;
+    clearTimeout(clearTimer);
+    const clearsAt = clearAfterSeconds > 0 ? Date.now() + clearAfterSeconds * 1000 : null;
+    if (clearsAt !== null) clearTimer = setTimeout(clear, clearAfterSeconds * 1000);
+    publish({ kind: 'copied', message: localize('clipboard.copied', { label }), clearsAt });
+    return true;
+  };
+
+  return {
+    copy,
+    clearNow: clear,
+    getStatus: () => status,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    getClearAfterSeconds: () => clearAfterSeconds,
+    setClearAfterSeconds: (seconds: number) => {
+      clearAfterSeconds = seconds;
+      localStorage.setItem(STORAGE_KEY, String(seconds));
+    },
+  };
+};
+
+export type ClipboardService = ReturnType<typeof createClipboardService>;
+
+export const clipboardService = createClipboardService();
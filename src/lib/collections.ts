@@ -0,0 +1,259 @@
+// Shared collections: creating them, membership by email with roles, and
+// handing out the collection key. Every function throws an Error with a
+// message fit to show the user.
+//
+// Keys never reach the server in the clear. A member's private key is sealed
+// under their vault key like a saved password, and the collection key is
+// wrapped separately for each member with their public key. Removing a member
+// replaces the key, so the copy they kept opens nothing.
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { localize } from './i18n';
+import type { MessageKey } from './locales/en';
+import { decryptPassword, encryptPassword } from './vault';
+import {
+  collectionKeyring,
+  createCollectionKey,
+  decryptSecret,
+  encryptSecret,
+  generateMemberKeyPair,
+  importMemberPrivateKey,
+  kdfParamsId,
+  unwrapCollectionKey,
+  wrapCollectionKey,
+  type VaultKeyring,
+} from './vaultCrypto';
+import { UNIQUE_VIOLATION, fetchAllEntries, fetchCollectionHistory } from './passwordRepository';
+
+export type CollectionRole = 'viewer' | 'editor' | 'owner';
+
+export const COLLECTION_ROLES: Record<CollectionRole, { label: MessageKey; description: MessageKey }> = {
+  viewer: { label: 'collection.roleName.viewer', description: 'collection.roleHint.viewer' },
+  editor: { label: 'collection.roleName.editor', description: 'collection.roleHint.editor' },
+  owner: { label: 'collection.roleName.owner', description: 'collection.roleHint.owner' },
+};
+
+export const canEditEntries = (role: CollectionRole): boolean => role !== 'viewer';
+
+// The signed-in user's membership of one collection.
+export interface Membership {
+  collectionId: string;
+  name: string;
+  role: CollectionRole;
+  wrappedKey: string;
+  keyVersion: number; // Of the collection key `wrappedKey` holds
+}
+
+// A row of `collection_members`, as shown in the member list.
+export interface CollectionMember {
+  user_id: string;
+  email: string;
+  role: CollectionRole;
+  created_at: string;
+}
+
+// The user's key pair, unsealed for this session.
+export interface MemberIdentity {
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+// Raised by our own database functions, with a message meant for the user
+const RAISED_EXCEPTION = 'P0001';
+
+const fail = (message: MessageKey, error: PostgrestError): never => {
+  console.error(`Error (${message}):`, error);
+  throw new Error(error.code === RAISED_EXCEPTION ? error.message : localize(message));
+};
+
+// --- Member keys ---
+
+// Unseals the user's key pair, creating one the first time sharing is used.
+export const loadMemberIdentity = async (userId: string, keyring: VaultKeyring): Promise<MemberIdentity> => {
+  const { data, error } = await supabase
+    .from('user_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) fail('collection.error.loadKeys', error);
+
+  if (data) {
+    let privateKey: string;
+    try {
+      privateKey = await decryptPassword(keyring, { ...data, password_text: null });
+    } catch {
+      throw new Error(localize('collection.error.otherPassphrase'));
+    }
+    return { publicKey: data.public_key, privateKey: await importMemberPrivateKey(privateKey) };
+  }
+
+  const pair = await generateMemberKeyPair();
+  const { error: insertError } = await supabase.from('user_keys').insert({
+    user_id: userId,
+    public_key: pair.publicKey,
+    ...(await encryptPassword(keyring, pair.privateKey)),
+  });
+  // Another tab may have won the race; use its keys instead
+  if (insertError?.code === UNIQUE_VIOLATION) return loadMemberIdentity(userId, keyring);
+  if (insertError) fail('collection.error.setUpKeys', insertError);
+  return { publicKey: pair.publicKey, privateKey: await importMemberPrivateKey(pair.privateKey) };
+};
+
+// --- Collections ---
+
+export const fetchMemberships = async (userId: string): Promise<Membership[]> => {
+  const { data, error } = await supabase
+    .from('collection_members')
+    .select('collection_id, role, wrapped_key, collections(name, key_version)')
+    .eq('user_id', userId);
+  if (error) fail('collection.error.loadCollections', error);
+  return data!
+    .map(row => ({
+      collectionId: row.collection_id,
+      name: row.collections?.name ?? localize('collection.untitled'),
+      role: row.role as CollectionRole,
+      wrappedKey: row.wrapped_key,
+      keyVersion: row.collections?.key_version ?? 1,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The keyring that decrypts the collection's entries.
+export const openCollection = async (
+  membership: Pick<Membership, 'collectionId' | 'name' | 'wrappedKey' | 'keyVersion'>,
+  identity: MemberIdentity
+): Promise<VaultKeyring> => {
+  try {
+    const key = await unwrapCollectionKey(membership.wrappedKey, identity.privateKey);
+    return collectionKeyring(membership.collectionId, membership.keyVersion, key);
+  } catch (error) {
+    console.error("Error unwrapping collection key:", error);
+    throw new Error(localize('collection.error.open', { name: membership.name }));
+  }
+};
+
+// Resolves to the new collection's id; the creator becomes its owner.
+export const createCollection = async (name: string, identity: MemberIdentity): Promise<string> => {
+  const wrappedKey = await wrapCollectionKey(await createCollectionKey(), identity.publicKey);
+  const { data, error } = await supabase.rpc('create_collection', { name, wrapped_key: wrappedKey });
+  if (error) fail('collection.createFailed', error);
+  return data!;
+};
+
+export const renameCollection = async (collectionId: string, name: string): Promise<void> => {
+  const { error } = await supabase.from('collections').update({ name }).eq('id', collectionId);
+  if (error) fail('collection.renameFailed', error);
+};
+
+// Deletes the collection and every entry in it.
+export const deleteCollection = async (collectionId: string): Promise<void> => {
+  const { error } = await supabase.from('collections').delete().eq('id', collectionId);
+  if (error) fail('collection.deleteFailed', error);
+};
+
+// --- Members ---
+
+export const fetchMembers = async (collectionId: string): Promise<CollectionMember[]> => {
+  const { data, error } = await supabase
+    .from('collection_members')
+    .select('user_id, email, role, created_at')
+    .eq('collection_id', collectionId)
+    .order('email', { ascending: true });
+  if (error) fail('collection.membersFailed', error);
+  return data as CollectionMember[];
+};
+
+// The invitee needs an account that has unlocked its vault once, so there is
+// a public key to wrap the collection key with. `keyring` is the collection's.
+// Only owners can look accounts up, a limited number of times an hour.
+export const inviteMember = async (
+  collectionId: string,
+  keyring: VaultKeyring,
+  inviterId: string,
+  email: string,
+  role: CollectionRole
+): Promise<void> => {
+  const { data, error } = await supabase.rpc('find_user_key', { collection_id: collectionId, invitee_email: email.trim() });
+  if (error) fail('collection.error.lookUp', error);
+  const invitee = data?.[0];
+  if (!invitee) {
+    throw new Error(localize('collection.error.notReady', { email }));
+  }
+
+  const key = keyring.keys.get(kdfParamsId(keyring.active))!;
+  const { error: insertError } = await supabase.from('collection_members').insert({
+    collection_id: collectionId,
+    user_id: invitee.user_id,
+    email: email.trim().toLowerCase(),
+    role,
+    wrapped_key: await wrapCollectionKey(key, invitee.public_key),
+    added_by: inviterId,
+  });
+  if (insertError?.code === UNIQUE_VIOLATION) throw new Error(localize('collection.error.alreadyMember', { email }));
+  if (insertError) fail('collection.inviteFailed', insertError);
+};
+
+export const changeMemberRole = async (collectionId: string, userId: string, role: CollectionRole): Promise<void> => {
+  const { error } = await supabase
+    .from('collection_members')
+    .update({ role })
+    .eq('collection_id', collectionId)
+    .eq('user_id', userId);
+  if (error) fail('collection.roleFailed', error);
+};
+
+// Also used to leave a collection. The database refuses to remove the last owner.
+export const removeMember = async (collectionId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('collection_members')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('user_id', userId);
+  if (error) fail('collection.removeFailed', error);
+};
+
+// Replaces the collection key, after a member was removed. Every entry and
+// history row is re-encrypted under a new key, which is wrapped for each
+// remaining member; the database swaps it all in at once, and refuses if the
+// collection changed meanwhile. `keyring` is the collection's current one.
+export const rotateCollectionKey = async (userId: string, collectionId: string, keyring: VaultKeyring): Promise<void> => {
+  const oldKey = keyring.keys.get(kdfParamsId(keyring.active))!;
+  const newKey = await createCollectionKey();
+  const reseal = async (ciphertext: string | null, iv: string | null) =>
+    ciphertext && iv
+      ? encryptSecret(newKey, await decryptSecret(oldKey, { ciphertext, iv }))
+      : { ciphertext: null, iv: null };
+
+  const { data: memberKeys, error } = await supabase.rpc('collection_member_keys', { target: collectionId });
+  if (error) fail('collection.error.loadMemberKeys', error);
+  const wrappedKeys: Record<string, string> = {};
+  for (const member of memberKeys!) wrappedKeys[member.user_id] = await wrapCollectionKey(newKey, member.public_key);
+
+  const entries = await Promise.all((await fetchAllEntries({ userId, collectionId })).map(async entry => {
+    const password = await reseal(entry.ciphertext, entry.iv);
+    const notes = await reseal(entry.notes_ciphertext, entry.notes_iv);
+    const totp = await reseal(entry.totp_ciphertext, entry.totp_iv);
+    return {
+      id: entry.id,
+      ...password,
+      notes_ciphertext: notes.ciphertext,
+      notes_iv: notes.iv,
+      totp_ciphertext: totp.ciphertext,
+      totp_iv: totp.iv,
+    };
+  }));
+  const history = await Promise.all((await fetchCollectionHistory(collectionId)).map(async row => ({
+    id: row.id,
+    ...await reseal(row.ciphertext, row.iv),
+  })));
+
+  const { error: rotateError } = await supabase.rpc('rotate_collection_key', {
+    target: collectionId,
+    from_version: keyring.active.iterations,
+    wrapped_keys: wrappedKeys,
+    entries,
+    history,
+  });
+  if (rotateError) fail('collection.rotateFailed', rotateError);
+};
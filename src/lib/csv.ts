@@ -0,0 +1,53 @@
+// Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes ("")
+// and newlines inside quotes. Good enough for password-manager exports.
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, ''); // Excel and some exporters prepend a BOM
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Values are written verbatim (no spreadsheet formula escaping): a password
+// export has to round-trip exactly.
+export const toCsv = (rows: string[][]): string =>
+  rows.map(r => r.map(escapeField).join(',')).join('\r\n') + '\r\n';
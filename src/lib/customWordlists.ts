@@ -0,0 +1,53 @@
+// Passphrase wordlists in other languages, added by the user from a file and
+// kept on this device (they're too large for the presets table). Importing
+// this module registers the saved lists with the passphrase generator.
+import { parseWordlist, registerWordlist, unregisterWordlist, type Wordlist } from './passphrase';
+import { localize } from './i18n';
+
+const STORAGE_KEY = 'custom-wordlists';
+
+interface StoredWordlist {
+  id: string;
+  name: string;
+  words: string[];
+}
+
+const readStored = (): StoredWordlist[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStored = (lists: StoredWordlist[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+  } catch (error) {
+    console.error("Error saving wordlists:", error);
+    throw new Error(localize('wordlist.noRoom'));
+  }
+};
+
+const toWordlist = (stored: StoredWordlist): Wordlist => ({ ...stored, builtIn: false });
+
+readStored().forEach(stored => registerWordlist(toWordlist(stored)));
+
+// Parses and saves a wordlist file; resolves to the new list.
+export const addCustomWordlist = async (name: string, file: Blob): Promise<Wordlist> => {
+  const stored: StoredWordlist = {
+    id: `custom-${crypto.randomUUID()}`,
+    name: name.trim(),
+    words: parseWordlist(await file.text()),
+  };
+  writeStored([...readStored(), stored]);
+  const wordlist = toWordlist(stored);
+  registerWordlist(wordlist);
+  return wordlist;
+};
+
+export const removeCustomWordlist = (id: string): void => {
+  writeStored(readStored().filter(stored => stored.id !== id));
+  unregisterWordlist(id);
+};
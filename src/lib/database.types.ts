@@ -0,0 +1,548 @@
+// Types for the `public` schema in the format of `supabase gen types typescript`.
+// Regenerate with `npm run gen:types` after changing a migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_events: {
+        Row: {
+          alert: boolean
+          collection_id: string | null
+          created_at: string
+          details: Json
+          entry_id: string | null
+          entry_label: string | null
+          event_type: string
+          id: string
+          new_device: boolean
+          read_at: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          alert?: never
+          collection_id?: string | null
+          created_at?: string
+          details?: Json
+          entry_id?: string | null
+          entry_label?: string | null
+          event_type: string
+          id?: string
+          new_device?: boolean
+          read_at?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Update: {
+          alert?: never
+          collection_id?: string | null
+          created_at?: string
+          details?: Json
+          entry_id?: string | null
+          entry_label?: string | null
+          event_type?: string
+          id?: string
+          new_device?: boolean
+          read_at?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      collection_members: {
+        Row: {
+          added_by: string | null
+          collection_id: string
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          added_by?: string | null
+          collection_id: string
+          created_at?: string
+          email: string
+          role: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          added_by?: string | null
+          collection_id?: string
+          created_at?: string
+          email?: string
+          role?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_members_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          key_version: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_version?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_version?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      generator_presets: {
+        Row: {
+          character_policy: Json
+          created_at: string
+          id: string
+          is_default: boolean
+          mode: string
+          name: string
+          passphrase_options: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          character_policy: Json
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          mode: string
+          name: string
+          passphrase_options: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          character_policy?: Json
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          mode?: string
+          name?: string
+          passphrase_options?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      password_history: {
+        Row: {
+          ciphertext: string | null
+          collection_id: string | null
+          encryption_version: number | null
+          generation_mode: string | null
+          id: string
+          iv: string | null
+          kdf_algorithm: string | null
+          kdf_iterations: number | null
+          kdf_salt: string | null
+          password_id: string
+          password_text: string | null
+          replaced_at: string
+          strength_score: number | null
+          user_id: string
+        }
+        Insert: {
+          ciphertext?: string | null
+          collection_id?: string | null
+          encryption_version?: number | null
+          generation_mode?: string | null
+          id?: string
+          iv?: string | null
+          kdf_algorithm?: string | null
+          kdf_iterations?: number | null
+          kdf_salt?: string | null
+          password_id: string
+          password_text?: string | null
+          replaced_at?: string
+          strength_score?: number | null
+          user_id: string
+        }
+        Update: {
+          ciphertext?: string | null
+          collection_id?: string | null
+          encryption_version?: number | null
+          generation_mode?: string | null
+          id?: string
+          iv?: string | null
+          kdf_algorithm?: string | null
+          kdf_iterations?: number | null
+          kdf_salt?: string | null
+          password_id?: string
+          password_text?: string | null
+          replaced_at?: string
+          strength_score?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "password_history_password_id_fkey"
+            columns: ["password_id"]
+            isOneToOne: false
+            referencedRelation: "passwords"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      passwords: {
+        Row: {
+          ciphertext: string | null
+          collection_id: string | null
+          created_at: string
+          encryption_version: number | null
+          folder: string | null
+          generation_mode: string | null
+          id: string
+          iv: string | null
+          kdf_algorithm: string | null
+          kdf_iterations: number | null
+          kdf_salt: string | null
+          label: string | null
+          notes_ciphertext: string | null
+          notes_iv: string | null
+          password_changed_at: string
+          password_text: string | null
+          strength_score: number | null
+          tags: string[]
+          totp_ciphertext: string | null
+          totp_iv: string | null
+          updated_at: string | null
+          url: string | null
+          user_id: string
+          username: string | null
+        }
+        Insert: {
+          ciphertext?: string | null
+          collection_id?: string | null
+          created_at?: string
+          encryption_version?: number | null
+          folder?: string | null
+          generation_mode?: string | null
+          id?: string
+          iv?: string | null
+          kdf_algorithm?: string | null
+          kdf_iterations?: number | null
+          kdf_salt?: string | null
+          label?: string | null
+          notes_ciphertext?: string | null
+          notes_iv?: string | null
+          password_changed_at?: string
+          password_text?: string | null
+          strength_score?: number | null
+          tags?: string[]
+          totp_ciphertext?: string | null
+          totp_iv?: string | null
+          updated_at?: string | null
+          url?: string | null
+          user_id: string
+          username?: string | null
+        }
+        Update: {
+          ciphertext?: string | null
+          collection_id?: string | null
+          created_at?: string
+          encryption_version?: number | null
+          folder?: string | null
+          generation_mode?: string | null
+          id?: string
+          iv?: string | null
+          kdf_algorithm?: string | null
+          kdf_iterations?: number | null
+          kdf_salt?: string | null
+          label?: string | null
+          notes_ciphertext?: string | null
+          notes_iv?: string | null
+          password_changed_at?: string
+          password_text?: string | null
+          strength_score?: number | null
+          tags?: string[]
+          totp_ciphertext?: string | null
+          totp_iv?: string | null
+          updated_at?: string | null
+          url?: string | null
+          user_id?: string
+          username?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "passwords_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_keys: {
+        Row: {
+          ciphertext: string
+          created_at: string
+          encryption_version: number
+          iv: string
+          kdf_algorithm: string
+          kdf_iterations: number
+          kdf_salt: string
+          public_key: string
+          user_id: string
+        }
+        Insert: {
+          ciphertext: string
+          created_at?: string
+          encryption_version: number
+          iv: string
+          kdf_algorithm: string
+          kdf_iterations: number
+          kdf_salt: string
+          public_key: string
+          user_id: string
+        }
+        Update: {
+          ciphertext?: string
+          created_at?: string
+          encryption_version?: number
+          iv?: string
+          kdf_algorithm?: string
+          kdf_iterations?: number
+          kdf_salt?: string
+          public_key?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_key_lookups: {
+        Row: {
+          id: string
+          looked_up_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          looked_up_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          looked_up_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          auto_lock_minutes: number
+          locale: string | null
+          lock_when_hidden: boolean
+          sign_out_minutes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_lock_minutes?: number
+          locale?: string | null
+          lock_when_hidden?: boolean
+          sign_out_minutes?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_lock_minutes?: number
+          locale?: string | null
+          lock_when_hidden?: boolean
+          sign_out_minutes?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      vault_kdf_params: {
+        Row: {
+          ciphertext: string | null
+          created_at: string | null
+          encryption_version: number | null
+          id: string | null
+          iv: string | null
+          kdf_algorithm: string | null
+          kdf_iterations: number | null
+          kdf_salt: string | null
+          password_text: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      collection_key_version: {
+        Args: {
+          target: string
+        }
+        Returns: number
+      }
+      collection_member_keys: {
+        Args: {
+          target: string
+        }
+        Returns: {
+          user_id: string
+          public_key: string
+        }[]
+      }
+      collection_role: {
+        Args: {
+          target: string
+        }
+        Returns: string
+      }
+      create_collection: {
+        Args: {
+          name: string
+          wrapped_key: string
+        }
+        Returns: string
+      }
+      find_user_key: {
+        Args: {
+          collection_id: string
+          invitee_email: string
+        }
+        Returns: {
+          user_id: string
+          public_key: string
+        }[]
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      redeem_mfa_recovery_code: {
+        Args: {
+          code: string
+        }
+        Returns: boolean
+      }
+      request_user_agent: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      rotate_collection_key: {
+        Args: {
+          target: string
+          from_version: number
+          wrapped_keys: Json
+          entries: Json
+          history: Json
+        }
+        Returns: undefined
+      }
+      set_default_generator_preset: {
+        Args: {
+          preset_id: string | null
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  TableName extends keyof (PublicSchema["Tables"] & PublicSchema["Views"]),
+> = (PublicSchema["Tables"] & PublicSchema["Views"])[TableName] extends {
+  Row: infer R
+}
+  ? R
+  : never
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName] extends {
+    Insert: infer I
+  }
+    ? I
+    : never
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName] extends {
+    Update: infer U
+  }
+    ? U
+    : never
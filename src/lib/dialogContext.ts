@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+
+export interface ConfirmOptions {
+  title: string;
+  message?: string;
+  confirmLabel?: string; // Defaults to "OK"
+  destructive?: boolean; // Styles the confirm button as a deletion
+}
+
+// Asks the user to confirm; resolves to false when they cancel or press Escape.
+export type Confirm = (options: ConfirmOptions) => Promise<boolean>;
+
+export const DialogContext = createContext<Confirm | null>(null);
+
+// An accessible replacement for window.confirm.
+export const useConfirm = (): Confirm => {
+  const confirm = useContext(DialogContext);
+  if (!confirm) throw new Error('useConfirm must be used inside a DialogProvider.');
+  return confirm;
+};
@@ -0,0 +1,121 @@
+import { useCallback, useState } from 'react';
+import {
+  decryptNotes,
+  decryptPassword,
+  decryptTotp,
+  entryDetailColumns,
+  isUnderActiveKey,
+  passwordChangeColumns,
+  type EntryDraft,
+  type PasswordHistoryEntry,
+  type PasswordSource,
+  type SavedPassword,
+} from './vault';
+import type { VaultKeyring } from './vaultCrypto';
+import { useVault } from './vaultContext';
+import { useOperations, type Operations } from './operations';
+import { recordEvent } from './auditLog';
+import { announce } from './announcer';
+import { localize } from './i18n';
+import { fetchEntryHistory, updateEntry, type VaultScope } from './passwordRepository';
+
+// Editing one saved entry and browsing its password history. After a change
+// `onChanged` is told whether the password itself was replaced, so the list
+// can reload and drop breach results that described the old one.
+export interface EntryEditing {
+  draft: { notes: string; totp: string } | null; // Decrypted, while the form is open
+  startEditing: () => Promise<void>;
+  cancelEditing: () => void;
+  save: (draft: EntryDraft) => Promise<void>;
+  history: PasswordHistoryEntry[] | null; // null while loading
+  historyOpen: boolean;
+  toggleHistory: () => void;
+  revealHistory: (old: PasswordHistoryEntry) => Promise<string | null>;
+  restore: (old: PasswordHistoryEntry) => Promise<void>;
+  // Failures under 'edit', 'history', 'reveal' and 'restore'
+  operations: Operations;
+}
+
+export const useEntryEditing = (
+  entry: SavedPassword,
+  scope: VaultScope,
+  keyring: VaultKeyring,
+  onChanged: (passwordChanged: boolean) => Promise<void>
+): EntryEditing => {
+  const { online } = useVault();
+  const operations = useOperations();
+  const { run } = operations;
+  const [draft, setDraft] = useState<{ notes: string; totp: string } | null>(null);
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+  const [history, setHistory] = useState<PasswordHistoryEntry[] | null>(null);
+
+  const startEditing = useCallback(async () => {
+    await run('edit', async () => {
+      if (!online) throw new Error(localize('entry.editOffline'));
+      setDraft({ notes: await decryptNotes(keyring, entry), totp: await decryptTotp(keyring, entry) });
+    }, localize('entry.decryptNotesFailed'));
+  }, [run, online, keyring, entry]);
+
+  const loadHistory = useCallback(async () => {
+    setHistory(null);
+    const loaded = await run('history', () => fetchEntryHistory(entry.id), localize('history.failed'));
+    setHistory(loaded ?? []);
+  }, [run, entry.id]);
+
+  // Throws, so the form can show the error next to its fields.
+  const save = useCallback(async (changes: EntryDraft) => {
+    let newPassword = changes.password;
+    let source: PasswordSource | null = changes.source;
+    if (newPassword === null && !isUnderActiveKey(keyring, entry)) {
+      // Notes and the authenticator key are re-encrypted under the active key, so the password has to move with them
+      newPassword = await decryptPassword(keyring, entry);
+      source = entry.generation_mode;
+    }
+    await updateEntry(scope, entry.id, {
+      ...(await entryDetailColumns(keyring, changes)),
+      ...(newPassword !== null ? await passwordChangeColumns(keyring, newPassword, source) : {}),
+    });
+    setDraft(null);
+    announce(localize('entry.saved'));
+    await onChanged(newPassword !== null);
+    if (historyOpen) await loadHistory();
+  }, [keyring, entry, scope, onChanged, historyOpen, loadHistory]);
+
+  const toggleHistory = useCallback(() => {
+    setHistoryOpen(open => !open);
+    if (!historyOpen) loadHistory();
+  }, [historyOpen, loadHistory]);
+
+  // Recorded like revealing the current password.
+  const revealHistory = useCallback(async (old: PasswordHistoryEntry) => {
+    const plaintext = await run('reveal', () => decryptPassword(keyring, old), localize('entry.decryptFailed'));
+    if (plaintext === undefined) return null;
+    recordEvent({ type: 'entry_revealed', entry, details: { history: true } });
+    return plaintext;
+  }, [run, keyring, entry]);
+
+  // Re-encrypts the old value under the current key rather than copying its
+  // columns back, so restoring never reintroduces a plaintext row.
+  const restore = useCallback(async (old: PasswordHistoryEntry) => {
+    await run('restore', async () => {
+      const plaintext = await decryptPassword(keyring, old);
+      await updateEntry(scope, entry.id, await passwordChangeColumns(keyring, plaintext, old.generation_mode));
+      announce(localize('entry.restored'));
+      await onChanged(true);
+      await loadHistory();
+    }, localize('history.restoreFailed'));
+  }, [run, keyring, scope, entry.id, onChanged, loadHistory]);
+
+  return {
+    draft,
+    startEditing,
+    cancelEditing: () => setDraft(null),
+    save,
+    history,
+    historyOpen,
+    toggleHistory,
+    revealHistory,
+    restore,
+    operations,
+  };
+};
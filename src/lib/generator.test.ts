@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  AMBIGUOUS_CHARACTERS,
+  CHARACTER_SETS,
+  DEFAULT_CHARACTER_POLICY,
+  PolicyValidationError,
+  generateCharacterPassword,
+  validateCharacterPolicy,
+  type CharacterClass,
+  type CharacterPolicy,
+} from './generator';
+import { setActiveLocale } from './i18n';
+import { seededSource } from '../test/randomSources';
+
+const RUNS = 200;
+
+const policy = (changes: Partial<CharacterPolicy> = {}, classes: Partial<CharacterPolicy['classes']> = {}): CharacterPolicy => ({
+  ...DEFAULT_CHARACTER_POLICY,
+  ...changes,
+  classes: { ...DEFAULT_CHARACTER_POLICY.classes, ...classes },
+});
+
+const countOf = (password: string, cls: CharacterClass): number =>
+  Array.from(password).filter(ch => (CHARACTER_SETS[cls] as string).includes(ch)).length;
+
+// Many passwords from one seeded source, so failures are reproducible.
+const samples = (p: CharacterPolicy, seed = 1): string[] => {
+  const rng = seededSource(seed);
+  return Array.from({ length: RUNS }, () => generateCharacterPassword(p, rng));
+};
+
+describe('generateCharacterPassword', () => {
+  it('meets every per-class minimum and maximum', () => {
+    const p = policy({ length: 12 }, {
+      uppercase: { enabled: true, min: 3, max: 4 },
+      lowercase: { enabled: true, min: 2, max: null },
+      numbers: { enabled: true, min: 4, max: 4 },
+      symbols: { enabled: true, min: 1, max: 1 },
+    });
+    for (const password of samples(p)) {
+      expect(password).toHaveLength(12);
+      expect(countOf(password, 'uppercase')).toBeGreaterThanOrEqual(3);
+      expect(countOf(password, 'uppercase')).toBeLessThanOrEqual(4);
+      expect(countOf(password, 'lowercase')).toBeGreaterThanOrEqual(2);
+      expect(countOf(password, 'numbers')).toBe(4);
+      expect(countOf(password, 'symbols')).toBe(1);
+    }
+  });
+
+  it('never uses disabled classes', () => {
+    const p = policy({ length: 20 }, {
+      numbers: { enabled: false, min: 1, max: null },
+      symbols: { enabled: false, min: 1, max: null },
+    });
+    for (const password of samples(p)) {
+      expect(countOf(password, 'numbers') + countOf(password, 'symbols')).toBe(0);
+    }
+  });
+
+  it('never uses excluded or ambiguous characters', () => {
+    const p = policy({ length: 64, exclude: 'aeiouAEIOU$', avoidAmbiguous: true });
+    for (const password of samples(p)) {
+      for (const ch of 'aeiouAEIOU$' + AMBIGUOUS_CHARACTERS) expect(password).not.toContain(ch);
+    }
+  });
+
+  it('draws symbols from the custom symbol set', () => {
+    const p = policy({ length: 16, symbolSet: '-_' }, { symbols: { enabled: true, min: 2, max: null } });
+    for (const password of samples(p)) {
+      expect(Array.from(password).filter(ch => '-_'.includes(ch)).length).toBeGreaterThanOrEqual(2);
+      expect(password).not.toMatch(/[!@#$%^&*()+~`|}{[\]:;?><,./=]/);
+    }
+  });
+
+  it('starts with a letter when asked to', () => {
+    const p = policy({ length: 8, startWithLetter: true }, {
+      numbers: { enabled: true, min: 4, max: null },
+      symbols: { enabled: true, min: 2, max: null },
+    });
+    for (const password of samples(p)) {
+      expect(password).toHaveLength(8);
+      expect(password[0]).toMatch(/[A-Za-z]/);
+    }
+  });
+
+  it('leads with a required letter when only one letter class has a minimum', () => {
+    const p = policy({ length: 4, startWithLetter: true }, {
+      uppercase: { enabled: true, min: 0, max: null },
+      lowercase: { enabled: true, min: 4, max: null },
+      numbers: { enabled: false, min: 0, max: null },
+      symbols: { enabled: false, min: 0, max: null },
+    });
+    for (const password of samples(p)) {
+      expect(password).toHaveLength(4);
+      expect(password).toMatch(/^[a-z]{4}$/);
+    }
+  });
+
+  it('repeats no character when repeats are off', () => {
+    const p = policy({ length: 40, noRepeats: true });
+    for (const password of samples(p)) expect(new Set(password).size).toBe(40);
+  });
+
+  it('uses the combined alphabet uniformly beyond the minimums', () => {
+    const p = policy({ length: 32 }, {
+      uppercase: { enabled: false, min: 0, max: null },
+      lowercase: { enabled: true, min: 0, max: null },
+      numbers: { enabled: false, min: 0, max: null },
+      symbols: { enabled: false, min: 0, max: null },
+    });
+    const counts = new Map<string, number>();
+    for (const password of samples(p, 99)) for (const ch of password) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+
+    // Chi-squared with 25 degrees of freedom; 52.62 is the 0.1% critical value.
+    const expected = (RUNS * 32) / 26;
+    const chiSquared = Array.from(CHARACTER_SETS.lowercase)
+      .reduce((sum, ch) => sum + ((counts.get(ch) ?? 0) - expected) ** 2 / expected, 0);
+    expect(chiSquared).toBeLessThan(52.62);
+  });
+
+  it('throws the validation errors for a policy it cannot satisfy', () => {
+    const p = policy({ length: 4 }, { numbers: { enabled: true, min: 5, max: null } });
+    expect(() => generateCharacterPassword(p)).toThrow(PolicyValidationError);
+  });
+});
+
+describe('validateCharacterPolicy', () => {
+  it('accepts the default policy', () => {
+    expect(validateCharacterPolicy(DEFAULT_CHARACTER_POLICY)).toEqual([]);
+  });
+
+  it('reports minimums that do not fit the length', () => {
+    const p = policy({ length: 4 }, { numbers: { enabled: true, min: 3, max: null } });
+    expect(validateCharacterPolicy(p)).toContain('The minimum counts need 6 characters, but the length is 4.');
+  });
+
+  it('reports a class whose every character is excluded', () => {
+    const p = policy({ exclude: CHARACTER_SETS.numbers });
+    expect(validateCharacterPolicy(p)).toContain('Numbers: every character is excluded.');
+  });
+
+  it('needs a letter class to start with a letter', () => {
+    const p = policy({ startWithLetter: true }, {
+      uppercase: { enabled: false, min: 0, max: null },
+      lowercase: { enabled: false, min: 0, max: null },
+    });
+    expect(validateCharacterPolicy(p)).toContain('Starting with a letter needs uppercase or lowercase letters enabled.');
+  });
+
+  describe('in another interface language', () => {
+    afterEach(() => setActiveLocale('en'));
+
+    it('reports errors in that language', () => {
+      setActiveLocale('ar');
+      const p = policy({ exclude: CHARACTER_SETS.numbers });
+      expect(validateCharacterPolicy(p)).toContain('الأرقام: جميع الأحرف مستبعدة.');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { generatePassphrase, passphraseEntropyBits, type PassphraseOptions } from './passphrase';
+import { cryptoRandomSource, randomInt, shuffle, type RandomSource } from './random';
+import { localize } from './i18n';
+import type { MessageKey } from './locales/en';
+
+// How a generated secret was produced; recorded on saved entries.
+export type GenerationMode = 'characters' | 'passphrase';
+
+export const CHARACTER_SETS = {
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  numbers: '0123456789',
+  symbols: '!@#$%^&*()_+~`|}{[]:;?><,./-=',
+} as const;
+
+export type CharacterClass = keyof typeof CHARACTER_SETS;
+
+export const CHARACTER_CLASSES = Object.keys(CHARACTER_SETS) as CharacterClass[];
+
+export const CLASS_LABELS: Record<CharacterClass, MessageKey> = {
+  uppercase: 'policy.class.uppercase',
+  lowercase: 'policy.class.lowercase',
+  numbers: 'policy.class.numbers',
+  symbols: 'policy.class.symbols',
+};
+
+// Characters easily confused with one another in many fonts.
+export const AMBIGUOUS_CHARACTERS = '0Oo1lI|';
+
+export const MIN_PASSWORD_LENGTH = 4;
+export const MAX_PASSWORD_LENGTH = 128;
+
+export interface ClassRule {
+  enabled: boolean;
+  min: number;
+  max: number | null; // null = no upper limit
+}
+
+export interface CharacterPolicy {
+  length: number;
+  classes: Record<CharacterClass, ClassRule>;
+  symbolSet: string; // The alphabet used for the symbols class
+  exclude: string; // Characters never to use
+  avoidAmbiguous: boolean;
+  noRepeats: boolean; // Every character at most once
+  startWithLetter: boolean;
+}
+
+export const DEFAULT_CHARACTER_POLICY: CharacterPolicy = {
+  length: 16,
+  classes: {
+    uppercase: { enabled: true, min: 1, max: null },
+    lowercase: { enabled: true, min: 1, max: null },
+    numbers: { enabled: true, min: 1, max: null },
+    symbols: { enabled: true, min: 1, max: null },
+  },
+  symbolSet: CHARACTER_SETS.symbols,
+  exclude: '',
+  avoidAmbiguous: false,
+  noRepeats: false,
+  startWithLetter: false,
+};
+
+export type GeneratorPolicy =
+  | ({ mode: 'characters' } & CharacterPolicy)
+  | ({ mode: 'passphrase' } & PassphraseOptions);
+
+// Thrown when a policy can't be satisfied; `errors` lists every problem found.
+export class PolicyValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join(' '));
+    this.name = 'PolicyValidationError';
+    this.errors = errors;
+  }
+}
+
+const LETTER_CLASSES: CharacterClass[] = ['uppercase', 'lowercase'];
+
+export const enabledClasses = (policy: CharacterPolicy): CharacterClass[] =>
+  CHARACTER_CLASSES.filter(c => policy.classes[c].enabled);
+
+// The characters a class may draw from once exclusions are applied.
+export const classAlphabet = (policy: CharacterPolicy, cls: CharacterClass): string => {
+  const base = cls === 'symbols' ? policy.symbolSet : CHARACTER_SETS[cls];
+  const excluded = policy.exclude + (policy.avoidAmbiguous ? AMBIGUOUS_CHARACTERS : '');
+  return Array.from(new Set(base)).filter(ch => !excluded.includes(ch)).join('');
+};
+
+// How many characters of a class fit: its maximum, and without repeats also
+// the size of its alphabet.
+const classCapacity = (policy: CharacterPolicy, cls: CharacterClass): number => {
+  const { max } = policy.classes[cls];
+  const limit = max ?? Infinity;
+  return policy.noRepeats ? Math.min(limit, classAlphabet(policy, cls).length) : limit;
+};
+
+// Returns every reason the policy can't produce a password; empty when valid.
+export const validateCharacterPolicy = (policy: CharacterPolicy): string[] => {
+  const errors: string[] = [];
+  const { length } = policy;
+  if (!Number.isInteger(length) || length < MIN_PASSWORD_LENGTH || length > MAX_PASSWORD_LENGTH) {
+    errors.push(localize('policy.error.length', { min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH }));
+  }
+  if (/[\p{L}\p{N}\s]/u.test(policy.symbolSet)) {
+    errors.push(localize('policy.error.symbolSet'));
+  }
+
+  const classes = enabledClasses(policy);
+  if (classes.length === 0) {
+    errors.push(localize('policy.error.noClasses'));
+    return errors;
+  }
+
+  let minTotal = 0;
+  let capacityTotal = 0;
+  for (const cls of classes) {
+    const { min, max } = policy.classes[cls];
+    const label = localize(CLASS_LABELS[cls]);
+    const alphabet = classAlphabet(policy, cls);
+    if (!Number.isInteger(min) || min < 0 || (max !== null && (!Number.isInteger(max) || max < 0))) {
+      errors.push(localize('policy.error.counts', { class: label }));
+      continue;
+    }
+    if (alphabet.length === 0) {
+      errors.push(localize('policy.error.allExcluded', { class: label }));
+      continue;
+    }
+    if (max !== null && min > max) {
+      errors.push(localize('policy.error.minOverMax', { class: label, min, max }));
+    } else if (policy.noRepeats && min > alphabet.length) {
+      errors.push(localize('policy.error.tooFewDistinct', { class: label, available: alphabet.length, min }));
+    }
+    minTotal += min;
+    capacityTotal += classCapacity(policy, cls);
+  }
+
+  if (policy.startWithLetter) {
+    const letterClasses = LETTER_CLASSES.filter(c => classes.includes(c) && classCapacity(policy, c) > 0);
+    if (letterClasses.length === 0) {
+      errors.push(localize('policy.error.noLetters'));
+    } else if (letterClasses.every(c => policy.classes[c].min === 0)) {
+      minTotal += 1; // No required letter to lead with: it comes on top of the minimums
+    }
+  }
+  if (minTotal > length) {
+    errors.push(localize('policy.error.minTotal', { total: minTotal, length }));
+  }
+  if (capacityTotal < length) {
+    errors.push(localize(policy.noRepeats ? 'policy.error.repeatsCapacity' : 'policy.error.maxCapacity', { total: capacityTotal, length }));
+  }
+  return errors;
+};
+
+interface Pool {
+  cls: CharacterClass;
+  chars: string[];
+  room: number; // How many more characters the class may contribute
+}
+
+// Draws uniformly from the union of the pools that still have room, so the
+// extra characters follow the combined alphabet like the original generator.
+const drawFrom = (pools: Pool[], noRepeats: boolean, rng: RandomSource): { ch: string; pool: Pool } => {
+  const open = pools.filter(p => p.room > 0 && p.chars.length > 0);
+  let index = randomInt(open.reduce((sum, p) => sum + p.chars.length, 0), rng);
+  let pool = open[0];
+  for (pool of open) {
+    if (index < pool.chars.length) break;
+    index -= pool.chars.length;
+  }
+  const ch = pool.chars[index];
+  if (noRepeats) pool.chars.splice(index, 1);
+  pool.room--;
+  return { ch, pool };
+};
+
+// Each class's minimum is drawn first; the rest come uniformly from the union
+// of the classes with room left, then everything is shuffled so the required
+// characters don't sit at predictable positions. A required leading letter is
+// drawn before the shuffle and kept in front.
+export const generateCharacterPassword = (
+  policy: CharacterPolicy,
+  rng: RandomSource = cryptoRandomSource
+): string => {
+  const errors = validateCharacterPolicy(policy);
+  if (errors.length > 0) throw new PolicyValidationError(errors);
+
+  const pools: Pool[] = enabledClasses(policy).map(cls => ({
+    cls,
+    chars: classAlphabet(policy, cls).split(''),
+    room: policy.classes[cls].max ?? Infinity,
+  }));
+
+  let lead = '';
+  let leadClass: CharacterClass | null = null;
+  if (policy.startWithLetter) {
+    // A letter class with a minimum supplies the lead, so it counts towards
+    // that minimum; only without one does the lead come on top (see
+    // `validateCharacterPolicy`).
+    const letterPools = pools.filter(p => LETTER_CLASSES.includes(p.cls));
+    const requiredPools = letterPools.filter(p => policy.classes[p.cls].min > 0);
+    const drawn = drawFrom(requiredPools.length > 0 ? requiredPools : letterPools, policy.noRepeats, rng);
+    lead = drawn.ch;
+    leadClass = drawn.pool.cls;
+  }
+
+  const body: string[] = [];
+  for (const pool of pools) {
+    const needed = policy.classes[pool.cls].min - (pool.cls === leadClass ? 1 : 0);
+    for (let i = 0; i < needed; i++) body.push(drawFrom([pool], policy.noRepeats, rng).ch);
+  }
+  while (lead.length + body.length < policy.length) body.push(drawFrom(pools, policy.noRepeats, rng).ch);
+
+  return lead + shuffle(body, rng).join('');
+};
+
+export const generate = (policy: GeneratorPolicy, rng: RandomSource = cryptoRandomSource): string =>
+  policy.mode === 'passphrase'
+    ? generatePassphrase(policy, rng)
+    : generateCharacterPassword(policy, rng);
+
+// Entropy of a character policy, treating every position as a uniform pick
+// from the combined alphabet (shrinking as characters are used up without
+// repeats). Per-class minimums and maximums only remove a little, so this is
+// a slight upper bound rather than the exact figure.
+export const characterEntropyBits = (policy: CharacterPolicy): number => {
+  const size = new Set(enabledClasses(policy).flatMap(cls => classAlphabet(policy, cls).split(''))).size;
+  let bits = 0;
+  for (let i = 0; i < policy.length; i++) bits += Math.log2(Math.max(policy.noRepeats ? size - i : size, 1));
+  return bits;
+};
+
+export const entropyBits = (policy: GeneratorPolicy): number =>
+  policy.mode === 'passphrase' ? passphraseEntropyBits(policy) : characterEntropyBits(policy);
@@ -0,0 +1,40 @@
+import { createContext, useContext } from 'react';
+import type { CharacterPolicy, GenerationMode, GeneratorPolicy } from './generator';
+import type { PassphraseOptions } from './passphrase';
+import type { GeneratorPreset } from './presets';
+import type { PasswordSource } from './vault';
+
+export interface GeneratorState {
+  mode: GenerationMode;
+  setMode: (mode: GenerationMode) => void;
+  characterPolicy: CharacterPolicy;
+  updateCharacterPolicy: (changes: Partial<CharacterPolicy>) => void;
+  passphraseOptions: PassphraseOptions;
+  updatePassphraseOptions: (changes: Partial<PassphraseOptions>) => void;
+  policy: GeneratorPolicy;
+  policyErrors: string[]; // Empty when the current policy can generate
+
+  // The current password, generated or typed in
+  password: string;
+  source: PasswordSource;
+  setManualPassword: (password: string) => void;
+  generatePassword: () => void;
+
+  // The signed-in user's presets; empty when signed out
+  presets: GeneratorPreset[];
+  selectedPreset: GeneratorPreset | null;
+  presetModified: boolean; // The settings differ from `selectedPreset`
+  selectPreset: (preset: GeneratorPreset | null) => void;
+  savePreset: (name: string) => Promise<void>;
+  updatePreset: (preset: GeneratorPreset) => Promise<void>;
+  deletePreset: (preset: GeneratorPreset) => Promise<void>;
+  toggleDefaultPreset: (preset: GeneratorPreset) => Promise<void>;
+}
+
+export const GeneratorContext = createContext<GeneratorState | null>(null);
+
+export const useGenerator = (): GeneratorState => {
+  const generator = useContext(GeneratorContext);
+  if (!generator) throw new Error('useGenerator must be used inside a GeneratorProvider.');
+  return generator;
+};
@@ -0,0 +1,102 @@
+// Translation: message catalogs per locale, lookup with plurals and
+// parameters, and the locale preference kept on this device. Read the current
+// locale in components with `useI18n()` (localeContext); library code that
+// has no component to ask uses `localize()`.
+import en, { type Catalog, type Message, type MessageKey } from './locales/en';
+import am from './locales/am';
+import ar from './locales/ar';
+
+export type Locale = 'en' | 'am' | 'ar';
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  name: string; // In the language itself, as shown in the picker
+  dir: TextDirection;
+  catalog: Catalog;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', dir: 'ltr', catalog: en },
+  am: { name: 'አማርኛ', dir: 'ltr', catalog: am },
+  ar: { name: 'العربية', dir: 'rtl', catalog: ar },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// The first of the browser's preferred languages we have a catalog for.
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const base = language.split('-')[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// --- Device Preference ---
+
+// Remembered on the device too, so the sign-in page already speaks the
+// user's language; signed in, the account's choice wins.
+const STORAGE_KEY = 'locale';
+
+export const readStoredLocale = (): Locale | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLocale(stored) ? stored : null;
+};
+
+export const storeLocale = (locale: Locale | null): void => {
+  if (locale) localStorage.setItem(STORAGE_KEY, locale);
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Lookup ---
+
+export type MessageParams = Record<string, string | number>;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+const numberFormats = new Map<Locale, Intl.NumberFormat>();
+
+const pluralRule = (locale: Locale, count: number): Intl.LDMLPluralRule => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!.select(count);
+};
+
+export const formatNumber = (locale: Locale, value: number): string => {
+  if (!numberFormats.has(locale)) numberFormats.set(locale, new Intl.NumberFormat(locale));
+  return numberFormats.get(locale)!.format(value);
+};
+
+// The message for `key` in `locale` (or English), with `{name}` placeholders
+// filled in. A numeric `count` parameter picks the plural form.
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message: Message = LOCALES[locale].catalog[key] ?? en[key];
+  const template = typeof message === 'string'
+    ? message
+    : message[pluralRule(locale, Number(params.count))] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in params)) return placeholder;
+    const value = params[name];
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+// Timestamps from the database (ISO strings), e.g. created_at, as a date and
+// time in the locale's own format.
+export const formatDateTime = (locale: Locale, value: string | Date): string =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+
+// --- Outside Components ---
+
+// Validation errors, clipboard notices and the like are written by library
+// code, which also runs in the CLI and the extension. LocaleProvider keeps
+// this in step with the app's locale; everywhere else it stays English.
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export const setActiveLocale = (locale: Locale): void => {
+  activeLocale = locale;
+};
+
+export const localize = (key: MessageKey, params?: MessageParams): string =>
+  translate(activeLocale, key, params);
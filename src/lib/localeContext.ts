@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { Locale, MessageParams, TextDirection } from './i18n';
+import type { MessageKey } from './locales/en';
+
+export interface LocaleState {
+  locale: Locale;
+  dir: TextDirection;
+  preference: Locale | null; // null = follow the browser
+  // Saved on this device and, signed in, to the account
+  setPreference: (locale: Locale | null) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (value: string | Date) => string;
+  formatNumber: (value: number) => string;
+}
+
+export const LocaleContext = createContext<LocaleState | null>(null);
+
+export const useI18n = (): LocaleState => {
+  const state = useContext(LocaleContext);
+  if (!state) throw new Error('useI18n must be used inside a LocaleProvider.');
+  return state;
+};
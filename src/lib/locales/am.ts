@@ -0,0 +1,771 @@
+import type { Catalog } from './en';
+
+// Amharic (አማርኛ). Written left to right in Ge'ez script.
+const am: Catalog = {
+  // --- App ---
+  'app.loading': 'በመጫን ላይ...',
+  'app.skipToContent': 'ወደ ይዘቱ ዝለል',
+  'app.localOnly': 'የአካባቢ ብቻ ሁነታ፦ Supabase ስላልተዋቀረ መለያዎችና ካዝናው አይገኙም። የይለፍ ቃል ፈጣሪው ያለ በይነመረብ ሙሉ በሙሉ ይሠራል።',
+  'app.offline': 'ከመስመር ውጭ ነዎት። ግቤቶችን ማከልና መሰረዝ አሁንም ይቻላል፤ ሲገናኙ ለውጦቹ ይመሳሰላሉ።',
+  'app.pendingSyncing': {
+    one: 'ለመመሳሰል የሚጠብቅ {count} ከመስመር ውጭ ለውጥ...',
+    other: 'ለመመሳሰል የሚጠብቁ {count} ከመስመር ውጭ ለውጦች...',
+  },
+  'app.pendingLocked': {
+    one: 'ለመመሳሰል የሚጠብቅ {count} ከመስመር ውጭ ለውጥ አለ፤ ለመላክ ካዝናዎን ይክፈቱ።',
+    other: 'ለመመሳሰል የሚጠብቁ {count} ከመስመር ውጭ ለውጦች አሉ፤ ለመላክ ካዝናዎን ይክፈቱ።',
+  },
+
+  // --- Navbar ---
+  'nav.label': 'ዋና',
+  'nav.brand': 'የይለፍ ቃል ፈጣሪ',
+  'nav.generate': 'ፍጠር',
+  'nav.vault': 'ካዝና',
+  'nav.settings': 'ቅንብሮች',
+  'nav.activity': 'እንቅስቃሴ',
+  'nav.activityUnread': {
+    one: 'እንቅስቃሴ፣ {count} ያልተነበበ ማንቂያ',
+    other: 'እንቅስቃሴ፣ {count} ያልተነበቡ ማንቂያዎች',
+  },
+  'nav.profile': 'መገለጫና ቅንብሮች',
+  'nav.logout': 'ውጣ',
+  'nav.language': 'ቋንቋ',
+
+  // --- Languages ---
+  'language.browser': 'የአሳሹ ነባሪ',
+  'language.hint': 'በመለያዎ ላይ ይቀመጣል፤ በሚገቡበት መሣሪያ ሁሉ ይከተልዎታል።',
+
+  // --- Generator ---
+  'generate.title': 'የይለፍ ቃል ፈጣሪ',
+  'generate.password': 'የይለፍ ቃል',
+  'generate.placeholder': 'የይለፍ ቃልዎ',
+  'generate.copy': 'የይለፍ ቃሉን ቅዳ',
+  'generate.copyTitle': 'ወደ ቅንጥብ ሰሌዳ ቅዳ (C)',
+  'generate.new': 'አዲስ የይለፍ ቃል ፍጠር',
+  'generate.newTitle': 'አዲስ የይለፍ ቃል ፍጠር (G)',
+  'generate.clearAfter': 'ቅንጥብ ሰሌዳውን አጽዳ፦',
+  'generate.clearNever': 'በጭራሽ',
+  'generate.clearSeconds': 'ከ{seconds} ሰከንድ በኋላ',
+  'generate.saved': 'በካዝናዎ ተቀምጧል',
+  'generate.save': 'አስቀምጥ',
+  'generate.saveTitle': 'የተፈጠረውን የይለፍ ቃል አስቀምጥ (S)',
+  'generate.unlockToSave': 'ለማስቀመጥ ካዝናዎን ይክፈቱ',
+  'generate.mode.characters': 'ፊደላት',
+  'generate.mode.passphrase': 'የይለፍ ሐረግ',
+  'generate.words': 'ቃላት፦',
+  'generate.separator': 'መለያያ',
+  'generate.case': 'የፊደል መጠን',
+  'generate.case.lowercase': 'ትንሽ ፊደል',
+  'generate.case.capitalize': 'የመጀመሪያ ፊደል ትልቅ',
+  'generate.case.uppercase': 'ትልቅ ፊደል',
+  'generate.case.random': 'በዘፈቀደ',
+  'generate.append': 'መጨረሻ ላይ ጨምር',
+  'generate.append.none': 'ምንም',
+  'generate.append.number': 'ቁጥር',
+  'generate.append.symbol': 'ምልክት',
+  'generate.entropy': 'ኢንትሮፒ፦',
+  'generate.bits': '{bits} ቢት',
+
+  // --- Wordlists ---
+  'wordlist.label': 'የቃላት ዝርዝር',
+  'wordlist.size': '{name} ({count} ቃላት)',
+  'wordlist.add': 'የቃላት ዝርዝር አክል...',
+  'wordlist.remove': 'ይህን የቃላት ዝርዝር አስወግድ',
+  'wordlist.name': 'ስም፣ ለምሳሌ አማርኛ',
+  'wordlist.file': 'የቃላት ዝርዝር ፋይል',
+  'wordlist.hint': 'በእያንዳንዱ መስመር አንድ ቃል ያለው የጽሑፍ ፋይል፣ ወይም የዳይስዌር ዝርዝር ("11111 ቃል")፣ ቢያንስ {min} የተለያዩ ቃላት ያሉት።',
+  'wordlist.removeConfirm': '"{name}" የቃላት ዝርዝርን ከዚህ መሣሪያ ላስወግድ?',
+
+  // --- Shortcuts ---
+  'shortcut.generate': 'አዲስ የይለፍ ቃል ፍጠር',
+  'shortcut.copy': 'የይለፍ ቃሉን ቅዳ',
+  'shortcut.save': 'የይለፍ ቃሉን በካዝናዎ አስቀምጥ',
+  'shortcut.search': 'የተቀመጡ የይለፍ ቃላትን ፈልግ',
+  'shortcut.help': 'የቁልፍ ሰሌዳ አቋራጮችን አሳይ',
+  'shortcuts.title': 'የቁልፍ ሰሌዳ አቋራጮች',
+  'shortcuts.hint': 'በመስክ ውስጥ እየጻፉ ሳሉ አቋራጮች አይሠሩም። Ctrl+K (Cmd+K) ወደ ካዝናው ፍለጋም ይወስዳል።',
+  'shortcuts.enabled': 'ነጠላ-ቁልፍ አቋራጮችን ተጠቀም',
+  'shortcuts.deviceHint': 'በዚህ መሣሪያ ላይ ይቀመጣል። የድምፅ ግቤት የሚጠቀሙ ከሆነ ወይም በስህተት የሚጫኗቸው ከሆነ ያጥፏቸው።',
+
+  // --- Dialogs ---
+  'dialog.ok': 'እሺ',
+  'dialog.cancel': 'ይቅር',
+  'dialog.close': 'ዝጋ',
+  'dialog.remove': 'አስወግድ',
+  'dialog.delete': 'ሰርዝ',
+
+  // --- Strength ---
+  'strength.label': 'ጥንካሬ፦',
+  'strength.0': 'በጣም ደካማ',
+  'strength.1': 'ደካማ',
+  'strength.2': 'መካከለኛ',
+  'strength.3': 'ጠንካራ',
+  'strength.4': 'በጣም ጠንካራ',
+
+  // --- Settings ---
+  'settings.title': 'ቅንብሮች',
+  'settings.loggedInAs': 'የገቡት እንደ፦',
+
+  // --- Activity ---
+  'activity.title': 'እንቅስቃሴ',
+  'activity.all': 'ሁሉም እንቅስቃሴ',
+  'activity.filter': 'በእንቅስቃሴ ዓይነት አጣራ',
+  'activity.alertsOnly': 'ማንቂያዎች ብቻ',
+  'activity.alert': 'ማንቂያ',
+  'activity.markRead': 'ማንቂያዎችን እንደተነበቡ ምልክት አድርግ',
+  'activity.loading': 'እንቅስቃሴ በመጫን ላይ...',
+  'activity.empty': 'የሚታይ እንቅስቃሴ የለም።',
+  'activity.loadMore': 'ተጨማሪ ጫን',
+  'activity.loadingMore': 'በመጫን ላይ...',
+
+  // --- Locking and sync ---
+  'vault.lockedIdle': 'ለ{duration} እንቅስቃሴ ስላልነበረ ካዝናው ተቆልፏል።',
+  'vault.lockedHidden': 'ገጹ በተደበቀበት ጊዜ ካዝናው ተቆልፏል።',
+  'vault.synced': {
+    one: '{count} ከመስመር ውጭ ለውጥ ተመሳስሏል።',
+    other: '{count} ከመስመር ውጭ ለውጦች ተመሳስለዋል።',
+  },
+  'vault.syncFailed': '{failed} ገና ሊመሳሰሉ አልቻሉም።',
+
+  // --- Durations ---
+  'duration.never': 'በጭራሽ',
+  'duration.minutes': '{minutes} ደቂቃ',
+  'duration.hours': '{hours} ሰዓት',
+
+  // --- Clipboard ---
+  'clipboard.password': 'የይለፍ ቃል',
+  'clipboard.passwordFor': 'የ{label} የይለፍ ቃል',
+  'clipboard.copied': '{label} ተቀድቷል',
+  'clipboard.cleared': 'የቅንጥብ ሰሌዳው ጸድቷል',
+  'clipboard.unavailable': 'እዚህ የቅንጥብ ሰሌዳ መዳረሻ የለም (HTTPS ያስፈልገዋል)። እሴቱን በእጅ ይቅዱ።',
+  'clipboard.denied': 'የቅንጥብ ሰሌዳ ፈቃድ ተከልክሏል።',
+  'clipboard.failed': 'ወደ ቅንጥብ ሰሌዳው መቅዳት አልተቻለም።',
+
+  // --- Activity events ---
+  'activity.event.login': 'ገብቷል',
+  'activity.event.entryCreated': 'ግቤት ታክሏል',
+  'activity.event.entryUpdated': 'ግቤት ተቀይሯል',
+  'activity.event.entryDeleted': 'ግቤት ተሰርዟል',
+  'activity.event.entryRevealed': 'የይለፍ ቃል ታይቷል',
+  'activity.event.entryCopied': 'የይለፍ ቃል ተቀድቷል',
+  'activity.event.entryFilled': 'የይለፍ ቃል ተሞልቷል',
+  'activity.event.vaultExported': 'ካዝና ወደ ውጭ ተልኳል',
+
+  // --- Passphrases ---
+  'passphrase.error.missingWordlist': 'የዚህ ቅድመ-ቅንብር የቃላት ዝርዝር በዚህ መሣሪያ ላይ የለም፤ እንደገና ያክሉት ወይም ሌላ ይምረጡ።',
+  'passphrase.error.line': 'እያንዳንዱ መስመር አንድ ቃል ብቻ መያዝ አለበት፤ "{line}" ተገኝቷል።',
+  'passphrase.error.tooFewWords': 'ዝርዝሩ {found} የተለያዩ ቃላት አሉት፤ ቢያንስ {min} ያስፈልጋሉ።',
+
+  // --- Character policy ---
+  'policy.length': 'የይለፍ ቃል ርዝመት፦',
+  'policy.min': 'ዝቅተኛ',
+  'policy.max': 'ከፍተኛ',
+  'policy.class.uppercase': 'አቢይ ፊደላት',
+  'policy.class.lowercase': 'ንዑስ ፊደላት',
+  'policy.class.numbers': 'ቁጥሮች',
+  'policy.class.symbols': 'ምልክቶች',
+  'policy.minimum': 'ዝቅተኛ {class}',
+  'policy.maximum': 'ከፍተኛ {class}',
+  'policy.symbolSet': 'የሚጠቀሙባቸው ምልክቶች',
+  'policy.reset': 'ዳግም አስጀምር',
+  'policy.resetSymbols': 'ነባሪ ምልክቶችን መልስ',
+  'policy.exclude': 'በጭራሽ አትጠቀም',
+  'policy.excludePlaceholder': 'ለምሳሌ <>"\'',
+  'policy.avoidAmbiguous': 'አሻሚ የሆኑትን አስወግድ',
+  'policy.noRepeats': 'ተደጋጋሚ ቁምፊዎች የሉም',
+  'policy.startWithLetter': 'በፊደል ጀምር',
+  'policy.error.length': 'ርዝመቱ ከ{min} እስከ {max} መሆን አለበት።',
+  'policy.error.symbolSet': 'ብጁ ምልክቶች ምልክቶችን ብቻ መያዝ ይችላሉ (ፊደላት፣ አሃዞች ወይም ክፍተቶች አይፈቀዱም)።',
+  'policy.error.noClasses': 'ቢያንስ አንድ የቁምፊ ዓይነት ይምረጡ።',
+  'policy.error.counts': '{class}፦ ዝቅተኛውና ከፍተኛው 0 ወይም ከዚያ በላይ የሆኑ ሙሉ ቁጥሮች መሆን አለባቸው።',
+  'policy.error.allExcluded': '{class}፦ ሁሉም ቁምፊዎች ተገልለዋል።',
+  'policy.error.minOverMax': '{class}፦ ዝቅተኛው ({min}) ከከፍተኛው ({max}) ይበልጣል።',
+  'policy.error.tooFewDistinct': '{class}፦ የሚገኙት {available} የተለያዩ ቁምፊዎች ብቻ ናቸው፤ ግን {min} ያስፈልጋሉ።',
+  'policy.error.noLetters': 'በፊደል ለመጀመር አቢይ ወይም ንዑስ ፊደላት መንቃት አለባቸው።',
+  'policy.error.minTotal': 'ዝቅተኛዎቹ ብዛቶች {total} ቁምፊዎች ያስፈልጋቸዋል፤ ርዝመቱ ግን {length} ነው።',
+  'policy.error.repeatsCapacity': 'ያለ ድግግሞሽ መጠቀም የሚቻለው {total} ቁምፊዎችን ብቻ ነው፤ ርዝመቱ ግን {length} ነው።',
+  'policy.error.maxCapacity': 'ከፍተኛዎቹ ብዛቶች {total} ቁምፊዎችን ብቻ ይፈቅዳሉ፤ ርዝመቱ ግን {length} ነው።',
+
+  // --- Security settings ---
+  'security.title': 'የደህንነት ቅንብሮች',
+  'security.autoLock': 'ካዝናውን ስራ ፈት ሲሆን ቆልፍ ከ',
+  'security.signOut': 'ስራ ፈት ሲሆን ውጣ ከ',
+  'security.lockWhenHidden': 'ይህ ትር ሲደበቅ ወይም ማያ ገጹ ሲቆለፍ ካዝናውን ቆልፍ',
+  'security.hint': 'ቅንብሮቹ በመለያዎ ላይ ይቀመጣሉ፤ በሁሉም መሣሪያዎች ላይ ይሠራሉ።',
+  'security.saveFailed': 'ቅንብሮቹን ማስቀመጥ አልተቻለም።',
+
+  // --- Security report ---
+  'report.title': 'የደህንነት ሪፖርት',
+  'report.loading': 'ካዝናዎ በመተንተን ላይ...',
+  'report.health': {
+    one: 'የካዝና ጤና በ{count} ግቤት ላይ',
+    other: 'የካዝና ጤና በ{count} ግቤቶች ላይ',
+  },
+  'report.skipped': {
+    one: '({count} የተቆለፈ ግቤት አልተካተተም)',
+    other: '({count} የተቆለፉ ግቤቶች አልተካተቱም)',
+  },
+  'report.weakBelow': 'ደካማ ከዚህ በታች',
+  'report.oldAfter': 'ያረጀ ከ (ቀናት) በኋላ',
+  'report.breached': 'በጥሰቶች ውስጥ የተገኙ',
+  'report.breachCount': {
+    one: '{count} ጊዜ',
+    other: '{count} ጊዜ',
+  },
+  'report.checking': 'በማረጋገጥ ላይ...',
+  'report.runBreachCheck': 'የጥሰት ፍተሻ አሂድ',
+  'report.reused': 'በድጋሚ ጥቅም ላይ የዋሉ የይለፍ ቃላት',
+  'report.reusedGroup': {
+    one: 'በ{count} ግቤት ላይ ተመሳሳይ የይለፍ ቃል፦',
+    other: 'በ{count} ግቤቶች ላይ ተመሳሳይ የይለፍ ቃል፦',
+  },
+  'report.weak': 'ደካማ የይለፍ ቃላት',
+  'report.old': {
+    one: 'ከ{count} ቀን በላይ የቆዩ',
+    other: 'ከ{count} ቀናት በላይ የቆዩ',
+  },
+  'report.age': {
+    one: '{count} ቀን የሆነው',
+    other: '{count} ቀናት የሆነው',
+  },
+  'report.regenerate': 'እንደገና ፍጠርና ተካ',
+  'report.regenerateTitle': 'አሁን ባሉት የፈጣሪ ቅንብሮች አዲስ የይለፍ ቃል ፍጠርና አስቀምጥ',
+  'report.regenerateFailed': 'የይለፍ ቃሉን መተካት አልተቻለም።',
+
+  // --- Export ---
+  'export.title': 'ካዝናውን ወደ ውጭ ላክ',
+  'export.json': 'የተመሰጠረ JSON',
+  'export.csv': 'ግልጽ CSV',
+  'export.jsonHint': 'ፋይሉ በራሱ የይለፍ ሐረግ ይመሰጠራል። ፋይሉን እንደገና ለማስገባት ያስፈልግዎታል።',
+  'export.passphrase': 'የወጪ ንግድ የይለፍ ሐረግ',
+  'export.confirmPassphrase': 'የወጪ ንግድ የይለፍ ሐረግን ያረጋግጡ',
+  'export.csvWarningTitle': 'ያልተመሰጠረ ወደ ውጭ መላክ',
+  'export.csvWarning': 'የCSV ፋይሉ እያንዳንዱን የይለፍ ቃልና ማስታወሻ በግልጽ ጽሑፍ ይዟል። ፋይሉን ማንበብ የሚችል ማንኛውም ሰው ወይም ፕሮግራም፣ የደመና ማመሳሰልንና ምትኬዎችን ጨምሮ፣ የይለፍ ቃላትዎን ማንበብ ይችላል። በሚፈልጉበት ቦታ ያስገቡትና ወዲያውኑ ይሰርዙት።',
+  'export.acknowledge': 'አደጋውን ተረድቻለሁ',
+  'export.passphraseTooShort': 'የወጪ ንግድ የይለፍ ሐረግ ቢያንስ {min} ቁምፊዎች መሆን አለበት።',
+  'export.passphraseMismatch': 'የይለፍ ሐረጎቹ አይዛመዱም።',
+  'export.done': {
+    one: '{count} ግቤት ወደ ውጭ ተልኳል።',
+    other: '{count} ግቤቶች ወደ ውጭ ተልከዋል።',
+  },
+  'export.failed': 'ወደ ውጭ መላክ አልተሳካም።',
+  'export.exporting': 'በመላክ ላይ...',
+  'export.submit': 'ላክ',
+
+  // --- Entry fields ---
+  'field.label': 'መለያ ስም',
+  'field.username': 'የተጠቃሚ ስም',
+  'field.url': 'URL',
+  'field.password': 'የይለፍ ቃል',
+  'field.notes': 'ማስታወሻዎች',
+  'field.totp': 'የማረጋገጫ ቁልፍ',
+  'field.tags': 'መለያዎች',
+  'field.folder': 'አቃፊ',
+
+  // --- Import ---
+  'import.title': 'ግቤቶችን አስገባ',
+  'import.hint': 'የተመሰጠሩ የካዝና ወጪዎች፣ ወይም ከBitwarden፣ 1Password፣ KeePass / KeePassXC እና ሌሎች መሣሪያዎች የሚመጡ CSV ፋይሎች።',
+  'import.existingFailed': 'ተደጋጋሚዎችን ለመለየት ያሉትን ግቤቶች መጫን አልተቻለም።',
+  'import.notCsv': 'ፋይሉ ባዶ ነው ወይም CSV ፋይል አይደለም።',
+  'import.decryptFailed': 'ፋይሉን መፍታት አልተቻለም።',
+  'import.decrypting': 'በመፍታት ላይ...',
+  'import.decrypt': 'ፍታ',
+  'import.layout': 'አቀማመጥ፦',
+  'import.notImported': '— አይገባም —',
+  'import.column': 'አምድ {number}',
+  'import.missing': 'የለም',
+  'import.duplicate': 'ተደጋጋሚ',
+  'import.rows': {
+    one: '{count} ረድፍ',
+    other: '{count} ረድፎች',
+  },
+  'import.duplicates': {
+    one: '{count} ተደጋጋሚ',
+    other: '{count} ተደጋጋሚዎች',
+  },
+  'import.checking': '(በማረጋገጥ ላይ...)',
+  'import.withoutPassword': {
+    one: '{count} ያለ የይለፍ ቃል',
+    other: '{count} ያለ የይለፍ ቃል',
+  },
+  'import.skipDuplicates': 'ተደጋጋሚዎችን ዝለል',
+  'import.importing': 'በማስገባት ላይ...',
+  'import.submit': 'አስገባ',
+  'import.missingPassword': 'የይለፍ ቃል የለም',
+  'import.failed': 'ማስገባት አልተሳካም።',
+  'import.report': '{imported} ገብተዋል፣ {skipped} ተደጋጋሚዎች ተዘልለዋል፣ {failed} አልተሳኩም።',
+  'import.rowError': 'ረድፍ {row}፦ {error}',
+  'import.rowErrorLabelled': 'ረድፍ {row} ({label})፦ {error}',
+
+  // --- Password history ---
+  'history.title': 'የይለፍ ቃል ታሪክ',
+  'history.close': 'የይለፍ ቃል ታሪክን ዝጋ',
+  'history.loading': 'ታሪክ በመጫን ላይ...',
+  'history.empty': 'ቀደም ያሉ የይለፍ ቃላት የሉም።',
+  'history.replaced': '{date} ተተክቷል',
+  'history.show': '{date} የተተካውን የይለፍ ቃል አሳይ',
+  'history.hide': '{date} የተተካውን የይለፍ ቃል ደብቅ',
+  'history.restoreTitle': 'ይህን የይለፍ ቃል መልስ',
+  'history.restore': '{date} የተተካውን የይለፍ ቃል መልስ',
+  'history.restoreConfirm': 'ይህን የቀድሞ የይለፍ ቃል ይመልሱ?',
+  'history.restoreConfirmMessage': 'የአሁኑ በታሪክ ውስጥ ይቀመጣል።',
+  'history.restoreLabel': 'መልስ',
+
+  // --- Saved entries ---
+  'entry.noLabel': 'መለያ ስም የለም',
+  'entry.unlabelled': 'ስም የሌለው ግቤት',
+  'entry.unencrypted': 'ሳይመሰጠር የተቀመጠ',
+  'entry.unencryptedTitle': 'የካዝና ምስጠራ ከመኖሩ በፊት የተቀመጠ፤ ካዝናው በሚቀጥለው ጊዜ ሲመሳሰል ይመሰጠራል',
+  'entry.breached': 'ተጥሷል',
+  'entry.breachedTitle': {
+    one: 'በሚታወቁ ጥሰቶች ውስጥ {count} ጊዜ ተገኝቷል',
+    other: 'በሚታወቁ ጥሰቶች ውስጥ {count} ጊዜ ተገኝቷል',
+  },
+  'entry.passphrase': 'የይለፍ ሐረግ',
+  'entry.notes': 'ማስታወሻዎች አሉት',
+  'entry.notesTitle': 'የተመሰጠሩ ማስታወሻዎች አሉት',
+  'entry.newTab': '(በአዲስ ትር ይከፈታል)',
+  'entry.passwordHidden': 'የይለፍ ቃሉ ተደብቋል',
+  'entry.showTag': '#{tag} የተሰየሙ ግቤቶችን አሳይ',
+  'entry.showPassword': 'የይለፍ ቃል አሳይ',
+  'entry.hidePassword': 'የይለፍ ቃል ደብቅ',
+  'entry.showPasswordFor': 'የ{name} የይለፍ ቃል አሳይ',
+  'entry.hidePasswordFor': 'የ{name} የይለፍ ቃል ደብቅ',
+  'entry.copyPassword': 'የይለፍ ቃል ቅዳ',
+  'entry.copyPasswordFor': 'የ{name} የይለፍ ቃል ቅዳ',
+  'entry.edit': 'የይለፍ ቃል አርትዕ',
+  'entry.editFor': '{name} አርትዕ',
+  'entry.history': 'የይለፍ ቃል ታሪክ',
+  'entry.historyFor': 'የ{name} የይለፍ ቃል ታሪክ',
+  'entry.delete': 'የይለፍ ቃል ሰርዝ',
+  'entry.deleteFor': '{name} ሰርዝ',
+  'entry.deleteConfirm': '"{label}" ይሰረዝ?',
+  'entry.deleteConfirmUnlabelled': 'ይህ የይለፍ ቃል ይሰረዝ?',
+  'entry.deleteConfirmMessage': 'የይለፍ ቃል ታሪኩም አብሮ ይሰረዛል።',
+  'entry.deleted': 'ግቤቱ ተሰርዟል',
+  'entry.saved': 'ለውጦቹ ተቀምጠዋል',
+  'entry.restored': 'የይለፍ ቃሉ ተመልሷል',
+
+  // --- Strength ---
+  'strength.estimate': '~{bits} ቢቶች ይገመታል (እያንዳንዱ ቁምፊ በዘፈቀደ ቢሆን {charsetBits} ቢቶች)',
+  'strength.crackTime': 'ለመስበር የሚገመተው ጊዜ',
+  'strength.model.onlineThrottled': 'በመስመር ላይ፣ የተገደበ (100/ሰዓት)',
+  'strength.model.onlineUnthrottled': 'በመስመር ላይ፣ ያልተገደበ (10/ሰከንድ)',
+  'strength.model.offlineSlow': 'ከመስመር ውጭ፣ ቀርፋፋ ሃሽ (10ሺ/ሰከንድ)',
+  'strength.model.offlineFast': 'ከመስመር ውጭ፣ ፈጣን ሃሽ (10 ቢሊዮን/ሰከንድ)',
+  'strength.time.instant': 'ከአንድ ሰከንድ ያነሰ',
+  'strength.time.centuries': 'ክፍለ ዘመናት',
+  'strength.time.century': {
+    one: '{count} ክፍለ ዘመን',
+    other: '{count} ክፍለ ዘመናት',
+  },
+  'strength.time.year': {
+    one: '{count} ዓመት',
+    other: '{count} ዓመታት',
+  },
+  'strength.time.month': {
+    one: '{count} ወር',
+    other: '{count} ወራት',
+  },
+  'strength.time.day': {
+    one: '{count} ቀን',
+    other: '{count} ቀናት',
+  },
+  'strength.time.hour': {
+    one: '{count} ሰዓት',
+    other: '{count} ሰዓታት',
+  },
+  'strength.time.minute': {
+    one: '{count} ደቂቃ',
+    other: '{count} ደቂቃዎች',
+  },
+  'strength.time.second': {
+    one: '{count} ሰከንድ',
+    other: '{count} ሰከንዶች',
+  },
+  'strength.warning.short': 'አጭር የይለፍ ቃላት በቀላሉ ይገመታሉ።',
+  'strength.warning.spatial': 'እንደ "qwerty" ያሉ የቁልፍ ሰሌዳ ቅጦች በቀላሉ ይገመታሉ።',
+  'strength.warning.repeat': 'ተደጋጋሚ ቁምፊዎች ወይም ቅጦች በቀላሉ ይገመታሉ።',
+  'strength.warning.sequence': 'እንደ "abc" ወይም "1234" ያሉ ቅደም ተከተሎች በቀላሉ ይገመታሉ።',
+  'strength.warning.l33t': 'እንደ "a" ፈንታ "@" ያሉ ሊገመቱ የሚችሉ ምትክዎች ብዙም አይረዱም።',
+  'strength.warning.commonPassword': 'ይህ በብዛት ጥቅም ላይ የሚውል የይለፍ ቃል ነው።',
+  'strength.warning.containsCommon': 'በብዛት ጥቅም ላይ የሚውል የይለፍ ቃል ይዟል።',
+  'strength.warning.dictionary': 'የመዝገበ ቃላት ቃላት ብቻቸውን በቀላሉ ይገመታሉ።',
+
+  // --- New account password ---
+  'newPassword.title': 'አዲስ የይለፍ ቃል ይምረጡ',
+  'newPassword.hint': 'ይህ የመግቢያ የይለፍ ቃልዎ ነው። የካዝናዎ ዋና የይለፍ ሐረግ እንዳለ ይቆያል።',
+  'newPassword.password': 'አዲስ የይለፍ ቃል',
+  'newPassword.confirm': 'አዲሱን የይለፍ ቃል ያረጋግጡ',
+  'newPassword.tooShort': 'የይለፍ ቃሉ ቢያንስ {min} ቁምፊዎች መሆን አለበት።',
+  'newPassword.mismatch': 'የይለፍ ቃላቱ አይዛመዱም።',
+  'newPassword.failed': 'የይለፍ ቃሉን ማዘመን አልተቻለም።',
+  'newPassword.saving': 'በማስቀመጥ ላይ...',
+  'newPassword.submit': 'የይለፍ ቃል አዘጋጅ',
+
+  // --- Presets ---
+  'preset.label': 'ቅድመ-ቅንብር',
+  'preset.custom': 'ብጁ ቅንብሮች',
+  'preset.default': '{name} (ነባሪ)',
+  'preset.applyOnLoad': 'ሲጫን ይህን ቅድመ-ቅንብር ተግብር',
+  'preset.stopApplyOnLoad': 'ሲጫን ይህን ቅድመ-ቅንብር መተግበር አቁም',
+  'preset.update': 'ለውጦችን በዚህ ቅድመ-ቅንብር ላይ አስቀምጥ',
+  'preset.delete': 'ቅድመ-ቅንብሩን ሰርዝ',
+  'preset.deleteFor': 'ቅድመ-ቅንብር {name}ን ሰርዝ',
+  'preset.deleteConfirm': 'ቅድመ-ቅንብሩ "{name}" ይሰረዝ?',
+  'preset.saveAs': 'እንደ... አስቀምጥ',
+  'preset.name': 'የቅድመ-ቅንብር ስም',
+  'preset.namePlaceholder': 'የቅድመ-ቅንብር ስም፣ ለምሳሌ AWS IAM',
+  'preset.save': 'አስቀምጥ',
+  'preset.saved': 'ቅድመ-ቅንብሩ ተቀምጧል',
+  'preset.deleted': 'ቅድመ-ቅንብሩ ተሰርዟል',
+  'preset.failed': 'የሆነ ችግር ተፈጥሯል።',
+
+  // --- Collections ---
+  'collection.showing': 'የሚታየው',
+  'collection.personal': 'የግል ማከማቻ',
+  'collection.option': '{name} ({role})',
+  'collection.role.viewer': 'ተመልካች',
+  'collection.role.editor': 'አርታዒ',
+  'collection.role.owner': 'ባለቤት',
+  'collection.members': 'አባላት',
+  'collection.membersOf': 'የ{name} አባላት',
+  'collection.new': 'አዲስ ስብስብ...',
+  'collection.namePlaceholder': 'የስብስብ ስም፣ ለምሳሌ የኦፕስ ቡድን',
+  'collection.create': 'ፍጠር',
+  'collection.createFailed': 'ስብስቡን መፍጠር አልተቻለም።',
+
+  // --- Saved passwords ---
+  'vault.title': 'የተቀመጡ የይለፍ ቃላት',
+  'vault.add': 'አክል',
+  'vault.addTitle': 'በራስዎ የይለፍ ቃል ግቤት ያክሉ',
+  'vault.report': 'ሪፖርት',
+  'vault.reportTitle': 'ድጋሚ የተጠቀሙ፣ ደካማ፣ የቆዩና የተጋለጡ የይለፍ ቃላት',
+  'vault.audit': 'ፍተሻ',
+  'vault.auditTitle': 'እያንዳንዱን የተቀመጠ የይለፍ ቃል ከታወቁ ጥሰቶች ጋር አረጋግጥ',
+  'vault.import': 'አስመጣ',
+  'vault.importTitle': 'ግቤቶችን አስመጣ',
+  'vault.export': 'ላክ',
+  'vault.exportTitle': 'ካዝናውን ላክ',
+  'vault.entrySaved': 'ግቤቱ ተቀምጧል',
+  'vault.sharedOffline': 'የጋራ ስብስቦች ግንኙነት ያስፈልጋቸዋል።',
+  'vault.regenerated': 'የይለፍ ቃሉ እንደገና ተፈጥሯል',
+  'vault.auditProgress': 'ጥሰቶችን በመፈተሽ ላይ... {done}/{total}',
+  'vault.auditSummary': 'ከ{total} የይለፍ ቃላት {breached}ዱ በታወቁ ጥሰቶች ውስጥ ተገኝተዋል።',
+  'vault.auditUnchecked': '{failed} ሊፈተሹ አልቻሉም።',
+  'vault.auditLocked': '{locked} የተቆለፉ ግቤቶች ተዘለዋል።',
+  'vault.search': 'የተቀመጡ የይለፍ ቃላትን ፈልግ',
+  'vault.searchPlaceholder': 'መለያ፣ የተጠቃሚ ስም፣ URL ወይም #መለያ-ቃል ፈልግ  ( / )',
+  'vault.sort': 'የተቀመጡ የይለፍ ቃላትን ደርድር',
+  'vault.sort.newest': 'አዲሱ መጀመሪያ',
+  'vault.sort.oldest': 'የቆየው መጀመሪያ',
+  'vault.sort.name': 'ስም (A–Z)',
+  'vault.sort.weakest': 'ደካማው መጀመሪያ',
+  'vault.sort.strongest': 'ጠንካራው መጀመሪያ',
+  'vault.clearTag': 'የመለያ-ቃል ማጣሪያውን አጽዳ',
+  'vault.clearTagFor': 'የ#{tag} ማጣሪያውን አጽዳ',
+  'vault.loading': 'የተቀመጡ የይለፍ ቃላትን በመጫን ላይ...',
+  'vault.noMatches': 'ከፍለጋዎ ጋር የሚዛመድ ግቤት የለም።',
+  'vault.empty': 'እስካሁን ምንም የይለፍ ቃል አልተቀመጠም።',
+  'vault.unfiled': 'ያልተመደበ',
+  'vault.loadMore': 'ተጨማሪ ጫን',
+  'vault.loadingMore': 'በመጫን ላይ...',
+
+  // --- Account ---
+  'account.title': 'መለያ',
+  'account.email': 'ኢሜይል',
+  'account.newEmail': 'አዲስ ኢሜይል',
+  'account.emailPending': 'የ{email} ማረጋገጫ በመጠበቅ ላይ።',
+  'account.emailChange': 'ቀይር',
+  'account.emailConfirm': 'ወደ {email} በተላከው አገናኝ ለውጡን ያረጋግጡ።',
+  'account.emailFailed': 'ኢሜይሉን መቀየር አልተቻለም።',
+  'account.password': 'የመግቢያ የይለፍ ቃል',
+  'account.passwordUpdate': 'አዘምን',
+  'account.passwordUpdated': 'የመግቢያ የይለፍ ቃሉ ተዘምኗል።',
+  'account.mfa': 'ባለሁለት ደረጃ ማረጋገጫ',
+  'account.mfaLoadFailed': 'የባለሁለት ደረጃ ማረጋገጫ ሁኔታን መጫን አልተቻለም።',
+  'account.mfaOn': {
+    one: 'በርቷል። መግቢያ ከአረጋጋጭ መተግበሪያዎ ኮድ ይጠይቃል። {count} የመልሶ ማግኛ ኮድ ቀርቷል።',
+    other: 'በርቷል። መግቢያ ከአረጋጋጭ መተግበሪያዎ ኮድ ይጠይቃል። {count} የመልሶ ማግኛ ኮዶች ቀርተዋል።',
+  },
+  'account.newCodes': 'አዲስ የመልሶ ማግኛ ኮዶች',
+  'account.turnOff': 'አጥፋ',
+  'account.scan': 'ይህን ኮድ በአረጋጋጭ መተግበሪያ ይቃኙ፣ ከዚያ የሚያሳየውን ባለ6 አሃዝ ኮድ ያስገቡ።',
+  'account.qrAlt': 'የአረጋጋጭ QR ኮድ',
+  'account.manualKey': 'መቃኘት አልቻሉም? በምትኩ ይህን ቁልፍ ያስገቡ፦',
+  'account.verify': 'አረጋግጥ',
+  'account.mfaIntro': 'በእያንዳንዱ መግቢያ ከአረጋጋጭ መተግበሪያ በሚገኝ ኮድ ካዝናዎን ይጠብቁ።',
+  'account.setUp': 'አረጋጋጭ አዘጋጅ',
+  'account.setUpFailed': 'አረጋጋጩን ማዘጋጀት አልተቻለም።',
+  'account.verifyFailed': 'ኮዱን ማረጋገጥ አልተቻለም።',
+  'account.mfaEnabled': 'ባለሁለት ደረጃ ማረጋገጫ በርቷል።',
+  'account.replaceCodesConfirm': 'የመልሶ ማግኛ ኮዶችዎን ይተኩ?',
+  'account.replaceCodesMessage': 'የቆዩት መሥራት ያቆማሉ።',
+  'account.replaceCodes': 'ኮዶችን ተካ',
+  'account.codesFailed': 'የመልሶ ማግኛ ኮዶችን መፍጠር አልተቻለም።',
+  'account.disableConfirm': 'ባለሁለት ደረጃ ማረጋገጫን ያጥፉ?',
+  'account.disableMessage': 'የመልሶ ማግኛ ኮዶችዎ መሥራት ያቆማሉ።',
+  'account.mfaDisabled': 'ባለሁለት ደረጃ ማረጋገጫ ጠፍቷል።',
+  'account.disableFailed': 'ባለሁለት ደረጃ ማረጋገጫን ማጥፋት አልተቻለም።',
+  'account.codesSave': 'እነዚህን የመልሶ ማግኛ ኮዶች ደህንነቱ በተጠበቀ ቦታ ያስቀምጡ። አረጋጋጭዎ ቢጠፋ እያንዳንዳቸው አንድ ጊዜ ይሠራሉ፤ ዳግም አይታዩም።',
+  'account.codes': 'የመልሶ ማግኛ ኮዶች',
+  'account.copy': 'ቅዳ',
+  'account.codesSaved': 'አስቀምጫቸዋለሁ',
+
+  // --- Collection members ---
+  'collection.roleName.viewer': 'ተመልካች',
+  'collection.roleName.editor': 'አርታዒ',
+  'collection.roleName.owner': 'ባለቤት',
+  'collection.roleHint.viewer': 'ግቤቶችን ማየትና መቅዳት ይችላል።',
+  'collection.roleHint.editor': 'ግቤቶችን ማከል፣ መቀየርና መሰረዝም ይችላል።',
+  'collection.roleHint.owner': 'አባላትንም ማስተዳደር ይችላል።',
+  'collection.closeMembers': 'አባላትን ዝጋ',
+  'collection.loadingMembers': 'አባላትን በመጫን ላይ...',
+  'collection.you': '(እርስዎ)',
+  'collection.roleOf': 'የ{email} ሚና',
+  'collection.removeMember': 'አባል አስወግድ',
+  'collection.removeMemberFor': '{email}ን አስወግድ',
+  'collection.invitePlaceholder': 'በኢሜይል ጋብዝ',
+  'collection.inviteRole': 'የአዲሱ አባል ሚና',
+  'collection.invite': 'አክል',
+  'collection.name': 'የስብስቡ ስም',
+  'collection.rename': 'ስም ቀይር',
+  'collection.rotating': 'ግቤቶችን በአዲስ ቁልፍ እንደገና በማመስጠር ላይ...',
+  'collection.rotateRetry': 'አባሉ ተወግዷል፣ ነገር ግን የስብስቡ ቁልፍ አልተተካም፦ {error}',
+  'collection.tryAgain': 'እንደገና ሞክር',
+  'collection.leave': 'ከስብስቡ ውጣ',
+  'collection.leaveHint': 'የመጨረሻው ባለቤት መውጣት አይችልም፤ መጀመሪያ ስብስቡን ይሰርዙ ወይም ሌላ ሰው ባለቤት ያድርጉ',
+  'collection.leaveConfirm': 'ከ"{name}" ይውጡ?',
+  'collection.leaveConfirmMessage': 'ግቤቶቹን ለማየት እንደገና መጋበዝ ያስፈልግዎታል።',
+  'collection.leaveLabel': 'ውጣ',
+  'collection.removeConfirm': '{email}ን ከ"{name}" ያስወግዱ?',
+  'collection.removeConfirmMessage': 'እያንዳንዱ ግቤት በአዲስ ቁልፍ እንደገና ይመሰጠራል፣ ስለዚህ የእነሱ መሥራት ያቆማል።',
+  'collection.delete': 'ስብስቡን ሰርዝ',
+  'collection.deleteConfirm': '"{name}" ይሰረዝ?',
+  'collection.deleteConfirmMessage': 'በውስጡ ያለው እያንዳንዱ ግቤት ለሁሉም አባላት ይሰረዛል። ይህ ሊቀለበስ አይችልም።',
+  'collection.membersFailed': 'አባላትን መጫን አልተቻለም።',
+  'collection.inviteFailed': 'አባሉን ማከል አልተቻለም።',
+  'collection.roleFailed': 'ሚናውን መቀየር አልተቻለም።',
+  'collection.removeFailed': 'አባሉን ማስወገድ አልተቻለም።',
+  'collection.leaveFailed': 'ከስብስቡ መውጣት አልተቻለም።',
+  'collection.rotateFailed': 'የስብስቡን ቁልፍ መተካት አልተቻለም።',
+  'collection.renameFailed': 'የስብስቡን ስም መቀየር አልተቻለም።',
+  'collection.deleteFailed': 'ስብስቡን መሰረዝ አልተቻለም።',
+  'collection.untitled': 'ርዕስ የሌለው',
+  'collection.error.loadKeys': 'የማጋሪያ ቁልፎችዎን መጫን አልተቻለም።',
+  'collection.error.setUpKeys': 'የማጋሪያ ቁልፎችዎን ማዘጋጀት አልተቻለም።',
+  'collection.error.loadCollections': 'የተጋሩ ስብስቦችን መጫን አልተቻለም።',
+  'collection.error.lookUp': 'ያንን መለያ መፈለግ አልተቻለም።',
+  'collection.error.loadMemberKeys': 'የአባላቱን ቁልፎች መጫን አልተቻለም።',
+  'collection.error.otherPassphrase': 'የማጋሪያ ቁልፎችዎ በሌላ ዋና የይለፍ ሐረግ ታሽገዋል።',
+  'collection.error.open': '"{name}"ን መክፈት አልተቻለም፦ ቁልፉ ከአሁኑ ቁልፎችዎ ጋር አልተጋራም።',
+  'collection.error.notReady': 'ለ{email} ለማጋራት ዝግጁ የሆነ መለያ ገና የለም። አንድ ጊዜ ገብተው ካዝናቸውን እንዲከፍቱ ይጠይቋቸው።',
+  'collection.error.alreadyMember': '{email} አስቀድሞ አባል ነው።',
+
+  // --- Clipboard notices ---
+  'clipboard.clearsIn': 'በ{seconds} ሰከንድ ውስጥ ይጸዳል',
+  'clipboard.clearNow': 'አሁን አጽዳ',
+
+  // --- Sign in ---
+  'auth.login': 'ግባ',
+  'auth.signUp': 'ተመዝገብ',
+  'auth.reset': 'የይለፍ ቃል ዳግም አስጀምር',
+  'auth.confirmEmail': 'የማረጋገጫ አገናኝ ለማግኘት ኢሜይልዎን ይመልከቱ፣ ከዚያ ይግቡ።',
+  'auth.resetSent': 'ለዚያ ኢሜይል መለያ ካለ፣ የዳግም ማስጀመሪያ አገናኝ እየተላከ ነው።',
+  'auth.failed': 'ያልተጠበቀ ስህተት ተፈጥሯል።',
+  'auth.processing': 'በሂደት ላይ...',
+  'auth.sendReset': 'የዳግም ማስጀመሪያ አገናኝ ላክ',
+  'auth.forgot': 'የይለፍ ቃልዎን ረሱት?',
+  'auth.needAccount': 'መለያ ያስፈልግዎታል? ይመዝገቡ',
+  'auth.backToLogin': 'ወደ መግቢያ ተመለስ',
+
+  // --- Two-step sign-in ---
+  'mfa.noFactor': 'ለዚህ መለያ ምንም አረጋጋጭ አልተዘጋጀም።',
+  'mfa.failed': 'ማረጋገጫው አልተሳካም።',
+  'mfa.recoveryHint': 'ከመልሶ ማግኛ ኮዶችዎ አንዱን ያስገቡ። አዲስ ማዘጋጀት እንዲችሉ አረጋጋጭዎ ይወገዳል።',
+  'mfa.codeHint': 'ከአረጋጋጭ መተግበሪያዎ ባለ6 አሃዝ ኮዱን ያስገቡ።',
+  'mfa.verifying': 'በማረጋገጥ ላይ...',
+  'mfa.useAuthenticator': 'የአረጋጋጭ መተግበሪያዬን ተጠቀም',
+  'mfa.useRecoveryCode': 'አረጋጋጭዎ ጠፍቷል? የመልሶ ማግኛ ኮድ ይጠቀሙ',
+  'mfa.signOut': 'ውጣ',
+
+  // --- Vault unlock ---
+  'unlock.tooShort': 'ዋናው የይለፍ ሐረግ ቢያንስ {min} ቁምፊዎች መሆን አለበት።',
+  'unlock.mismatch': 'የይለፍ ሐረጎቹ አይዛመዱም።',
+  'unlock.failed': 'ካዝናውን መክፈት አልተቻለም።',
+  'unlock.setTitle': 'ለካዝናዎ ዋና የይለፍ ሐረግ ያዘጋጁ',
+  'unlock.locked': 'ካዝናው ተቆልፏል',
+  'unlock.setHint': 'የተቀመጡ የይለፍ ቃላት በዚህ የይለፍ ሐረግ በአሳሽዎ ውስጥ ይመሰጠራሉ። ከመግቢያ የይለፍ ቃልዎ የተለየ ነው፤ ከረሱትም መልሶ ማግኘት አይቻልም።',
+  'unlock.passphrase': 'ዋና የይለፍ ሐረግ',
+  'unlock.confirm': 'ዋናውን የይለፍ ሐረግ ያረጋግጡ',
+  'unlock.deriving': 'ቁልፉን በማውጣት ላይ...',
+  'unlock.create': 'ካዝና ፍጠር',
+  'unlock.submit': 'ክፈት',
+
+  // --- Vault errors ---
+  'vault.unlockToSave': 'ለማስቀመጥ ካዝናዎን ይክፈቱ።',
+  'vault.saveFailed': 'የይለፍ ቃሉን ማስቀመጥ አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+  'vault.sharingUnavailable': 'ማጋራት አይገኝም።',
+
+  // --- Entry errors ---
+  'vault.syncConflict': '"{label}" በሌላ መሣሪያ ላይ ስለተቀየረ አልተሰረዘም።',
+  'vault.error.passphrase': 'የተሳሳተ ዋና የይለፍ ሐረግ።',
+  'vault.error.otherPassphrase': 'ይህ ግቤት በሌላ ዋና የይለፍ ሐረግ ተመስጥሯል።',
+  'vault.error.version': 'የማይደገፍ የምስጠራ ስሪት፦ {version}',
+  'vault.error.iv': 'ይህ ግቤት IV የለውም።',
+  'entry.untitled': 'ርዕስ የሌለው',
+  'export.entryFailed': '"{label}"ን መላክ አልተቻለም፦ {reason}',
+  'export.decryptFailed': 'መፍታት አልተቻለም።',
+  'import.saveFailed': 'ማስቀመጥ አልተቻለም።',
+  'import.wrongPassphrase': 'የተሳሳተ የይለፍ ሐረግ፣ ወይም ፋይሉ ተበላሽቷል።',
+  'import.unsupportedVersion': 'የማይደገፍ የወጪ ፋይል ስሪት፦ {version}።',
+
+  // --- Authenticator keys ---
+  'totp.error.base32': 'የአረጋጋጭ ቁልፉ ትክክለኛ base32 ያልሆኑ ቁምፊዎች አሉት።',
+  'totp.error.missing': 'የአረጋጋጭ ቁልፉ የለም።',
+  'totp.error.short': 'የአረጋጋጭ ቁልፉ በጣም አጭር ነው።',
+  'totp.error.period': 'ጊዜው ከ{min} እስከ {max} ሰከንድ መሆን አለበት።',
+  'totp.error.malformed': 'ያ otpauth:// አገናኝ የተበላሸ ነው።',
+  'totp.error.notTotp': 'በጊዜ ላይ የተመሠረቱ (TOTP) የአረጋጋጭ ኮዶች ብቻ ይደገፋሉ።',
+  'totp.error.algorithm': 'የማይደገፍ ስልተ ቀመር፦ {algorithm}።',
+  'totp.error.digits': 'ኮዶች 6 ወይም 8 አሃዞች ሊኖራቸው ይገባል።',
+
+  // --- Entry form ---
+  'entryForm.label': "መለያ ስም (ለምሳሌ 'Gmail')",
+  'entryForm.newPassword': 'አዲስ የይለፍ ቃል (የአሁኑን ለማቆየት ባዶ ይተዉት)',
+  'entryForm.generate': 'አዲስ የይለፍ ቃል ፍጠር',
+  'entryForm.generateTitle': 'በአሁኑ ቅንብሮች አዲስ የይለፍ ቃል ፍጠር',
+  'entryForm.generateFailed': 'የይለፍ ቃል መፍጠር አልተቻለም።',
+  'entryForm.strength': 'የይለፍ ቃል ጥንካሬ፦',
+  'entryForm.tags': 'መለያዎች (በኮማ የተለዩ)',
+  'entryForm.notes': 'ማስታወሻዎች (የተመሰጠሩ)',
+  'entryForm.passwordRequired': 'የይለፍ ቃል ያስገቡ ወይም ይፍጠሩ።',
+  'entryForm.saveFailed': 'ግቤቱን ማስቀመጥ አልተቻለም።',
+  'entryForm.saving': 'በማስቀመጥ ላይ...',
+  'entryForm.save': 'አስቀምጥ',
+
+  // --- Breach check ---
+  'breach.failed': 'የጥሰት ፍለጋው አልተሳካም።',
+  'breach.found': {
+    one: 'በታወቁ ጥሰቶች ውስጥ {count} ጊዜ ተገኝቷል። አይጠቀሙበት።',
+    other: 'በታወቁ ጥሰቶች ውስጥ {count} ጊዜ ተገኝቷል። አይጠቀሙበት።',
+  },
+  'breach.notFound': 'በታወቁ ጥሰቶች ውስጥ አልተገኘም።',
+  'breach.privacy': 'የሚላከው የይለፍ ቃሉ SHA-1 ሃሽ የመጀመሪያዎቹ 5 ቁምፊዎች ብቻ ናቸው',
+  'breach.checking': 'በመፈተሽ ላይ...',
+  'breach.check': 'ከታወቁ ጥሰቶች ጋር አወዳድር',
+
+  // --- Authenticator codes ---
+  'totp.invalid': 'ልክ ያልሆነ የአረጋጋጭ ቁልፍ።',
+  'totp.invalidEntry': 'ልክ ያልሆነ የአረጋጋጭ ቁልፍ፤ ለማስተካከል ግቤቱን ያርትዑ።',
+  'totp.remaining': 'እስከሚቀጥለው ኮድ ያሉ ሰከንዶች',
+  'totp.seconds': '{seconds} ሰ',
+  'totp.code': 'ኮድ',
+  'totp.codeFor': 'የ{label} ኮድ',
+  'totp.copy': 'ኮዱን ቅዳ',
+  'totp.copyCode': 'የባለሁለት ደረጃ ኮዱን ቅዳ',
+  'totp.copyFor': 'የ{label} የባለሁለት ደረጃ ኮድን ቅዳ',
+  'totp.scanFailed': 'መቃኘቱ አልተሳካም።',
+  'totp.add': 'የአረጋጋጭ (2FA) ቁልፍ አክል',
+  'totp.placeholder': 'otpauth:// አገናኝ ወይም የአረጋጋጭ ቁልፍ (የተመሰጠረ)',
+  'totp.scan': 'በካሜራ QR ኮድ ይቃኙ',
+  'totp.stopScan': 'መቃኘት አቁም',
+  'totp.upload': 'ከምስል ወይም ከቅጽበታዊ ገጽ እይታ QR ኮድ አንብብ',
+  'totp.remove': 'የአረጋጋጭ ቁልፉን አስወግድ',
+  'totp.preview': 'የካሜራ ቅድመ እይታ',
+  'totp.algorithm': 'ስልተ ቀመር',
+  'totp.digits': 'አሃዞች',
+  'totp.digitsOption': {
+    one: '{count} አሃዝ',
+    other: '{count} አሃዞች',
+  },
+  'totp.period': 'ጊዜ',
+  'totp.periodOption': 'በየ{seconds} ሰከንዱ',
+
+  // --- Vault page ---
+  'collection.openFailed': 'ስብስቡን መክፈት አልተቻለም።',
+  'collection.opening': '{name}ን በመክፈት ላይ...',
+  'vault.lock': 'ካዝናውን ቆልፍ',
+
+  // --- QR codes and lookups ---
+  'breach.httpFailed': 'የጥሰት ፍለጋው አልተሳካም (HTTP {status})።',
+  'qr.unsupported': 'ይህ አሳሽ QR ኮዶችን ማንበብ አይችልም። በምትኩ otpauth:// አገናኙን ይለጥፉ።',
+  'qr.notImage': 'ያ ፋይል ምስል አይደለም።',
+  'qr.notFound': 'በዚያ ምስል ውስጥ QR ኮድ አልተገኘም።',
+  'qr.noCamera': 'የካሜራ መዳረሻ ተከልክሏል ወይም ካሜራ የለም።',
+  'qr.imageFailed': 'ያንን ምስል ማንበብ አልተቻለም።',
+  'mfa.invalidRecoveryCode': 'ያ የመልሶ ማግኛ ኮድ ልክ አይደለም ወይም አስቀድሞ ጥቅም ላይ ውሏል።',
+
+  // --- Storage errors ---
+  'vault.error.load': 'የተቀመጡ የይለፍ ቃላትን መጫን አልተቻለም።',
+  'vault.error.loadAll': 'ካዝናውን መጫን አልተቻለም።',
+  'vault.error.loadExisting': 'ያሉትን ግቤቶች መጫን አልተቻለም።',
+  'vault.error.loadSite': 'ለዚህ ጣቢያ መግቢያዎችን መጫን አልተቻለም።',
+  'vault.error.loadUnencrypted': 'ያልተመሰጠሩ ግቤቶችን መጫን አልተቻለም።',
+  'vault.error.loadEntry': 'ግቤቱን መጫን አልተቻለም።',
+  'vault.error.checkEntry': 'ግቤቱን መፈተሽ አልተቻለም።',
+  'vault.error.loadParams': 'የካዝና መለኪያዎችን መጫን አልተቻለም።',
+  'vault.error.save': 'የይለፍ ቃሉን ማስቀመጥ አልተቻለም።',
+  'vault.error.update': 'የይለፍ ቃሉን ማዘመን አልተቻለም።',
+  'vault.error.encrypt': 'የይለፍ ቃሉን ማመስጠር አልተቻለም።',
+  'vault.error.delete': 'የይለፍ ቃሉን መሰረዝ አልተቻለም።',
+  'history.failed': 'የይለፍ ቃል ታሪክን መጫን አልተቻለም።',
+  'history.restoreFailed': 'የይለፍ ቃሉን መመለስ አልተቻለም።',
+  'entry.editOffline': 'ማርትዕ ግንኙነት ይፈልጋል፤ ከመስመር ውጭ ግቤቶችን ማከልና መሰረዝ ይችላሉ።',
+  'entry.decryptNotesFailed': 'ማስታወሻዎቹን መፍታት አልተቻለም።',
+  'entry.decryptFailed': 'የይለፍ ቃሉን መፍታት አልተቻለም።',
+  'report.loadFailed': 'የደህንነት ሪፖርቱን መጫን አልተቻለም።',
+  'preset.loadFailed': 'ቅድመ ቅንብሮችን መጫን አልተቻለም።',
+  'preset.duplicate': 'በዚያ ስም ቅድመ ቅንብር አስቀድሞ አለ።',
+  'preset.saveFailed': 'ቅድመ ቅንብሩን ማስቀመጥ አልተቻለም።',
+  'preset.updateFailed': 'ቅድመ ቅንብሩን ማዘመን አልተቻለም።',
+  'preset.deleteFailed': 'ቅድመ ቅንብሩን መሰረዝ አልተቻለም።',
+  'preset.defaultFailed': 'ነባሪውን ቅድመ ቅንብር መቀየር አልተቻለም።',
+  'wordlist.noRoom': 'ይህን የቃላት ዝርዝር በዚህ መሣሪያ ላይ ለማስቀመጥ ቦታ የለም።',
+  'wordlist.readFailed': 'ያንን የቃላት ዝርዝር ማንበብ አልተቻለም።',
+  'wordlist.removeFailed': 'የቃላት ዝርዝሩን ማስወገድ አልተቻለም።',
+  'activity.loadFailed': 'እንቅስቃሴን መጫን አልተቻለም።',
+  'activity.countFailed': 'ማንቂያዎችን መቁጠር አልተቻለም።',
+  'activity.markFailed': 'ማንቂያዎችን እንደተነበቡ ምልክት ማድረግ አልተቻለም።',
+  'activity.device.unknown': 'ያልታወቀ መሣሪያ',
+  'activity.device.browser': 'አሳሽ',
+  'activity.device': '{browser} በ{system}',
+
+  // --- Extension ---
+  'extension.popup.generateFailed': 'የይለፍ ቃል ማመንጨት አልተቻለም።',
+  'extension.popup.copied': 'ተቀድቷል።',
+  'extension.popup.copyFailed': 'መቅዳት አልተቻለም፤ በምትኩ የይለፍ ቃሉን መርጠው ይቅዱት።',
+  'extension.popup.password': 'የመነጨ የይለፍ ቃል',
+  'extension.popup.regenerate': 'ሌላ አመንጭ',
+  'extension.popup.copy': 'ቅዳ',
+  'extension.popup.unreachable': 'ቅጥያውን ማግኘት አልተቻለም።',
+  'extension.popup.unlocked': 'ካዝናው ተከፍቷል',
+  'extension.popup.lock': 'ቆልፍ',
+  'extension.popup.notConfigured': 'የካዝና ባህሪያት ጠፍተዋል፤ ይህ ግንባታ የSupabase ፕሮጀክት የለውም።',
+  'extension.error.signIn': 'መጀመሪያ ይግቡ።',
+  'extension.error.emptyVault': 'ካዝናዎ ባዶ ነው። መጀመሪያ በመተግበሪያው ውስጥ የይለፍ ቃል ያስቀምጡ።',
+  'extension.error.locked': 'መጀመሪያ ካዝናውን ከቅጥያው ይክፈቱ።',
+  'extension.error.webPagesOnly': 'መግቢያዎች በድረ-ገጾች ላይ ብቻ መጠቀም ይቻላል።',
+  'extension.error.otherSite': 'ያ መግቢያ ለዚህ ገጽ አይደለም።',
+  'extension.error.saveWebPagesOnly': 'መግቢያዎችን ማስቀመጥ የሚችሉት ድረ-ገጾች ብቻ ናቸው።',
+  'extension.error.nothingToSave': 'የሚቀመጥ የይለፍ ቃል ከእንግዲህ የለም።',
+  'extension.error.notAllowed': 'ከድረ-ገጽ አይፈቀድም።',
+  'extension.error.failed': 'የሆነ ችግር ተፈጥሯል።',
+  'extension.page.keyTitle': 'የይለፍ ቃል አመንጭ ወይም ሙላ (Alt+Down)',
+  'extension.page.key': 'የይለፍ ቃል አመንጭ ወይም ሙላ',
+  'extension.page.saveBar': 'የይለፍ ቃል አስቀምጥ',
+  'extension.page.generate': 'የይለፍ ቃል አመንጭ',
+  'extension.page.unlockToFill': 'የተቀመጡ መግቢያዎችን ለመሙላት ካዝናውን ከመሣሪያ አሞሌ አዝራሩ ይክፈቱ።',
+  'extension.page.noLogins': 'ለዚህ ጣቢያ የተቀመጡ መግቢያዎች የሉም።',
+  'extension.page.fill': '{name} ሙላ',
+  'extension.page.savedLogin': 'የተቀመጠ መግቢያ',
+  'extension.page.saveTitle': 'ይህን የይለፍ ቃል ለ{host} ላስቀምጥ?',
+  'extension.page.noUsername': 'የተጠቃሚ ስም የለም',
+  'extension.page.save': 'አስቀምጥ',
+  'extension.page.notNow': 'አሁን አይደለም',
+  'extension.page.saved': 'ወደ ካዝናዎ ተቀምጧል።',
+  'extension.manifest.name': 'የይለፍ ቃል አመንጪ',
+  'extension.manifest.description': 'በምዝገባ ቅጾች ላይ የይለፍ ቃሎችን ያመነጫል፣ የተቀመጡ መግቢያዎችን ይሞላል እና አዳዲሶቹን ወደ ካዝናዎ ያስቀምጣል።',
+};
+
+export default am;
@@ -0,0 +1,870 @@
+import type { Catalog } from './en';
+
+// Arabic (العربية). Written right to left; the app mirrors its layout.
+const ar: Catalog = {
+  // --- App ---
+  'app.loading': 'جارٍ التحميل...',
+  'app.skipToContent': 'انتقل إلى المحتوى',
+  'app.localOnly': 'الوضع المحلي فقط: لم يتم إعداد Supabase، لذا الحسابات والخزنة غير متاحة. يعمل المولّد بالكامل دون اتصال.',
+  'app.offline': 'أنت غير متصل. لا تزال إضافة الإدخالات وحذفها ممكنة؛ تتم مزامنة التغييرات عند إعادة الاتصال.',
+  'app.pendingSyncing': {
+    zero: 'لا توجد تغييرات بانتظار المزامنة...',
+    one: 'تغيير واحد دون اتصال بانتظار المزامنة...',
+    two: 'تغييران دون اتصال بانتظار المزامنة...',
+    few: '{count} تغييرات دون اتصال بانتظار المزامنة...',
+    many: '{count} تغييرًا دون اتصال بانتظار المزامنة...',
+    other: '{count} تغيير دون اتصال بانتظار المزامنة...',
+  },
+  'app.pendingLocked': {
+    zero: 'لا توجد تغييرات بانتظار المزامنة.',
+    one: 'تغيير واحد دون اتصال بانتظار المزامنة؛ افتح خزنتك لإرساله.',
+    two: 'تغييران دون اتصال بانتظار المزامنة؛ افتح خزنتك لإرسالهما.',
+    few: '{count} تغييرات دون اتصال بانتظار المزامنة؛ افتح خزنتك لإرسالها.',
+    many: '{count} تغييرًا دون اتصال بانتظار المزامنة؛ افتح خزنتك لإرسالها.',
+    other: '{count} تغيير دون اتصال بانتظار المزامنة؛ افتح خزنتك لإرسالها.',
+  },
+
+  // --- Navbar ---
+  'nav.label': 'الرئيسية',
+  'nav.brand': 'مولّد كلمات المرور',
+  'nav.generate': 'توليد',
+  'nav.vault': 'الخزنة',
+  'nav.settings': 'الإعدادات',
+  'nav.activity': 'النشاط',
+  'nav.activityUnread': {
+    one: 'النشاط، تنبيه واحد غير مقروء',
+    two: 'النشاط، تنبيهان غير مقروءين',
+    few: 'النشاط، {count} تنبيهات غير مقروءة',
+    many: 'النشاط، {count} تنبيهًا غير مقروء',
+    other: 'النشاط، {count} تنبيه غير مقروء',
+  },
+  'nav.profile': 'الملف الشخصي والإعدادات',
+  'nav.logout': 'تسجيل الخروج',
+  'nav.language': 'اللغة',
+
+  // --- Languages ---
+  'language.browser': 'لغة المتصفح',
+  'language.hint': 'تُحفظ في حسابك، فتتبعك على كل جهاز.',
+
+  // --- Generator ---
+  'generate.title': 'مولّد كلمات المرور',
+  'generate.password': 'كلمة المرور',
+  'generate.placeholder': 'كلمة المرور الخاصة بك',
+  'generate.copy': 'نسخ كلمة المرور',
+  'generate.copyTitle': 'نسخ إلى الحافظة (C)',
+  'generate.new': 'توليد كلمة مرور جديدة',
+  'generate.newTitle': 'توليد كلمة مرور جديدة (G)',
+  'generate.clearAfter': 'مسح الحافظة بعد',
+  'generate.clearNever': 'أبدًا',
+  'generate.clearSeconds': '{seconds} ث',
+  'generate.saved': 'حُفظت في خزنتك',
+  'generate.save': 'حفظ',
+  'generate.saveTitle': 'حفظ كلمة المرور المولّدة (S)',
+  'generate.unlockToSave': 'افتح خزنتك للحفظ',
+  'generate.mode.characters': 'أحرف',
+  'generate.mode.passphrase': 'عبارة مرور',
+  'generate.words': 'الكلمات:',
+  'generate.separator': 'الفاصل',
+  'generate.case': 'حالة الأحرف',
+  'generate.case.lowercase': 'أحرف صغيرة',
+  'generate.case.capitalize': 'أول حرف كبير',
+  'generate.case.uppercase': 'أحرف كبيرة',
+  'generate.case.random': 'عشوائي',
+  'generate.append': 'إلحاق',
+  'generate.append.none': 'لا شيء',
+  'generate.append.number': 'رقم',
+  'generate.append.symbol': 'رمز',
+  'generate.entropy': 'الإنتروبيا:',
+  'generate.bits': '{bits} بت',
+
+  // --- Wordlists ---
+  'wordlist.label': 'قائمة الكلمات',
+  'wordlist.size': '{name} ({count} كلمة)',
+  'wordlist.add': 'إضافة قائمة كلمات...',
+  'wordlist.remove': 'إزالة قائمة الكلمات هذه',
+  'wordlist.name': 'الاسم، مثل: العربية',
+  'wordlist.file': 'ملف قائمة الكلمات',
+  'wordlist.hint': 'ملف نصي فيه كلمة واحدة في كل سطر، أو قائمة دايسوير ("11111 كلمة")، يحتوي على {min} كلمة مختلفة على الأقل.',
+  'wordlist.removeConfirm': 'إزالة قائمة الكلمات "{name}" من هذا الجهاز؟',
+
+  // --- Shortcuts ---
+  'shortcut.generate': 'توليد كلمة مرور جديدة',
+  'shortcut.copy': 'نسخ كلمة المرور',
+  'shortcut.save': 'حفظ كلمة المرور في خزنتك',
+  'shortcut.search': 'البحث في كلمات المرور المحفوظة',
+  'shortcut.help': 'عرض اختصارات لوحة المفاتيح',
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.hint': 'لا تعمل الاختصارات أثناء الكتابة في حقل. يؤدي Ctrl+K (أو Cmd+K) أيضًا إلى البحث في الخزنة.',
+  'shortcuts.enabled': 'استخدام اختصارات المفتاح الواحد',
+  'shortcuts.deviceHint': 'يُحفظ على هذا الجهاز. أوقفها إذا كنت تستخدم الإدخال الصوتي أو تضغطها عن طريق الخطأ.',
+
+  // --- Dialogs ---
+  'dialog.ok': 'موافق',
+  'dialog.cancel': 'إلغاء',
+  'dialog.close': 'إغلاق',
+  'dialog.remove': 'إزالة',
+  'dialog.delete': 'حذف',
+
+  // --- Strength ---
+  'strength.label': 'القوة:',
+  'strength.0': 'ضعيفة جدًا',
+  'strength.1': 'ضعيفة',
+  'strength.2': 'متوسطة',
+  'strength.3': 'قوية',
+  'strength.4': 'قوية جدًا',
+
+  // --- Settings ---
+  'settings.title': 'الإعدادات',
+  'settings.loggedInAs': 'مسجّل الدخول باسم:',
+
+  // --- Activity ---
+  'activity.title': 'النشاط',
+  'activity.all': 'كل النشاط',
+  'activity.filter': 'التصفية حسب نوع النشاط',
+  'activity.alertsOnly': 'التنبيهات فقط',
+  'activity.alert': 'تنبيه',
+  'activity.markRead': 'تعليم التنبيهات كمقروءة',
+  'activity.loading': 'جارٍ تحميل النشاط...',
+  'activity.empty': 'لا يوجد نشاط لعرضه.',
+  'activity.loadMore': 'تحميل المزيد',
+  'activity.loadingMore': 'جارٍ التحميل...',
+
+  // --- Locking and sync ---
+  'vault.lockedIdle': 'تم قفل الخزنة بعد {duration} من عدم النشاط.',
+  'vault.lockedHidden': 'تم قفل الخزنة أثناء إخفاء الصفحة.',
+  'vault.synced': {
+    zero: 'لم تتم مزامنة أي تغيير.',
+    one: 'تمت مزامنة تغيير واحد دون اتصال.',
+    two: 'تمت مزامنة تغييرين دون اتصال.',
+    few: 'تمت مزامنة {count} تغييرات دون اتصال.',
+    many: 'تمت مزامنة {count} تغييرًا دون اتصال.',
+    other: 'تمت مزامنة {count} تغيير دون اتصال.',
+  },
+  'vault.syncFailed': 'تعذّرت مزامنة {failed} حتى الآن.',
+
+  // --- Durations ---
+  'duration.never': 'أبدًا',
+  'duration.minutes': '{minutes} دقيقة',
+  'duration.hours': '{hours} ساعة',
+
+  // --- Clipboard ---
+  'clipboard.password': 'كلمة المرور',
+  'clipboard.passwordFor': 'كلمة مرور {label}',
+  'clipboard.copied': 'تم نسخ {label}',
+  'clipboard.cleared': 'تم مسح الحافظة',
+  'clipboard.unavailable': 'الوصول إلى الحافظة غير متاح هنا (يتطلب HTTPS). انسخ القيمة يدويًا.',
+  'clipboard.denied': 'تم رفض إذن الحافظة.',
+  'clipboard.failed': 'تعذّر النسخ إلى الحافظة.',
+
+  // --- Activity events ---
+  'activity.event.login': 'تسجيل الدخول',
+  'activity.event.entryCreated': 'تمت إضافة إدخال',
+  'activity.event.entryUpdated': 'تم تغيير إدخال',
+  'activity.event.entryDeleted': 'تم حذف إدخال',
+  'activity.event.entryRevealed': 'تم إظهار كلمة مرور',
+  'activity.event.entryCopied': 'تم نسخ كلمة مرور',
+  'activity.event.entryFilled': 'تم ملء كلمة مرور',
+  'activity.event.vaultExported': 'تم تصدير الخزنة',
+
+  // --- Passphrases ---
+  'passphrase.error.missingWordlist': 'قائمة الكلمات لهذا الإعداد المسبق غير موجودة على هذا الجهاز؛ أضفها مرة أخرى أو اختر غيرها.',
+  'passphrase.error.line': 'يجب أن يحتوي كل سطر على كلمة واحدة؛ وُجد "{line}".',
+  'passphrase.error.tooFewWords': 'تحتوي القائمة على {found} كلمة مختلفة؛ يلزم {min} على الأقل.',
+
+  // --- Character policy ---
+  'policy.length': 'طول كلمة المرور:',
+  'policy.min': 'الأدنى',
+  'policy.max': 'الأقصى',
+  'policy.class.uppercase': 'الأحرف الكبيرة',
+  'policy.class.lowercase': 'الأحرف الصغيرة',
+  'policy.class.numbers': 'الأرقام',
+  'policy.class.symbols': 'الرموز',
+  'policy.minimum': 'الحد الأدنى من {class}',
+  'policy.maximum': 'الحد الأقصى من {class}',
+  'policy.symbolSet': 'الرموز المستخدمة',
+  'policy.reset': 'إعادة تعيين',
+  'policy.resetSymbols': 'استعادة الرموز الافتراضية',
+  'policy.exclude': 'لا تستخدم أبدًا',
+  'policy.excludePlaceholder': 'مثل <>"\'',
+  'policy.avoidAmbiguous': 'تجنّب الأحرف الملتبسة',
+  'policy.noRepeats': 'بدون أحرف مكررة',
+  'policy.startWithLetter': 'ابدأ بحرف',
+  'policy.error.length': 'يجب أن يكون الطول بين {min} و{max}.',
+  'policy.error.symbolSet': 'يمكن أن تحتوي الرموز المخصصة على رموز فقط (بدون أحرف أو أرقام أو مسافات).',
+  'policy.error.noClasses': 'اختر نوعًا واحدًا على الأقل من الأحرف.',
+  'policy.error.counts': '{class}: يجب أن يكون الحد الأدنى والأقصى أعدادًا صحيحة تساوي 0 أو أكثر.',
+  'policy.error.allExcluded': '{class}: جميع الأحرف مستبعدة.',
+  'policy.error.minOverMax': '{class}: الحد الأدنى ({min}) أكبر من الحد الأقصى ({max}).',
+  'policy.error.tooFewDistinct': '{class}: يتوفر {available} حرفًا مختلفًا فقط، لكن يلزم {min}.',
+  'policy.error.noLetters': 'يتطلب البدء بحرف تفعيل الأحرف الكبيرة أو الصغيرة.',
+  'policy.error.minTotal': 'تتطلب الحدود الدنيا {total} حرفًا، لكن الطول {length}.',
+  'policy.error.repeatsCapacity': 'يمكن استخدام {total} حرفًا فقط دون تكرار، لكن الطول {length}.',
+  'policy.error.maxCapacity': 'تسمح الحدود القصوى بـ{total} حرفًا فقط، لكن الطول {length}.',
+
+  // --- Security settings ---
+  'security.title': 'إعدادات الأمان',
+  'security.autoLock': 'قفل الخزنة عند الخمول لمدة',
+  'security.signOut': 'تسجيل الخروج عند الخمول لمدة',
+  'security.lockWhenHidden': 'قفل الخزنة عند إخفاء علامة التبويب هذه أو قفل الشاشة',
+  'security.hint': 'تُحفظ الإعدادات في حسابك وتنطبق على كل الأجهزة.',
+  'security.saveFailed': 'تعذّر حفظ الإعدادات.',
+
+  // --- Security report ---
+  'report.title': 'تقرير الأمان',
+  'report.loading': 'جارٍ تحليل خزنتك...',
+  'report.health': {
+    zero: 'صحة الخزنة دون أي إدخال',
+    one: 'صحة الخزنة عبر إدخال واحد',
+    two: 'صحة الخزنة عبر إدخالين',
+    few: 'صحة الخزنة عبر {count} إدخالات',
+    many: 'صحة الخزنة عبر {count} إدخالًا',
+    other: 'صحة الخزنة عبر {count} إدخال',
+  },
+  'report.skipped': {
+    zero: '(لا توجد إدخالات مقفلة)',
+    one: '(لم يُحتسب إدخال مقفل واحد)',
+    two: '(لم يُحتسب إدخالان مقفلان)',
+    few: '(لم تُحتسب {count} إدخالات مقفلة)',
+    many: '(لم يُحتسب {count} إدخالًا مقفلًا)',
+    other: '(لم يُحتسب {count} إدخال مقفل)',
+  },
+  'report.weakBelow': 'ضعيفة إذا كانت أقل من',
+  'report.oldAfter': 'قديمة بعد (أيام)',
+  'report.breached': 'وُجدت في تسريبات',
+  'report.breachCount': {
+    zero: 'ولا مرة',
+    one: 'مرة واحدة',
+    two: 'مرتان',
+    few: '{count} مرات',
+    many: '{count} مرة',
+    other: '{count} مرة',
+  },
+  'report.checking': 'جارٍ التحقق...',
+  'report.runBreachCheck': 'تشغيل فحص التسريبات',
+  'report.reused': 'كلمات مرور مُعاد استخدامها',
+  'report.reusedGroup': {
+    zero: 'نفس كلمة المرور في لا إدخالات:',
+    one: 'نفس كلمة المرور في إدخال واحد:',
+    two: 'نفس كلمة المرور في إدخالين:',
+    few: 'نفس كلمة المرور في {count} إدخالات:',
+    many: 'نفس كلمة المرور في {count} إدخالًا:',
+    other: 'نفس كلمة المرور في {count} إدخال:',
+  },
+  'report.weak': 'كلمات مرور ضعيفة',
+  'report.old': {
+    zero: 'أقدم من {count} يوم',
+    one: 'أقدم من يوم واحد',
+    two: 'أقدم من يومين',
+    few: 'أقدم من {count} أيام',
+    many: 'أقدم من {count} يومًا',
+    other: 'أقدم من {count} يوم',
+  },
+  'report.age': {
+    zero: 'عمرها أقل من يوم',
+    one: 'عمرها يوم واحد',
+    two: 'عمرها يومان',
+    few: 'عمرها {count} أيام',
+    many: 'عمرها {count} يومًا',
+    other: 'عمرها {count} يوم',
+  },
+  'report.regenerate': 'إعادة التوليد والاستبدال',
+  'report.regenerateTitle': 'ولّد كلمة مرور جديدة بإعدادات المولّد الحالية واحفظها',
+  'report.regenerateFailed': 'تعذّر استبدال كلمة المرور.',
+
+  // --- Export ---
+  'export.title': 'تصدير الخزنة',
+  'export.json': 'JSON مشفّر',
+  'export.csv': 'CSV غير مشفّر',
+  'export.jsonHint': 'يُشفَّر الملف بعبارة مرور خاصة به. ستحتاج إليها لاستيراد الملف مرة أخرى.',
+  'export.passphrase': 'عبارة مرور التصدير',
+  'export.confirmPassphrase': 'تأكيد عبارة مرور التصدير',
+  'export.csvWarningTitle': 'تصدير غير مشفّر',
+  'export.csvWarning': 'يحتوي ملف CSV على كل كلمات المرور والملاحظات كنص عادي. يمكن لأي شخص أو برنامج يستطيع قراءة الملف قراءة كلمات مرورك، بما في ذلك المزامنة السحابية والنسخ الاحتياطية. استورده حيث تحتاج إليه واحذفه فورًا.',
+  'export.acknowledge': 'أفهم المخاطر',
+  'export.passphraseTooShort': 'يجب ألا تقل عبارة مرور التصدير عن {min} أحرف.',
+  'export.passphraseMismatch': 'عبارتا المرور غير متطابقتين.',
+  'export.done': {
+    zero: 'لم يُصدَّر أي إدخال.',
+    one: 'تم تصدير إدخال واحد.',
+    two: 'تم تصدير إدخالين.',
+    few: 'تم تصدير {count} إدخالات.',
+    many: 'تم تصدير {count} إدخالًا.',
+    other: 'تم تصدير {count} إدخال.',
+  },
+  'export.failed': 'فشل التصدير.',
+  'export.exporting': 'جارٍ التصدير...',
+  'export.submit': 'تصدير',
+
+  // --- Entry fields ---
+  'field.label': 'التسمية',
+  'field.username': 'اسم المستخدم',
+  'field.url': 'الرابط',
+  'field.password': 'كلمة المرور',
+  'field.notes': 'الملاحظات',
+  'field.totp': 'مفتاح المصادقة',
+  'field.tags': 'الوسوم',
+  'field.folder': 'المجلد',
+
+  // --- Import ---
+  'import.title': 'استيراد الإدخالات',
+  'import.hint': 'صادرات الخزنة المشفّرة، أو ملفات CSV من Bitwarden و1Password وKeePass / KeePassXC وأدوات أخرى.',
+  'import.existingFailed': 'تعذّر تحميل الإدخالات الحالية لاكتشاف التكرارات.',
+  'import.notCsv': 'الملف فارغ أو ليس ملف CSV.',
+  'import.decryptFailed': 'تعذّر فك تشفير الملف.',
+  'import.decrypting': 'جارٍ فك التشفير...',
+  'import.decrypt': 'فك التشفير',
+  'import.layout': 'التنسيق:',
+  'import.notImported': '— لا يُستورد —',
+  'import.column': 'العمود {number}',
+  'import.missing': 'مفقودة',
+  'import.duplicate': 'مكرر',
+  'import.rows': {
+    zero: 'لا صفوف',
+    one: 'صف واحد',
+    two: 'صفان',
+    few: '{count} صفوف',
+    many: '{count} صفًا',
+    other: '{count} صف',
+  },
+  'import.duplicates': {
+    zero: 'لا تكرارات',
+    one: 'تكرار واحد',
+    two: 'تكراران',
+    few: '{count} تكرارات',
+    many: '{count} تكرارًا',
+    other: '{count} تكرار',
+  },
+  'import.checking': '(جارٍ التحقق...)',
+  'import.withoutPassword': {
+    zero: 'لا شيء بدون كلمة مرور',
+    one: 'واحد بدون كلمة مرور',
+    two: 'اثنان بدون كلمة مرور',
+    few: '{count} بدون كلمة مرور',
+    many: '{count} بدون كلمة مرور',
+    other: '{count} بدون كلمة مرور',
+  },
+  'import.skipDuplicates': 'تخطي التكرارات',
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.submit': 'استيراد',
+  'import.missingPassword': 'كلمة المرور مفقودة',
+  'import.failed': 'فشل الاستيراد.',
+  'import.report': 'تم استيراد {imported}، وتخطي {skipped} مكررًا، وفشل {failed}.',
+  'import.rowError': 'الصف {row}: {error}',
+  'import.rowErrorLabelled': 'الصف {row} ({label}): {error}',
+
+  // --- Password history ---
+  'history.title': 'سجل كلمة المرور',
+  'history.close': 'إغلاق سجل كلمة المرور',
+  'history.loading': 'جارٍ تحميل السجل...',
+  'history.empty': 'لا توجد كلمات مرور سابقة.',
+  'history.replaced': 'استُبدلت في {date}',
+  'history.show': 'إظهار كلمة المرور المستبدلة في {date}',
+  'history.hide': 'إخفاء كلمة المرور المستبدلة في {date}',
+  'history.restoreTitle': 'استعادة كلمة المرور هذه',
+  'history.restore': 'استعادة كلمة المرور المستبدلة في {date}',
+  'history.restoreConfirm': 'هل تريد استعادة كلمة المرور السابقة هذه؟',
+  'history.restoreConfirmMessage': 'ستُحفظ كلمة المرور الحالية في السجل.',
+  'history.restoreLabel': 'استعادة',
+
+  // --- Saved entries ---
+  'entry.noLabel': 'بدون تسمية',
+  'entry.unlabelled': 'إدخال بلا تسمية',
+  'entry.unencrypted': 'مخزّن دون تشفير',
+  'entry.unencryptedTitle': 'حُفظ قبل تشفير الخزنة؛ سيُشفَّر في المزامنة التالية للخزنة',
+  'entry.breached': 'مُسرّبة',
+  'entry.breachedTitle': {
+    zero: 'لم تُعثر عليها في تسريبات معروفة',
+    one: 'وُجدت في تسريبات معروفة مرة واحدة',
+    two: 'وُجدت في تسريبات معروفة مرتين',
+    few: 'وُجدت في تسريبات معروفة {count} مرات',
+    many: 'وُجدت في تسريبات معروفة {count} مرة',
+    other: 'وُجدت في تسريبات معروفة {count} مرة',
+  },
+  'entry.passphrase': 'عبارة مرور',
+  'entry.notes': 'تحتوي على ملاحظات',
+  'entry.notesTitle': 'تحتوي على ملاحظات مشفّرة',
+  'entry.newTab': '(يُفتح في علامة تبويب جديدة)',
+  'entry.passwordHidden': 'كلمة المرور مخفية',
+  'entry.showTag': 'إظهار الإدخالات الموسومة بـ #{tag}',
+  'entry.showPassword': 'إظهار كلمة المرور',
+  'entry.hidePassword': 'إخفاء كلمة المرور',
+  'entry.showPasswordFor': 'إظهار كلمة مرور {name}',
+  'entry.hidePasswordFor': 'إخفاء كلمة مرور {name}',
+  'entry.copyPassword': 'نسخ كلمة المرور',
+  'entry.copyPasswordFor': 'نسخ كلمة مرور {name}',
+  'entry.edit': 'تعديل كلمة المرور',
+  'entry.editFor': 'تعديل {name}',
+  'entry.history': 'سجل كلمة المرور',
+  'entry.historyFor': 'سجل كلمة مرور {name}',
+  'entry.delete': 'حذف كلمة المرور',
+  'entry.deleteFor': 'حذف {name}',
+  'entry.deleteConfirm': 'هل تريد حذف "{label}"؟',
+  'entry.deleteConfirmUnlabelled': 'هل تريد حذف كلمة المرور هذه؟',
+  'entry.deleteConfirmMessage': 'سيُحذف سجل كلمات المرور الخاص به أيضًا.',
+  'entry.deleted': 'تم حذف الإدخال',
+  'entry.saved': 'تم حفظ التغييرات',
+  'entry.restored': 'تمت استعادة كلمة المرور',
+
+  // --- Strength ---
+  'strength.estimate': '~{bits} بت تقديريًا ({charsetBits} بت لو كان كل حرف عشوائيًا)',
+  'strength.crackTime': 'الوقت المقدّر للكسر',
+  'strength.model.onlineThrottled': 'عبر الإنترنت، مع تقييد (100/ساعة)',
+  'strength.model.onlineUnthrottled': 'عبر الإنترنت، دون تقييد (10/ثانية)',
+  'strength.model.offlineSlow': 'دون اتصال، تجزئة بطيئة (10 آلاف/ثانية)',
+  'strength.model.offlineFast': 'دون اتصال، تجزئة سريعة (10 مليارات/ثانية)',
+  'strength.time.instant': 'أقل من ثانية',
+  'strength.time.centuries': 'قرون',
+  'strength.time.century': {
+    zero: '{count} قرن',
+    one: 'قرن واحد',
+    two: 'قرنان',
+    few: '{count} قرون',
+    many: '{count} قرنًا',
+    other: '{count} قرن',
+  },
+  'strength.time.year': {
+    zero: '{count} سنة',
+    one: 'سنة واحدة',
+    two: 'سنتان',
+    few: '{count} سنوات',
+    many: '{count} سنة',
+    other: '{count} سنة',
+  },
+  'strength.time.month': {
+    zero: '{count} شهر',
+    one: 'شهر واحد',
+    two: 'شهران',
+    few: '{count} أشهر',
+    many: '{count} شهرًا',
+    other: '{count} شهر',
+  },
+  'strength.time.day': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'strength.time.hour': {
+    zero: '{count} ساعة',
+    one: 'ساعة واحدة',
+    two: 'ساعتان',
+    few: '{count} ساعات',
+    many: '{count} ساعة',
+    other: '{count} ساعة',
+  },
+  'strength.time.minute': {
+    zero: '{count} دقيقة',
+    one: 'دقيقة واحدة',
+    two: 'دقيقتان',
+    few: '{count} دقائق',
+    many: '{count} دقيقة',
+    other: '{count} دقيقة',
+  },
+  'strength.time.second': {
+    zero: '{count} ثانية',
+    one: 'ثانية واحدة',
+    two: 'ثانيتان',
+    few: '{count} ثوانٍ',
+    many: '{count} ثانية',
+    other: '{count} ثانية',
+  },
+  'strength.warning.short': 'كلمات المرور القصيرة سهلة التخمين.',
+  'strength.warning.spatial': 'أنماط لوحة المفاتيح مثل "qwerty" سهلة التخمين.',
+  'strength.warning.repeat': 'الأحرف أو الأنماط المكررة سهلة التخمين.',
+  'strength.warning.sequence': 'التسلسلات مثل "abc" أو "1234" سهلة التخمين.',
+  'strength.warning.l33t': 'الاستبدالات المتوقعة مثل "@" بدل "a" لا تفيد كثيرًا.',
+  'strength.warning.commonPassword': 'هذه كلمة مرور شائعة الاستخدام.',
+  'strength.warning.containsCommon': 'تحتوي على كلمة مرور شائعة الاستخدام.',
+  'strength.warning.dictionary': 'كلمات القاموس وحدها سهلة التخمين.',
+
+  // --- New account password ---
+  'newPassword.title': 'اختر كلمة مرور جديدة',
+  'newPassword.hint': 'هذه كلمة مرور تسجيل الدخول. تبقى عبارة المرور الرئيسية لخزنتك كما هي.',
+  'newPassword.password': 'كلمة المرور الجديدة',
+  'newPassword.confirm': 'تأكيد كلمة المرور الجديدة',
+  'newPassword.tooShort': 'يجب ألا تقل كلمة المرور عن {min} أحرف.',
+  'newPassword.mismatch': 'كلمتا المرور غير متطابقتين.',
+  'newPassword.failed': 'تعذّر تحديث كلمة المرور.',
+  'newPassword.saving': 'جارٍ الحفظ...',
+  'newPassword.submit': 'تعيين كلمة المرور',
+
+  // --- Presets ---
+  'preset.label': 'الإعداد المسبق',
+  'preset.custom': 'إعدادات مخصصة',
+  'preset.default': '{name} (افتراضي)',
+  'preset.applyOnLoad': 'تطبيق هذا الإعداد المسبق عند التحميل',
+  'preset.stopApplyOnLoad': 'إيقاف تطبيق هذا الإعداد المسبق عند التحميل',
+  'preset.update': 'حفظ التغييرات في هذا الإعداد المسبق',
+  'preset.delete': 'حذف الإعداد المسبق',
+  'preset.deleteFor': 'حذف الإعداد المسبق {name}',
+  'preset.deleteConfirm': 'هل تريد حذف الإعداد المسبق "{name}"؟',
+  'preset.saveAs': 'حفظ باسم...',
+  'preset.name': 'اسم الإعداد المسبق',
+  'preset.namePlaceholder': 'اسم الإعداد المسبق، مثل AWS IAM',
+  'preset.save': 'حفظ',
+  'preset.saved': 'تم حفظ الإعداد المسبق',
+  'preset.deleted': 'تم حذف الإعداد المسبق',
+  'preset.failed': 'حدث خطأ ما.',
+
+  // --- Collections ---
+  'collection.showing': 'المعروض',
+  'collection.personal': 'الخزنة الشخصية',
+  'collection.option': '{name} ({role})',
+  'collection.role.viewer': 'مشاهد',
+  'collection.role.editor': 'محرر',
+  'collection.role.owner': 'مالك',
+  'collection.members': 'الأعضاء',
+  'collection.membersOf': 'أعضاء {name}',
+  'collection.new': 'مجموعة جديدة...',
+  'collection.namePlaceholder': 'اسم المجموعة، مثل فريق العمليات',
+  'collection.create': 'إنشاء',
+  'collection.createFailed': 'تعذر إنشاء المجموعة.',
+
+  // --- Saved passwords ---
+  'vault.title': 'كلمات المرور المحفوظة',
+  'vault.add': 'إضافة',
+  'vault.addTitle': 'إضافة إدخال بكلمة مرور من اختيارك',
+  'vault.report': 'التقرير',
+  'vault.reportTitle': 'كلمات المرور المكررة والضعيفة والقديمة والمسربة',
+  'vault.audit': 'فحص',
+  'vault.auditTitle': 'فحص كل كلمة مرور محفوظة مقابل التسريبات المعروفة',
+  'vault.import': 'استيراد',
+  'vault.importTitle': 'استيراد الإدخالات',
+  'vault.export': 'تصدير',
+  'vault.exportTitle': 'تصدير الخزنة',
+  'vault.entrySaved': 'تم حفظ الإدخال',
+  'vault.sharedOffline': 'تحتاج المجموعات المشتركة إلى اتصال.',
+  'vault.regenerated': 'تم إنشاء كلمة مرور جديدة',
+  'vault.auditProgress': 'جارٍ البحث عن التسريبات... {done}/{total}',
+  'vault.auditSummary': 'عُثر على {breached} من أصل {total} كلمة مرور في تسريبات معروفة.',
+  'vault.auditUnchecked': 'تعذّر فحص {failed}.',
+  'vault.auditLocked': 'تم تخطي {locked} من الإدخالات المقفلة.',
+  'vault.search': 'البحث في كلمات المرور المحفوظة',
+  'vault.searchPlaceholder': 'ابحث في التسمية أو اسم المستخدم أو URL أو #وسم  ( / )',
+  'vault.sort': 'ترتيب كلمات المرور المحفوظة',
+  'vault.sort.newest': 'الأحدث أولًا',
+  'vault.sort.oldest': 'الأقدم أولًا',
+  'vault.sort.name': 'الاسم (أ–ي)',
+  'vault.sort.weakest': 'الأضعف أولًا',
+  'vault.sort.strongest': 'الأقوى أولًا',
+  'vault.clearTag': 'مسح عامل تصفية الوسم',
+  'vault.clearTagFor': 'مسح عامل تصفية الوسم #{tag}',
+  'vault.loading': 'جارٍ تحميل كلمات المرور المحفوظة...',
+  'vault.noMatches': 'لا توجد إدخالات تطابق بحثك.',
+  'vault.empty': 'لم تُحفظ أي كلمات مرور بعد.',
+  'vault.unfiled': 'غير مصنف',
+  'vault.loadMore': 'تحميل المزيد',
+  'vault.loadingMore': 'جارٍ التحميل...',
+
+  // --- Account ---
+  'account.title': 'الحساب',
+  'account.email': 'البريد الإلكتروني',
+  'account.newEmail': 'بريد إلكتروني جديد',
+  'account.emailPending': 'في انتظار تأكيد {email}.',
+  'account.emailChange': 'تغيير',
+  'account.emailConfirm': 'أكّد التغيير من الرابط المرسل إلى {email}.',
+  'account.emailFailed': 'تعذّر تغيير البريد الإلكتروني.',
+  'account.password': 'كلمة مرور تسجيل الدخول',
+  'account.passwordUpdate': 'تحديث',
+  'account.passwordUpdated': 'تم تحديث كلمة مرور تسجيل الدخول.',
+  'account.mfa': 'التحقق بخطوتين',
+  'account.mfaLoadFailed': 'تعذّر تحميل حالة التحقق بخطوتين.',
+  'account.mfaOn': {
+    zero: 'مفعّل. يطلب تسجيل الدخول رمزًا من تطبيق المصادقة. لم يتبقَّ أي رمز استرداد.',
+    one: 'مفعّل. يطلب تسجيل الدخول رمزًا من تطبيق المصادقة. تبقّى رمز استرداد واحد.',
+    two: 'مفعّل. يطلب تسجيل الدخول رمزًا من تطبيق المصادقة. تبقّى رمزا استرداد.',
+    few: 'مفعّل. يطلب تسجيل الدخول رمزًا من تطبيق المصادقة. تبقّت {count} رموز استرداد.',
+    many: 'مفعّل. يطلب تسجيل الدخول رمزًا من تطبيق المصادقة. تبقّى {count} رمزًا للاسترداد.',
+    other: 'مفعّل. يطلب تسجيل الدخول رمزًا من تطبيق المصادقة. تبقّى {count} رمز استرداد.',
+  },
+  'account.newCodes': 'رموز استرداد جديدة',
+  'account.turnOff': 'إيقاف',
+  'account.scan': 'امسح هذا الرمز بتطبيق مصادقة، ثم أدخل الرمز المكوّن من 6 أرقام الذي يعرضه.',
+  'account.qrAlt': 'رمز QR للمصادقة',
+  'account.manualKey': 'لا يمكنك المسح؟ أدخل هذا المفتاح بدلًا من ذلك:',
+  'account.verify': 'تحقق',
+  'account.mfaIntro': 'احمِ خزنتك برمز من تطبيق مصادقة عند كل تسجيل دخول.',
+  'account.setUp': 'إعداد المصادقة',
+  'account.setUpFailed': 'تعذّر إعداد المصادقة.',
+  'account.verifyFailed': 'تعذّر التحقق من الرمز.',
+  'account.mfaEnabled': 'التحقق بخطوتين مفعّل.',
+  'account.replaceCodesConfirm': 'هل تريد استبدال رموز الاسترداد؟',
+  'account.replaceCodesMessage': 'ستتوقف الرموز القديمة عن العمل.',
+  'account.replaceCodes': 'استبدال الرموز',
+  'account.codesFailed': 'تعذّر إنشاء رموز الاسترداد.',
+  'account.disableConfirm': 'هل تريد إيقاف التحقق بخطوتين؟',
+  'account.disableMessage': 'ستتوقف رموز الاسترداد عن العمل.',
+  'account.mfaDisabled': 'التحقق بخطوتين متوقف.',
+  'account.disableFailed': 'تعذّر إيقاف التحقق بخطوتين.',
+  'account.codesSave': 'احفظ رموز الاسترداد هذه في مكان آمن. يعمل كل منها مرة واحدة إذا فقدت تطبيق المصادقة، ولن تُعرض مرة أخرى.',
+  'account.codes': 'رموز الاسترداد',
+  'account.copy': 'نسخ',
+  'account.codesSaved': 'لقد حفظتها',
+
+  // --- Collection members ---
+  'collection.roleName.viewer': 'مشاهد',
+  'collection.roleName.editor': 'محرر',
+  'collection.roleName.owner': 'مالك',
+  'collection.roleHint.viewer': 'يمكنه عرض الإدخالات ونسخها.',
+  'collection.roleHint.editor': 'يمكنه أيضًا إضافة الإدخالات وتغييرها وحذفها.',
+  'collection.roleHint.owner': 'يمكنه أيضًا إدارة الأعضاء.',
+  'collection.closeMembers': 'إغلاق الأعضاء',
+  'collection.loadingMembers': 'جارٍ تحميل الأعضاء...',
+  'collection.you': '(أنت)',
+  'collection.roleOf': 'دور {email}',
+  'collection.removeMember': 'إزالة العضو',
+  'collection.removeMemberFor': 'إزالة {email}',
+  'collection.invitePlaceholder': 'دعوة بالبريد الإلكتروني',
+  'collection.inviteRole': 'دور العضو الجديد',
+  'collection.invite': 'إضافة',
+  'collection.name': 'اسم المجموعة',
+  'collection.rename': 'إعادة تسمية',
+  'collection.rotating': 'جارٍ إعادة تشفير الإدخالات بمفتاح جديد...',
+  'collection.rotateRetry': 'تمت إزالة العضو، لكن لم يُستبدل مفتاح المجموعة: {error}',
+  'collection.tryAgain': 'حاول مرة أخرى',
+  'collection.leave': 'مغادرة المجموعة',
+  'collection.leaveHint': 'لا يمكن للمالك الأخير المغادرة؛ احذف المجموعة أو اجعل شخصًا آخر مالكًا أولًا',
+  'collection.leaveConfirm': 'هل تريد مغادرة "{name}"؟',
+  'collection.leaveConfirmMessage': 'ستحتاج إلى دعوة جديدة لرؤية إدخالاتها.',
+  'collection.leaveLabel': 'مغادرة',
+  'collection.removeConfirm': 'هل تريد إزالة {email} من "{name}"؟',
+  'collection.removeConfirmMessage': 'يُعاد تشفير كل إدخال بمفتاح جديد، فيتوقف مفتاحه عن العمل.',
+  'collection.delete': 'حذف المجموعة',
+  'collection.deleteConfirm': 'هل تريد حذف "{name}"؟',
+  'collection.deleteConfirmMessage': 'يُحذف كل إدخال فيها لجميع الأعضاء. لا يمكن التراجع عن ذلك.',
+  'collection.membersFailed': 'تعذّر تحميل الأعضاء.',
+  'collection.inviteFailed': 'تعذّرت إضافة العضو.',
+  'collection.roleFailed': 'تعذّر تغيير الدور.',
+  'collection.removeFailed': 'تعذّرت إزالة العضو.',
+  'collection.leaveFailed': 'تعذّرت مغادرة المجموعة.',
+  'collection.rotateFailed': 'تعذّر استبدال مفتاح المجموعة.',
+  'collection.renameFailed': 'تعذّرت إعادة تسمية المجموعة.',
+  'collection.deleteFailed': 'تعذّر حذف المجموعة.',
+  'collection.untitled': 'بلا عنوان',
+  'collection.error.loadKeys': 'تعذّر تحميل مفاتيح المشاركة.',
+  'collection.error.setUpKeys': 'تعذّر إعداد مفاتيح المشاركة.',
+  'collection.error.loadCollections': 'تعذّر تحميل المجموعات المشتركة.',
+  'collection.error.lookUp': 'تعذّر البحث عن هذا الحساب.',
+  'collection.error.loadMemberKeys': 'تعذّر تحميل مفاتيح الأعضاء.',
+  'collection.error.otherPassphrase': 'تم قفل مفاتيح المشاركة بعبارة مرور رئيسية مختلفة.',
+  'collection.error.open': 'تعذّر فتح "{name}": لم يُشارَك مفتاحها مع مفاتيحك الحالية.',
+  'collection.error.notReady': 'لا يوجد حساب جاهز للمشاركة لـ {email} بعد. اطلب منه تسجيل الدخول وفتح خزنته مرة واحدة.',
+  'collection.error.alreadyMember': '{email} عضو بالفعل.',
+
+  // --- Clipboard notices ---
+  'clipboard.clearsIn': 'يُمسح خلال {seconds} ث',
+  'clipboard.clearNow': 'امسح الآن',
+
+  // --- Sign in ---
+  'auth.login': 'تسجيل الدخول',
+  'auth.signUp': 'إنشاء حساب',
+  'auth.reset': 'إعادة تعيين كلمة المرور',
+  'auth.confirmEmail': 'تحقق من بريدك الإلكتروني بحثًا عن رابط التأكيد، ثم سجّل الدخول.',
+  'auth.resetSent': 'إذا كان هناك حساب لهذا البريد الإلكتروني، فإن رابط إعادة التعيين في طريقه إليك.',
+  'auth.failed': 'حدث خطأ غير متوقع.',
+  'auth.processing': 'جارٍ المعالجة...',
+  'auth.sendReset': 'إرسال رابط إعادة التعيين',
+  'auth.forgot': 'هل نسيت كلمة المرور؟',
+  'auth.needAccount': 'تحتاج إلى حساب؟ أنشئ حسابًا',
+  'auth.backToLogin': 'العودة إلى تسجيل الدخول',
+
+  // --- Two-step sign-in ---
+  'mfa.noFactor': 'لم يتم إعداد أي مصادقة لهذا الحساب.',
+  'mfa.failed': 'فشل التحقق.',
+  'mfa.recoveryHint': 'أدخل أحد رموز الاسترداد. ستتم إزالة المصادقة الحالية لتتمكن من إعداد واحدة جديدة.',
+  'mfa.codeHint': 'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة.',
+  'mfa.verifying': 'جارٍ التحقق...',
+  'mfa.useAuthenticator': 'استخدام تطبيق المصادقة',
+  'mfa.useRecoveryCode': 'فقدت تطبيق المصادقة؟ استخدم رمز استرداد',
+  'mfa.signOut': 'تسجيل الخروج',
+
+  // --- Vault unlock ---
+  'unlock.tooShort': 'يجب أن تتكون عبارة المرور الرئيسية من {min} أحرف على الأقل.',
+  'unlock.mismatch': 'عبارتا المرور غير متطابقتين.',
+  'unlock.failed': 'تعذّر فتح الخزنة.',
+  'unlock.setTitle': 'عيّن عبارة مرور رئيسية لخزنتك',
+  'unlock.locked': 'الخزنة مقفلة',
+  'unlock.setHint': 'تُشفَّر كلمات المرور المحفوظة في متصفحك بهذه العبارة. وهي منفصلة عن كلمة مرور تسجيل الدخول ولا يمكن استعادتها إذا نسيتها.',
+  'unlock.passphrase': 'عبارة المرور الرئيسية',
+  'unlock.confirm': 'تأكيد عبارة المرور الرئيسية',
+  'unlock.deriving': 'جارٍ اشتقاق المفتاح...',
+  'unlock.create': 'إنشاء الخزنة',
+  'unlock.submit': 'فتح',
+
+  // --- Vault errors ---
+  'vault.unlockToSave': 'افتح خزنتك للحفظ.',
+  'vault.saveFailed': 'تعذّر حفظ كلمة المرور. يُرجى المحاولة مرة أخرى.',
+  'vault.sharingUnavailable': 'المشاركة غير متاحة.',
+
+  // --- Entry errors ---
+  'vault.syncConflict': 'تم تغيير "{label}" على جهاز آخر، لذا لم يُحذف.',
+  'vault.error.passphrase': 'عبارة المرور الرئيسية غير صحيحة.',
+  'vault.error.otherPassphrase': 'تم تشفير هذا الإدخال بعبارة مرور رئيسية مختلفة.',
+  'vault.error.version': 'إصدار تشفير غير مدعوم: {version}',
+  'vault.error.iv': 'هذا الإدخال يفتقد متجه التهيئة (IV).',
+  'entry.untitled': 'بلا عنوان',
+  'export.entryFailed': 'تعذّر تصدير "{label}": {reason}',
+  'export.decryptFailed': 'تعذّر فك التشفير.',
+  'import.saveFailed': 'تعذّر الحفظ.',
+  'import.wrongPassphrase': 'عبارة المرور غير صحيحة، أو أن الملف تالف.',
+  'import.unsupportedVersion': 'إصدار تصدير غير مدعوم: {version}.',
+
+  // --- Authenticator keys ---
+  'totp.error.base32': 'يحتوي مفتاح المصادقة على أحرف غير صالحة في base32.',
+  'totp.error.missing': 'مفتاح المصادقة مفقود.',
+  'totp.error.short': 'مفتاح المصادقة قصير جدًا.',
+  'totp.error.period': 'يجب أن تكون المدة بين {min} و{max} ثانية.',
+  'totp.error.malformed': 'رابط otpauth:// هذا غير صالح.',
+  'totp.error.notTotp': 'رموز المصادقة المستندة إلى الوقت (TOTP) فقط مدعومة.',
+  'totp.error.algorithm': 'خوارزمية غير مدعومة: {algorithm}.',
+  'totp.error.digits': 'يجب أن تتكون الرموز من 6 أو 8 أرقام.',
+
+  // --- Entry form ---
+  'entryForm.label': "التسمية (مثل 'Gmail')",
+  'entryForm.newPassword': 'كلمة مرور جديدة (اتركها فارغة للإبقاء على الحالية)',
+  'entryForm.generate': 'إنشاء كلمة مرور جديدة',
+  'entryForm.generateTitle': 'إنشاء كلمة مرور جديدة بالإعدادات الحالية',
+  'entryForm.generateFailed': 'تعذّر إنشاء كلمة مرور.',
+  'entryForm.strength': 'قوة كلمة المرور:',
+  'entryForm.tags': 'الوسوم (مفصولة بفواصل)',
+  'entryForm.notes': 'ملاحظات (مشفّرة)',
+  'entryForm.passwordRequired': 'أدخل كلمة مرور أو أنشئ واحدة.',
+  'entryForm.saveFailed': 'تعذّر حفظ الإدخال.',
+  'entryForm.saving': 'جارٍ الحفظ...',
+  'entryForm.save': 'حفظ',
+
+  // --- Breach check ---
+  'breach.failed': 'فشل البحث عن الاختراقات.',
+  'breach.found': {
+    zero: 'لم يُعثر عليها في أي اختراق.',
+    one: 'عُثر عليها في الاختراقات المعروفة مرة واحدة. لا تستخدمها.',
+    two: 'عُثر عليها في الاختراقات المعروفة مرتين. لا تستخدمها.',
+    few: 'عُثر عليها في الاختراقات المعروفة {count} مرات. لا تستخدمها.',
+    many: 'عُثر عليها في الاختراقات المعروفة {count} مرة. لا تستخدمها.',
+    other: 'عُثر عليها في الاختراقات المعروفة {count} مرة. لا تستخدمها.',
+  },
+  'breach.notFound': 'لم يُعثر عليها في الاختراقات المعروفة.',
+  'breach.privacy': 'تُرسل أول 5 أحرف فقط من تجزئة SHA-1 لكلمة المرور',
+  'breach.checking': 'جارٍ الفحص...',
+  'breach.check': 'افحص مقابل الاختراقات المعروفة',
+
+  // --- Authenticator codes ---
+  'totp.invalid': 'مفتاح مصادقة غير صالح.',
+  'totp.invalidEntry': 'مفتاح مصادقة غير صالح؛ عدّل الإدخال لإصلاحه.',
+  'totp.remaining': 'الثواني المتبقية حتى الرمز التالي',
+  'totp.seconds': '{seconds} ث',
+  'totp.code': 'الرمز',
+  'totp.codeFor': 'رمز {label}',
+  'totp.copy': 'نسخ الرمز',
+  'totp.copyCode': 'نسخ رمز التحقق بخطوتين',
+  'totp.copyFor': 'نسخ رمز التحقق بخطوتين لـ {label}',
+  'totp.scanFailed': 'فشل المسح.',
+  'totp.add': 'إضافة مفتاح مصادقة (2FA)',
+  'totp.placeholder': 'رابط otpauth:// أو مفتاح مصادقة (مشفّر)',
+  'totp.scan': 'امسح رمز QR بالكاميرا',
+  'totp.stopScan': 'إيقاف المسح',
+  'totp.upload': 'قراءة رمز QR من صورة أو لقطة شاشة',
+  'totp.remove': 'إزالة مفتاح المصادقة',
+  'totp.preview': 'معاينة الكاميرا',
+  'totp.algorithm': 'الخوارزمية',
+  'totp.digits': 'الأرقام',
+  'totp.digitsOption': {
+    zero: '{count} أرقام',
+    one: 'رقم واحد',
+    two: 'رقمان',
+    few: '{count} أرقام',
+    many: '{count} رقمًا',
+    other: '{count} رقم',
+  },
+  'totp.period': 'المدة',
+  'totp.periodOption': 'كل {seconds} ث',
+
+  // --- Vault page ---
+  'collection.openFailed': 'تعذّر فتح المجموعة.',
+  'collection.opening': 'جارٍ فتح {name}...',
+  'vault.lock': 'قفل الخزنة',
+
+  // --- QR codes and lookups ---
+  'breach.httpFailed': 'فشل البحث عن الاختراقات (HTTP {status}).',
+  'qr.unsupported': 'لا يستطيع هذا المتصفح قراءة رموز QR. الصق رابط otpauth:// بدلًا من ذلك.',
+  'qr.notImage': 'هذا الملف ليس صورة.',
+  'qr.notFound': 'لم يُعثر على رمز QR في هذه الصورة.',
+  'qr.noCamera': 'تم رفض الوصول إلى الكاميرا أو لا تتوفر كاميرا.',
+  'qr.imageFailed': 'تعذّرت قراءة هذه الصورة.',
+  'mfa.invalidRecoveryCode': 'رمز الاسترداد هذا غير صالح أو سبق استخدامه.',
+
+  // --- Storage errors ---
+  'vault.error.load': 'تعذّر تحميل كلمات المرور المحفوظة.',
+  'vault.error.loadAll': 'تعذّر تحميل الخزنة.',
+  'vault.error.loadExisting': 'تعذّر تحميل الإدخالات الموجودة.',
+  'vault.error.loadSite': 'تعذّر تحميل بيانات الدخول لهذا الموقع.',
+  'vault.error.loadUnencrypted': 'تعذّر تحميل الإدخالات غير المشفّرة.',
+  'vault.error.loadEntry': 'تعذّر تحميل الإدخال.',
+  'vault.error.checkEntry': 'تعذّر فحص الإدخال.',
+  'vault.error.loadParams': 'تعذّر تحميل معاملات الخزنة.',
+  'vault.error.save': 'تعذّر حفظ كلمة المرور.',
+  'vault.error.update': 'تعذّر تحديث كلمة المرور.',
+  'vault.error.encrypt': 'تعذّر تشفير كلمة المرور.',
+  'vault.error.delete': 'تعذّر حذف كلمة المرور.',
+  'history.failed': 'تعذّر تحميل سجل كلمات المرور.',
+  'history.restoreFailed': 'تعذّرت استعادة كلمة المرور.',
+  'entry.editOffline': 'يتطلب التعديل اتصالًا؛ دون اتصال يمكنك إضافة الإدخالات وحذفها.',
+  'entry.decryptNotesFailed': 'تعذّر فك تشفير الملاحظات.',
+  'entry.decryptFailed': 'تعذّر فك تشفير كلمة المرور.',
+  'report.loadFailed': 'تعذّر تحميل تقرير الأمان.',
+  'preset.loadFailed': 'تعذّر تحميل الإعدادات المسبقة.',
+  'preset.duplicate': 'يوجد إعداد مسبق بهذا الاسم بالفعل.',
+  'preset.saveFailed': 'تعذّر حفظ الإعداد المسبق.',
+  'preset.updateFailed': 'تعذّر تحديث الإعداد المسبق.',
+  'preset.deleteFailed': 'تعذّر حذف الإعداد المسبق.',
+  'preset.defaultFailed': 'تعذّر تغيير الإعداد المسبق الافتراضي.',
+  'wordlist.noRoom': 'لا توجد مساحة كافية لتخزين قائمة الكلمات هذه على هذا الجهاز.',
+  'wordlist.readFailed': 'تعذّرت قراءة قائمة الكلمات هذه.',
+  'wordlist.removeFailed': 'تعذّرت إزالة قائمة الكلمات.',
+  'activity.loadFailed': 'تعذّر تحميل النشاط.',
+  'activity.countFailed': 'تعذّر عدّ التنبيهات.',
+  'activity.markFailed': 'تعذّر وضع علامة مقروءة على التنبيهات.',
+  'activity.device.unknown': 'جهاز غير معروف',
+  'activity.device.browser': 'متصفح',
+  'activity.device': '{browser} على {system}',
+
+  // --- Extension ---
+  'extension.popup.generateFailed': 'تعذّر إنشاء كلمة مرور.',
+  'extension.popup.copied': 'تم النسخ.',
+  'extension.popup.copyFailed': 'تعذّر النسخ؛ حدّد كلمة المرور وانسخها بدلًا من ذلك.',
+  'extension.popup.password': 'كلمة المرور المُنشأة',
+  'extension.popup.regenerate': 'إنشاء أخرى',
+  'extension.popup.copy': 'نسخ',
+  'extension.popup.unreachable': 'تعذّر الوصول إلى الإضافة.',
+  'extension.popup.unlocked': 'الخزنة مفتوحة',
+  'extension.popup.lock': 'قفل',
+  'extension.popup.notConfigured': 'ميزات الخزنة متوقفة: هذا الإصدار ليس له مشروع Supabase.',
+  'extension.error.signIn': 'سجّل الدخول أولًا.',
+  'extension.error.emptyVault': 'خزنتك فارغة. احفظ كلمة مرور في التطبيق أولًا.',
+  'extension.error.locked': 'افتح الخزنة من الإضافة أولًا.',
+  'extension.error.webPagesOnly': 'لا يمكن استخدام بيانات الدخول إلا في صفحات الويب.',
+  'extension.error.otherSite': 'بيانات الدخول هذه ليست لهذه الصفحة.',
+  'extension.error.saveWebPagesOnly': 'صفحات الويب فقط يمكنها حفظ بيانات الدخول.',
+  'extension.error.nothingToSave': 'لم تعد هناك كلمة مرور لحفظها.',
+  'extension.error.notAllowed': 'غير مسموح به من صفحة ويب.',
+  'extension.error.failed': 'حدث خطأ ما.',
+  'extension.page.keyTitle': 'إنشاء كلمة مرور أو تعبئتها (Alt+Down)',
+  'extension.page.key': 'إنشاء كلمة مرور أو تعبئتها',
+  'extension.page.saveBar': 'حفظ كلمة المرور',
+  'extension.page.generate': 'إنشاء كلمة مرور',
+  'extension.page.unlockToFill': 'افتح الخزنة من زر شريط الأدوات لتعبئة بيانات الدخول المحفوظة.',
+  'extension.page.noLogins': 'لا توجد بيانات دخول محفوظة لهذا الموقع.',
+  'extension.page.fill': 'تعبئة {name}',
+  'extension.page.savedLogin': 'بيانات دخول محفوظة',
+  'extension.page.saveTitle': 'هل تريد حفظ كلمة المرور هذه لـ {host}؟',
+  'extension.page.noUsername': 'لا يوجد اسم مستخدم',
+  'extension.page.save': 'حفظ',
+  'extension.page.notNow': 'ليس الآن',
+  'extension.page.saved': 'تم الحفظ في خزنتك.',
+  'extension.manifest.name': 'مولّد كلمات المرور',
+  'extension.manifest.description': 'يُنشئ كلمات مرور في نماذج التسجيل، ويعبّئ بيانات الدخول المحفوظة ويحفظ الجديدة في خزنتك.',
+};
+
+export default ar;
@@ -0,0 +1,782 @@
+// English messages: the source catalog. Other locales translate these keys;
+// anything they leave out falls back to the English text.
+//
+// `{name}` is replaced by the parameter of that name. Messages that depend on
+// a count give a form per CLDR plural category; `other` is required.
+
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralForms;
+
+const en = {
+  // --- App ---
+  'app.loading': 'Loading...',
+  'app.skipToContent': 'Skip to content',
+  'app.localOnly': "Local-only mode: Supabase isn't configured, so accounts and the vault are unavailable. The generator works fully offline.",
+  'app.offline': "You're offline. Adding and deleting entries still works; changes sync when you reconnect.",
+  'app.pendingSyncing': {
+    one: '{count} offline change waiting to sync...',
+    other: '{count} offline changes waiting to sync...',
+  },
+  'app.pendingLocked': {
+    one: '{count} offline change waiting to sync; unlock your vault to send it.',
+    other: '{count} offline changes waiting to sync; unlock your vault to send them.',
+  },
+
+  // --- Navbar ---
+  'nav.label': 'Main',
+  'nav.brand': 'Password Generator',
+  'nav.generate': 'Generate',
+  'nav.vault': 'Vault',
+  'nav.settings': 'Settings',
+  'nav.activity': 'Activity',
+  'nav.activityUnread': {
+    one: 'Activity, {count} unread alert',
+    other: 'Activity, {count} unread alerts',
+  },
+  'nav.profile': 'Profile and settings',
+  'nav.logout': 'Logout',
+  'nav.language': 'Language',
+
+  // --- Languages ---
+  'language.browser': 'Browser default',
+  'language.hint': 'Saved to your account, so it follows you to every device.',
+
+  // --- Generator ---
+  'generate.title': 'Password Generator',
+  'generate.password': 'Password',
+  'generate.placeholder': 'Your password',
+  'generate.copy': 'Copy password',
+  'generate.copyTitle': 'Copy to Clipboard (C)',
+  'generate.new': 'Generate a new password',
+  'generate.newTitle': 'Generate New Password (G)',
+  'generate.clearAfter': 'Clear clipboard after',
+  'generate.clearNever': 'never',
+  'generate.clearSeconds': '{seconds}s',
+  'generate.saved': 'Saved to your vault',
+  'generate.save': 'Save',
+  'generate.saveTitle': 'Save generated password (S)',
+  'generate.unlockToSave': 'Unlock your vault to save',
+  'generate.mode.characters': 'Characters',
+  'generate.mode.passphrase': 'Passphrase',
+  'generate.words': 'Words:',
+  'generate.separator': 'Separator',
+  'generate.case': 'Case',
+  'generate.case.lowercase': 'lowercase',
+  'generate.case.capitalize': 'Capitalize',
+  'generate.case.uppercase': 'UPPERCASE',
+  'generate.case.random': 'rAnDoM words',
+  'generate.append': 'Append',
+  'generate.append.none': 'Nothing',
+  'generate.append.number': 'Number',
+  'generate.append.symbol': 'Symbol',
+  'generate.entropy': 'Entropy:',
+  'generate.bits': '{bits} bits',
+
+  // --- Wordlists ---
+  'wordlist.label': 'Wordlist',
+  'wordlist.size': '{name} ({count} words)',
+  'wordlist.add': 'Add a wordlist...',
+  'wordlist.remove': 'Remove this wordlist',
+  'wordlist.name': 'Name, e.g. Amharic',
+  'wordlist.file': 'Wordlist file',
+  'wordlist.hint': 'A text file with one word per line, or a diceware list ("11111 word"), with at least {min} different words.',
+  'wordlist.removeConfirm': 'Remove the wordlist "{name}" from this device?',
+
+  // --- Shortcuts ---
+  'shortcut.generate': 'Generate a new password',
+  'shortcut.copy': 'Copy the password',
+  'shortcut.save': 'Save the password to your vault',
+  'shortcut.search': 'Search saved passwords',
+  'shortcut.help': 'Show keyboard shortcuts',
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.hint': "Shortcuts don't fire while you're typing in a field. Ctrl+K (Cmd+K) also focuses the vault search.",
+  'shortcuts.enabled': 'Use single-key shortcuts',
+  'shortcuts.deviceHint': 'Saved on this device. Turn them off if you use speech input or keep pressing them by accident.',
+
+  // --- Dialogs ---
+  'dialog.ok': 'OK',
+  'dialog.cancel': 'Cancel',
+  'dialog.close': 'Close',
+  'dialog.remove': 'Remove',
+  'dialog.delete': 'Delete',
+
+  // --- Strength ---
+  'strength.label': 'Strength:',
+  'strength.0': 'Very Weak',
+  'strength.1': 'Weak',
+  'strength.2': 'Medium',
+  'strength.3': 'Strong',
+  'strength.4': 'Very Strong',
+
+  // --- Settings ---
+  'settings.title': 'Settings',
+  'settings.loggedInAs': 'Logged in as:',
+
+  // --- Activity ---
+  'activity.title': 'Activity',
+  'activity.all': 'All activity',
+  'activity.filter': 'Filter by activity type',
+  'activity.alertsOnly': 'Alerts only',
+  'activity.alert': 'Alert',
+  'activity.markRead': 'Mark alerts as read',
+  'activity.loading': 'Loading activity...',
+  'activity.empty': 'No activity to show.',
+  'activity.loadMore': 'Load more',
+  'activity.loadingMore': 'Loading...',
+
+  // --- Locking and sync ---
+  'vault.lockedIdle': 'Vault locked after {duration} of inactivity.',
+  'vault.lockedHidden': 'Vault locked while the page was hidden.',
+  'vault.synced': {
+    one: 'Synced {count} offline change.',
+    other: 'Synced {count} offline changes.',
+  },
+  'vault.syncFailed': '{failed} could not be synced yet.',
+
+  // --- Durations ---
+  'duration.never': 'Never',
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+
+  // --- Clipboard ---
+  'clipboard.password': 'Password',
+  'clipboard.passwordFor': 'Password for {label}',
+  'clipboard.copied': '{label} copied',
+  'clipboard.cleared': 'Clipboard cleared',
+  'clipboard.unavailable': "Clipboard access isn't available here (it needs HTTPS). Copy the value manually.",
+  'clipboard.denied': 'Clipboard permission was denied.',
+  'clipboard.failed': 'Could not copy to the clipboard.',
+
+  // --- Activity events ---
+  'activity.event.login': 'Signed in',
+  'activity.event.entryCreated': 'Entry added',
+  'activity.event.entryUpdated': 'Entry changed',
+  'activity.event.entryDeleted': 'Entry deleted',
+  'activity.event.entryRevealed': 'Password revealed',
+  'activity.event.entryCopied': 'Password copied',
+  'activity.event.entryFilled': 'Password filled',
+  'activity.event.vaultExported': 'Vault exported',
+
+  // --- Passphrases ---
+  'passphrase.error.missingWordlist': "This preset's wordlist isn't on this device; add it again or pick another.",
+  'passphrase.error.line': 'Each line must hold a single word; found "{line}".',
+  'passphrase.error.tooFewWords': 'The list has {found} different words; at least {min} are needed.',
+
+  // --- Character policy ---
+  'policy.length': 'Password Length:',
+  'policy.min': 'Min',
+  'policy.max': 'Max',
+  'policy.class.uppercase': 'Uppercase',
+  'policy.class.lowercase': 'Lowercase',
+  'policy.class.numbers': 'Numbers',
+  'policy.class.symbols': 'Symbols',
+  'policy.minimum': 'Minimum {class}',
+  'policy.maximum': 'Maximum {class}',
+  'policy.symbolSet': 'Symbols to use',
+  'policy.reset': 'Reset',
+  'policy.resetSymbols': 'Restore the default symbols',
+  'policy.exclude': 'Never use',
+  'policy.excludePlaceholder': 'e.g. <>"\'',
+  'policy.avoidAmbiguous': 'Avoid ambiguous',
+  'policy.noRepeats': 'No repeated characters',
+  'policy.startWithLetter': 'Start with a letter',
+  'policy.error.length': 'Length must be between {min} and {max}.',
+  'policy.error.symbolSet': 'Custom symbols can only contain symbols (no letters, digits or spaces).',
+  'policy.error.noClasses': 'Select at least one character type.',
+  'policy.error.counts': '{class}: minimum and maximum must be whole numbers of 0 or more.',
+  'policy.error.allExcluded': '{class}: every character is excluded.',
+  'policy.error.minOverMax': '{class}: minimum ({min}) is greater than maximum ({max}).',
+  'policy.error.tooFewDistinct': '{class}: only {available} distinct characters are available, but {min} are required.',
+  'policy.error.noLetters': 'Starting with a letter needs uppercase or lowercase letters enabled.',
+  'policy.error.minTotal': 'The minimum counts need {total} characters, but the length is {length}.',
+  'policy.error.repeatsCapacity': 'Only {total} characters can be used without repeats, but the length is {length}.',
+  'policy.error.maxCapacity': 'The maximum counts allow only {total} characters, but the length is {length}.',
+
+  // --- Security settings ---
+  'security.title': 'Security settings',
+  'security.autoLock': 'Lock vault when idle for',
+  'security.signOut': 'Sign out when idle for',
+  'security.lockWhenHidden': 'Lock the vault when this tab is hidden or the screen locks',
+  'security.hint': 'Settings are saved to your account and apply on every device.',
+  'security.saveFailed': 'Failed to save settings.',
+
+  // --- Security report ---
+  'report.title': 'Security report',
+  'report.loading': 'Analysing your vault...',
+  'report.health': {
+    one: 'Vault health across {count} entry',
+    other: 'Vault health across {count} entries',
+  },
+  'report.skipped': {
+    one: '({count} locked entry not included)',
+    other: '({count} locked entries not included)',
+  },
+  'report.weakBelow': 'Weak below',
+  'report.oldAfter': 'Old after (days)',
+  'report.breached': 'Found in breaches',
+  'report.breachCount': {
+    one: '{count} time',
+    other: '{count} times',
+  },
+  'report.checking': 'Checking...',
+  'report.runBreachCheck': 'Run breach check',
+  'report.reused': 'Reused passwords',
+  'report.reusedGroup': {
+    one: 'Same password on {count} entry:',
+    other: 'Same password on {count} entries:',
+  },
+  'report.weak': 'Weak passwords',
+  'report.old': {
+    one: 'Older than {count} day',
+    other: 'Older than {count} days',
+  },
+  'report.age': {
+    one: '{count} day old',
+    other: '{count} days old',
+  },
+  'report.regenerate': 'Regenerate & replace',
+  'report.regenerateTitle': 'Generate a new password with the current generator settings and save it',
+  'report.regenerateFailed': 'Failed to replace password.',
+
+  // --- Export ---
+  'export.title': 'Export vault',
+  'export.json': 'Encrypted JSON',
+  'export.csv': 'Plain CSV',
+  'export.jsonHint': "The file is encrypted with its own passphrase. You'll need it to import the file again.",
+  'export.passphrase': 'Export passphrase',
+  'export.confirmPassphrase': 'Confirm export passphrase',
+  'export.csvWarningTitle': 'Unencrypted export',
+  'export.csvWarning': 'The CSV file contains every password and note in plain text. Anyone or any program that can read the file can read your passwords, including cloud sync and backups. Import it where you need it and delete it immediately.',
+  'export.acknowledge': 'I understand the risk',
+  'export.passphraseTooShort': 'Export passphrase must be at least {min} characters.',
+  'export.passphraseMismatch': 'Passphrases do not match.',
+  'export.done': {
+    one: 'Exported {count} entry.',
+    other: 'Exported {count} entries.',
+  },
+  'export.failed': 'Export failed.',
+  'export.exporting': 'Exporting...',
+  'export.submit': 'Export',
+
+  // --- Entry fields ---
+  'field.label': 'Label',
+  'field.username': 'Username',
+  'field.url': 'URL',
+  'field.password': 'Password',
+  'field.notes': 'Notes',
+  'field.totp': 'Authenticator key',
+  'field.tags': 'Tags',
+  'field.folder': 'Folder',
+
+  // --- Import ---
+  'import.title': 'Import entries',
+  'import.hint': 'Encrypted vault exports, or CSV files from Bitwarden, 1Password, KeePass / KeePassXC and other tools.',
+  'import.existingFailed': 'Could not load existing entries for duplicate detection.',
+  'import.notCsv': 'The file is empty or not a CSV file.',
+  'import.decryptFailed': 'Could not decrypt the file.',
+  'import.decrypting': 'Decrypting...',
+  'import.decrypt': 'Decrypt',
+  'import.layout': 'Layout:',
+  'import.notImported': '— not imported —',
+  'import.column': 'Column {number}',
+  'import.missing': 'missing',
+  'import.duplicate': 'duplicate',
+  'import.rows': {
+    one: '{count} row',
+    other: '{count} rows',
+  },
+  'import.duplicates': {
+    one: '{count} duplicate',
+    other: '{count} duplicates',
+  },
+  'import.checking': '(checking...)',
+  'import.withoutPassword': {
+    one: '{count} without a password',
+    other: '{count} without a password',
+  },
+  'import.skipDuplicates': 'Skip duplicates',
+  'import.importing': 'Importing...',
+  'import.submit': 'Import',
+  'import.missingPassword': 'Missing password',
+  'import.failed': 'Import failed.',
+  'import.report': 'Imported {imported}, skipped {skipped} duplicates, {failed} failed.',
+  'import.rowError': 'Row {row}: {error}',
+  'import.rowErrorLabelled': 'Row {row} ({label}): {error}',
+
+  // --- Password history ---
+  'history.title': 'Password history',
+  'history.close': 'Close password history',
+  'history.loading': 'Loading history...',
+  'history.empty': 'No previous passwords.',
+  'history.replaced': 'Replaced {date}',
+  'history.show': 'Show the password replaced {date}',
+  'history.hide': 'Hide the password replaced {date}',
+  'history.restoreTitle': 'Restore this password',
+  'history.restore': 'Restore the password replaced {date}',
+  'history.restoreConfirm': 'Restore this previous password?',
+  'history.restoreConfirmMessage': 'The current one will be kept in history.',
+  'history.restoreLabel': 'Restore',
+
+  // --- Saved entries ---
+  'entry.noLabel': 'No Label',
+  'entry.unlabelled': 'unlabelled entry',
+  'entry.unencrypted': 'Stored unencrypted',
+  'entry.unencryptedTitle': 'Saved before vault encryption; it is encrypted the next time the vault syncs',
+  'entry.breached': 'Breached',
+  'entry.breachedTitle': {
+    one: 'Found in known breaches {count} time',
+    other: 'Found in known breaches {count} times',
+  },
+  'entry.passphrase': 'Passphrase',
+  'entry.notes': 'Has notes',
+  'entry.notesTitle': 'Has encrypted notes',
+  'entry.newTab': '(opens in a new tab)',
+  'entry.passwordHidden': 'Password hidden',
+  'entry.showTag': 'Show entries tagged #{tag}',
+  'entry.showPassword': 'Show Password',
+  'entry.hidePassword': 'Hide Password',
+  'entry.showPasswordFor': 'Show password for {name}',
+  'entry.hidePasswordFor': 'Hide password for {name}',
+  'entry.copyPassword': 'Copy Password',
+  'entry.copyPasswordFor': 'Copy password for {name}',
+  'entry.edit': 'Edit Password',
+  'entry.editFor': 'Edit {name}',
+  'entry.history': 'Password History',
+  'entry.historyFor': 'Password history for {name}',
+  'entry.delete': 'Delete Password',
+  'entry.deleteFor': 'Delete {name}',
+  'entry.deleteConfirm': 'Delete "{label}"?',
+  'entry.deleteConfirmUnlabelled': 'Delete this password?',
+  'entry.deleteConfirmMessage': 'Its password history is deleted with it.',
+  'entry.deleted': 'Entry deleted',
+  'entry.saved': 'Changes saved',
+  'entry.restored': 'Password restored',
+
+  // --- Strength ---
+  'strength.estimate': '~{bits} bits estimated ({charsetBits} bits if every character were random)',
+  'strength.crackTime': 'Estimated time to crack',
+  'strength.model.onlineThrottled': 'Online, throttled (100/hour)',
+  'strength.model.onlineUnthrottled': 'Online, unthrottled (10/second)',
+  'strength.model.offlineSlow': 'Offline, slow hash (10k/second)',
+  'strength.model.offlineFast': 'Offline, fast hash (10B/second)',
+  'strength.time.instant': 'less than a second',
+  'strength.time.centuries': 'centuries',
+  'strength.time.century': {
+    one: '{count} century',
+    other: '{count} centuries',
+  },
+  'strength.time.year': {
+    one: '{count} year',
+    other: '{count} years',
+  },
+  'strength.time.month': {
+    one: '{count} month',
+    other: '{count} months',
+  },
+  'strength.time.day': {
+    one: '{count} day',
+    other: '{count} days',
+  },
+  'strength.time.hour': {
+    one: '{count} hour',
+    other: '{count} hours',
+  },
+  'strength.time.minute': {
+    one: '{count} minute',
+    other: '{count} minutes',
+  },
+  'strength.time.second': {
+    one: '{count} second',
+    other: '{count} seconds',
+  },
+  'strength.warning.short': 'Short passwords are easy to guess.',
+  'strength.warning.spatial': 'Keyboard patterns like "qwerty" are easy to guess.',
+  'strength.warning.repeat': 'Repeated characters or patterns are easy to guess.',
+  'strength.warning.sequence': 'Sequences like "abc" or "1234" are easy to guess.',
+  'strength.warning.l33t': 'Predictable substitutions like "@" for "a" don\'t help much.',
+  'strength.warning.commonPassword': 'This is a commonly used password.',
+  'strength.warning.containsCommon': 'Contains a commonly used password.',
+  'strength.warning.dictionary': 'Dictionary words are easy to guess on their own.',
+
+  // --- New account password ---
+  'newPassword.title': 'Choose a new password',
+  'newPassword.hint': "This is your login password. Your vault's master passphrase stays the same.",
+  'newPassword.password': 'New password',
+  'newPassword.confirm': 'Confirm new password',
+  'newPassword.tooShort': 'Password must be at least {min} characters.',
+  'newPassword.mismatch': 'Passwords do not match.',
+  'newPassword.failed': 'Failed to update password.',
+  'newPassword.saving': 'Saving...',
+  'newPassword.submit': 'Set password',
+
+  // --- Presets ---
+  'preset.label': 'Preset',
+  'preset.custom': 'Custom settings',
+  'preset.default': '{name} (default)',
+  'preset.applyOnLoad': 'Apply this preset on load',
+  'preset.stopApplyOnLoad': 'Stop applying this preset on load',
+  'preset.update': 'Save changes to this preset',
+  'preset.delete': 'Delete preset',
+  'preset.deleteFor': 'Delete preset {name}',
+  'preset.deleteConfirm': 'Delete the preset "{name}"?',
+  'preset.saveAs': 'Save as...',
+  'preset.name': 'Preset name',
+  'preset.namePlaceholder': 'Preset name, e.g. AWS IAM',
+  'preset.save': 'Save',
+  'preset.saved': 'Preset saved',
+  'preset.deleted': 'Preset deleted',
+  'preset.failed': 'Something went wrong.',
+
+  // --- Collections ---
+  'collection.showing': 'Showing',
+  'collection.personal': 'Personal vault',
+  'collection.option': '{name} ({role})',
+  'collection.role.viewer': 'viewer',
+  'collection.role.editor': 'editor',
+  'collection.role.owner': 'owner',
+  'collection.members': 'Members',
+  'collection.membersOf': 'Members of {name}',
+  'collection.new': 'New collection...',
+  'collection.namePlaceholder': 'Collection name, e.g. Ops team',
+  'collection.create': 'Create',
+  'collection.createFailed': 'Failed to create the collection.',
+
+  // --- Saved passwords ---
+  'vault.title': 'Saved Passwords',
+  'vault.add': 'Add',
+  'vault.addTitle': 'Add an entry with your own password',
+  'vault.report': 'Report',
+  'vault.reportTitle': 'Reused, weak, old and breached passwords',
+  'vault.audit': 'Audit',
+  'vault.auditTitle': 'Check every saved password against known breaches',
+  'vault.import': 'Import',
+  'vault.importTitle': 'Import entries',
+  'vault.export': 'Export',
+  'vault.exportTitle': 'Export vault',
+  'vault.entrySaved': 'Entry saved',
+  'vault.sharedOffline': 'Shared collections need a connection.',
+  'vault.regenerated': 'Password regenerated',
+  'vault.auditProgress': 'Checking for breaches... {done}/{total}',
+  'vault.auditSummary': '{breached} of {total} passwords found in known breaches.',
+  'vault.auditUnchecked': '{failed} could not be checked.',
+  'vault.auditLocked': '{locked} locked entries skipped.',
+  'vault.search': 'Search saved passwords',
+  'vault.searchPlaceholder': 'Search label, username, URL or #tag  ( / )',
+  'vault.sort': 'Sort saved passwords',
+  'vault.sort.newest': 'Newest first',
+  'vault.sort.oldest': 'Oldest first',
+  'vault.sort.name': 'Name (A–Z)',
+  'vault.sort.weakest': 'Weakest first',
+  'vault.sort.strongest': 'Strongest first',
+  'vault.clearTag': 'Clear tag filter',
+  'vault.clearTagFor': 'Clear tag filter #{tag}',
+  'vault.loading': 'Loading saved passwords...',
+  'vault.noMatches': 'No entries match your search.',
+  'vault.empty': 'No passwords saved yet.',
+  'vault.unfiled': 'Unfiled',
+  'vault.loadMore': 'Load more',
+  'vault.loadingMore': 'Loading...',
+
+  // --- Account ---
+  'account.title': 'Account',
+  'account.email': 'Email',
+  'account.newEmail': 'New email',
+  'account.emailPending': 'Waiting for confirmation of {email}.',
+  'account.emailChange': 'Change',
+  'account.emailConfirm': 'Confirm the change from the link sent to {email}.',
+  'account.emailFailed': 'Failed to change email.',
+  'account.password': 'Login password',
+  'account.passwordUpdate': 'Update',
+  'account.passwordUpdated': 'Login password updated.',
+  'account.mfa': 'Two-step verification',
+  'account.mfaLoadFailed': 'Failed to load two-step verification status.',
+  'account.mfaOn': {
+    one: 'On. Sign-in asks for a code from your authenticator app. {count} recovery code left.',
+    other: 'On. Sign-in asks for a code from your authenticator app. {count} recovery codes left.',
+  },
+  'account.newCodes': 'New recovery codes',
+  'account.turnOff': 'Turn off',
+  'account.scan': 'Scan this code with an authenticator app, then enter the 6-digit code it shows.',
+  'account.qrAlt': 'Authenticator QR code',
+  'account.manualKey': "Can't scan? Enter this key instead:",
+  'account.verify': 'Verify',
+  'account.mfaIntro': 'Protect your vault with a code from an authenticator app at every sign-in.',
+  'account.setUp': 'Set up authenticator',
+  'account.setUpFailed': 'Failed to set up the authenticator.',
+  'account.verifyFailed': 'Failed to verify the code.',
+  'account.mfaEnabled': 'Two-step verification is on.',
+  'account.replaceCodesConfirm': 'Replace your recovery codes?',
+  'account.replaceCodesMessage': 'The old ones will stop working.',
+  'account.replaceCodes': 'Replace codes',
+  'account.codesFailed': 'Failed to generate recovery codes.',
+  'account.disableConfirm': 'Turn off two-step verification?',
+  'account.disableMessage': 'Your recovery codes will stop working.',
+  'account.mfaDisabled': 'Two-step verification is off.',
+  'account.disableFailed': 'Failed to turn off two-step verification.',
+  'account.codesSave': "Save these recovery codes somewhere safe. Each works once if you lose your authenticator; they won't be shown again.",
+  'account.codes': 'Recovery codes',
+  'account.copy': 'Copy',
+  'account.codesSaved': "I've saved them",
+
+  // --- Collection members ---
+  'collection.roleName.viewer': 'Viewer',
+  'collection.roleName.editor': 'Editor',
+  'collection.roleName.owner': 'Owner',
+  'collection.roleHint.viewer': 'Can see and copy entries.',
+  'collection.roleHint.editor': 'Can also add, change and delete entries.',
+  'collection.roleHint.owner': 'Can also manage members.',
+  'collection.closeMembers': 'Close members',
+  'collection.loadingMembers': 'Loading members...',
+  'collection.you': '(you)',
+  'collection.roleOf': 'Role of {email}',
+  'collection.removeMember': 'Remove member',
+  'collection.removeMemberFor': 'Remove {email}',
+  'collection.invitePlaceholder': 'Invite by email',
+  'collection.inviteRole': 'Role for the new member',
+  'collection.invite': 'Add',
+  'collection.name': 'Collection name',
+  'collection.rename': 'Rename',
+  'collection.rotating': 'Re-encrypting entries under a new key...',
+  'collection.rotateRetry': "The member was removed, but the collection key wasn't replaced: {error}",
+  'collection.tryAgain': 'Try again',
+  'collection.leave': 'Leave collection',
+  'collection.leaveHint': "The last owner can't leave; delete the collection or make someone else an owner first",
+  'collection.leaveConfirm': 'Leave "{name}"?',
+  'collection.leaveConfirmMessage': "You'll need to be invited again to see its entries.",
+  'collection.leaveLabel': 'Leave',
+  'collection.removeConfirm': 'Remove {email} from "{name}"?',
+  'collection.removeConfirmMessage': 'Every entry is re-encrypted under a new key, so theirs stops working.',
+  'collection.delete': 'Delete collection',
+  'collection.deleteConfirm': 'Delete "{name}"?',
+  'collection.deleteConfirmMessage': "Every entry in it is deleted for all members. This can't be undone.",
+  'collection.membersFailed': 'Failed to load members.',
+  'collection.inviteFailed': 'Failed to add the member.',
+  'collection.roleFailed': 'Failed to change the role.',
+  'collection.removeFailed': 'Failed to remove the member.',
+  'collection.leaveFailed': 'Failed to leave the collection.',
+  'collection.rotateFailed': 'Failed to replace the collection key.',
+  'collection.renameFailed': 'Failed to rename the collection.',
+  'collection.deleteFailed': 'Failed to delete the collection.',
+  'collection.untitled': 'Untitled',
+  'collection.error.loadKeys': 'Failed to load your sharing keys.',
+  'collection.error.setUpKeys': 'Failed to set up your sharing keys.',
+  'collection.error.loadCollections': 'Failed to load shared collections.',
+  'collection.error.lookUp': 'Failed to look up that account.',
+  'collection.error.loadMemberKeys': "Failed to load the members' keys.",
+  'collection.error.otherPassphrase': 'Your sharing keys were sealed with a different master passphrase.',
+  'collection.error.open': 'Could not open "{name}": its key wasn\'t shared with your current keys.',
+  'collection.error.notReady': 'No account for {email} is ready for sharing yet. Ask them to sign in and unlock their vault once.',
+  'collection.error.alreadyMember': '{email} is already a member.',
+
+  // --- Clipboard notices ---
+  'clipboard.clearsIn': 'clears in {seconds}s',
+  'clipboard.clearNow': 'Clear now',
+
+  // --- Sign in ---
+  'auth.login': 'Login',
+  'auth.signUp': 'Sign Up',
+  'auth.reset': 'Reset Password',
+  'auth.confirmEmail': 'Check your email for a confirmation link, then log in.',
+  'auth.resetSent': 'If an account exists for that email, a reset link is on its way.',
+  'auth.failed': 'An unexpected error occurred.',
+  'auth.processing': 'Processing...',
+  'auth.sendReset': 'Send reset link',
+  'auth.forgot': 'Forgot your password?',
+  'auth.needAccount': 'Need an account? Sign Up',
+  'auth.backToLogin': 'Back to Login',
+
+  // --- Two-step sign-in ---
+  'mfa.noFactor': 'No authenticator is set up for this account.',
+  'mfa.failed': 'Verification failed.',
+  'mfa.recoveryHint': 'Enter one of your recovery codes. Your authenticator will be removed so you can set up a new one.',
+  'mfa.codeHint': 'Enter the 6-digit code from your authenticator app.',
+  'mfa.verifying': 'Verifying...',
+  'mfa.useAuthenticator': 'Use my authenticator app',
+  'mfa.useRecoveryCode': 'Lost your authenticator? Use a recovery code',
+  'mfa.signOut': 'Sign out',
+
+  // --- Vault unlock ---
+  'unlock.tooShort': 'Master passphrase must be at least {min} characters.',
+  'unlock.mismatch': 'Passphrases do not match.',
+  'unlock.failed': 'Failed to unlock vault.',
+  'unlock.setTitle': 'Set a master passphrase for your vault',
+  'unlock.locked': 'Vault locked',
+  'unlock.setHint': 'Saved passwords are encrypted in your browser with this passphrase. It is separate from your login password and cannot be recovered if you forget it.',
+  'unlock.passphrase': 'Master passphrase',
+  'unlock.confirm': 'Confirm master passphrase',
+  'unlock.deriving': 'Deriving key...',
+  'unlock.create': 'Create Vault',
+  'unlock.submit': 'Unlock',
+
+  // --- Vault errors ---
+  'vault.unlockToSave': 'Unlock your vault to save.',
+  'vault.saveFailed': 'Failed to save password. Please try again.',
+  'vault.sharingUnavailable': 'Sharing is unavailable.',
+
+  // --- Entry errors ---
+  'vault.syncConflict': '"{label}" was changed on another device, so it wasn\'t deleted.',
+  'vault.error.passphrase': 'Incorrect master passphrase.',
+  'vault.error.otherPassphrase': 'This entry was encrypted with a different master passphrase.',
+  'vault.error.version': 'Unsupported encryption version: {version}',
+  'vault.error.iv': 'This entry is missing its IV.',
+  'entry.untitled': 'Untitled',
+  'export.entryFailed': 'Could not export "{label}": {reason}',
+  'export.decryptFailed': 'Failed to decrypt.',
+  'import.saveFailed': 'Failed to save.',
+  'import.wrongPassphrase': 'Incorrect passphrase, or the file is damaged.',
+  'import.unsupportedVersion': 'Unsupported export version: {version}.',
+
+  // --- Authenticator keys ---
+  'totp.error.base32': 'The authenticator key has characters that are not valid base32.',
+  'totp.error.missing': 'The authenticator key is missing.',
+  'totp.error.short': 'The authenticator key is too short.',
+  'totp.error.period': 'The period must be between {min} and {max} seconds.',
+  'totp.error.malformed': 'That otpauth:// link is malformed.',
+  'totp.error.notTotp': 'Only time-based (TOTP) authenticator codes are supported.',
+  'totp.error.algorithm': 'Unsupported algorithm: {algorithm}.',
+  'totp.error.digits': 'Codes must have 6 or 8 digits.',
+
+  // --- Entry form ---
+  'entryForm.label': "Label (e.g., 'Gmail')",
+  'entryForm.newPassword': 'New password (leave blank to keep current)',
+  'entryForm.generate': 'Generate a new password',
+  'entryForm.generateTitle': 'Generate a new password with the current settings',
+  'entryForm.generateFailed': 'Failed to generate a password.',
+  'entryForm.strength': 'Password strength:',
+  'entryForm.tags': 'Tags (comma-separated)',
+  'entryForm.notes': 'Notes (encrypted)',
+  'entryForm.passwordRequired': 'Enter or generate a password.',
+  'entryForm.saveFailed': 'Failed to save entry.',
+  'entryForm.saving': 'Saving...',
+  'entryForm.save': 'Save',
+
+  // --- Breach check ---
+  'breach.failed': 'Breach lookup failed.',
+  'breach.found': {
+    one: "Found in known breaches {count} time. Don't use it.",
+    other: "Found in known breaches {count} times. Don't use it.",
+  },
+  'breach.notFound': 'Not found in known breaches.',
+  'breach.privacy': "Only the first 5 characters of the password's SHA-1 hash are sent",
+  'breach.checking': 'Checking...',
+  'breach.check': 'Check against known breaches',
+
+  // --- Authenticator codes ---
+  'totp.invalid': 'Invalid authenticator key.',
+  'totp.invalidEntry': 'Invalid authenticator key; edit the entry to fix it.',
+  'totp.remaining': 'Seconds until the next code',
+  'totp.seconds': '{seconds}s',
+  'totp.code': 'Code',
+  'totp.codeFor': 'Code for {label}',
+  'totp.copy': 'Copy code',
+  'totp.copyCode': 'Copy the two-step code',
+  'totp.copyFor': 'Copy the two-step code for {label}',
+  'totp.scanFailed': 'Scanning failed.',
+  'totp.add': 'Add authenticator (2FA) key',
+  'totp.placeholder': 'otpauth:// link or authenticator key (encrypted)',
+  'totp.scan': 'Scan a QR code with the camera',
+  'totp.stopScan': 'Stop scanning',
+  'totp.upload': 'Read a QR code from an image or screenshot',
+  'totp.remove': 'Remove authenticator key',
+  'totp.preview': 'Camera preview',
+  'totp.algorithm': 'Algorithm',
+  'totp.digits': 'Digits',
+  'totp.digitsOption': {
+    one: '{count} digit',
+    other: '{count} digits',
+  },
+  'totp.period': 'Period',
+  'totp.periodOption': 'every {seconds}s',
+
+  // --- Vault page ---
+  'collection.openFailed': 'Failed to open the collection.',
+  'collection.opening': 'Opening {name}...',
+  'vault.lock': 'Lock vault',
+
+  // --- QR codes and lookups ---
+  'breach.httpFailed': 'Breach lookup failed (HTTP {status}).',
+  'qr.unsupported': "This browser can't read QR codes. Paste the otpauth:// link instead.",
+  'qr.notImage': "That file isn't an image.",
+  'qr.notFound': 'No QR code found in that image.',
+  'qr.noCamera': 'Camera access was denied or no camera is available.',
+  'qr.imageFailed': 'Could not read that image.',
+  'mfa.invalidRecoveryCode': 'That recovery code is not valid or has already been used.',
+
+  // --- Storage errors ---
+  'vault.error.load': 'Failed to load saved passwords.',
+  'vault.error.loadAll': 'Failed to load the vault.',
+  'vault.error.loadExisting': 'Failed to load existing entries.',
+  'vault.error.loadSite': 'Failed to load logins for this site.',
+  'vault.error.loadUnencrypted': 'Failed to load unencrypted entries.',
+  'vault.error.loadEntry': 'Failed to load the entry.',
+  'vault.error.checkEntry': 'Failed to check the entry.',
+  'vault.error.loadParams': 'Failed to load vault parameters.',
+  'vault.error.save': 'Failed to save password.',
+  'vault.error.update': 'Failed to update password.',
+  'vault.error.encrypt': 'Failed to encrypt password.',
+  'vault.error.delete': 'Failed to delete password.',
+  'history.failed': 'Failed to load password history.',
+  'history.restoreFailed': 'Failed to restore password.',
+  'entry.editOffline': 'Editing needs a connection; offline you can add and delete entries.',
+  'entry.decryptNotesFailed': 'Failed to decrypt notes.',
+  'entry.decryptFailed': 'Failed to decrypt password.',
+  'report.loadFailed': 'Failed to load the security report.',
+  'preset.loadFailed': 'Failed to load presets.',
+  'preset.duplicate': 'A preset with that name already exists.',
+  'preset.saveFailed': 'Failed to save preset.',
+  'preset.updateFailed': 'Failed to update preset.',
+  'preset.deleteFailed': 'Failed to delete preset.',
+  'preset.defaultFailed': 'Failed to change the default preset.',
+  'wordlist.noRoom': 'There is no room left to store this wordlist on this device.',
+  'wordlist.readFailed': 'Could not read that wordlist.',
+  'wordlist.removeFailed': 'Could not remove the wordlist.',
+  'activity.loadFailed': 'Failed to load activity.',
+  'activity.countFailed': 'Failed to count alerts.',
+  'activity.markFailed': 'Failed to mark alerts read.',
+  'activity.device.unknown': 'Unknown device',
+  'activity.device.browser': 'Browser',
+  'activity.device': '{browser} on {system}',
+
+  // --- Extension ---
+  'extension.popup.generateFailed': 'Failed to generate a password.',
+  'extension.popup.copied': 'Copied.',
+  'extension.popup.copyFailed': 'Could not copy; select the password and copy it instead.',
+  'extension.popup.password': 'Generated password',
+  'extension.popup.regenerate': 'Generate another',
+  'extension.popup.copy': 'Copy',
+  'extension.popup.unreachable': 'Failed to reach the extension.',
+  'extension.popup.unlocked': 'Vault unlocked',
+  'extension.popup.lock': 'Lock',
+  'extension.popup.notConfigured': 'Vault features are off: this build has no Supabase project.',
+  'extension.error.signIn': 'Sign in first.',
+  'extension.error.emptyVault': 'Your vault is empty. Save a password in the app first.',
+  'extension.error.locked': 'Unlock the vault from the extension first.',
+  'extension.error.webPagesOnly': 'Logins can only be used on web pages.',
+  'extension.error.otherSite': "That login isn't for this page.",
+  'extension.error.saveWebPagesOnly': 'Only web pages can save logins.',
+  'extension.error.nothingToSave': 'There is no password to save any more.',
+  'extension.error.notAllowed': 'Not allowed from a web page.',
+  'extension.error.failed': 'Something went wrong.',
+  'extension.page.keyTitle': 'Generate or fill a password (Alt+Down)',
+  'extension.page.key': 'Generate or fill a password',
+  'extension.page.saveBar': 'Save password',
+  'extension.page.generate': 'Generate password',
+  'extension.page.unlockToFill': 'Unlock the vault from the toolbar button to fill saved logins.',
+  'extension.page.noLogins': 'No saved logins for this site.',
+  'extension.page.fill': 'Fill {name}',
+  'extension.page.savedLogin': 'saved login',
+  'extension.page.saveTitle': 'Save this password for {host}?',
+  'extension.page.noUsername': 'No username',
+  'extension.page.save': 'Save',
+  'extension.page.notNow': 'Not now',
+  'extension.page.saved': 'Saved to your vault.',
+  'extension.manifest.name': 'Password Generator',
+  'extension.manifest.description': 'Generates passwords on sign-up forms, fills saved logins and saves new ones to your vault.',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+// A translation; missing keys fall back to English.
+export type Catalog = Partial<Record<MessageKey, Message>>;
+
+export default en;
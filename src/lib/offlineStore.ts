@@ -0,0 +1,183 @@
+// IndexedDB cache of the vault for offline use. Everything about an entry
+// (label, username, URL, tags as well as the secret) is sealed under the vault
+// key before it's written, so the browser profile holds no readable vault
+// data. Only the KDF samples needed to unlock offline are stored as-is; they
+// are the same non-secret salts and test ciphertexts the server holds.
+
+import { decryptSecret, encryptSecret, kdfParamsId, type VaultKeyring } from './vaultCrypto';
+import type { SavedPassword, SecretColumns } from './vault';
+import type { PasswordInsert } from './passwordRepository';
+
+const DB_NAME = 'gebeya-vault';
+const DB_VERSION = 1;
+
+interface SealedValue {
+  kdfParamsId: string; // Which keyring key sealed it
+  iv: string;
+  ciphertext: string;
+}
+
+interface EntryRecord extends SealedValue {
+  userId: string;
+  id: string;
+}
+
+interface MetaRecord {
+  userId: string;
+  kdfSamples: SecretColumns[];
+  syncedAt: string | null; // Last full sync of `entries`
+}
+
+// A change made offline, waiting to be sent to Supabase.
+export type QueuedChange =
+  | { kind: 'create'; row: PasswordInsert & { id: string; label: string | null } }
+  | { kind: 'delete'; id: string; label: string | null; version: string }; // version: updated_at ?? created_at when deleted
+
+interface QueueRecord extends SealedValue {
+  seq?: number;
+  userId: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('entries', { keyPath: ['userId', 'id'] }).createIndex('userId', 'userId');
+      db.createObjectStore('meta', { keyPath: 'userId' });
+      db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true }).createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves once it has committed.
+const withStore = async <T>(
+  name: 'entries' | 'meta' | 'queue',
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const tx = (await openDb()).transaction(name, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx.objectStore(name));
+  await done;
+  return result;
+};
+
+const seal = async (keyring: VaultKeyring, value: unknown): Promise<SealedValue> => {
+  const id = kdfParamsId(keyring.active);
+  const { ciphertext, iv } = await encryptSecret(keyring.keys.get(id)!, JSON.stringify(value));
+  return { kdfParamsId: id, iv, ciphertext };
+};
+
+const unseal = async <T>(keyring: VaultKeyring, sealed: SealedValue): Promise<T | null> => {
+  const key = keyring.keys.get(sealed.kdfParamsId);
+  if (!key) return null;
+  try {
+    return JSON.parse(await decryptSecret(key, sealed)) as T;
+  } catch {
+    return null;
+  }
+};
+
+// Keys of all records in a store belonging to one user.
+const userKeys = (store: IDBObjectStore, userId: string) =>
+  promisify(store.index('userId').getAllKeys(IDBKeyRange.only(userId)));
+
+// --- Entries ---
+
+// Sealing is async (WebCrypto), and IndexedDB transactions close when they
+// wait on anything else, so records are sealed before the transaction opens.
+export const replaceCachedEntries = async (userId: string, keyring: VaultKeyring, rows: SavedPassword[]) => {
+  const records: EntryRecord[] = await Promise.all(
+    rows.map(async row => ({ userId, id: row.id, ...(await seal(keyring, row)) }))
+  );
+  await withStore('entries', 'readwrite', async (store) => {
+    (await userKeys(store, userId)).forEach(key => store.delete(key));
+    records.forEach(record => store.put(record));
+  });
+};
+
+export const putCachedEntry = async (userId: string, keyring: VaultKeyring, row: SavedPassword) => {
+  const record: EntryRecord = { userId, id: row.id, ...(await seal(keyring, row)) };
+  await withStore('entries', 'readwrite', store => { store.put(record); });
+};
+
+export const deleteCachedEntry = (userId: string, id: string) =>
+  withStore('entries', 'readwrite', store => { store.delete([userId, id]); });
+
+// Entries sealed under a key the keyring doesn't hold are left out.
+export const loadCachedEntries = async (userId: string, keyring: VaultKeyring): Promise<SavedPassword[]> => {
+  const records = await withStore('entries', 'readonly', store =>
+    promisify(store.index('userId').getAll(IDBKeyRange.only(userId)) as IDBRequest<EntryRecord[]>)
+  );
+  const rows = await Promise.all(records.map(record => unseal<SavedPassword>(keyring, record)));
+  return rows.filter((row): row is SavedPassword => row !== null);
+};
+
+// --- Unlock parameters ---
+
+export const saveKdfSamples = (userId: string, kdfSamples: SecretColumns[], syncedAt: string | null = null) =>
+  withStore('meta', 'readwrite', async (store) => {
+    const previous = await promisify(store.get(userId) as IDBRequest<MetaRecord | undefined>);
+    store.put({ userId, kdfSamples, syncedAt: syncedAt ?? previous?.syncedAt ?? null } satisfies MetaRecord);
+  });
+
+export const loadKdfSamples = async (userId: string): Promise<SecretColumns[] | null> => {
+  const meta = await withStore('meta', 'readonly', store =>
+    promisify(store.get(userId) as IDBRequest<MetaRecord | undefined>)
+  );
+  return meta?.kdfSamples ?? null;
+};
+
+// --- Sync queue ---
+
+export const enqueueChange = async (userId: string, keyring: VaultKeyring, change: QueuedChange) => {
+  const record: QueueRecord = { userId, ...(await seal(keyring, change)) };
+  await withStore('queue', 'readwrite', store => { store.add(record); });
+};
+
+// Pending changes in the order they were made, with the sequence number to
+// remove each one by once it's been applied.
+export const loadQueue = async (
+  userId: string,
+  keyring: VaultKeyring
+): Promise<{ seq: number; change: QueuedChange | null }[]> => {
+  const records = await withStore('queue', 'readonly', store =>
+    promisify(store.index('userId').getAll(IDBKeyRange.only(userId)) as IDBRequest<QueueRecord[]>)
+  );
+  records.sort((a, b) => a.seq! - b.seq!);
+  return Promise.all(records.map(async record => ({ seq: record.seq!, change: await unseal<QueuedChange>(keyring, record) })));
+};
+
+export const removeQueued = (seq: number) =>
+  withStore('queue', 'readwrite', store => { store.delete(seq); });
+
+export const queueLength = (userId: string) =>
+  withStore('queue', 'readonly', store => promisify(store.index('userId').count(IDBKeyRange.only(userId))));
+
+// Forgets the cached vault on sign-out. Queued changes are kept, so edits made
+// offline are still sent after the user signs back in.
+export const clearCachedVault = async (userId: string) => {
+  await withStore('entries', 'readwrite', async (store) => {
+    (await userKeys(store, userId)).forEach(key => store.delete(key));
+  });
+  await withStore('meta', 'readwrite', store => { store.delete(userId); });
+};
@@ -0,0 +1,60 @@
+// Replays changes made offline once the connection is back.
+//
+// Conflict rules:
+// - A queued create whose id already exists was sent before (the response was
+//   lost) and counts as applied.
+// - A queued delete of an entry that's already gone counts as applied.
+// - A queued delete of an entry that was edited elsewhere after it was
+//   deleted here is dropped and reported: the newer edit wins.
+
+import { loadQueue, removeQueued } from './offlineStore';
+import {
+  RepositoryError,
+  UNIQUE_VIOLATION,
+  deleteEntry,
+  fetchEntryVersion,
+  insertEntries,
+  personalScope,
+} from './passwordRepository';
+import type { VaultKeyring } from './vaultCrypto';
+import { localize } from './i18n';
+
+export interface SyncReport {
+  applied: number;
+  conflicts: string[]; // Human-readable, one per dropped change
+  failed: number; // Left in the queue for the next attempt
+}
+
+export const flushOfflineQueue = async (userId: string, keyring: VaultKeyring): Promise<SyncReport> => {
+  const report: SyncReport = { applied: 0, conflicts: [], failed: 0 };
+
+  for (const { seq, change } of await loadQueue(userId, keyring)) {
+    if (!change) {
+      report.failed++; // Sealed under a key this keyring doesn't hold
+      continue;
+    }
+    try {
+      if (change.kind === 'create') {
+        try {
+          await insertEntries([change.row]);
+        } catch (error) {
+          if (!(error instanceof RepositoryError && error.code === UNIQUE_VIOLATION)) throw error;
+        }
+        report.applied++;
+      } else {
+        const version = await fetchEntryVersion(change.id);
+        if (version !== null && version !== change.version) {
+          report.conflicts.push(localize('vault.syncConflict', { label: change.label || localize('entry.untitled') }));
+        } else {
+          if (version !== null) await deleteEntry(personalScope(userId), change.id);
+          report.applied++;
+        }
+      }
+      await removeQueued(seq);
+    } catch (error) {
+      console.error("Error syncing offline change:", error);
+      report.failed++;
+    }
+  }
+  return report;
+};
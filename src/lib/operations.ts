@@ -0,0 +1,54 @@
+import { useCallback, useMemo, useState } from 'react';
+
+// Per-operation loading and error state, keyed by name ('list', 'create',
+// `delete:${id}`...), so one slow save doesn't disable unrelated buttons.
+export interface Operations {
+  isPending: (key: string) => boolean;
+  error: (key: string) => string | null;
+  // Runs the action; a failure is recorded under `key` and resolves to undefined.
+  run: <T>(key: string, action: () => Promise<T>, failure: string) => Promise<T | undefined>;
+  // Tracks pending state only and rethrows, for forms that show their own errors.
+  track: <T>(key: string, action: () => Promise<T>) => Promise<T>;
+  clearError: (key: string) => void;
+}
+
+const without = <V>(record: Record<string, V>, key: string): Record<string, V> => {
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+export const useOperations = (): Operations => {
+  const [pending, setPending] = useState<Record<string, true>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const clearError = useCallback((key: string) => setErrors(prev => key in prev ? without(prev, key) : prev), []);
+
+  const track = useCallback(async <T,>(key: string, action: () => Promise<T>): Promise<T> => {
+    setPending(prev => ({ ...prev, [key]: true }));
+    try {
+      return await action();
+    } finally {
+      setPending(prev => without(prev, key));
+    }
+  }, []);
+
+  const run = useCallback(async <T,>(key: string, action: () => Promise<T>, failure: string): Promise<T | undefined> => {
+    clearError(key);
+    try {
+      return await track(key, action);
+    } catch (error) {
+      console.error(`Error in ${key}:`, error);
+      setErrors(prev => ({ ...prev, [key]: error instanceof Error && error.message ? error.message : failure }));
+      return undefined;
+    }
+  }, [track, clearError]);
+
+  return useMemo(() => ({
+    isPending: (key: string) => pending[key] === true,
+    error: (key: string) => errors[key] ?? null,
+    run,
+    track,
+    clearError,
+  }), [pending, errors, run, track, clearError]);
+};
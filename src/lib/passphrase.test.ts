@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PASSPHRASE_OPTIONS, passphraseEntropyBits, type PassphraseOptions } from './passphrase';
+
+const options = (changes: Partial<PassphraseOptions> = {}): PassphraseOptions => ({
+  ...DEFAULT_PASSPHRASE_OPTIONS,
+  ...changes,
+});
+
+// Lists of the 1296-word minimum, so each word is log2(1296) bits
+const cased = Array.from({ length: 1296 }, (_, i) => `word${i}`);
+const caseless = Array.from({ length: 1296 }, (_, i) => `ቃል${i}`);
+const halfCased = [...cased.slice(0, 648), ...caseless.slice(0, 648)];
+
+describe('passphraseEntropyBits', () => {
+  const wordBits = Math.log2(1296);
+
+  it('counts one bit per word for random capitalization of cased words', () => {
+    expect(passphraseEntropyBits(options({ capitalization: 'random' }), cased)).toBeCloseTo(6 * wordBits + 6);
+  });
+
+  it('counts nothing for random capitalization of a caseless list', () => {
+    expect(passphraseEntropyBits(options({ capitalization: 'random' }), caseless)).toBeCloseTo(6 * wordBits);
+  });
+
+  it('counts only the words upper case changes', () => {
+    expect(passphraseEntropyBits(options({ capitalization: 'random' }), halfCased)).toBeCloseTo(6 * wordBits + 3);
+  });
+
+  it('counts nothing for fixed capitalization', () => {
+    expect(passphraseEntropyBits(options({ capitalization: 'uppercase' }), cased)).toBeCloseTo(6 * wordBits);
+  });
+});
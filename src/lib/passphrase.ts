@@ -0,0 +1,136 @@
+import { EFF_LARGE_WORDLIST } from './wordlists/effLarge';
+import { cryptoRandomSource, randomChoice, randomInt, type RandomSource } from './random';
+import { localize } from './i18n';
+
+export type Capitalization = 'lowercase' | 'uppercase' | 'capitalize' | 'random';
+export type PassphraseExtra = 'none' | 'number' | 'symbol';
+
+export interface PassphraseOptions {
+  wordCount: number;
+  separator: string;
+  capitalization: Capitalization;
+  extra: PassphraseExtra; // Appended after the last word
+  wordlist: string; // Id of a registered wordlist
+}
+
+export const DEFAULT_WORDLIST_ID = 'eff-large';
+
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = {
+  wordCount: 6,
+  separator: '-',
+  capitalization: 'lowercase',
+  extra: 'none',
+  wordlist: DEFAULT_WORDLIST_ID,
+};
+
+// --- Wordlists ---
+
+// Words are picked from a registered list: the built-in EFF list, or lists in
+// other languages that users add (see customWordlists).
+export interface Wordlist {
+  id: string;
+  name: string;
+  words: readonly string[];
+  builtIn: boolean;
+}
+
+// Smallest list accepted: the EFF short list's 1296 words (four dice), about
+// 10.3 bits per word.
+export const MIN_WORDLIST_SIZE = 1296;
+
+const wordlists = new Map<string, Wordlist>([
+  [DEFAULT_WORDLIST_ID, { id: DEFAULT_WORDLIST_ID, name: 'English (EFF)', words: EFF_LARGE_WORDLIST, builtIn: true }],
+]);
+
+export const registerWordlist = (wordlist: Wordlist): void => {
+  wordlists.set(wordlist.id, wordlist);
+};
+
+export const unregisterWordlist = (id: string): void => {
+  if (!wordlists.get(id)?.builtIn) wordlists.delete(id);
+};
+
+export const availableWordlists = (): Wordlist[] => [...wordlists.values()];
+
+// Problems that stop `options` from generating, e.g. a preset that names a
+// wordlist added on another device.
+export const validatePassphraseOptions = (options: PassphraseOptions): string[] =>
+  wordlists.has(options.wordlist) ? [] : [localize('passphrase.error.missingWordlist')];
+
+const wordsFor = (options: PassphraseOptions): readonly string[] => {
+  const wordlist = wordlists.get(options.wordlist);
+  if (!wordlist) throw new Error(validatePassphraseOptions(options)[0]);
+  return wordlist.words;
+};
+
+// The words of a wordlist file: one per line, or diceware lines ("11111 word").
+// Blank lines and #-comments are skipped and duplicates dropped. Throws an
+// Error fit to show the user.
+export const parseWordlist = (text: string): string[] => {
+  const words = new Set<string>();
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const word = line.replace(/^[1-6]{4,5}\s+/, '').normalize('NFC');
+    if (/\s/.test(word)) throw new Error(localize('passphrase.error.line', { line }));
+    words.add(word);
+  }
+  if (words.size < MIN_WORDLIST_SIZE) {
+    throw new Error(localize('passphrase.error.tooFewWords', { found: words.size, min: MIN_WORDLIST_SIZE }));
+  }
+  return [...words];
+};
+
+export const PASSPHRASE_SYMBOLS = '!@#$%^&*?';
+const DIGITS = '0123456789';
+
+const applyCapitalization = (word: string, capitalization: Capitalization, rng: RandomSource): string => {
+  switch (capitalization) {
+    case 'uppercase': return word.toUpperCase();
+    case 'capitalize': return word.charAt(0).toUpperCase() + word.slice(1);
+    case 'random': return randomInt(2, rng) === 1 ? word.toUpperCase() : word;
+    default: return word;
+  }
+};
+
+export const generatePassphrase = (
+  options: PassphraseOptions,
+  rng: RandomSource = cryptoRandomSource,
+  wordlist: readonly string[] = wordsFor(options)
+): string => {
+  const words: string[] = [];
+  for (let i = 0; i < options.wordCount; i++) {
+    words.push(applyCapitalization(randomChoice(wordlist, rng), options.capitalization, rng));
+  }
+  let passphrase = words.join(options.separator);
+  if (options.extra === 'number') passphrase += randomChoice(DIGITS, rng);
+  if (options.extra === 'symbol') passphrase += randomChoice(PASSPHRASE_SYMBOLS, rng);
+  return passphrase;
+};
+
+// Share of a list's words that 'random' capitalization can change. Scripts
+// without case (Amharic, Arabic) have none. Cached, as lists are long.
+const casedShares = new WeakMap<readonly string[], number>();
+const casedShare = (wordlist: readonly string[]): number => {
+  let share = casedShares.get(wordlist);
+  if (share === undefined) {
+    share = wordlist.filter(word => word.toUpperCase() !== word).length / wordlist.length;
+    casedShares.set(wordlist, share);
+  }
+  return share;
+};
+
+// Exact entropy of the generation process (not of the resulting string): each
+// word is a uniform pick from the list, 'random' capitalization adds one bit
+// for each word that upper case changes (so on average that share of a bit
+// per word), and the appended character is a uniform pick from its alphabet.
+export const passphraseEntropyBits = (
+  options: PassphraseOptions,
+  wordlist: readonly string[] = wordsFor(options)
+): number => {
+  let bits = options.wordCount * Math.log2(wordlist.length);
+  if (options.capitalization === 'random') bits += options.wordCount * casedShare(wordlist);
+  if (options.extra === 'number') bits += Math.log2(DIGITS.length);
+  if (options.extra === 'symbol') bits += Math.log2(PASSPHRASE_SYMBOLS.length);
+  return bits;
+};
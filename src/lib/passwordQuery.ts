@@ -0,0 +1,76 @@
+import type { SavedPassword } from './vault';
+import type { MessageKey } from './locales/en';
+
+// Server-side search, sort and paging options for the Saved Passwords list.
+
+export const PAGE_SIZE = 50;
+
+export type SortOption = 'newest' | 'oldest' | 'name' | 'weakest' | 'strongest';
+
+export const SORT_OPTIONS: Record<SortOption, { label: MessageKey; column: string; ascending: boolean }> = {
+  newest: { label: 'vault.sort.newest', column: 'created_at', ascending: false },
+  oldest: { label: 'vault.sort.oldest', column: 'created_at', ascending: true },
+  name: { label: 'vault.sort.name', column: 'label', ascending: true },
+  weakest: { label: 'vault.sort.weakest', column: 'strength_score', ascending: true },
+  strongest: { label: 'vault.sort.strongest', column: 'strength_score', ascending: false },
+};
+
+export interface PasswordQuery {
+  search: string;
+  tag: string | null;
+  sort: SortOption;
+}
+
+export const DEFAULT_PASSWORD_QUERY: PasswordQuery = { search: '', tag: null, sort: 'newest' };
+
+// Quotes a value for use inside a PostgREST `or=(...)` filter, where commas,
+// parentheses and dots would otherwise be parsed as syntax.
+const quoteFilterValue = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// `ilike` treats % and _ as wildcards; escape them so they match literally.
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, ch => `\\${ch}`);
+
+// Matches the search text against label, username and URL, or a tag exactly.
+// A leading '#' searches tags only.
+export const searchFilter = (search: string): string | null => {
+  const term = search.trim();
+  if (!term) return null;
+  if (term.startsWith('#')) {
+    const tag = term.slice(1).toLowerCase();
+    return tag ? `tags.cs.{${quoteFilterValue(tag)}}` : null;
+  }
+  const pattern = quoteFilterValue(`%${escapeLike(term)}%`);
+  return [
+    `label.ilike.${pattern}`,
+    `username.ilike.${pattern}`,
+    `url.ilike.${pattern}`,
+    `tags.cs.{${quoteFilterValue(term.toLowerCase())}}`,
+  ].join(',');
+};
+
+// Orders two values like `order(..., { nullsFirst: false })` on the server.
+const compareNullsLast = (x: string | number | null, y: string | number | null, ascending: boolean): number => {
+  if (x === y) return 0;
+  if (x === null) return 1;
+  if (y === null) return -1;
+  return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+};
+
+// The same search, tag filter and sort applied in memory, for the offline
+// cache: grouped by folder first, like `listEntries`.
+export const applyQueryLocally = (rows: SavedPassword[], query: PasswordQuery): SavedPassword[] => {
+  const term = query.search.trim().toLowerCase();
+  const matchesSearch = (p: SavedPassword) => {
+    if (!term) return true;
+    if (term.startsWith('#')) return term.length === 1 || p.tags.includes(term.slice(1));
+    return [p.label, p.username, p.url].some(value => value?.toLowerCase().includes(term)) || p.tags.includes(term);
+  };
+  const { column, ascending } = SORT_OPTIONS[query.sort];
+  const key = column as keyof SavedPassword;
+  return rows
+    .filter(p => matchesSearch(p) && (!query.tag || p.tags.includes(query.tag)))
+    .sort((a, b) =>
+      compareNullsLast(a.folder, b.folder, true)
+      || compareNullsLast(a[key] as string | number | null, b[key] as string | number | null, ascending)
+      || a.id.localeCompare(b.id));
+};
@@ -0,0 +1,223 @@
+// Typed data access for the vault: the `passwords` and `password_history`
+// tables and the `vault_kdf_params` view. Components and providers go through
+// here instead of building queries themselves.
+//
+// The generated row types are wider than the app's (a `text` column is just a
+// string), so rows are narrowed to `SavedPassword` and friends on the way out;
+// the table's CHECK constraints guarantee the narrower values.
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { localize } from './i18n';
+import type { MessageKey } from './locales/en';
+import type { TablesInsert, TablesUpdate } from './database.types';
+import { PAGE_SIZE, SORT_OPTIONS, escapeLike, searchFilter, type PasswordQuery } from './passwordQuery';
+import { matchesSite, siteSearchTerm } from './sites';
+import type { EncryptedPasswordColumns, PasswordHistoryEntry, SavedPassword, SecretColumns } from './vault';
+import type { EntryIdentity } from './vaultTransfer';
+
+export type PasswordInsert = TablesInsert<'passwords'>;
+export type PasswordUpdate = TablesUpdate<'passwords'>;
+
+// The message is fit to show the user. `code` is the Postgres error code
+// (e.g. 23505 for a duplicate id), so callers can tell expected failures
+// apart, and `detail` the database's own explanation.
+export class RepositoryError extends Error {
+  readonly code: string | undefined;
+  readonly detail: string;
+
+  constructor(message: string, error: PostgrestError) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = error.code;
+    this.detail = error.message;
+  }
+}
+
+export const UNIQUE_VIOLATION = '23505';
+
+const fail = (message: MessageKey, error: PostgrestError): never => {
+  console.error(`Error (${message}):`, error);
+  throw new RepositoryError(localize(message), error);
+};
+
+// Which vault a request works on: the user's personal entries, or every
+// entry of one shared collection.
+export interface VaultScope {
+  userId: string;
+  collectionId: string | null;
+}
+
+export const personalScope = (userId: string): VaultScope => ({ userId, collectionId: null });
+
+interface ScopeFilterable<Q> {
+  eq(column: 'user_id' | 'collection_id', value: string): Q;
+  is(column: 'collection_id', value: null): Q;
+}
+
+// RLS enforces access too; this keeps personal and shared entries apart.
+const inScope = <Q extends ScopeFilterable<Q>>(request: Q, scope: VaultScope): Q =>
+  scope.collectionId
+    ? request.eq('collection_id', scope.collectionId)
+    : request.eq('user_id', scope.userId).is('collection_id', null);
+
+// Rows per request when reading a whole vault
+const READ_ALL_CHUNK_SIZE = 1000;
+
+// Reads every row in scope in chunks, ignoring search and paging.
+const readAll = async <T>(
+  scope: VaultScope,
+  columns: string,
+  message: MessageKey
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += READ_ALL_CHUNK_SIZE) {
+    const { data, error } = await inScope(supabase.from('passwords').select(columns), scope)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + READ_ALL_CHUNK_SIZE - 1);
+    if (error) fail(message, error);
+    rows.push(...(data as T[]));
+    if (data!.length < READ_ALL_CHUNK_SIZE) return rows;
+  }
+};
+
+// --- Reading ---
+
+// One page of entries matching the query; `hasMore` when the page is full.
+// Entries come grouped by folder (unfiled last), each folder in the chosen
+// order, so the list can show folders as pages arrive.
+export const listEntries = async (
+  scope: VaultScope,
+  query: PasswordQuery,
+  offset = 0
+): Promise<{ entries: SavedPassword[]; hasMore: boolean }> => {
+  const sort = SORT_OPTIONS[query.sort];
+  let request = inScope(supabase.from('passwords').select('*'), scope);
+  const filter = searchFilter(query.search);
+  if (filter) request = request.or(filter);
+  if (query.tag) request = request.contains('tags', [query.tag]);
+  const { data, error } = await request
+    .order('folder', { ascending: true, nullsFirst: false })
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id', { ascending: true }) // Stable order across pages
+    .range(offset, offset + PAGE_SIZE - 1);
+  if (error) fail('vault.error.load', error);
+  const entries = data as SavedPassword[];
+  return { entries, hasMore: entries.length === PAGE_SIZE };
+};
+
+export const fetchAllEntries = (scope: VaultScope): Promise<SavedPassword[]> =>
+  readAll<SavedPassword>(scope, '*', 'vault.error.loadAll');
+
+// Just enough of every entry to spot duplicates when importing.
+export const fetchEntryIdentities = (scope: VaultScope): Promise<EntryIdentity[]> =>
+  readAll<EntryIdentity>(scope, 'label, username, url', 'vault.error.loadExisting');
+
+// Entries saved for a page on `host` (see `matchesSite`), most recently changed first.
+export const fetchSiteEntries = async (scope: VaultScope, host: string): Promise<SavedPassword[]> => {
+  const { data, error } = await inScope(supabase.from('passwords').select('*'), scope)
+    .ilike('url', `%${escapeLike(siteSearchTerm(host))}%`)
+    .order('updated_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+  if (error) fail('vault.error.loadSite', error);
+  return (data as SavedPassword[]).filter(entry => matchesSite(entry.url!, host));
+};
+
+// Entries saved before encryption, whose password is still stored as plaintext.
+export const fetchPlaintextEntries = async (scope: VaultScope): Promise<SavedPassword[]> => {
+  const { data, error } = await inScope(supabase.from('passwords').select('*'), scope)
+    .is('ciphertext', null)
+    .not('password_text', 'is', null);
+  if (error) fail('vault.error.loadUnencrypted', error);
+  return data as SavedPassword[];
+};
+
+export const fetchEntry = async (id: string): Promise<SavedPassword> => {
+  const { data, error } = await supabase
+    .from('passwords')
+    .select('*')
+    .eq('id', id)
+    .single();
+  if (error) fail('vault.error.loadEntry', error);
+  return data as SavedPassword;
+};
+
+// The entry's last-modified time, or null once it's gone.
+export const fetchEntryVersion = async (id: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('passwords')
+    .select('updated_at, created_at')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) fail('vault.error.checkEntry', error);
+  return data && (data.updated_at ?? data.created_at);
+};
+
+export const fetchEntryHistory = async (passwordId: string): Promise<PasswordHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('password_history')
+    .select('*')
+    .eq('password_id', passwordId)
+    .order('replaced_at', { ascending: false });
+  if (error) fail('history.failed', error);
+  return data as PasswordHistoryEntry[];
+};
+
+// Every history row of a collection's entries, for re-encrypting them under
+// a new collection key.
+export const fetchCollectionHistory = async (collectionId: string): Promise<PasswordHistoryEntry[]> => {
+  const rows: PasswordHistoryEntry[] = [];
+  for (let offset = 0; ; offset += READ_ALL_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('password_history')
+      .select('*')
+      .eq('collection_id', collectionId)
+      .order('id', { ascending: true })
+      .range(offset, offset + READ_ALL_CHUNK_SIZE - 1);
+    if (error) fail('history.failed', error);
+    rows.push(...(data as PasswordHistoryEntry[]));
+    if (data!.length < READ_ALL_CHUNK_SIZE) return rows;
+  }
+};
+
+// One encrypted row per KDF param set, newest first (the active set).
+export const fetchKdfSamples = async (userId: string): Promise<SecretColumns[]> => {
+  const { data, error } = await supabase
+    .from('vault_kdf_params')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) fail('vault.error.loadParams', error);
+  return data!;
+};
+
+// --- Writing ---
+
+export const insertEntries = async (rows: PasswordInsert[]): Promise<void> => {
+  const { error } = await supabase.from('passwords').insert(rows);
+  if (error) fail('vault.error.save', error);
+};
+
+export const updateEntry = async (scope: VaultScope, id: string, changes: PasswordUpdate): Promise<void> => {
+  const { error } = await inScope(supabase.from('passwords').update(changes), scope).eq('id', id);
+  if (error) fail('vault.error.update', error);
+};
+
+// Swaps a legacy plaintext password for its encrypted form, unless the entry
+// has been given an encrypted password meanwhile.
+export const encryptPlaintextEntry = async (
+  scope: VaultScope,
+  id: string,
+  secret: EncryptedPasswordColumns
+): Promise<void> => {
+  const { error } = await inScope(supabase.from('passwords').update({ ...secret, password_text: null }), scope)
+    .eq('id', id)
+    .is('ciphertext', null);
+  if (error) fail('vault.error.encrypt', error);
+};
+
+export const deleteEntry = async (scope: VaultScope, id: string): Promise<void> => {
+  const { error } = await inScope(supabase.from('passwords').delete(), scope).eq('id', id);
+  if (error) fail('vault.error.delete', error);
+};
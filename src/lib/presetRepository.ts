@@ -0,0 +1,75 @@
+// Typed data access for the `generator_presets` table. The settings columns
+// are jsonb, so they go in as `Json` and come back narrowed to the app's types.
+
+import { supabase } from './supabaseClient';
+import type { Json, Tables } from './database.types';
+import type { GeneratorPreset, GeneratorSettings } from './presets';
+import { UNIQUE_VIOLATION } from './passwordRepository';
+import { localize } from './i18n';
+
+const toRow = (settings: GeneratorSettings) => ({
+  mode: settings.mode,
+  character_policy: settings.character_policy as unknown as Json,
+  passphrase_options: settings.passphrase_options as unknown as Json,
+});
+
+const fromRow = (row: Tables<'generator_presets'>): GeneratorPreset => row as unknown as GeneratorPreset;
+
+export const fetchPresets = async (userId: string): Promise<GeneratorPreset[]> => {
+  const { data, error } = await supabase
+    .from('generator_presets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) {
+    console.error("Error fetching presets:", error);
+    throw new Error(localize('preset.loadFailed'));
+  }
+  return data.map(fromRow);
+};
+
+// Resolves to the new preset's id.
+export const insertPreset = async (userId: string, name: string, settings: GeneratorSettings): Promise<string> => {
+  const { data, error } = await supabase
+    .from('generator_presets')
+    .insert({ user_id: userId, name, ...toRow(settings) })
+    .select('id')
+    .single();
+  if (error) {
+    console.error("Error saving preset:", error);
+    throw new Error(localize(error.code === UNIQUE_VIOLATION ? 'preset.duplicate' : 'preset.saveFailed'));
+  }
+  return data.id;
+};
+
+export const updatePreset = async (id: string, settings: GeneratorSettings): Promise<void> => {
+  const { error } = await supabase
+    .from('generator_presets')
+    .update(toRow(settings))
+    .eq('id', id);
+  if (error) {
+    console.error("Error updating preset:", error);
+    throw new Error(localize('preset.updateFailed'));
+  }
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('generator_presets')
+    .delete()
+    .eq('id', id);
+  if (error) {
+    console.error("Error deleting preset:", error);
+    throw new Error(localize('preset.deleteFailed'));
+  }
+};
+
+// Only one preset can be the default; the RPC moves the flag atomically.
+// `null` clears it.
+export const setDefaultPreset = async (id: string | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_default_generator_preset', { preset_id: id });
+  if (error) {
+    console.error("Error setting default preset:", error);
+    throw new Error(localize('preset.defaultFailed'));
+  }
+};
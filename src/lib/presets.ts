@@ -0,0 +1,52 @@
+import {
+  CHARACTER_CLASSES,
+  DEFAULT_CHARACTER_POLICY,
+  type CharacterClass,
+  type CharacterPolicy,
+  type ClassRule,
+  type GenerationMode,
+} from './generator';
+import { DEFAULT_PASSPHRASE_OPTIONS, type PassphraseOptions } from './passphrase';
+
+// Everything the generator panel can be configured with.
+export interface GeneratorSettings {
+  mode: GenerationMode;
+  character_policy: CharacterPolicy;
+  passphrase_options: PassphraseOptions;
+}
+
+// A row of the `generator_presets` table.
+export interface GeneratorPreset extends GeneratorSettings {
+  id: string;
+  name: string;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  mode: 'characters',
+  character_policy: DEFAULT_CHARACTER_POLICY,
+  passphrase_options: DEFAULT_PASSPHRASE_OPTIONS,
+};
+
+// Presets are stored as JSON, so ones saved by an older version may lack
+// newer settings; those fall back to the defaults. Keys come back in the
+// defaults' order (jsonb doesn't keep insertion order).
+export const presetSettings = (preset: GeneratorSettings): GeneratorSettings => ({
+  mode: preset.mode,
+  character_policy: {
+    ...DEFAULT_CHARACTER_POLICY,
+    ...preset.character_policy,
+    classes: Object.fromEntries(CHARACTER_CLASSES.map(c => [
+      c,
+      { ...DEFAULT_CHARACTER_POLICY.classes[c], ...preset.character_policy?.classes?.[c] },
+    ])) as Record<CharacterClass, ClassRule>,
+  },
+  passphrase_options: { ...DEFAULT_PASSPHRASE_OPTIONS, ...preset.passphrase_options },
+});
+
+// Whether the generator's current settings are exactly those of `preset`.
+export const matchesPreset = (settings: GeneratorSettings, preset: GeneratorPreset): boolean => {
+  return JSON.stringify(presetSettings(settings)) === JSON.stringify(presetSettings(preset));
+};
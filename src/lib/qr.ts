@@ -0,0 +1,71 @@
+// Reading QR codes, for authenticator setup codes, with the browser's built-in
+// Shape Detection API. Where it's missing (Firefox, desktop Safari) callers
+// fall back to pasting the otpauth:// link.
+
+import { localize } from './i18n';
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const detectorClass = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const isQrReadingSupported = (): boolean => detectorClass() !== undefined;
+
+export const isCameraAvailable = (): boolean => isQrReadingSupported() && !!navigator.mediaDevices?.getUserMedia;
+
+const createDetector = (): BarcodeDetectorLike => {
+  const Detector = detectorClass();
+  if (!Detector) throw new Error(localize('qr.unsupported'));
+  return new Detector({ formats: ['qr_code'] });
+};
+
+// The text of the first QR code in an uploaded image or screenshot.
+export const readQrFromImage = async (file: Blob): Promise<string> => {
+  const detector = createDetector();
+  const image = await createImageBitmap(file).catch(() => {
+    throw new Error(localize('qr.notImage'));
+  });
+  try {
+    const [code] = await detector.detect(image);
+    if (!code) throw new Error(localize('qr.notFound'));
+    return code.rawValue;
+  } finally {
+    image.close();
+  }
+};
+
+// How often camera frames are checked for a code
+const SCAN_INTERVAL_MS = 250;
+
+// Streams the camera into `video` until a QR code is seen or `signal` aborts,
+// then turns the camera off again. Resolves to null when aborted.
+export const scanQrWithCamera = async (video: HTMLVideoElement, signal: AbortSignal): Promise<string | null> => {
+  const detector = createDetector();
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+  } catch {
+    throw new Error(localize('qr.noCamera'));
+  }
+  try {
+    video.srcObject = stream;
+    await video.play();
+    while (!signal.aborted) {
+      const [code] = await detector.detect(video).catch(() => []);
+      if (code) return code.rawValue;
+      await new Promise(resolve => setTimeout(resolve, SCAN_INTERVAL_MS));
+    }
+    return null;
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  }
+};
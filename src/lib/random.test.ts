@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { randomInt, shuffle } from './random';
+import { seededSource, sequenceSource } from '../test/randomSources';
+
+const UINT32_RANGE = 0x100000000;
+
+describe('randomInt', () => {
+  it('redraws values from the partial range at the top', () => {
+    // 2^32 isn't a multiple of 3: the last value would favour residue 0.
+    const source = sequenceSource([UINT32_RANGE - 1, UINT32_RANGE - 2]);
+    expect(randomInt(3, source)).toBe((UINT32_RANGE - 2) % 3);
+    expect(source.drawn).toBe(2);
+  });
+
+  it('accepts every value when the range divides 2^32', () => {
+    const source = sequenceSource([UINT32_RANGE - 1]);
+    expect(randomInt(256, source)).toBe(255);
+    expect(source.drawn).toBe(1);
+  });
+
+  it('is uniform over the range', () => {
+    const rng = seededSource(42);
+    const max = 7;
+    const draws = 70_000;
+    const counts = new Array(max).fill(0);
+    for (let i = 0; i < draws; i++) counts[randomInt(max, rng)]++;
+
+    // Chi-squared with 6 degrees of freedom; 22.46 is the 0.1% critical value.
+    const expected = draws / max;
+    const chiSquared = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+    expect(chiSquared).toBeLessThan(22.46);
+  });
+
+  it('rejects ranges it cannot draw from', () => {
+    expect(() => randomInt(0)).toThrow(RangeError);
+    expect(() => randomInt(1.5)).toThrow(RangeError);
+    expect(() => randomInt(UINT32_RANGE + 1)).toThrow(RangeError);
+  });
+});
+
+describe('shuffle', () => {
+  it('keeps every item', () => {
+    const items = Array.from({ length: 50 }, (_, i) => i);
+    expect([...shuffle([...items], seededSource(7))].sort((a, b) => a - b)).toEqual(items);
+  });
+});
@@ -0,0 +1,37 @@
+// Injectable randomness for the generators. Production code uses the Web
+// Crypto CSPRNG; tests and other hosts can pass any source with the same shape.
+export interface RandomSource {
+  getRandomValues(array: Uint32Array): Uint32Array;
+}
+
+export const cryptoRandomSource: RandomSource = {
+  getRandomValues: (array) => crypto.getRandomValues(array),
+};
+
+const UINT32_RANGE = 0x100000000;
+
+// Uniform integer in [0, max). Draws from the top, partial range of 2^32 are
+// rejected and redrawn, so `% max` never favours the low values.
+export const randomInt = (max: number, rng: RandomSource = cryptoRandomSource): number => {
+  if (!Number.isInteger(max) || max <= 0 || max > UINT32_RANGE) {
+    throw new RangeError(`randomInt: max must be an integer in [1, 2^32], got ${max}`);
+  }
+  const limit = UINT32_RANGE - (UINT32_RANGE % max);
+  const buf = new Uint32Array(1);
+  do {
+    rng.getRandomValues(buf);
+  } while (buf[0] >= limit);
+  return buf[0] % max;
+};
+
+export const randomChoice = <T>(items: ArrayLike<T>, rng: RandomSource = cryptoRandomSource): T =>
+  items[randomInt(items.length, rng)];
+
+// Fisher–Yates (Knuth) shuffle, in place.
+export const shuffle = <T>(items: T[], rng: RandomSource = cryptoRandomSource): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, rng);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
@@ -0,0 +1,50 @@
+import { useSyncExternalStore } from 'react';
+
+// A minimal client-side router over the History API: the current path is an
+// external store that components read with `usePath()`.
+
+export const ROUTES = {
+  generate: '/generate',
+  vault: '/vault',
+  settings: '/settings',
+  activity: '/activity',
+  login: '/login',
+} as const;
+
+export type RoutePath = typeof ROUTES[keyof typeof ROUTES];
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const subscribe = (listener: () => void) => {
+  if (listeners.size === 0) {
+    window.addEventListener('popstate', notify);
+    window.addEventListener('hashchange', notify);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('popstate', notify);
+      window.removeEventListener('hashchange', notify);
+    }
+  };
+};
+
+const getPath = () => window.location.pathname;
+const getHash = () => window.location.hash;
+
+export const usePath = (): string => useSyncExternalStore(subscribe, getPath);
+
+// The current hash including '#', or '' when there is none.
+export const useHash = (): string => useSyncExternalStore(subscribe, getHash);
+
+// `replace` swaps the current history entry, for redirects the Back button
+// shouldn't return to. The hash is kept, so links like /vault#report work.
+export const navigate = (to: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (to === window.location.pathname + window.location.hash) return;
+  if (replace) window.history.replaceState(null, '', to);
+  else window.history.pushState(null, '', to);
+  notify();
+};
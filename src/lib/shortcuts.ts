@@ -0,0 +1,69 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+
+// Single-key shortcuts, like "g" to generate. They're ignored while typing in
+// a field or inside a dialog, and with Ctrl, Alt or Cmd held, so they never
+// swallow text or the browser's own shortcuts. Speech input and stray key
+// presses can still trigger them, so they can be turned off per device.
+export interface Shortcut {
+  key: string; // KeyboardEvent.key, e.g. 'g', '/', '?'
+  description: string; // Shown in the shortcuts help
+  run: () => void;
+  disabled?: boolean;
+}
+
+// The shortcuts of every mounted component, for the help dialog
+const registered = new Set<{ current: Shortcut[] }>();
+
+const STORAGE_KEY = 'shortcuts-enabled';
+const listeners = new Set<() => void>();
+
+export const shortcutsEnabled = (): boolean => localStorage.getItem(STORAGE_KEY) !== 'off';
+
+export const setShortcutsEnabled = (enabled: boolean): void => {
+  localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Re-renders when the setting changes, e.g. to drop aria-keyshortcuts
+export const useShortcutsEnabled = (): boolean => useSyncExternalStore(subscribe, shortcutsEnabled);
+
+const isTyping = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const inDialog = (target: EventTarget | null): boolean =>
+  target instanceof Element && target.closest('dialog') !== null;
+
+export const useShortcuts = (shortcuts: Shortcut[]): void => {
+  const latest = useRef<Shortcut[]>(shortcuts);
+  useEffect(() => {
+    latest.current = shortcuts;
+  });
+
+  useEffect(() => {
+    registered.add(latest);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!shortcutsEnabled() || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTyping(e.target) || inDialog(e.target)) return;
+      const shortcut = latest.current.find(s => s.key === e.key && !s.disabled);
+      if (!shortcut) return;
+      e.preventDefault();
+      shortcut.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      registered.delete(latest);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+};
+
+export const activeShortcuts = (): Shortcut[] =>
+  [...registered].flatMap(entry => entry.current).filter(s => !s.disabled);
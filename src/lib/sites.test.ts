@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { canFillPage, matchesSite, siteOrigin } from './sites';
+
+describe('matchesSite', () => {
+  it('matches the same host and its subdomains', () => {
+    expect(matchesSite('https://example.com', 'example.com')).toBe(true);
+    expect(matchesSite('https://www.example.com/login', 'example.com')).toBe(true);
+    expect(matchesSite('example.com', 'login.example.com')).toBe(true);
+  });
+
+  it("doesn't match a parent domain or a lookalike", () => {
+    expect(matchesSite('https://login.example.com', 'example.com')).toBe(false);
+    expect(matchesSite('https://example.com', 'badexample.com')).toBe(false);
+    expect(matchesSite('https://example.com', 'example.com.evil.test')).toBe(false);
+  });
+});
+
+describe('canFillPage', () => {
+  it("fills https pages of the entry's site", () => {
+    expect(canFillPage('https://example.com', 'https://example.com/login')).toBe(true);
+    expect(canFillPage('example.com', 'https://accounts.example.com/')).toBe(true);
+  });
+
+  it('refuses http pages for entries saved for https or without a scheme', () => {
+    expect(canFillPage('https://example.com', 'http://example.com/login')).toBe(false);
+    expect(canFillPage('example.com', 'http://example.com/login')).toBe(false);
+  });
+
+  it('fills http pages for entries saved for http', () => {
+    expect(canFillPage('http://localhost:4174', 'http://localhost:4174/login.html')).toBe(true);
+  });
+
+  it('refuses other sites and schemes', () => {
+    expect(canFillPage('https://example.com', 'https://example.org/login')).toBe(false);
+    expect(canFillPage('https://example.com', 'ftp://example.com/')).toBe(false);
+  });
+});
+
+describe('siteOrigin', () => {
+  it('assumes https for a bare domain', () => {
+    expect(siteOrigin('example.com/login')).toBe('https://example.com');
+    expect(siteOrigin('http://localhost:4174/')).toBe('http://localhost:4174');
+  });
+});
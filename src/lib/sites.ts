@@ -0,0 +1,47 @@
+// Which site an entry's URL belongs to, for duplicate detection on import and
+// for filling logins in the browser extension.
+
+// Entries often hold a bare domain, so a URL without a scheme counts as https.
+const withScheme = (url: string): string => /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `https://${url}`;
+
+// The host of `url`, without a leading "www.".
+export const siteHost = (url: string): string => {
+  try {
+    return new URL(withScheme(url)).hostname.replace(/^www\./, '');
+  } catch {
+    return url.toLowerCase();
+  }
+};
+
+// The origin of `url` (scheme, host and port), or null if it isn't a URL.
+export const siteOrigin = (url: string): string | null => {
+  try {
+    return new URL(withScheme(url)).origin;
+  } catch {
+    return null;
+  }
+};
+
+// Whether an entry saved for `entryUrl` is a login for a page on `host`: the
+// same host, or a subdomain of it (an entry for example.com also fills
+// login.example.com, but not the other way round).
+export const matchesSite = (entryUrl: string, host: string): boolean => {
+  const entryHost = siteHost(entryUrl);
+  const pageHost = host.replace(/^www\./, '');
+  return pageHost === entryHost || pageHost.endsWith(`.${entryHost}`);
+};
+
+// Whether a login saved for `entryUrl` may be filled into the page at
+// `pageUrl`: a page on the same site, over https unless the entry itself was
+// saved for http. On http anyone on the network could read the password.
+export const canFillPage = (entryUrl: string, pageUrl: string): boolean => {
+  const page = new URL(pageUrl);
+  const secure = page.protocol === 'https:'
+    || (page.protocol === 'http:' && siteOrigin(entryUrl)?.startsWith('http:') === true);
+  return secure && matchesSite(entryUrl, page.hostname);
+};
+
+// The last two labels of `host`, which every matching entry's URL contains;
+// the server narrows candidates by it before `matchesSite` decides.
+export const siteSearchTerm = (host: string): string =>
+  host.split('.').slice(-2).join('.');
@@ -0,0 +1,490 @@
+// Password strength estimation in the spirit of zxcvbn.
+//
+// The password is broken into the cheapest sequence of guessable patterns
+// (common passwords, dictionary words, l33t variants, keyboard walks,
+// repeats, sequences), with anything left over brute-forced over the
+// password's own character set. The total guess count drives the score and
+// the crack-time estimates.
+
+import { COMMON_PASSWORDS } from './wordlists/commonPasswords';
+import { EFF_LARGE_WORDLIST } from './wordlists/effLarge';
+import { localize } from './i18n';
+import type { MessageKey } from './locales/en';
+
+export type MatchPattern = 'dictionary' | 'spatial' | 'repeat' | 'sequence' | 'bruteforce';
+
+export interface Match {
+  pattern: MatchPattern;
+  i: number; // Inclusive start index
+  j: number; // Inclusive end index
+  token: string;
+  guesses: number;
+  dictionary?: 'passwords' | 'english';
+  l33t?: boolean;
+}
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface StrengthLevel {
+  barColor: string;
+  textColor: string;
+  badgeColor: string;
+  width: string;
+}
+
+export const STRENGTH_LEVELS: Record<StrengthScore, StrengthLevel> = {
+  0: { barColor: 'bg-red-600', textColor: 'text-red-700', badgeColor: 'bg-red-100 text-red-700', width: '20%' },
+  1: { barColor: 'bg-red-500', textColor: 'text-red-600', badgeColor: 'bg-red-100 text-red-600', width: '40%' },
+  2: { barColor: 'bg-yellow-500', textColor: 'text-yellow-600', badgeColor: 'bg-yellow-100 text-yellow-700', width: '60%' },
+  3: { barColor: 'bg-orange-500', textColor: 'text-orange-600', badgeColor: 'bg-orange-100 text-orange-700', width: '80%' },
+  4: { barColor: 'bg-green-500', textColor: 'text-green-600', badgeColor: 'bg-green-100 text-green-700', width: '100%' },
+};
+
+export interface AttackerModel {
+  name: MessageKey;
+  guessesPerSecond: number;
+}
+
+export const ATTACKER_MODELS: AttackerModel[] = [
+  { name: 'strength.model.onlineThrottled', guessesPerSecond: 100 / 3600 },
+  { name: 'strength.model.onlineUnthrottled', guessesPerSecond: 10 },
+  { name: 'strength.model.offlineSlow', guessesPerSecond: 1e4 },
+  { name: 'strength.model.offlineFast', guessesPerSecond: 1e10 },
+];
+
+export interface CrackTimeEstimate {
+  model: AttackerModel;
+  seconds: number; // Shown with formatCrackTime
+}
+
+export interface StrengthResult {
+  score: StrengthScore;
+  guesses: number;
+  guessesLog10: number;
+  entropyBits: number; // log2 of the estimated guesses
+  charsetEntropyBits: number; // Naive length * log2(charset size) upper bound
+  sequence: Match[];
+  crackTimes: CrackTimeEstimate[];
+  warnings: MessageKey[];
+}
+
+// --- Dictionaries ---
+
+const buildRankedDictionary = (words: readonly string[], uniformRank?: number): Map<string, number> => {
+  const ranked = new Map<string, number>();
+  words.forEach((word, index) => {
+    const w = word.toLowerCase();
+    if (!ranked.has(w)) ranked.set(w, uniformRank ?? index + 1);
+  });
+  return ranked;
+};
+
+// The EFF list has no frequency order; every word is one of 7776 equally likely picks.
+const DICTIONARIES = {
+  passwords: buildRankedDictionary(COMMON_PASSWORDS),
+  english: buildRankedDictionary(EFF_LARGE_WORDLIST, EFF_LARGE_WORDLIST.length),
+} as const;
+
+const MAX_WORD_LENGTH = 24;
+
+const L33T_TABLE: Record<string, string[]> = {
+  '4': ['a'], '@': ['a'], '8': ['b'], '(': ['c'], '{': ['c'], '3': ['e'], '6': ['g'],
+  '9': ['g'], '1': ['i', 'l'], '!': ['i'], '|': ['i', 'l'], '0': ['o'], '$': ['s'],
+  '5': ['s'], '+': ['t'], '7': ['t'], '2': ['z'],
+};
+
+const MAX_L33T_VARIANTS = 16;
+
+// --- Keyboard layout ---
+
+// QWERTY rows as (unshifted, shifted) pairs. Columns are laid out in
+// half-key units so the physical stagger gives each key up to six neighbours.
+const KEYBOARD_ROWS = [
+  { offset: 0, keys: ['`~', '1!', '2@', '3#', '4$', '5%', '6^', '7&', '8*', '9(', '0)', '-_', '=+'] },
+  { offset: 3, keys: ['qQ', 'wW', 'eE', 'rR', 'tT', 'yY', 'uU', 'iI', 'oO', 'pP', '[{', ']}', '\\|'] },
+  { offset: 4, keys: ['aA', 'sS', 'dD', 'fF', 'gG', 'hH', 'jJ', 'kK', 'lL', ';:', '\'"'] },
+  { offset: 5, keys: ['zZ', 'xX', 'cC', 'vV', 'bB', 'nN', 'mM', ',<', '.>', '/?'] },
+];
+
+interface KeyPosition { x: number; y: number; shifted: boolean }
+
+const KEY_POSITIONS = new Map<string, KeyPosition>();
+KEYBOARD_ROWS.forEach(({ offset, keys }, y) => {
+  keys.forEach((pair, k) => {
+    const x = offset + 2 * k;
+    KEY_POSITIONS.set(pair[0], { x, y, shifted: false });
+    KEY_POSITIONS.set(pair[1], { x, y, shifted: true });
+  });
+});
+
+const NEIGHBOUR_OFFSETS = [[-2, 0], [2, 0], [-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+const occupied = new Set(Array.from(KEY_POSITIONS.values()).map(p => `${p.x},${p.y}`));
+const KEYBOARD_STARTING_POSITIONS = occupied.size;
+const KEYBOARD_AVERAGE_DEGREE = Array.from(occupied).reduce((sum, key) => {
+  const [x, y] = key.split(',').map(Number);
+  return sum + NEIGHBOUR_OFFSETS.filter(([dx, dy]) => occupied.has(`${x + dx},${y + dy}`)).length;
+}, 0) / KEYBOARD_STARTING_POSITIONS;
+
+// Direction index of the step a -> b, or -1 when the keys aren't adjacent.
+const keyboardDirection = (a: string, b: string): number => {
+  const pa = KEY_POSITIONS.get(a);
+  const pb = KEY_POSITIONS.get(b);
+  if (!pa || !pb) return -1;
+  return NEIGHBOUR_OFFSETS.findIndex(([dx, dy]) => pa.x + dx === pb.x && pa.y + dy === pb.y);
+};
+
+// --- Math helpers ---
+
+const nCk = (n: number, k: number): number => {
+  if (k > n) return 0;
+  let r = 1;
+  for (let d = 1; d <= k; d++) r = (r * (n - k + d)) / d;
+  return r;
+};
+
+const LOG10_FACTORIALS: number[] = [0];
+const log10Factorial = (n: number): number => {
+  for (let i = LOG10_FACTORIALS.length; i <= n; i++) LOG10_FACTORIALS[i] = LOG10_FACTORIALS[i - 1] + Math.log10(i);
+  return LOG10_FACTORIALS[n];
+};
+
+// log10(10^a + 10^b) without overflowing for large exponents.
+const log10Add = (a: number, b: number): number => {
+  const hi = Math.max(a, b);
+  const lo = Math.min(a, b);
+  return hi + Math.log10(1 + Math.pow(10, lo - hi));
+};
+
+// Ways of choosing which of `a + b` characters took the less common form.
+const variations = (a: number, b: number): number => {
+  if (a === 0 || b === 0) return a + b === 0 ? 1 : 2;
+  let sum = 0;
+  for (let k = 1; k <= Math.min(a, b); k++) sum += nCk(a + b, k);
+  return sum;
+};
+
+const uppercaseVariations = (token: string): number => {
+  if (token === token.toLowerCase()) return 1;
+  if (token === token.toUpperCase() || /^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token)) return 2;
+  const upper = (token.match(/[A-Z]/g) ?? []).length;
+  const lower = (token.match(/[a-z]/g) ?? []).length;
+  return variations(upper, lower);
+};
+
+export const charsetSize = (password: string): number => {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+  return size;
+};
+
+// --- Matchers ---
+
+const dictionaryMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  const lower = password.toLowerCase();
+  for (const [name, ranked] of Object.entries(DICTIONARIES) as [Match['dictionary'] & string, Map<string, number>][]) {
+    for (let i = 0; i < lower.length; i++) {
+      for (let j = i + 2; j < Math.min(lower.length, i + MAX_WORD_LENGTH); j++) {
+        const rank = ranked.get(lower.slice(i, j + 1));
+        if (rank === undefined) continue;
+        const token = password.slice(i, j + 1);
+        matches.push({ pattern: 'dictionary', i, j, token, dictionary: name, guesses: rank * uppercaseVariations(token) });
+      }
+    }
+  }
+  return matches;
+};
+
+// Every way of reading the password's l33t characters back as letters,
+// capped so ambiguous symbols like '1' (i or l) can't blow up.
+const l33tSubstitutions = (password: string): Record<string, string>[] => {
+  let subs: Record<string, string>[] = [{}];
+  for (const ch of new Set(password)) {
+    const letters = L33T_TABLE[ch];
+    if (!letters) continue;
+    subs = subs.flatMap(sub => letters.map(letter => ({ ...sub, [ch]: letter }))).slice(0, MAX_L33T_VARIANTS);
+  }
+  return Object.keys(subs[0]).length === 0 ? [] : subs;
+};
+
+const l33tMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  for (const sub of l33tSubstitutions(password)) {
+    const translated = Array.from(password, ch => sub[ch] ?? ch).join('');
+    for (const m of dictionaryMatches(translated)) {
+      const token = password.slice(m.i, m.j + 1);
+      if (token.toLowerCase() === m.token.toLowerCase()) continue; // No substitution inside this word
+      let l33tVariations = 1;
+      for (const [l33tChar, letter] of Object.entries(sub)) {
+        const subbed = token.split(l33tChar).length - 1;
+        if (subbed === 0) continue;
+        const unsubbed = token.toLowerCase().split(letter).length - 1;
+        l33tVariations *= variations(subbed, unsubbed);
+      }
+      matches.push({ ...m, token, l33t: true, guesses: m.guesses * l33tVariations });
+    }
+  }
+  return matches;
+};
+
+const spatialGuesses = (length: number, turns: number, shifted: number): number => {
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += nCk(i - 1, j - 1) * KEYBOARD_STARTING_POSITIONS * Math.pow(KEYBOARD_AVERAGE_DEGREE, j);
+    }
+  }
+  return guesses * (shifted > 0 ? variations(shifted, length - shifted) : 1);
+};
+
+const spatialMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  let i = 0;
+  while (i < password.length - 1) {
+    let j = i + 1;
+    let lastDirection = -1;
+    let turns = 0;
+    let shifted = KEY_POSITIONS.get(password[i])?.shifted ? 1 : 0;
+    while (j < password.length) {
+      const direction = keyboardDirection(password[j - 1], password[j]);
+      if (direction === -1) break;
+      if (direction !== lastDirection) turns++;
+      lastDirection = direction;
+      if (KEY_POSITIONS.get(password[j])?.shifted) shifted++;
+      j++;
+    }
+    if (j - i >= 3) {
+      matches.push({ pattern: 'spatial', i, j: j - 1, token: password.slice(i, j), guesses: spatialGuesses(j - i, turns, shifted) });
+    }
+    i = j;
+  }
+  return matches;
+};
+
+const sequenceGuesses = (token: string, ascending: boolean): number => {
+  const first = token[0];
+  let base: number;
+  if ('aAzZ019'.includes(first)) base = 4; // Obvious starting points
+  else if (/[0-9]/.test(first)) base = 10;
+  else base = 26;
+  return base * token.length * (ascending ? 1 : 2);
+};
+
+const sequenceMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  let i = 0;
+  while (i < password.length - 2) {
+    const delta = password.charCodeAt(i + 1) - password.charCodeAt(i);
+    let j = i + 1;
+    const sameClass = (a: string, b: string) =>
+      (/[a-z]/.test(a) && /[a-z]/.test(b)) || (/[A-Z]/.test(a) && /[A-Z]/.test(b)) || (/[0-9]/.test(a) && /[0-9]/.test(b));
+    while (
+      j < password.length &&
+      delta !== 0 && Math.abs(delta) <= 5 &&
+      password.charCodeAt(j) - password.charCodeAt(j - 1) === delta &&
+      sameClass(password[j - 1], password[j])
+    ) j++;
+    if (j - i >= 3) {
+      const token = password.slice(i, j);
+      matches.push({ pattern: 'sequence', i, j: j - 1, token, guesses: sequenceGuesses(token, delta > 0) });
+      i = j - 1; // The last character can start the next sequence
+    } else {
+      i++;
+    }
+  }
+  return matches;
+};
+
+const repeatMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  const greedy = /(.+)\1+/g;
+  const lazy = /(.+?)\1+/g;
+  const lazyAnchored = /^(.+?)\1+$/;
+  let lastIndex = 0;
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lastIndex;
+    lazy.lastIndex = lastIndex;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+    if (!greedyMatch || !lazyMatch) break;
+
+    // Prefer the longer run ("abcabc" over "aa"), but describe it by its shortest repeating unit
+    const [match, base] = greedyMatch[0].length > lazyMatch[0].length
+      ? [greedyMatch, lazyAnchored.exec(greedyMatch[0])![1]]
+      : [lazyMatch, lazyMatch[1]];
+    const i = match.index;
+    const j = i + match[0].length - 1;
+    const baseGuesses = analyse(base).guesses;
+    matches.push({ pattern: 'repeat', i, j, token: match[0], guesses: baseGuesses * (match[0].length / base.length) });
+    lastIndex = j + 1;
+  }
+  return matches;
+};
+
+// --- Search ---
+
+// Matches that don't cover the whole password are floored so that a pile of
+// tiny matches can't add up to an implausibly low estimate.
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+
+const matchLog10Guesses = (m: Match, passwordLength: number, cardinality: number): number => {
+  // Computed in log space: long bruteforce runs overflow a double
+  const log10Guesses = m.pattern === 'bruteforce'
+    ? m.token.length * Math.log10(cardinality)
+    : Math.log10(Math.max(m.guesses, 1));
+  if (m.token.length === passwordLength) return log10Guesses;
+  const floor = m.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+  return Math.max(log10Guesses, Math.log10(floor));
+};
+
+interface SearchState {
+  log10Pi: number; // log10 of the product of match guesses
+  log10G: number; // log10 of the total guesses for this many matches
+  match: Match;
+  prevCount: number;
+}
+
+// Dynamic programming over (end index, number of matches) for the sequence
+// that minimises l! * product(guesses) + 10000^(l - 1), as zxcvbn does.
+const mostGuessableSequence = (password: string, matches: Match[]): { log10Guesses: number; sequence: Match[] } => {
+  const n = password.length;
+  const cardinality = charsetSize(password);
+  const optimal: Map<number, SearchState>[] = Array.from({ length: n }, () => new Map());
+  const byEnd: Match[][] = Array.from({ length: n }, () => []);
+  matches.forEach(m => byEnd[m.j].push(m));
+
+  const update = (m: Match, count: number, prevLog10Pi: number) => {
+    const log10Pi = prevLog10Pi + matchLog10Guesses(m, n, cardinality);
+    const log10G = log10Add(log10Factorial(count) + log10Pi, (count - 1) * Math.log10(MIN_GUESSES_BEFORE_GROWING_SEQUENCE));
+    const existing = optimal[m.j].get(count);
+    if (!existing || log10G < existing.log10G) {
+      optimal[m.j].set(count, { log10Pi, log10G, match: m, prevCount: count - 1 });
+    }
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const m of byEnd[k]) {
+      if (m.i === 0) update(m, 1, 0);
+      else optimal[m.i - 1].forEach((state, count) => update(m, count + 1, state.log10Pi));
+    }
+    for (let i = 0; i <= k; i++) {
+      const token = password.slice(i, k + 1);
+      const bruteforce: Match = { pattern: 'bruteforce', i, j: k, token, guesses: Math.pow(cardinality, token.length) };
+      if (i === 0) {
+        update(bruteforce, 1, 0);
+        continue;
+      }
+      // Never follow one bruteforce run with another; extending the first is always cheaper
+      optimal[i - 1].forEach((state, count) => {
+        if (state.match.pattern !== 'bruteforce') update(bruteforce, count + 1, state.log10Pi);
+      });
+    }
+  }
+
+  let bestCount = 0;
+  let best: SearchState | undefined;
+  optimal[n - 1].forEach((state, count) => {
+    if (!best || state.log10G < best.log10G) {
+      best = state;
+      bestCount = count;
+    }
+  });
+
+  const sequence: Match[] = [];
+  let k = n - 1;
+  let count = bestCount;
+  while (k >= 0 && count > 0) {
+    const state = optimal[k].get(count)!;
+    sequence.unshift(state.match);
+    k = state.match.i - 1;
+    count = state.prevCount;
+  }
+  return { log10Guesses: best ? best.log10G : 0, sequence };
+};
+
+const analyse = (password: string): { guesses: number; log10Guesses: number; sequence: Match[] } => {
+  if (password.length === 0) return { guesses: 1, log10Guesses: 0, sequence: [] };
+  const matches = [
+    ...dictionaryMatches(password),
+    ...l33tMatches(password),
+    ...spatialMatches(password),
+    ...sequenceMatches(password),
+    ...repeatMatches(password),
+  ];
+  const { log10Guesses, sequence } = mostGuessableSequence(password, matches);
+  return { guesses: Math.pow(10, log10Guesses), log10Guesses, sequence };
+};
+
+// --- Reporting ---
+
+const scoreFromLog10Guesses = (log10Guesses: number): StrengthScore => {
+  if (log10Guesses < 3) return 0;
+  if (log10Guesses < 6) return 1;
+  if (log10Guesses < 8) return 2;
+  if (log10Guesses < 10) return 3;
+  return 4;
+};
+
+export const formatCrackTime = (seconds: number): string => {
+  const units: [MessageKey, number][] = [
+    ['strength.time.century', 100 * 365.25 * 86400],
+    ['strength.time.year', 365.25 * 86400],
+    ['strength.time.month', 30.44 * 86400],
+    ['strength.time.day', 86400],
+    ['strength.time.hour', 3600],
+    ['strength.time.minute', 60],
+    ['strength.time.second', 1],
+  ];
+  if (seconds < 1) return localize('strength.time.instant');
+  if (seconds >= 100 * units[0][1]) return localize('strength.time.centuries');
+  for (const [unit, size] of units) {
+    if (seconds >= size) return localize(unit, { count: Math.round(seconds / size) });
+  }
+  return localize('strength.time.instant');
+};
+
+const WARNINGS: Partial<Record<MatchPattern, MessageKey>> = {
+  spatial: 'strength.warning.spatial',
+  repeat: 'strength.warning.repeat',
+  sequence: 'strength.warning.sequence',
+};
+
+const matchWarning = (m: Match, isWholePassword: boolean): MessageKey | undefined => {
+  if (m.pattern !== 'dictionary') return WARNINGS[m.pattern];
+  if (m.l33t) return 'strength.warning.l33t';
+  if (m.dictionary === 'passwords') {
+    return isWholePassword ? 'strength.warning.commonPassword' : 'strength.warning.containsCommon';
+  }
+  return 'strength.warning.dictionary';
+};
+
+export const estimateStrength = (password: string): StrengthResult => {
+  const { guesses, log10Guesses, sequence } = analyse(password);
+  const crackTimes = ATTACKER_MODELS.map(model => {
+    const seconds = guesses / model.guessesPerSecond;
+    return { model, seconds };
+  });
+  const warnings = Array.from(new Set(
+    sequence
+      .map(m => matchWarning(m, m.token.length === password.length))
+      .filter((w): w is MessageKey => w !== undefined)
+  ));
+  if (password.length > 0 && password.length < 8) warnings.unshift('strength.warning.short');
+
+  return {
+    score: scoreFromLog10Guesses(log10Guesses),
+    guesses,
+    guessesLog10: log10Guesses,
+    entropyBits: log10Guesses * Math.log2(10),
+    charsetEntropyBits: password.length * Math.log2(Math.max(charsetSize(password), 1)),
+    sequence,
+    crackTimes,
+    warnings,
+  };
+};
@@ -1,10 +1,25 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error("Supabase URL and Anon Key must be provided in .env file");
+// Without a Supabase project the app runs as a local-only generator: no
+// accounts, no vault. Nothing may touch `supabase` in that mode.
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+if (!isSupabaseConfigured) {
+  console.warn("Supabase URL and Anon Key are not set in .env; running in local-only generator mode.")
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Stands in for the client in local-only mode, so code that forgets to check
+// `isSupabaseConfigured` fails with the reason instead of a null dereference.
+const unconfiguredClient = new Proxy({} as SupabaseClient<Database>, {
+  get: (_target, property) => {
+    throw new Error(`Supabase is not configured (set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY); can't use supabase.${String(property)}.`)
+  },
+})
+
+export const supabase: SupabaseClient<Database> = isSupabaseConfigured
+  ? createClient<Database>(supabaseUrl!, supabaseAnonKey!)
+  : unconfiguredClient
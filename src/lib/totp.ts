@@ -0,0 +1,149 @@
+// Time-based one-time passwords (RFC 6238) for entries that also need a 2FA
+// code. An entry stores its authenticator key as an `otpauth://totp/` URI,
+// encrypted like the password; codes are computed here with WebCrypto.
+
+import { localize } from './i18n';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export const TOTP_ALGORITHMS: TotpAlgorithm[] = ['SHA1', 'SHA256', 'SHA512'];
+export const TOTP_DIGITS = [6, 8] as const;
+
+export interface TotpConfig {
+  secret: string; // Base32, upper-case, without padding
+  algorithm: TotpAlgorithm;
+  digits: typeof TOTP_DIGITS[number];
+  period: number; // Seconds each code is valid for
+  issuer: string;
+  account: string;
+}
+
+export const DEFAULT_TOTP_PERIOD = 30;
+export const MIN_TOTP_PERIOD = 5;
+export const MAX_TOTP_PERIOD = 300;
+
+const HASHES: Record<TotpAlgorithm, string> = { SHA1: 'SHA-1', SHA256: 'SHA-256', SHA512: 'SHA-512' };
+
+// --- Base32 (RFC 4648) ---
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Spaces, dashes and padding are ignored, as authenticator apps do.
+const normaliseSecret = (secret: string): string => secret.replace(/[\s=-]/g, '').toUpperCase();
+
+const base32Decode = (secret: string): Uint8Array => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of secret) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error(localize('totp.error.base32'));
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// --- Parsing ---
+
+const validate = (config: TotpConfig): TotpConfig => {
+  if (!config.secret) throw new Error(localize('totp.error.missing'));
+  if (base32Decode(config.secret).length < 10) throw new Error(localize('totp.error.short'));
+  if (!Number.isInteger(config.period) || config.period < MIN_TOTP_PERIOD || config.period > MAX_TOTP_PERIOD) {
+    throw new Error(localize('totp.error.period', { min: MIN_TOTP_PERIOD, max: MAX_TOTP_PERIOD }));
+  }
+  return config;
+};
+
+// Accepts an `otpauth://totp/...` URI (pasted or read from a QR code), or a
+// bare base32 key with the usual defaults. Throws an Error fit to show the user.
+export const parseTotp = (input: string): TotpConfig => {
+  const trimmed = input.trim();
+  if (!/^otpauth:/i.test(trimmed)) {
+    return validate({
+      secret: normaliseSecret(trimmed),
+      algorithm: 'SHA1',
+      digits: 6,
+      period: DEFAULT_TOTP_PERIOD,
+      issuer: '',
+      account: '',
+    });
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error(localize('totp.error.malformed'));
+  }
+  // Hosts are lower-cased by URL; HOTP (counter-based) codes aren't supported
+  if (url.host !== 'totp') throw new Error(localize('totp.error.notTotp'));
+
+  const params = url.searchParams;
+  const label = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  const [labelIssuer, labelAccount] = label.includes(':') ? label.split(/:(.*)/s) : ['', label];
+  const algorithm = (params.get('algorithm') ?? 'SHA1').toUpperCase().replace('-', '');
+  const digits = Number(params.get('digits') ?? 6);
+  const period = Number(params.get('period') ?? DEFAULT_TOTP_PERIOD);
+
+  if (!TOTP_ALGORITHMS.includes(algorithm as TotpAlgorithm)) throw new Error(localize('totp.error.algorithm', { algorithm }));
+  if (!(TOTP_DIGITS as readonly number[]).includes(digits)) throw new Error(localize('totp.error.digits'));
+
+  return validate({
+    secret: normaliseSecret(params.get('secret') ?? ''),
+    algorithm: algorithm as TotpAlgorithm,
+    digits: digits as TotpConfig['digits'],
+    period,
+    issuer: params.get('issuer') ?? labelIssuer.trim(),
+    account: labelAccount.trim(),
+  });
+};
+
+// The canonical URI stored on the entry.
+export const toOtpAuthUri = (config: TotpConfig): string => {
+  const label = [config.issuer, config.account].filter(Boolean).map(encodeURIComponent).join(':');
+  const params = new URLSearchParams({
+    secret: config.secret,
+    algorithm: config.algorithm,
+    digits: String(config.digits),
+    period: String(config.period),
+  });
+  if (config.issuer) params.set('issuer', config.issuer);
+  return `otpauth://totp/${label}?${params}`;
+};
+
+// --- Codes ---
+
+// The code for the period containing `now` (ms since the epoch).
+export const generateTotp = async (config: TotpConfig, now = Date.now()): Promise<string> => {
+  const counter = Math.floor(now / 1000 / config.period);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(config.secret),
+    { name: 'HMAC', hash: HASHES[config.algorithm] },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226, section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+  return String(binary % 10 ** config.digits).padStart(config.digits, '0');
+};
+
+// Whole seconds until the current code expires.
+export const secondsRemaining = (config: TotpConfig, now = Date.now()): number =>
+  config.period - (Math.floor(now / 1000) % config.period);
@@ -0,0 +1,25 @@
+import { localize } from './i18n';
+
+// A row of the `user_settings` table, minus the key and timestamp.
+export interface UserSettings {
+  auto_lock_minutes: number; // 0 = never
+  lock_when_hidden: boolean;
+  sign_out_minutes: number; // 0 = never
+  locale: string | null; // Interface language; null = the browser's
+}
+
+// Matches the column defaults, for users who haven't saved settings yet.
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  auto_lock_minutes: 5,
+  lock_when_hidden: true,
+  sign_out_minutes: 0,
+  locale: null,
+};
+
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60]; // Minutes
+export const SIGN_OUT_OPTIONS = [0, 15, 30, 60, 240, 480]; // Minutes
+
+export const formatMinutes = (minutes: number): string =>
+  minutes === 0
+    ? localize('duration.never')
+    : minutes < 60 ? localize('duration.minutes', { minutes }) : localize('duration.hours', { hours: minutes / 60 });
@@ -0,0 +1,243 @@
+import {
+  VAULT_ENCRYPTION_VERSION,
+  createKdfParams,
+  decryptSecret,
+  deriveVaultKey,
+  encryptSecret,
+  kdfParamsId,
+  type KdfParams,
+  type VaultKeyring,
+} from './vaultCrypto';
+import type { GenerationMode } from './generator';
+import { estimateStrength, type StrengthScore } from './strength';
+import { localize } from './i18n';
+
+// Columns holding a stored secret. Encrypted rows carry `ciphertext` + `iv` +
+// KDF params and leave `password_text` null; rows saved before encryption was
+// introduced still have `password_text` set.
+export interface SecretColumns {
+  password_text: string | null;
+  ciphertext: string | null;
+  iv: string | null;
+  kdf_algorithm: string | null;
+  kdf_salt: string | null;
+  kdf_iterations: number | null;
+  encryption_version: number | null;
+}
+
+// Where an entry's password came from: one of the generator modes, or typed in.
+export type PasswordSource = GenerationMode | 'manual';
+
+// A row of the `passwords` table. `notes` and the authenticator key (`totp`, an
+// otpauth:// URI) are encrypted under the same key and KDF params as the
+// password; username, URL, tags and folder stay plaintext so
+// they can be searched and matched server-side.
+export interface SavedPassword extends SecretColumns {
+  id: string;
+  label: string | null;
+  username: string | null;
+  url: string | null;
+  notes_ciphertext: string | null;
+  notes_iv: string | null;
+  totp_ciphertext: string | null;
+  totp_iv: string | null;
+  tags: string[];
+  folder: string | null;
+  collection_id: string | null; // Set for entries in a shared collection
+  generation_mode: PasswordSource | null; // null for rows saved before modes were tracked
+  strength_score: StrengthScore | null; // Estimated client-side when saved
+  created_at: string;
+  updated_at: string | null; // Set whenever the row is edited
+  password_changed_at: string; // Set when the secret itself is replaced
+}
+
+// A row of the `password_history` table: a previous value of an entry's
+// secret, archived by a database trigger when the entry was updated. Only
+// encrypted values are archived, so `password_text` is always null here.
+export interface PasswordHistoryEntry extends SecretColumns {
+  id: string;
+  password_id: string;
+  generation_mode: PasswordSource | null;
+  strength_score: StrengthScore | null;
+  replaced_at: string;
+}
+
+// The columns written for a newly encrypted secret.
+export interface EncryptedPasswordColumns {
+  ciphertext: string;
+  iv: string;
+  kdf_algorithm: string;
+  kdf_salt: string;
+  kdf_iterations: number;
+  encryption_version: number;
+}
+
+export const isEncrypted = (p: SecretColumns): boolean => p.ciphertext !== null;
+
+const rowKdfParams = (p: SecretColumns): KdfParams | null =>
+  p.kdf_algorithm && p.kdf_salt && p.kdf_iterations
+    ? { algorithm: p.kdf_algorithm, salt: p.kdf_salt, iterations: p.kdf_iterations }
+    : null;
+
+// Derives a key for every distinct KDF parameter set found in `rows` and checks
+// it against one row of that set, so a wrong passphrase is rejected up front.
+// With no encrypted rows yet, a fresh salt is generated and the passphrase
+// becomes the vault's master passphrase.
+export const unlockVault = async (passphrase: string, rows: SecretColumns[]): Promise<VaultKeyring> => {
+  const keys = new Map<string, CryptoKey>();
+  let active: KdfParams | null = null;
+
+  // Rows arrive newest-first, so the first param set seen is the active one.
+  for (const row of rows) {
+    const params = rowKdfParams(row);
+    if (!isEncrypted(row) || !params) continue;
+    const id = kdfParamsId(params);
+    if (keys.has(id)) continue;
+
+    const key = await deriveVaultKey(passphrase, params);
+    try {
+      await decryptSecret(key, { ciphertext: row.ciphertext!, iv: row.iv! });
+    } catch {
+      if (active === null) throw new Error(localize('vault.error.passphrase'));
+      continue; // Older rows under a different passphrase stay locked
+    }
+    keys.set(id, key);
+    active ??= params;
+  }
+
+  if (active === null) {
+    active = createKdfParams();
+    keys.set(kdfParamsId(active), await deriveVaultKey(passphrase, active));
+  }
+  return { active, keys };
+};
+
+export const encryptPassword = async (keyring: VaultKeyring, plaintext: string): Promise<EncryptedPasswordColumns> => {
+  const key = keyring.keys.get(kdfParamsId(keyring.active))!;
+  const { ciphertext, iv } = await encryptSecret(key, plaintext);
+  return {
+    ciphertext,
+    iv,
+    kdf_algorithm: keyring.active.algorithm,
+    kdf_salt: keyring.active.salt,
+    kdf_iterations: keyring.active.iterations,
+    encryption_version: VAULT_ENCRYPTION_VERSION,
+  };
+};
+
+const rowKey = (keyring: VaultKeyring, p: SecretColumns): CryptoKey => {
+  const params = rowKdfParams(p);
+  const key = params && keyring.keys.get(kdfParamsId(params));
+  if (!key) throw new Error(localize('vault.error.otherPassphrase'));
+  if (p.encryption_version !== VAULT_ENCRYPTION_VERSION) {
+    throw new Error(localize('vault.error.version', { version: String(p.encryption_version) }));
+  }
+  return key;
+};
+
+export const decryptPassword = async (keyring: VaultKeyring, p: SecretColumns): Promise<string> => {
+  if (!isEncrypted(p)) return p.password_text ?? '';
+  if (!p.iv) throw new Error(localize('vault.error.iv'));
+  return decryptSecret(rowKey(keyring, p), { ciphertext: p.ciphertext!, iv: p.iv });
+};
+
+// Columns that replace an entry's secret; the old value is archived by the
+// `archive_password_history` trigger. Rows saved before encryption may still
+// hold plaintext, which this clears.
+export const passwordChangeColumns = async (keyring: VaultKeyring, plaintext: string, source: PasswordSource | null) => ({
+  ...(await encryptPassword(keyring, plaintext)),
+  password_text: null,
+  generation_mode: source,
+  strength_score: estimateStrength(plaintext).score,
+});
+
+// Whether the row's secret is encrypted under the keyring's active params.
+// Notes can only be (re-)encrypted on rows where this holds.
+export const isUnderActiveKey = (keyring: VaultKeyring, p: SecretColumns): boolean => {
+  const params = rowKdfParams(p);
+  return isEncrypted(p) && params !== null && kdfParamsId(params) === kdfParamsId(keyring.active);
+};
+
+export const encryptNotes = async (
+  keyring: VaultKeyring,
+  notes: string
+): Promise<{ notes_ciphertext: string | null; notes_iv: string | null }> => {
+  if (!notes) return { notes_ciphertext: null, notes_iv: null };
+  const { ciphertext, iv } = await encryptSecret(keyring.keys.get(kdfParamsId(keyring.active))!, notes);
+  return { notes_ciphertext: ciphertext, notes_iv: iv };
+};
+
+export const decryptNotes = async (keyring: VaultKeyring, p: SavedPassword): Promise<string> => {
+  if (!p.notes_ciphertext || !p.notes_iv) return '';
+  return decryptSecret(rowKey(keyring, p), { ciphertext: p.notes_ciphertext, iv: p.notes_iv });
+};
+
+// The authenticator key is handled exactly like the notes.
+export const encryptTotp = async (
+  keyring: VaultKeyring,
+  uri: string
+): Promise<{ totp_ciphertext: string | null; totp_iv: string | null }> => {
+  if (!uri) return { totp_ciphertext: null, totp_iv: null };
+  const { ciphertext, iv } = await encryptSecret(keyring.keys.get(kdfParamsId(keyring.active))!, uri);
+  return { totp_ciphertext: ciphertext, totp_iv: iv };
+};
+
+export const decryptTotp = async (keyring: VaultKeyring, p: SavedPassword): Promise<string> => {
+  if (!p.totp_ciphertext || !p.totp_iv) return '';
+  return decryptSecret(rowKey(keyring, p), { ciphertext: p.totp_ciphertext, iv: p.totp_iv });
+};
+
+// What the entry form collects besides the password.
+export interface EntryDetails {
+  label: string;
+  username: string;
+  url: string;
+  notes: string;
+  totp: string; // otpauth:// URI, or '' for none
+  tags: string[];
+  folder: string;
+}
+
+// Columns shared by create and edit; notes and the authenticator key are
+// encrypted like the password.
+export const entryDetailColumns = async (keyring: VaultKeyring, details: EntryDetails) => ({
+  label: details.label || null,
+  username: details.username || null,
+  url: details.url || null,
+  tags: details.tags,
+  folder: details.folder || null,
+  ...(await encryptNotes(keyring, details.notes)),
+  ...(await encryptTotp(keyring, details.totp)),
+});
+
+// A new entry: its password, where that came from, and the details.
+export interface NewEntry extends EntryDetails {
+  password: string;
+  source: PasswordSource;
+}
+
+// What the entry form hands back, for a new entry or an edit.
+export interface EntryDraft extends EntryDetails {
+  password: string | null; // null keeps the current password (edit only)
+  source: PasswordSource; // Where `password` came from
+}
+
+// The `passwords` row for a new entry, and its encrypted password columns on
+// their own. The id is made client-side, so an entry created offline keeps it
+// when synced.
+export const newEntryRow = async (keyring: VaultKeyring, userId: string, entry: NewEntry) => {
+  const secret = await encryptPassword(keyring, entry.password);
+  const row = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    ...secret,
+    ...(await entryDetailColumns(keyring, entry)),
+    generation_mode: entry.source,
+    strength_score: estimateStrength(entry.password).score,
+  };
+  return { row, secret };
+};
+
+// Splits a comma-separated tag input into trimmed, de-duplicated tags.
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
@@ -0,0 +1,137 @@
+import { useCallback, useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import { decryptPassword } from './vault';
+import type { VaultKeyring } from './vaultCrypto';
+import { useOperations, type Operations } from './operations';
+import { estimateStrength } from './strength';
+import { auditPasswords } from './breach';
+import { localize } from './i18n';
+import { DEFAULT_HEALTH_OPTIONS, analyseVault, type HealthEntry, type HealthOptions, type VaultHealthReport } from './vaultHealth';
+import { fetchAllEntries, type VaultScope } from './passwordRepository';
+
+// The breach audit and the security report. Both decrypt every saved
+// password, not just the loaded page.
+export interface VaultAudit {
+  breachCounts: Record<string, number>; // From the last audit, by entry id
+  progress: { done: number; total: number } | null; // While an audit runs
+  summary: string | null;
+  runBreachAudit: () => Promise<void>;
+  // Audit results describe the old secret once an entry's password changes
+  forget: (id: string) => void;
+  report: VaultHealthReport | null; // null until loaded
+  skipped: number; // Entries the report couldn't decrypt
+  options: HealthOptions;
+  setOptions: Dispatch<SetStateAction<HealthOptions>>;
+  loadReport: () => Promise<boolean>; // Whether it loaded
+  clearReport: () => void;
+  // Keeps an open report current after an entry's password is replaced
+  updateReportEntry: (id: string, password: string) => void;
+  // Failures under 'audit' and 'report'
+  operations: Operations;
+}
+
+export const useVaultAudit = (scope: VaultScope, keyring: VaultKeyring): VaultAudit => {
+  const operations = useOperations();
+  const { run } = operations;
+
+  const [breachCounts, setBreachCounts] = useState<Record<string, number>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [healthEntries, setHealthEntries] = useState<HealthEntry[] | null>(null);
+  const [skipped, setSkipped] = useState<number>(0);
+  const [options, setOptions] = useState<HealthOptions>(DEFAULT_HEALTH_OPTIONS);
+
+  const forget = useCallback((id: string) => {
+    setBreachCounts(prev => {
+      if (!(id in prev)) return prev;
+      const newState = {...prev};
+      delete newState[id];
+      return newState;
+    });
+  }, []);
+
+  const runBreachAudit = useCallback(async () => {
+    setSummary(null);
+    setProgress({ done: 0, total: 0 });
+    await run('audit', async () => {
+      const rows = await fetchAllEntries(scope);
+      const items: { id: string; password: string }[] = [];
+      let undecryptable = 0;
+      for (const p of rows) {
+        try {
+          items.push({ id: p.id, password: await decryptPassword(keyring, p) });
+        } catch {
+          undecryptable++;
+        }
+      }
+      const result = await auditPasswords(items, (done, total) => setProgress({ done, total }));
+      setBreachCounts(result.counts);
+      const breached = Object.values(result.counts).filter(count => count > 0).length;
+      setSummary([
+        localize('vault.auditSummary', { breached, total: items.length }),
+        result.failed.length > 0 && localize('vault.auditUnchecked', { failed: result.failed.length }),
+        undecryptable > 0 && localize('vault.auditLocked', { locked: undecryptable }),
+      ].filter(Boolean).join(' '));
+    }, 'Breach audit failed. Please try again.');
+    setProgress(null);
+  }, [run, scope, keyring]);
+
+  // Decrypts every entry once; the plaintext stays in memory until `clearReport`.
+  const loadReport = useCallback(async () => {
+    setHealthEntries(null);
+    const loaded = await run('report', async () => {
+      const rows = await fetchAllEntries(scope);
+      const entries: HealthEntry[] = [];
+      for (const p of rows) {
+        try {
+          const plaintext = await decryptPassword(keyring, p);
+          entries.push({
+            id: p.id,
+            label: p.label,
+            password: plaintext,
+            strengthScore: estimateStrength(plaintext).score,
+            passwordSetAt: p.password_changed_at ?? p.created_at,
+          });
+        } catch {
+          // Counted as skipped below
+        }
+      }
+      setSkipped(rows.length - entries.length);
+      setHealthEntries(entries);
+      return true;
+    }, localize('report.loadFailed'));
+    return loaded === true;
+  }, [run, scope, keyring]);
+
+  const clearReport = useCallback(() => setHealthEntries(null), []);
+
+  const updateReportEntry = useCallback((id: string, password: string) => {
+    forget(id);
+    setHealthEntries(prev => prev && prev.map(e => e.id === id
+      ? { ...e, password, strengthScore: estimateStrength(password).score, passwordSetAt: new Date().toISOString() }
+      : e));
+  }, [forget]);
+
+  const report = useMemo(
+    () => healthEntries && analyseVault(
+      healthEntries.map(e => ({ ...e, breachCount: breachCounts[e.id] })),
+      options
+    ),
+    [healthEntries, breachCounts, options]
+  );
+
+  return {
+    breachCounts,
+    progress,
+    summary,
+    runBreachAudit,
+    forget,
+    report,
+    skipped,
+    options,
+    setOptions,
+    loadReport,
+    clearReport,
+    updateReportEntry,
+    operations,
+  };
+};
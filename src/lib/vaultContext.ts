@@ -0,0 +1,49 @@
+import { createContext, useContext } from 'react';
+import type { User } from '@supabase/supabase-js';
+import type { NewEntry, SavedPassword, SecretColumns } from './vault';
+import type { VaultKeyring } from './vaultCrypto';
+import type { UserSettings } from './userSettings';
+import type { MemberIdentity, Membership } from './collections';
+
+export interface VaultState {
+  user: User | null; // The signed-in user, see `useSignedInUser`
+  settings: UserSettings;
+  saveSettings: (settings: UserSettings) => Promise<void>;
+
+  // The keyring only ever lives in memory; null while locked
+  keyring: VaultKeyring | null;
+  // One encrypted row per KDF param set; null until loaded
+  kdfSamples: SecretColumns[] | null;
+  unlock: (passphrase: string) => Promise<void>;
+  // `notice` explains an automatic lock. Locking because the tab was hidden
+  // keeps the clipboard, so a password copied to paste elsewhere survives.
+  lock: (options?: { notice?: string; keepClipboard?: boolean }) => void;
+  lockNotice: string | null;
+  refreshKdfSamples: () => Promise<void>;
+
+  online: boolean;
+  pendingChanges: number; // Offline changes not yet synced
+  syncNotice: string | null;
+  revision: number; // Bumped when entries were added or synced, so lists reload
+  scheduleCacheSync: () => void;
+
+  // Creating works offline too (it's queued); so does deleting.
+  createEntry: (entry: NewEntry) => Promise<void>;
+  queueOfflineDelete: (entry: SavedPassword) => Promise<void>;
+
+  // Shared collections need a connection and an unlocked vault: the identity
+  // (the user's key pair) is null otherwise, or while it's being loaded.
+  identity: MemberIdentity | null;
+  sharingError: string | null;
+  memberships: Membership[];
+  reloadMemberships: () => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export const VaultContext = createContext<VaultState | null>(null);
+
+export const useVault = (): VaultState => {
+  const vault = useContext(VaultContext);
+  if (!vault) throw new Error('useVault must be used inside a VaultProvider.');
+  return vault;
+};
@@ -0,0 +1,158 @@
+// Client-side vault encryption.
+//
+// Secrets are encrypted in the browser with AES-GCM under a key derived from the
+// user's master passphrase (PBKDF2-SHA-256). Only ciphertext, IV and the KDF
+// parameters ever reach Supabase; the derived key never leaves memory.
+
+export const VAULT_ENCRYPTION_VERSION = 1;
+export const KDF_ALGORITHM = 'PBKDF2-SHA256';
+export const DEFAULT_KDF_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface KdfParams {
+  algorithm: string;
+  salt: string; // base64
+  iterations: number;
+}
+
+export interface EncryptedSecret {
+  ciphertext: string; // base64
+  iv: string; // base64
+}
+
+// The set of keys unlocked for this session, indexed by `kdfParamsId`.
+// `active` is used for new entries; the others only decrypt older rows.
+export interface VaultKeyring {
+  active: KdfParams;
+  keys: Map<string, CryptoKey>;
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const kdfParamsId = (params: KdfParams): string =>
+  `${params.algorithm}:${params.iterations}:${params.salt}`;
+
+export const createKdfParams = (): KdfParams => ({
+  algorithm: KDF_ALGORITHM,
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+  iterations: DEFAULT_KDF_ITERATIONS,
+});
+
+export const deriveVaultKey = async (passphrase: string, params: KdfParams): Promise<CryptoKey> => {
+  if (params.algorithm !== KDF_ALGORITHM) {
+    throw new Error(`Unsupported key derivation algorithm: ${params.algorithm}`);
+  }
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(params.salt), iterations: params.iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false, // Non-extractable: the raw key can't be read back out of WebCrypto
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (key: CryptoKey, plaintext: string): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+};
+
+// Throws if the key is wrong or the ciphertext was tampered with (GCM tag mismatch).
+export const decryptSecret = async (key: CryptoKey, secret: EncryptedSecret): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+    key,
+    fromBase64(secret.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+};
+
+// --- Shared collections ---
+//
+// Each collection has a random AES-GCM key. Members get it wrapped with their
+// RSA-OAEP public key; their private key is stored encrypted under their
+// vault key. Entries in a collection record the collection key in their KDF
+// columns (see `collectionKeyParams`), so a keyring holding it decrypts them
+// like any other row. The key is replaced when a member is removed; its
+// version tells the keys apart.
+
+export const COLLECTION_KEY_ALGORITHM = 'COLLECTION-AES256';
+
+const MEMBER_KEY_ALGORITHM: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 3072,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+export interface MemberKeyPair {
+  publicKey: string; // base64 SPKI
+  privateKey: string; // base64 PKCS#8; only ever stored encrypted
+}
+
+export const generateMemberKeyPair = async (): Promise<MemberKeyPair> => {
+  const pair = await crypto.subtle.generateKey(MEMBER_KEY_ALGORITHM, true, ['wrapKey', 'unwrapKey']);
+  return {
+    publicKey: toBase64(new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey))),
+    privateKey: toBase64(new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey))),
+  };
+};
+
+export const importMemberPrivateKey = (privateKey: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('pkcs8', fromBase64(privateKey), MEMBER_KEY_ALGORITHM, false, ['unwrapKey']);
+
+// Extractable, so owners can wrap it again for new members.
+export const createCollectionKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+export const wrapCollectionKey = async (key: CryptoKey, publicKey: string): Promise<string> => {
+  const wrappingKey = await crypto.subtle.importKey('spki', fromBase64(publicKey), MEMBER_KEY_ALGORITHM, false, ['wrapKey']);
+  return toBase64(new Uint8Array(await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'RSA-OAEP' })));
+};
+
+export const unwrapCollectionKey = (wrapped: string, privateKey: CryptoKey): Promise<CryptoKey> =>
+  crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped),
+    privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+
+export const collectionKeyParams = (collectionId: string, keyVersion: number): KdfParams => ({
+  algorithm: COLLECTION_KEY_ALGORITHM,
+  salt: collectionId,
+  iterations: keyVersion,
+});
+
+// A keyring whose only key is the collection's, for its entries.
+export const collectionKeyring = (collectionId: string, keyVersion: number, key: CryptoKey): VaultKeyring => {
+  const active = collectionKeyParams(collectionId, keyVersion);
+  return { active, keys: new Map([[kdfParamsId(active), key]]) };
+};
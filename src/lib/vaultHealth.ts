@@ -0,0 +1,92 @@
+import type { StrengthScore } from './strength';
+
+// A decrypted entry as the security report sees it. Plaintext only ever
+// exists in memory while the report is open.
+export interface HealthEntry {
+  id: string;
+  label: string | null;
+  password: string;
+  strengthScore: StrengthScore;
+  passwordSetAt: string; // When the current password was saved or last replaced
+  breachCount?: number; // Undefined until a breach audit has covered the entry
+}
+
+export interface HealthOptions {
+  minStrength: StrengthScore; // Entries scoring below this are weak
+  maxAgeDays: number; // Passwords older than this should be rotated
+}
+
+export const DEFAULT_HEALTH_OPTIONS: HealthOptions = {
+  minStrength: 3,
+  maxAgeDays: 365,
+};
+
+export type HealthIssue = 'breached' | 'reused' | 'weak' | 'old';
+
+// How much each issue costs an entry (out of 1). An entry's penalties add up,
+// capped at 1; the vault score is the average of what's left.
+const ISSUE_PENALTIES: Record<HealthIssue, number> = {
+  breached: 1,
+  reused: 0.5,
+  weak: 0.5,
+  old: 0.25,
+};
+
+export interface VaultHealthReport {
+  total: number;
+  score: number; // 0-100; an empty vault scores 100
+  reused: HealthEntry[][]; // Groups of entries sharing a password
+  weak: HealthEntry[];
+  old: HealthEntry[];
+  breached: HealthEntry[];
+  breachChecked: boolean; // Whether any entry has a breach result
+  issues: Record<string, HealthIssue[]>; // Entry id -> its issues
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const passwordAgeDays = (entry: HealthEntry, now: Date = new Date()): number =>
+  Math.floor((now.getTime() - new Date(entry.passwordSetAt).getTime()) / DAY_MS);
+
+export const analyseVault = (
+  entries: HealthEntry[],
+  options: HealthOptions = DEFAULT_HEALTH_OPTIONS,
+  now: Date = new Date()
+): VaultHealthReport => {
+  const byPassword = new Map<string, HealthEntry[]>();
+  entries.forEach(e => byPassword.set(e.password, [...(byPassword.get(e.password) ?? []), e]));
+  const reused = Array.from(byPassword.values()).filter(group => group.length > 1);
+  const reusedIds = new Set(reused.flat().map(e => e.id));
+
+  const weak = entries.filter(e => e.strengthScore < options.minStrength);
+  const old = entries.filter(e => passwordAgeDays(e, now) > options.maxAgeDays);
+  const breached = entries.filter(e => (e.breachCount ?? 0) > 0);
+
+  const issues: Record<string, HealthIssue[]> = {};
+  entries.forEach(e => {
+    issues[e.id] = [
+      breached.includes(e) && 'breached',
+      reusedIds.has(e.id) && 'reused',
+      weak.includes(e) && 'weak',
+      old.includes(e) && 'old',
+    ].filter((issue): issue is HealthIssue => issue !== false);
+  });
+
+  const health = entries.map(e =>
+    1 - Math.min(1, issues[e.id].reduce((sum, issue) => sum + ISSUE_PENALTIES[issue], 0))
+  );
+  const score = entries.length === 0
+    ? 100
+    : Math.round((100 * health.reduce((a, b) => a + b, 0)) / entries.length);
+
+  return {
+    total: entries.length,
+    score,
+    reused,
+    weak,
+    old,
+    breached,
+    breachChecked: entries.some(e => e.breachCount !== undefined),
+    issues,
+  };
+};
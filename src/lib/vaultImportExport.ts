@@ -0,0 +1,88 @@
+import { useCallback } from 'react';
+import { decryptNotes, decryptPassword, decryptTotp, encryptPassword, entryDetailColumns } from './vault';
+import type { VaultKeyring } from './vaultCrypto';
+import { estimateStrength } from './strength';
+import { localize } from './i18n';
+import { RepositoryError, fetchAllEntries, fetchEntryIdentities, insertEntries, type VaultScope } from './passwordRepository';
+import type { EntryIdentity, ImportItem, ImportReport, PlainEntry } from './vaultTransfer';
+
+// Rows per insert when importing
+const IMPORT_BATCH_SIZE = 50;
+
+export interface VaultImportExport {
+  // Decrypts the whole vault for export; refuses to produce a partial file.
+  loadPlainEntries: () => Promise<PlainEntry[]>;
+  loadExisting: () => Promise<EntryIdentity[]>;
+  importEntries: (items: ImportItem[]) => Promise<ImportReport>;
+}
+
+// `onImported` runs once an import saved at least one entry.
+export const useVaultImportExport = (
+  scope: VaultScope,
+  keyring: VaultKeyring,
+  onImported: () => Promise<void>
+): VaultImportExport => {
+  const loadPlainEntries = useCallback(async (): Promise<PlainEntry[]> => {
+    const rows = await fetchAllEntries(scope);
+    return Promise.all(rows.map(async (p) => {
+      try {
+        return {
+          label: p.label ?? '',
+          username: p.username ?? '',
+          url: p.url ?? '',
+          password: await decryptPassword(keyring, p),
+          notes: await decryptNotes(keyring, p),
+          totp: await decryptTotp(keyring, p),
+          tags: p.tags,
+          folder: p.folder ?? '',
+          generation_mode: p.generation_mode,
+          created_at: p.created_at,
+        };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : localize('export.decryptFailed');
+        throw new Error(localize('export.entryFailed', { label: p.label || localize('entry.untitled'), reason }));
+      }
+    }));
+  }, [scope, keyring]);
+
+  const loadExisting = useCallback(() => fetchEntryIdentities(scope), [scope]);
+
+  // Inserts in batches; when a batch is rejected its rows are retried one at a
+  // time so the report can name the rows that actually failed.
+  const importEntries = useCallback(async (items: ImportItem[]): Promise<ImportReport> => {
+    const importRow = async (entry: PlainEntry) => ({
+      user_id: scope.userId,
+      collection_id: scope.collectionId,
+      ...(await encryptPassword(keyring, entry.password)),
+      ...(await entryDetailColumns(keyring, entry)),
+      generation_mode: entry.generation_mode ?? 'manual',
+      strength_score: estimateStrength(entry.password).score,
+    });
+
+    const report: ImportReport = { imported: 0, skipped: 0, errors: [] };
+    for (let i = 0; i < items.length; i += IMPORT_BATCH_SIZE) {
+      const batch = items.slice(i, i + IMPORT_BATCH_SIZE);
+      const rows = await Promise.all(batch.map(item => importRow(item.entry)));
+      try {
+        await insertEntries(rows);
+        report.imported += batch.length;
+        continue;
+      } catch {
+        // Retried row by row below
+      }
+      for (const [j, item] of batch.entries()) {
+        try {
+          await insertEntries([rows[j]]);
+          report.imported++;
+        } catch (error) {
+          const reason = error instanceof RepositoryError ? error.detail : localize('import.saveFailed');
+          report.errors.push({ row: item.row, label: item.entry.label, error: reason });
+        }
+      }
+    }
+    if (report.imported > 0) await onImported();
+    return report;
+  }, [scope, keyring, onImported]);
+
+  return { loadPlainEntries, loadExisting, importEntries };
+};
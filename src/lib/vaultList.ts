@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import type { SavedPassword } from './vault';
+import type { VaultKeyring } from './vaultCrypto';
+import { useVault } from './vaultContext';
+import { useOperations, type Operations } from './operations';
+import { loadCachedEntries } from './offlineStore';
+import { DEFAULT_PASSWORD_QUERY, applyQueryLocally, type PasswordQuery } from './passwordQuery';
+import { deleteEntry, listEntries, type VaultScope } from './passwordRepository';
+import { localize } from './i18n';
+
+// The entries the vault page lists, for the current search. Online they come
+// a page at a time from the server; offline the whole cached vault is
+// filtered and sorted in memory instead.
+export interface VaultList {
+  entries: SavedPassword[];
+  hasMore: boolean;
+  // Goes up with every fresh first page, so views can start over (e.g. hide
+  // every revealed password again)
+  generation: number;
+  folders: string[]; // Folders of the loaded entries, alphabetically
+  query: PasswordQuery;
+  setQuery: Dispatch<SetStateAction<PasswordQuery>>;
+  reload: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  remove: (entry: SavedPassword) => Promise<boolean>; // Whether it was deleted
+  // Pending and failed loads under 'list' and 'more', deletes under `delete:${id}`
+  operations: Operations;
+}
+
+export const useVaultList = (scope: VaultScope, keyring: VaultKeyring): VaultList => {
+  const { online, revision, scheduleCacheSync, queueOfflineDelete } = useVault();
+  const operations = useOperations();
+  const { run } = operations;
+  const shared = scope.collectionId !== null;
+
+  const [entries, setEntries] = useState<SavedPassword[]>([]);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [generation, setGeneration] = useState<number>(0);
+  const [query, setQuery] = useState<PasswordQuery>(DEFAULT_PASSWORD_QUERY);
+
+  // Loads one page of entries matching the query; `offset` > 0 appends.
+  const fetchPage = useCallback((offset: number) => run(offset === 0 ? 'list' : 'more', async () => {
+    let page: SavedPassword[];
+    let more = false;
+    if (online) {
+      ({ entries: page, hasMore: more } = await listEntries(scope, query, offset));
+    } else if (shared) {
+      throw new Error(localize('vault.sharedOffline'));
+    } else {
+      page = applyQueryLocally(await loadCachedEntries(scope.userId, keyring), query);
+    }
+    setHasMore(more);
+    setEntries(prev => offset === 0 ? page : [...prev, ...page]);
+    if (offset === 0) setGeneration(n => n + 1);
+  }, localize('vault.error.load')), [run, scope, shared, keyring, online, query]);
+
+  const reload = useCallback(async () => {
+    await fetchPage(0);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    await fetchPage(entries.length);
+  }, [fetchPage, entries.length]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, revision]);
+
+  // Offline, personal entries are deleted from the cache and the delete queued.
+  const remove = useCallback(async (entry: SavedPassword) => {
+    const deleted = await run(`delete:${entry.id}`, async () => {
+      if (online) {
+        await deleteEntry(scope, entry.id);
+        if (!shared) scheduleCacheSync();
+      } else if (shared) {
+        throw new Error(localize('vault.sharedOffline'));
+      } else {
+        await queueOfflineDelete(entry);
+      }
+      setEntries(prev => prev.filter(p => p.id !== entry.id));
+      return true;
+    }, localize('vault.error.delete'));
+    return deleted === true;
+  }, [run, online, scope, shared, scheduleCacheSync, queueOfflineDelete]);
+
+  const folders = useMemo(
+    () => Array.from(new Set(entries.map(p => p.folder).filter((f): f is string => !!f))).sort(),
+    [entries]
+  );
+
+  return { entries, hasMore, generation, folders, query, setQuery, reload, loadMore, remove, operations };
+};
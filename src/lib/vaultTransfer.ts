@@ -0,0 +1,261 @@
+// Vault export and import: passphrase-encrypted JSON, plain CSV, and the CSV
+// layouts of other password managers.
+
+import { parseCsv, toCsv } from './csv';
+import {
+  createKdfParams,
+  decryptSecret,
+  deriveVaultKey,
+  encryptSecret,
+  type KdfParams,
+} from './vaultCrypto';
+import type { PasswordSource } from './vault';
+import { parseTotp, toOtpAuthUri } from './totp';
+import { siteHost } from './sites';
+import { localize } from './i18n';
+
+// A decrypted entry, as it appears in export files.
+export interface PlainEntry {
+  label: string;
+  username: string;
+  url: string;
+  password: string;
+  notes: string;
+  totp: string; // otpauth:// URI, or ''
+  tags: string[];
+  folder: string;
+  generation_mode?: PasswordSource | null;
+  created_at?: string;
+}
+
+export const ENTRY_FIELDS = ['label', 'username', 'url', 'password', 'notes', 'totp', 'tags', 'folder'] as const;
+export type EntryField = typeof ENTRY_FIELDS[number];
+
+// Column index in the CSV for each entry field, or null when unmapped.
+export type ColumnMapping = Record<EntryField, number | null>;
+
+// --- Encrypted JSON export ---
+
+const EXPORT_FORMAT = 'gebeya-vault-export';
+const EXPORT_VERSION = 1;
+
+interface EncryptedExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  kdf: KdfParams;
+  iv: string;
+  ciphertext: string;
+}
+
+// The export key is derived from its own passphrase and salt, so the file can
+// be shared or archived without exposing the vault's master passphrase.
+export const encryptExport = async (entries: PlainEntry[], passphrase: string): Promise<string> => {
+  const kdf = createKdfParams();
+  const key = await deriveVaultKey(passphrase, kdf);
+  const payload = JSON.stringify({ exportedAt: new Date().toISOString(), entries });
+  const { ciphertext, iv } = await encryptSecret(key, payload);
+  const file: EncryptedExportFile = { format: EXPORT_FORMAT, version: EXPORT_VERSION, kdf, iv, ciphertext };
+  return JSON.stringify(file, null, 2);
+};
+
+export const isEncryptedExport = (text: string): boolean => {
+  try {
+    return (JSON.parse(text) as Partial<EncryptedExportFile>).format === EXPORT_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const decryptExport = async (text: string, passphrase: string): Promise<PlainEntry[]> => {
+  const file = JSON.parse(text) as EncryptedExportFile;
+  if (file.version !== EXPORT_VERSION) throw new Error(localize('import.unsupportedVersion', { version: String(file.version) }));
+  const key = await deriveVaultKey(passphrase, file.kdf);
+  let payload: string;
+  try {
+    payload = await decryptSecret(key, { ciphertext: file.ciphertext, iv: file.iv });
+  } catch {
+    throw new Error(localize('import.wrongPassphrase'));
+  }
+  // Files from before authenticator keys were exported have no `totp`
+  return (JSON.parse(payload) as { entries: PlainEntry[] }).entries.map(e => ({ ...e, totp: e.totp ?? '' }));
+};
+
+// --- CSV export ---
+
+export const exportToCsv = (entries: PlainEntry[]): string =>
+  toCsv([
+    [...ENTRY_FIELDS],
+    ...entries.map(e => ENTRY_FIELDS.map(field => field === 'tags' ? e.tags.join(', ') : e[field])),
+  ]);
+
+// --- CSV import ---
+
+export interface ImportFormat {
+  id: string;
+  name: string;
+  signature: string[]; // Lower-case headers that identify the layout
+  columns: Partial<Record<EntryField, string[]>>; // Candidate headers per field, lower-case
+}
+
+export const IMPORT_FORMATS: ImportFormat[] = [
+  {
+    id: 'bitwarden',
+    name: 'Bitwarden',
+    signature: ['login_uri', 'login_password'],
+    columns: {
+      label: ['name'], username: ['login_username'], url: ['login_uri'], password: ['login_password'],
+      notes: ['notes'], totp: ['login_totp'], folder: ['folder'],
+    },
+  },
+  {
+    id: '1password',
+    name: '1Password',
+    signature: ['title', 'username', 'password'],
+    columns: {
+      label: ['title'], username: ['username'], url: ['url', 'website'], password: ['password'],
+      notes: ['notes', 'notesplain'], totp: ['otpauth', 'one-time password'], tags: ['tags'],
+    },
+  },
+  {
+    id: 'keepassxc',
+    name: 'KeePassXC',
+    signature: ['group', 'title', 'username', 'password'],
+    columns: {
+      label: ['title'], username: ['username'], url: ['url'], password: ['password'],
+      notes: ['notes'], totp: ['totp'], folder: ['group'],
+    },
+  },
+  {
+    id: 'keepass',
+    name: 'KeePass 2',
+    signature: ['account', 'login name', 'password'],
+    columns: {
+      label: ['account'], username: ['login name'], url: ['web site'], password: ['password'], notes: ['comments'],
+    },
+  },
+  {
+    id: 'generic',
+    name: 'Generic CSV',
+    signature: [],
+    columns: {
+      label: ['label', 'name', 'title'], username: ['username', 'login', 'email', 'user'],
+      url: ['url', 'uri', 'website', 'site'], password: ['password', 'pass'], notes: ['notes', 'comments'],
+      totp: ['totp', 'otpauth', 'otp'], tags: ['tags'], folder: ['folder', 'group', 'collection'],
+    },
+  },
+];
+
+// Layouts share common headers (a KeePassXC file also has 1Password's
+// title/username/password), so the most specific signature wins.
+export const detectFormat = (headers: string[]): ImportFormat => {
+  const normalised = headers.map(h => h.trim().toLowerCase());
+  return [...IMPORT_FORMATS]
+    .sort((a, b) => b.signature.length - a.signature.length)
+    .find(f => f.signature.every(h => normalised.includes(h)))!;
+};
+
+export const buildMapping = (format: ImportFormat, headers: string[]): ColumnMapping => {
+  const normalised = headers.map(h => h.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+  ENTRY_FIELDS.forEach(field => {
+    const index = (format.columns[field] ?? []).map(h => normalised.indexOf(h)).find(i => i !== -1);
+    mapping[field] = index ?? null;
+  });
+  return mapping;
+};
+
+// Other managers export bare base32 keys as well as otpauth:// URIs; both are
+// stored as a URI. Anything unreadable is kept as-is rather than dropped.
+const normaliseTotp = (value: string): string => {
+  if (!value) return '';
+  try {
+    return toOtpAuthUri(parseTotp(value));
+  } catch {
+    return value;
+  }
+};
+
+export const mapCsvRow = (row: string[], mapping: ColumnMapping): PlainEntry => {
+  const value = (field: EntryField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+  return {
+    label: value('label'),
+    username: value('username'),
+    url: value('url'),
+    password: mapping.password === null ? '' : row[mapping.password] ?? '', // Never trim a password
+    notes: value('notes'),
+    totp: normaliseTotp(value('totp')),
+    tags: value('tags').split(/[,;]/).map(t => t.trim().toLowerCase()).filter(Boolean),
+    folder: value('folder').replace(/^Root(\/|$)/, ''), // KeePass groups are rooted at "Root"
+  };
+};
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export const readCsv = (text: string): ParsedCsv => {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers, rows };
+};
+
+// --- Duplicate detection ---
+
+export interface EntryIdentity {
+  label: string | null;
+  username: string | null;
+  url: string | null;
+}
+
+// Entries count as duplicates when they share a site (or, without a URL, a
+// label) and a username.
+export const entryFingerprint = (e: EntryIdentity): string => {
+  const where = e.url ? siteHost(e.url) : (e.label ?? '').trim().toLowerCase();
+  return `${where}\u0000${(e.username ?? '').trim().toLowerCase()}`;
+};
+
+// Indexes of `candidates` that match an existing entry or an earlier candidate.
+export const findDuplicates = (candidates: EntryIdentity[], existing: EntryIdentity[]): Set<number> => {
+  const seen = new Set(existing.map(entryFingerprint));
+  const duplicates = new Set<number>();
+  candidates.forEach((c, i) => {
+    const fingerprint = entryFingerprint(c);
+    if (seen.has(fingerprint)) duplicates.add(i);
+    seen.add(fingerprint);
+  });
+  return duplicates;
+};
+
+// --- Import report ---
+
+// An entry to import, with its 1-based row number in the source file.
+export interface ImportItem {
+  row: number;
+  entry: PlainEntry;
+}
+
+export interface ImportRowError {
+  row: number; // 1-based row number in the source file (excluding the header)
+  label: string;
+  error: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: number;
+  errors: ImportRowError[];
+}
+
+// --- Files ---
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,10 +1,35 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import AuthProvider from './components/AuthProvider.tsx'
+import VaultProvider from './components/VaultProvider.tsx'
+import LocaleProvider from './components/LocaleProvider.tsx'
+import GeneratorProvider from './components/GeneratorProvider.tsx'
+import DialogProvider from './components/DialogProvider.tsx'
 import './index.css'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AuthProvider>
+      <VaultProvider>
+        <LocaleProvider>
+          <GeneratorProvider>
+            <DialogProvider>
+              <App />
+            </DialogProvider>
+          </GeneratorProvider>
+        </LocaleProvider>
+      </VaultProvider>
+    </AuthProvider>
   </StrictMode>,
 )
+
+// The service worker only runs in production builds: in development it would
+// cache Vite's unbundled modules and serve stale code.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error("Error registering service worker:", error)
+    })
+  })
+}
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useVault } from '../lib/vaultContext';
+import { useOperations } from '../lib/operations';
+import { useI18n } from '../lib/localeContext';
+import {
+  AUDIT_EVENT_LABELS,
+  DEFAULT_AUDIT_QUERY,
+  describeUserAgent,
+  fetchAuditEvents,
+  markAlertsRead,
+  type AuditEvent,
+  type AuditEventType,
+  type AuditQuery,
+} from '../lib/auditLog';
+
+// Extra detail for an event, e.g. "password changed" or "12 entries as CSV".
+const describeDetails = (event: AuditEvent): string | null => {
+  const { details } = event;
+  switch (event.event_type) {
+    case 'entry_updated':
+      return details.password_changed ? 'password changed' : null;
+    case 'entry_revealed':
+      return details.history ? 'earlier value' : null;
+    case 'vault_exported':
+      return typeof details.count === 'number'
+        ? `${details.count} ${details.count === 1 ? 'entry' : 'entries'} as ${String(details.format).toUpperCase()}`
+        : null;
+    default:
+      return null;
+  }
+};
+
+// The account's activity log: sign-ins, entry changes, reveals, copies and
+// exports, with alerts (new devices, exports) highlighted until read.
+const ActivityPage: React.FC = () => {
+  const { user } = useVault();
+  const { run, isPending, error: operationError } = useOperations();
+  const { t, formatDate } = useI18n();
+  const [query, setQuery] = useState<AuditQuery>(DEFAULT_AUDIT_QUERY);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+
+  const userId = user?.id ?? null;
+  const loadEvents = useCallback((offset = 0) => run(offset === 0 ? 'list' : 'more', async () => {
+    if (!userId) return;
+    const page = await fetchAuditEvents(userId, query, offset);
+    setHasMore(page.hasMore);
+    setEvents(prev => offset === 0 ? page.events : [...prev, ...page.events]);
+  }, t('activity.loadFailed')), [run, userId, query, t]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  if (!user) return null; // App redirects to the login page
+
+  const handleMarkRead = () => run('read', async () => {
+    await markAlertsRead(user.id);
+    const now = new Date().toISOString();
+    setEvents(prev => prev.map(e => e.alert && !e.read_at ? { ...e, read_at: now } : e));
+  }, t('activity.markFailed'));
+
+  const unread = events.some(e => e.alert && !e.read_at);
+  const errors = ['list', 'more', 'read']
+    .map(key => operationError(key))
+    .filter((message): message is string => message !== null);
+
+  return (
+    <>
+      <h1 className="text-2xl md:text-3xl font-bold text-center text-gray-800 mb-6">{t('activity.title')}</h1>
+
+      <div className="flex items-center space-x-2 rtl:space-x-reverse mb-2">
+        <select
+          value={query.type ?? ''}
+          onChange={(e) => setQuery(prev => ({ ...prev, type: (e.target.value || null) as AuditEventType | null }))}
+          className="flex-grow p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          aria-label={t('activity.filter')}
+        >
+          <option value="">{t('activity.all')}</option>
+          {(Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[]).map(type => (
+            <option key={type} value={type}>{t(AUDIT_EVENT_LABELS[type])}</option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-gray-700 cursor-pointer whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={query.alertsOnly}
+            onChange={(e) => setQuery(prev => ({ ...prev, alertsOnly: e.target.checked }))}
+            className="me-1"
+          />
+          {t('activity.alertsOnly')}
+        </label>
+      </div>
+      {unread && (
+        <div className="text-end mb-2">
+          <button
+            onClick={handleMarkRead}
+            disabled={isPending('read')}
+            className="text-xs text-orange-600 hover:underline"
+          >
+            {t('activity.markRead')}
+          </button>
+        </div>
+      )}
+      {errors.map(message => <p key={message} role="alert" className="text-red-500 text-sm text-center mb-3">{message}</p>)}
+
+      {isPending('list') ? (
+        <p className="text-gray-500 text-center">{t('activity.loading')}</p>
+      ) : events.length === 0 ? (
+        <p className="text-gray-500 text-center">{t('activity.empty')}</p>
+      ) : (
+        <ul className="max-h-96 overflow-y-auto pe-2 space-y-2">
+          {events.map((e) => {
+            const detail = describeDetails(e);
+            return (
+              <li
+                key={e.id}
+                className={`p-2 rounded-md text-sm ${e.alert && !e.read_at ? 'bg-yellow-50 border border-yellow-300' : 'bg-gray-50'}`}
+              >
+                <div className="flex justify-between items-start">
+                  <span className="font-medium text-gray-800">
+                    {e.alert && <AlertTriangle size={14} className="inline me-1 text-yellow-600" aria-label={t('activity.alert')} />}
+                    {t(AUDIT_EVENT_LABELS[e.event_type])}
+                    {e.new_device && <span className="ms-1 text-xs text-yellow-700">(new device)</span>}
+                  </span>
+                  <time dateTime={e.created_at} className="text-xs text-gray-500 ms-2 flex-shrink-0">
+                    {formatDate(e.created_at)}
+                  </time>
+                </div>
+                {(e.entry_label || detail || e.collection_id) && (
+                  <p className="text-xs text-gray-600 truncate">
+                    {[
+                      e.entry_label && `"${e.entry_label}"`,
+                      detail,
+                      e.collection_id && 'shared collection',
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 truncate" title={e.user_agent ?? undefined}>
+                  {describeUserAgent(e.user_agent)}
+                </p>
+              </li>
+            );
+          })}
+          {hasMore && (
+            <li className="text-center">
+              <button
+                onClick={() => loadEvents(events.length)}
+                disabled={isPending('more')}
+                className="text-sm text-orange-600 hover:underline"
+              >
+                {isPending('more') ? t('activity.loadingMore') : t('activity.loadMore')}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default ActivityPage;
@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, fireEvent, screen, waitFor } from '@testing-library/react';
+import { axe } from '../test/axe';
+import { renderWithProviders } from '../test/render';
+import { setShortcutsEnabled } from '../lib/shortcuts';
+import GeneratePage from './GeneratePage';
+
+describe('GeneratePage', () => {
+  afterEach(() => localStorage.clear());
+
+  it('has no accessibility violations signed out', async () => {
+    const { container } = renderWithProviders(<GeneratePage />);
+    const password = await screen.findByRole<HTMLInputElement>('textbox', { name: 'Password' });
+    expect(password.value).not.toBe('');
+    expect(await axe(container)).toHaveNoViolations();
+  });
+
+  it('has no accessibility violations in passphrase mode', async () => {
+    const { container } = renderWithProviders(<GeneratePage />);
+    fireEvent.click(screen.getByRole('button', { name: 'Passphrase' }));
+
+    expect(screen.getByRole('button', { name: 'Passphrase', pressed: true })).toBeDefined();
+    expect(screen.getByRole<HTMLInputElement>('slider', { name: /Words/ }).value).toBe('6');
+    const password = screen.getByRole<HTMLInputElement>('textbox', { name: 'Password' });
+    await waitFor(() => expect(password.value.split('-')).toHaveLength(6)); // The default six words
+    expect(await axe(container)).toHaveNoViolations();
+  });
+
+  it('ignores single-key shortcuts once they are turned off', async () => {
+    renderWithProviders(<GeneratePage />);
+    const password = await screen.findByRole<HTMLInputElement>('textbox', { name: 'Password' });
+    const generateButton = screen.getByRole('button', { name: /Generate/ });
+    expect(generateButton.getAttribute('aria-keyshortcuts')).toBe('G');
+
+    act(() => setShortcutsEnabled(false));
+    const before = password.value;
+    fireEvent.keyDown(document.body, { key: 'g' });
+    expect(password.value).toBe(before);
+    expect(generateButton.hasAttribute('aria-keyshortcuts')).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, RefreshCw, Save } from 'lucide-react';
+import { useGenerator } from '../lib/generatorContext';
+import { useVault } from '../lib/vaultContext';
+import { generate } from '../lib/generator';
+import { passphraseEntropyBits, type Capitalization, type PassphraseExtra } from '../lib/passphrase';
+import { estimateStrength } from '../lib/strength';
+import { CLEAR_DELAY_OPTIONS, clipboardService } from '../lib/clipboard';
+import { ROUTES } from '../lib/router';
+import { announce } from '../lib/announcer';
+import { useShortcuts, useShortcutsEnabled } from '../lib/shortcuts';
+import { useI18n } from '../lib/localeContext';
+import type { EntryDraft, PasswordSource } from '../lib/vault';
+import Link from '../components/Link';
+import StrengthMeter from '../components/StrengthMeter';
+import BreachCheck from '../components/BreachCheck';
+import PresetPicker from '../components/PresetPicker';
+import CharacterPolicyEditor from '../components/CharacterPolicyEditor';
+import EntryForm from '../components/EntryForm';
+import WordlistPicker from '../components/WordlistPicker';
+
+// The generator: works signed out (and in local-only mode); signed in it adds
+// presets and saving to the vault.
+const GeneratePage: React.FC = () => {
+  const generator = useGenerator();
+  const { mode, policy, policyErrors, password, passphraseOptions, updatePassphraseOptions } = generator;
+  const { user, keyring, createEntry } = useVault();
+  const { t } = useI18n();
+  const shortcutsOn = useShortcutsEnabled();
+  const [clipboardClearSeconds, setClipboardClearSeconds] = useState<number>(clipboardService.getClearAfterSeconds());
+  const [createDraft, setCreateDraft] = useState<{ password: string; source: PasswordSource } | null>(null);
+  const [saved, setSaved] = useState<boolean>(false);
+
+  const canGenerate = policyErrors.length === 0;
+
+  // Rates the actual string, so pasted or edited passwords are scored honestly
+  const strength = useMemo(() => estimateStrength(password), [password]);
+
+  // Locking closes the save form; its password shouldn't reappear on unlock
+  useEffect(() => {
+    if (!keyring) setCreateDraft(null);
+  }, [keyring]);
+
+  useEffect(() => setSaved(false), [password]);
+
+  const canSave = !!user && !!keyring && !!password;
+  const openSaveForm = () => setCreateDraft({ password, source: generator.source });
+
+  useShortcuts([
+    { key: 'g', description: t('shortcut.generate'), run: generator.generatePassword, disabled: !canGenerate },
+    { key: 'c', description: t('shortcut.copy'), run: () => clipboardService.copy(password), disabled: !password },
+    { key: 's', description: t('shortcut.save'), run: openSaveForm, disabled: !canSave || createDraft !== null },
+  ]);
+
+  const updateClipboardClearSeconds = (seconds: number) => {
+    clipboardService.setClearAfterSeconds(seconds);
+    setClipboardClearSeconds(seconds);
+  };
+
+  const handleCreateEntry = async (draft: EntryDraft) => {
+    if (!draft.password) return;
+    await createEntry({ ...draft, password: draft.password });
+    setCreateDraft(null);
+    setSaved(true);
+    announce(t('generate.saved'));
+  };
+
+  return (
+    <>
+      <h1 className="text-2xl md:text-3xl font-bold text-center text-gray-800 mb-6">{t('generate.title')}</h1>
+
+      {/* Password Display & Copy; left to right in every language, as passwords are */}
+      <div className="relative mb-1" dir="ltr">
+        <input
+          type="text"
+          value={password}
+          onChange={(e) => generator.setManualPassword(e.target.value)}
+          spellCheck={false}
+          autoComplete="off"
+          className="w-full p-3 pe-24 text-lg bg-gray-100 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 text-gray-700 font-mono"
+          placeholder={t('generate.placeholder')}
+          aria-label={t('generate.password')}
+        />
+        <div className="absolute inset-y-0 end-0 flex items-center">
+          <button
+            onClick={() => password && clipboardService.copy(password)}
+            className="h-full px-3 flex items-center transition-colors duration-200 bg-orange-500 hover:bg-orange-600 text-white"
+            title={t('generate.copyTitle')}
+            aria-label={t('generate.copy')}
+            aria-keyshortcuts={shortcutsOn ? 'C' : undefined}
+          >
+            <Copy size={20} />
+          </button>
+          <button
+            onClick={generator.generatePassword}
+            disabled={!canGenerate}
+            className={`h-full px-3 flex items-center rounded-e-md transition-colors duration-200 ${!canGenerate ? 'bg-gray-400 text-gray-600 cursor-not-allowed' : 'bg-blue-500 hover:bg-blue-600 text-white'}`}
+            title={t('generate.newTitle')}
+            aria-label={t('generate.new')}
+            aria-keyshortcuts={shortcutsOn ? 'G' : undefined}
+          >
+            <RefreshCw size={20} />
+          </button>
+        </div>
+      </div>
+      <div className="flex justify-end mb-1">
+        <label className="text-xs text-gray-500">
+          {t('generate.clearAfter')}
+          <select
+            value={clipboardClearSeconds}
+            onChange={(e) => updateClipboardClearSeconds(Number(e.target.value))}
+            className="ms-1 text-xs border border-gray-300 rounded"
+          >
+            {CLEAR_DELAY_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>{seconds === 0 ? t('generate.clearNever') : t('generate.clearSeconds', { seconds })}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Save to Vault */}
+      {user && (
+        <div className="mt-4 mb-4 flex items-center justify-end space-x-2 rtl:space-x-reverse">
+          {saved && (
+            <Link to={ROUTES.vault} className="text-sm text-green-700 hover:underline">{t('generate.saved')}</Link>
+          )}
+          {keyring ? (
+            <button
+              onClick={openSaveForm}
+              disabled={!password}
+              className={`flex items-center px-4 py-2 text-sm font-semibold text-white rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-green-500 ${
+                !password ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'
+              }`}
+              title={t('generate.saveTitle')}
+              aria-keyshortcuts={shortcutsOn ? 'S' : undefined}
+            >
+              <Save size={16} className="me-1" aria-hidden="true" /> {t('generate.save')}
+            </button>
+          ) : (
+            <Link to={ROUTES.vault} className="text-sm text-gray-600 hover:text-gray-900">
+              {t('generate.unlockToSave')}
+            </Link>
+          )}
+        </div>
+      )}
+      {createDraft && keyring && (
+        <div className="mb-4 p-3 bg-gray-50 rounded-md border border-gray-200">
+          <EntryForm
+            initialPassword={createDraft.password}
+            initialSource={createDraft.source}
+            folders={[]}
+            generationMode={mode}
+            onGenerate={() => generate(policy)}
+            onSave={handleCreateEntry}
+            onCancel={() => setCreateDraft(null)}
+          />
+        </div>
+      )}
+
+      {/* Strength Indicator */}
+      {password && <StrengthMeter result={strength} />}
+      {password && <BreachCheck key={password} password={password} />}
+
+      {/* Presets */}
+      {user && (
+        <PresetPicker
+          presets={generator.presets}
+          selected={generator.selectedPreset}
+          modified={generator.presetModified}
+          onSelect={generator.selectPreset}
+          onSaveNew={generator.savePreset}
+          onUpdate={generator.updatePreset}
+          onDelete={generator.deletePreset}
+          onToggleDefault={generator.toggleDefaultPreset}
+        />
+      )}
+
+      {/* Generation Mode */}
+      <div className="flex mb-6 rounded-md overflow-hidden border border-gray-300">
+        {(['characters', 'passphrase'] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => generator.setMode(m)}
+            aria-pressed={mode === m}
+            className={`flex-1 py-2 text-sm font-medium transition-colors duration-200 ${mode === m ? 'bg-orange-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+          >
+            {t(`generate.mode.${m}`)}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'characters' ? (
+        <CharacterPolicyEditor policy={generator.characterPolicy} errors={policyErrors} onChange={generator.updateCharacterPolicy} />
+      ) : (
+      <>
+      {/* Passphrase Options */}
+      <div className="mb-6">
+        <label htmlFor="wordCount" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('generate.words')} <span className="font-bold text-orange-600">{passphraseOptions.wordCount}</span>
+        </label>
+        <input
+          type="range"
+          id="wordCount"
+          min="3"
+          max="12"
+          value={passphraseOptions.wordCount}
+          onChange={(e) => updatePassphraseOptions({ wordCount: parseInt(e.target.value, 10) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-slider"
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label htmlFor="separator" className="block text-sm font-medium text-gray-700 mb-1">{t('generate.separator')}</label>
+          <input
+            type="text"
+            id="separator"
+            maxLength={3}
+            value={passphraseOptions.separator}
+            onChange={(e) => updatePassphraseOptions({ separator: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm font-mono"
+          />
+        </div>
+        <div>
+          <label htmlFor="capitalization" className="block text-sm font-medium text-gray-700 mb-1">{t('generate.case')}</label>
+          <select
+            id="capitalization"
+            value={passphraseOptions.capitalization}
+            onChange={(e) => updatePassphraseOptions({ capitalization: e.target.value as Capitalization })}
+            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          >
+            {(['lowercase', 'capitalize', 'uppercase', 'random'] as const).map(c => (
+              <option key={c} value={c}>{t(`generate.case.${c}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="extra" className="block text-sm font-medium text-gray-700 mb-1">{t('generate.append')}</label>
+          <select
+            id="extra"
+            value={passphraseOptions.extra}
+            onChange={(e) => updatePassphraseOptions({ extra: e.target.value as PassphraseExtra })}
+            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-orange-500 text-sm"
+          >
+            {(['none', 'number', 'symbol'] as const).map(extra => (
+              <option key={extra} value={extra}>{t(`generate.append.${extra}`)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <WordlistPicker value={passphraseOptions.wordlist} onChange={(wordlist) => updatePassphraseOptions({ wordlist })} />
+      {policyErrors.length > 0 ? (
+        <ul role="alert" className="mb-6 text-sm text-red-600">
+          {policyErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600 text-center mb-6">
+          {t('generate.entropy')} <span className="font-semibold">{t('generate.bits', { bits: passphraseEntropyBits(passphraseOptions).toFixed(1) })}</span>
+        </p>
+      )}
+      </>
+      )}
+    </>
+  );
+};
+
+export default GeneratePage;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useAuth } from '../lib/authContext';
+import AuthForm from '../components/AuthForm';
+import MfaChallenge from '../components/MfaChallenge';
+import SetNewPassword from '../components/SetNewPassword';
+
+// Every step of getting signed in: password, second factor, or setting a new
+// password after following a reset link.
+const LoginPage: React.FC = () => {
+  const { mfaRequired, passwordRecovery, endPasswordRecovery } = useAuth();
+
+  return (
+    <div className="mb-8">
+      <img
+        src="https://gebeya.com/wp-content/uploads/2025/02/Gebeya_24_Logo_Primary_FullColorReversed-1.svg"
+        alt="Gebeya Logo"
+        className="h-10 w-auto mx-auto mb-6"
+      />
+      {passwordRecovery ? (
+        <SetNewPassword onDone={endPasswordRecovery} />
+      ) : mfaRequired ? (
+        <MfaChallenge />
+      ) : (
+        <AuthForm />
+      )}
+    </div>
+  );
+};
+
+export default LoginPage;
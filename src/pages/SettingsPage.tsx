@@ -0,0 +1,25 @@
+import React from 'react';
+import { useVault } from '../lib/vaultContext';
+import { useI18n } from '../lib/localeContext';
+import AccountSettings from '../components/AccountSettings';
+import SecuritySettings from '../components/SecuritySettings';
+import ShortcutSettings from '../components/ShortcutSettings';
+
+// Account, two-step verification, vault lock and keyboard shortcut settings.
+const SettingsPage: React.FC = () => {
+  const { user, settings, saveSettings } = useVault();
+  const { t } = useI18n();
+  if (!user) return null; // App redirects to the login page
+
+  return (
+    <>
+      <h1 className="text-2xl md:text-3xl font-bold text-center text-gray-800 mb-6">{t('settings.title')}</h1>
+      <p className="text-sm text-gray-600 mb-4">{t('settings.loggedInAs')} <span className="font-medium">{user.email}</span></p>
+      <AccountSettings user={user} />
+      <SecuritySettings settings={settings} onChange={saveSettings} />
+      <ShortcutSettings />
+    </>
+  );
+};
+
+export default SettingsPage;
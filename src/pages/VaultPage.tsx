@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useVault } from '../lib/vaultContext';
+import { useOperations } from '../lib/operations';
+import { useI18n } from '../lib/localeContext';
+import { createCollection, openCollection, type Membership } from '../lib/collections';
+import type { VaultKeyring } from '../lib/vaultCrypto';
+import type { VaultScope } from '../lib/passwordRepository';
+import VaultUnlock from '../components/VaultUnlock';
+import VaultBrowser from '../components/VaultBrowser';
+import CollectionPicker from '../components/CollectionPicker';
+import CollectionMembers from '../components/CollectionMembers';
+
+// Asks for the master passphrase, then shows the saved entries of the
+// personal vault or of a shared collection.
+const VaultPage: React.FC = () => {
+  const {
+    user, keyring, kdfSamples, unlock, lock, lockNotice, identity, sharingError, memberships, reloadMemberships,
+  } = useVault();
+  const { run, error: operationError } = useOperations();
+  const { t } = useI18n();
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const [opened, setOpened] = useState<{ collectionId: string; keyring: VaultKeyring } | null>(null);
+  const [showMembers, setShowMembers] = useState<boolean>(false);
+
+  // A collection that was deleted or left falls back to the personal vault
+  const membership = memberships.find(m => m.collectionId === collectionId) ?? null;
+  const activeId = membership?.collectionId ?? null;
+  const activeName = membership?.name ?? '';
+  const wrappedKey = membership?.wrappedKey ?? null;
+  const keyVersion = membership?.keyVersion ?? 0;
+
+  // Memberships are reloaded after every change, so this keys on the fields
+  // that matter rather than the membership object
+  useEffect(() => {
+    if (!identity) setOpened(null); // Locking drops collection keys along with the vault key
+    if (!activeId || !wrappedKey || !identity) return;
+    run('open', async () => {
+      const keyring = await openCollection({ collectionId: activeId, name: activeName, wrappedKey, keyVersion }, identity);
+      setOpened({ collectionId: activeId, keyring });
+    }, t('collection.openFailed'));
+  }, [activeId, activeName, wrappedKey, keyVersion, identity, run, t]);
+
+  const scope = useMemo<VaultScope | null>(
+    () => user && { userId: user.id, collectionId: activeId },
+    [user, activeId]
+  );
+
+  if (!user || !scope) return null; // App redirects to the login page
+
+  if (!keyring) {
+    return (
+      <>
+        <h1 className="text-2xl md:text-3xl font-bold text-center text-gray-800 mb-6">{t('nav.vault')}</h1>
+        {lockNotice && <p className="text-gray-700 text-sm text-center mb-3">{lockNotice}</p>}
+        {kdfSamples === null ? (
+          <p className="text-gray-500 text-center">{t('app.loading')}</p>
+        ) : (
+          <VaultUnlock isNewVault={kdfSamples.length === 0} onUnlock={unlock} />
+        )}
+      </>
+    );
+  }
+
+  const selectCollection = (next: Membership | null) => {
+    setCollectionId(next?.collectionId ?? null);
+    setShowMembers(false);
+  };
+
+  const handleCreateCollection = async (name: string) => {
+    const id = await createCollection(name, identity!);
+    await reloadMemberships();
+    setCollectionId(id);
+  };
+
+  const collectionKeyring = opened && opened.collectionId === activeId ? opened.keyring : null;
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-800">{t('nav.vault')}</h1>
+        <button
+          onClick={() => lock()}
+          className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+          title={t('vault.lock')}
+        >
+          <Lock size={14} className="me-1" /> {t('vault.lock')}
+        </button>
+      </div>
+      <CollectionPicker
+        memberships={memberships}
+        selected={membership}
+        onSelect={selectCollection}
+        onCreate={handleCreateCollection}
+        canCreate={identity !== null}
+        onShowMembers={() => setShowMembers(!showMembers)}
+      />
+      {sharingError && <p role="alert" className="text-red-500 text-sm text-center mb-3">{sharingError}</p>}
+      {membership && showMembers && collectionKeyring && (
+        <CollectionMembers
+          membership={membership}
+          keyring={collectionKeyring}
+          userId={user.id}
+          onChanged={reloadMemberships}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
+      {!membership ? (
+        <VaultBrowser key="personal" scope={scope} keyring={keyring} role="owner" />
+      ) : collectionKeyring ? (
+        <VaultBrowser key={membership.collectionId} scope={scope} keyring={collectionKeyring} role={membership.role} />
+      ) : operationError('open') ? (
+        <p role="alert" className="text-red-500 text-sm text-center">{operationError('open')}</p>
+      ) : (
+        <p className="text-gray-500 text-center">{t('collection.opening', { name: membership.name })}</p>
+      )}
+    </>
+  );
+};
+
+export default VaultPage;
@@ -0,0 +1,9 @@
+import { configureAxe } from 'vitest-axe';
+
+// axe for component tests. jsdom doesn't lay out or paint, so colour
+// contrast can't be judged there and is left to checks in a real browser.
+export const axe = configureAxe({
+  rules: {
+    'color-contrast': { enabled: false },
+  },
+});
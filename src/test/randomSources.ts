@@ -0,0 +1,37 @@
+import type { RandomSource } from '../lib/random';
+
+// Deterministic stand-ins for the CSPRNG, so tests of randomness are
+// repeatable.
+
+// xorshift32: fast, and uniform enough to check distributions against.
+export const seededSource = (seed: number): RandomSource => {
+  let state = seed >>> 0 || 1;
+  return {
+    getRandomValues: (array) => {
+      for (let i = 0; i < array.length; i++) {
+        state ^= state << 13;
+        state >>>= 0;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        state >>>= 0;
+        array[i] = state;
+      }
+      return array;
+    },
+  };
+};
+
+// Hands out `values` in order, and counts how many were drawn.
+export const sequenceSource = (values: number[]): RandomSource & { drawn: number } => {
+  const source = {
+    drawn: 0,
+    getRandomValues: (array: Uint32Array) => {
+      for (let i = 0; i < array.length; i++) {
+        if (source.drawn >= values.length) throw new Error('sequenceSource ran out of values');
+        array[i] = values[source.drawn++];
+      }
+      return array;
+    },
+  };
+  return source;
+};
@@ -0,0 +1,62 @@
+import { createElement, type ReactElement } from 'react';
+import { render, type RenderResult } from '@testing-library/react';
+import { AuthContext, type AuthState } from '../lib/authContext';
+import { VaultContext, type VaultState } from '../lib/vaultContext';
+import { KDF_ALGORITHM, type VaultKeyring } from '../lib/vaultCrypto';
+import { DEFAULT_USER_SETTINGS } from '../lib/userSettings';
+import LocaleProvider from '../components/LocaleProvider';
+import GeneratorProvider from '../components/GeneratorProvider';
+import DialogProvider from '../components/DialogProvider';
+
+// Renders `ui` inside the app's providers, in the order main.tsx uses.
+// AuthProvider and VaultProvider talk to Supabase, so their state is given
+// here instead: signed out and offline unless `vault` says otherwise.
+
+const signedOutAuth: AuthState = {
+  session: null,
+  user: null,
+  loading: false,
+  mfaRequired: false,
+  passwordRecovery: false,
+  refreshAssurance: async () => {},
+  endPasswordRecovery: () => {},
+};
+
+const signedOutVault: VaultState = {
+  user: null,
+  settings: DEFAULT_USER_SETTINGS,
+  saveSettings: async () => {},
+  keyring: null,
+  kdfSamples: null,
+  unlock: async () => {},
+  lock: () => {},
+  lockNotice: null,
+  refreshKdfSamples: async () => {},
+  online: false,
+  pendingChanges: 0,
+  syncNotice: null,
+  revision: 0,
+  scheduleCacheSync: () => {},
+  createEntry: async () => {},
+  queueOfflineDelete: async () => {},
+  identity: null,
+  sharingError: null,
+  memberships: [],
+  reloadMemberships: async () => {},
+  logout: async () => {},
+};
+
+// A keyring without keys: enough for lists that never decrypt.
+export const TEST_KEYRING: VaultKeyring = {
+  active: { algorithm: KDF_ALGORITHM, salt: '', iterations: 1 },
+  keys: new Map(),
+};
+
+export const renderWithProviders = (ui: ReactElement, vault: Partial<VaultState> = {}): RenderResult =>
+  render(
+    createElement(AuthContext.Provider, { value: signedOutAuth },
+      createElement(VaultContext.Provider, { value: { ...signedOutVault, ...vault } },
+        createElement(LocaleProvider, null,
+          createElement(GeneratorProvider, null,
+            createElement(DialogProvider, null, ui)))))
+  );
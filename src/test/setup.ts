@@ -0,0 +1,18 @@
+import { afterEach, expect } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import * as axeMatchers from 'vitest-axe/matchers';
+
+// Shared by every test file. Component tests opt into jsdom with a
+// `@vitest-environment jsdom` comment; the rest run in plain Node.
+
+expect.extend(axeMatchers); // Typed in vitest-axe.d.ts
+
+if (typeof document !== 'undefined') {
+  afterEach(() => cleanup());
+
+  // jsdom has <dialog> but not its modal methods; opening is all the tests need
+  if (!HTMLDialogElement.prototype.showModal) {
+    HTMLDialogElement.prototype.showModal = function (this: HTMLDialogElement) { this.open = true; };
+    HTMLDialogElement.prototype.close = function (this: HTMLDialogElement) { this.open = false; };
+  }
+}
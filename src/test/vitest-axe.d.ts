@@ -0,0 +1,10 @@
+import type { AxeResults } from 'axe-core';
+
+// The matcher setup.ts adds. vitest-axe's own typings extend the `Vi`
+// namespace older Vitest versions read; current ones merge into `Assertion`.
+declare module 'vitest' {
+  interface Assertion<T> {
+    // Only offered on what `axe()` resolves to
+    toHaveNoViolations: T extends AxeResults ? () => void : never;
+  }
+}
@@ -1,8 +1,11 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_SUPABASE_URL: string
-  readonly VITE_SUPABASE_ANON_KEY: string
+  // Both optional: without them the app runs in local-only generator mode
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  // Optional k-anonymity range endpoint (HIBP format); defaults to api.pwnedpasswords.com
+  readonly VITE_BREACH_API_URL?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,44 @@
+/*
+  # Client-side encryption for saved passwords
+
+  Saved passwords are now encrypted in the browser with AES-GCM under a key
+  derived from the user's master passphrase (PBKDF2-SHA-256). The server only
+  ever receives ciphertext and the parameters needed to re-derive the key.
+
+  1. Modified Tables
+     - `passwords`
+       - `ciphertext` (text, nullable) - Base64 AES-GCM ciphertext (including the auth tag).
+       - `iv` (text, nullable) - Base64 96-bit AES-GCM nonce, unique per entry.
+       - `kdf_algorithm` (text, nullable) - Key derivation function, currently 'PBKDF2-SHA256'.
+       - `kdf_salt` (text, nullable) - Base64 KDF salt.
+       - `kdf_iterations` (integer, nullable) - KDF iteration count.
+       - `encryption_version` (smallint, nullable) - Format version of the encrypted payload.
+       - `password_text` is now nullable. It is only kept for rows saved before
+         this migration; new rows must leave it null.
+
+  2. Constraints
+     - Each row must hold either a legacy `password_text` or a complete set of
+       encryption columns.
+*/
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS ciphertext text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS iv text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS kdf_algorithm text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS kdf_salt text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS kdf_iterations integer;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS encryption_version smallint;
+
+ALTER TABLE passwords ALTER COLUMN password_text DROP NOT NULL;
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_secret_present CHECK (
+    password_text IS NOT NULL
+    OR (
+      ciphertext IS NOT NULL
+      AND iv IS NOT NULL
+      AND kdf_algorithm IS NOT NULL
+      AND kdf_salt IS NOT NULL
+      AND kdf_iterations IS NOT NULL
+      AND encryption_version IS NOT NULL
+    )
+  );
@@ -0,0 +1,15 @@
+/*
+  # Record how each saved password was generated
+
+  1. Modified Tables
+     - `passwords`
+       - `generation_mode` (text, nullable) - 'characters' for the character-set
+         generator or 'passphrase' for word-based passphrases. Null for rows
+         saved before modes were tracked.
+*/
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS generation_mode text;
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_generation_mode_check
+  CHECK (generation_mode IS NULL OR generation_mode IN ('characters', 'passphrase'));
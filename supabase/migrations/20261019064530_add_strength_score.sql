@@ -0,0 +1,18 @@
+/*
+  # Store an estimated strength score for each saved password
+
+  Passwords are encrypted client-side, so the server can't rate them. The
+  browser estimates strength when an entry is saved and stores only the
+  resulting 0-4 score, which the Saved Passwords list shows as a badge.
+
+  1. Modified Tables
+     - `passwords`
+       - `strength_score` (smallint, nullable) - 0 (very weak) to 4 (very strong).
+         Null for rows saved before scoring was introduced.
+*/
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS strength_score smallint;
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_strength_score_check
+  CHECK (strength_score IS NULL OR strength_score BETWEEN 0 AND 4);
@@ -0,0 +1,107 @@
+/*
+  # Editable passwords with per-entry history
+
+  Saved entries can now be renamed and have their password replaced in place.
+  Every time an entry's secret changes, the previous value is archived to
+  `password_history` by a trigger, so the client can't forget (or skip) it.
+  History rows hold the same ciphertext the entry held; the server still never
+  sees plaintext.
+
+  1. Modified Tables
+     - `passwords`
+       - `updated_at` (timestamptz, nullable) - Set by trigger whenever the row is updated.
+
+  2. New Tables
+     - `password_history`
+       - `id` (uuid, primary key, default: gen_random_uuid())
+       - `password_id` (uuid, foreign key to `passwords`, cascade on delete) - The entry this was a previous value of.
+       - `user_id` (uuid, foreign key to `auth.users`) - Owner, copied from the entry.
+       - `password_text`, `ciphertext`, `iv`, `kdf_algorithm`, `kdf_salt`,
+         `kdf_iterations`, `encryption_version` - The previous secret, exactly as stored on the entry.
+       - `generation_mode` (text, nullable) - How the previous secret was generated.
+       - `strength_score` (smallint, nullable) - Strength score of the previous secret.
+       - `replaced_at` (timestamptz, default: now()) - When the value was replaced.
+
+  3. Security
+     - Policy "Users can update their own passwords" on `passwords`.
+     - Enable RLS on `password_history`; users can SELECT and DELETE their own
+       history. There is no INSERT or UPDATE policy: rows are only written by
+       the `archive_password_history` trigger function.
+
+  4. Indexes
+     - `password_history(password_id, replaced_at DESC)` for the history panel.
+*/
+
+-- 1. UPDATE policy on passwords
+CREATE POLICY "Users can update their own passwords"
+  ON passwords
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+-- 2. History table
+CREATE TABLE IF NOT EXISTS password_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  password_id uuid REFERENCES passwords(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  password_text text,
+  ciphertext text,
+  iv text,
+  kdf_algorithm text,
+  kdf_salt text,
+  kdf_iterations integer,
+  encryption_version smallint,
+  generation_mode text,
+  strength_score smallint,
+  replaced_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_password_id
+  ON password_history(password_id, replaced_at DESC);
+
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own password history"
+  ON password_history
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own password history"
+  ON password_history
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 3. Archive the old secret whenever it changes
+CREATE OR REPLACE FUNCTION archive_password_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.password_text IS DISTINCT FROM OLD.password_text
+     OR NEW.ciphertext IS DISTINCT FROM OLD.ciphertext THEN
+    INSERT INTO password_history (
+      password_id, user_id, password_text, ciphertext, iv, kdf_algorithm,
+      kdf_salt, kdf_iterations, encryption_version, generation_mode, strength_score
+    ) VALUES (
+      OLD.id, OLD.user_id, OLD.password_text, OLD.ciphertext, OLD.iv, OLD.kdf_algorithm,
+      OLD.kdf_salt, OLD.kdf_iterations, OLD.encryption_version, OLD.generation_mode, OLD.strength_score
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER passwords_archive_history
+  BEFORE UPDATE ON passwords
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_password_history();
@@ -0,0 +1,37 @@
+/*
+  # Richer vault entries
+
+  1. Modified Tables
+     - `passwords`
+       - `username` (text, nullable) - Account username or email for the entry.
+       - `url` (text, nullable) - Site or app URL the password belongs to.
+       - `notes_ciphertext` (text, nullable) - Base64 AES-GCM ciphertext of free-form notes,
+         encrypted under the same key and KDF params as the password.
+       - `notes_iv` (text, nullable) - Base64 nonce for `notes_ciphertext`.
+       - `tags` (text[], default '{}') - Lower-case tags.
+       - `folder` (text, nullable) - Folder / collection the entry is filed under.
+       - `generation_mode` may now also be 'manual' for passwords typed in by the user.
+
+  2. Indexes
+     - GIN index on `tags` for tag filtering.
+     - Index on `(user_id, folder)` for grouping by folder.
+*/
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS username text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS url text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS notes_ciphertext text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS notes_iv text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS tags text[] DEFAULT '{}' NOT NULL;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS folder text;
+
+ALTER TABLE passwords DROP CONSTRAINT IF EXISTS passwords_generation_mode_check;
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_generation_mode_check
+  CHECK (generation_mode IS NULL OR generation_mode IN ('characters', 'passphrase', 'manual'));
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_notes_encrypted
+  CHECK (notes_ciphertext IS NULL OR (notes_iv IS NOT NULL AND ciphertext IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_passwords_tags ON passwords USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_passwords_user_folder ON passwords(user_id, folder);
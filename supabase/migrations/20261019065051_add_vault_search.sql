@@ -0,0 +1,48 @@
+/*
+  # Search, sort and paging support for the Saved Passwords list
+
+  The list is now searched, sorted and paged on the server, so the client no
+  longer holds every row. Unlocking the vault still needs one encrypted row per
+  KDF parameter set, which `vault_kdf_params` provides independently of the
+  list's current page and filters.
+
+  1. Extensions
+     - `pg_trgm` for indexed substring (ILIKE) search.
+
+  2. Indexes
+     - Trigram indexes on `label`, `username` and `url`.
+     - `(user_id, created_at DESC)`, `(user_id, label)` and `(user_id, strength_score)`
+       for the sort options.
+
+  3. New Views
+     - `vault_kdf_params` - The newest encrypted row for each distinct set of
+       KDF parameters per user. Uses `security_invoker` so the `passwords`
+       RLS policies apply to whoever queries it.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_passwords_label_trgm ON passwords USING gin (label gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_passwords_username_trgm ON passwords USING gin (username gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_passwords_url_trgm ON passwords USING gin (url gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_passwords_user_created_at ON passwords(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_passwords_user_label ON passwords(user_id, label);
+CREATE INDEX IF NOT EXISTS idx_passwords_user_strength ON passwords(user_id, strength_score);
+
+CREATE OR REPLACE VIEW vault_kdf_params
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (user_id, kdf_algorithm, kdf_salt, kdf_iterations)
+  id,
+  user_id,
+  NULL::text AS password_text,
+  ciphertext,
+  iv,
+  kdf_algorithm,
+  kdf_salt,
+  kdf_iterations,
+  encryption_version,
+  created_at
+FROM passwords
+WHERE ciphertext IS NOT NULL
+ORDER BY user_id, kdf_algorithm, kdf_salt, kdf_iterations, created_at DESC;
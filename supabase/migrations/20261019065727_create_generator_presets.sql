@@ -0,0 +1,116 @@
+/*
+  # Saved generator presets
+
+  Named generator configurations per user (e.g. "AWS IAM", "Bank - max 12",
+  "Wi-Fi"), so the same settings don't have to be re-entered every session.
+  One preset per user can be marked as the default and is applied on load.
+
+  1. New Tables
+     - `generator_presets`
+       - `id` (uuid, primary key, default: gen_random_uuid())
+       - `user_id` (uuid, foreign key to `auth.users`) - Owner.
+       - `name` (text, not null) - Display name, unique per user.
+       - `mode` (text, not null) - 'characters' or 'passphrase'.
+       - `character_policy` (jsonb, not null) - Character generator settings
+         (length, per-class min/max, symbol set, exclusions, ...).
+       - `passphrase_options` (jsonb, not null) - Passphrase generator settings.
+       - `is_default` (boolean, default false) - Applied when the app loads.
+       - `created_at` (timestamptz, default: now())
+       - `updated_at` (timestamptz, nullable) - Set by trigger on update.
+
+     Both settings objects are stored whatever the mode, so switching modes
+     after applying a preset keeps the other mode's settings too.
+
+  2. Security
+     - Enable RLS; users can SELECT, INSERT, UPDATE and DELETE their own presets.
+     - `set_default_generator_preset(preset_id)` runs as the caller (RLS
+       applies) and moves the default flag in a single transaction.
+
+  3. Indexes
+     - Unique `(user_id, name)`.
+     - Partial unique index on `user_id` where `is_default`, so a user has at
+       most one default.
+*/
+
+-- 1. Create Table
+CREATE TABLE IF NOT EXISTS generator_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  mode text NOT NULL CHECK (mode IN ('characters', 'passphrase')),
+  character_policy jsonb NOT NULL,
+  passphrase_options jsonb NOT NULL,
+  is_default boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz,
+  UNIQUE (user_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generator_presets_one_default
+  ON generator_presets(user_id)
+  WHERE is_default;
+
+-- 2. Enable RLS
+ALTER TABLE generator_presets ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS policies
+CREATE POLICY "Users can view their own presets"
+  ON generator_presets
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own presets"
+  ON generator_presets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own presets"
+  ON generator_presets
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own presets"
+  ON generator_presets
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 4. Keep updated_at current
+CREATE OR REPLACE FUNCTION touch_generator_preset()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER generator_presets_touch
+  BEFORE UPDATE ON generator_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_generator_preset();
+
+-- 5. Move the default flag atomically; NULL clears it.
+CREATE OR REPLACE FUNCTION set_default_generator_preset(preset_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE generator_presets
+    SET is_default = false
+    WHERE user_id = auth.uid() AND is_default AND id IS DISTINCT FROM preset_id;
+
+  IF preset_id IS NOT NULL THEN
+    UPDATE generator_presets
+      SET is_default = true
+      WHERE id = preset_id AND user_id = auth.uid();
+  END IF;
+END;
+$$;
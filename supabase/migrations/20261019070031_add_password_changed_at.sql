@@ -0,0 +1,58 @@
+/*
+  # Track when each entry's password last changed
+
+  `updated_at` moves on any edit (a renamed label, a new tag), so it can't
+  say how old the password itself is. The security report needs that to flag
+  passwords due for rotation.
+
+  1. Modified Tables
+     - `passwords`
+       - `password_changed_at` (timestamptz, not null, default: now()) - When
+         the current secret was saved. Backfilled from the newest
+         `password_history` row of each entry, or `created_at`, with the
+         history trigger disabled so `updated_at` is left alone.
+
+  2. Functions
+     - `archive_password_history()` now also sets `password_changed_at`
+       whenever it archives a replaced secret.
+*/
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS password_changed_at timestamptz DEFAULT now() NOT NULL;
+
+-- The backfill isn't an edit: keep the history trigger from stamping
+-- `updated_at`, which offline sync compares as the entry's version.
+ALTER TABLE passwords DISABLE TRIGGER passwords_archive_history;
+
+UPDATE passwords p
+  SET password_changed_at = COALESCE(
+    (SELECT max(h.replaced_at) FROM password_history h WHERE h.password_id = p.id),
+    p.created_at
+  );
+
+ALTER TABLE passwords ENABLE TRIGGER passwords_archive_history;
+
+CREATE OR REPLACE FUNCTION archive_password_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.password_text IS DISTINCT FROM OLD.password_text
+     OR NEW.ciphertext IS DISTINCT FROM OLD.ciphertext THEN
+    NEW.password_changed_at := now();
+
+    INSERT INTO password_history (
+      password_id, user_id, password_text, ciphertext, iv, kdf_algorithm,
+      kdf_salt, kdf_iterations, encryption_version, generation_mode, strength_score
+    ) VALUES (
+      OLD.id, OLD.user_id, OLD.password_text, OLD.ciphertext, OLD.iv, OLD.kdf_algorithm,
+      OLD.kdf_salt, OLD.kdf_iterations, OLD.encryption_version, OLD.generation_mode, OLD.strength_score
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,54 @@
+/*
+  # Per-user security settings
+
+  Settings that follow the user across devices, starting with when the vault
+  locks itself and when an idle session is signed out.
+
+  1. New Tables
+     - `user_settings`
+       - `user_id` (uuid, primary key, foreign key to `auth.users`) - Owner; one row per user.
+       - `auto_lock_minutes` (integer, default 5) - Lock the vault after this many
+         minutes without activity; 0 = never.
+       - `lock_when_hidden` (boolean, default true) - Lock the vault as soon as the
+         tab is hidden (switching tabs, minimising, locking the screen).
+       - `sign_out_minutes` (integer, default 0) - Sign out after this many minutes
+         without activity; 0 = never.
+       - `updated_at` (timestamptz, default: now())
+
+     Users without a row get the defaults above.
+
+  2. Security
+     - Enable RLS; users can SELECT, INSERT and UPDATE their own row.
+*/
+
+-- 1. Create Table
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  auto_lock_minutes integer DEFAULT 5 NOT NULL CHECK (auto_lock_minutes >= 0),
+  lock_when_hidden boolean DEFAULT true NOT NULL,
+  sign_out_minutes integer DEFAULT 0 NOT NULL CHECK (sign_out_minutes >= 0),
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- 2. Enable RLS
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS policies
+CREATE POLICY "Users can view their own settings"
+  ON user_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own settings"
+  ON user_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON user_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,138 @@
+/*
+  # MFA recovery codes and MFA enforcement on the vault
+
+  TOTP factors are managed by Supabase Auth. This adds single-use recovery
+  codes for users who lose their authenticator, and makes vault data require
+  a second factor (AAL2) once a user has enrolled one.
+
+  1. New Tables
+     - `mfa_recovery_codes`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, foreign key to `auth.users`) - Owner.
+       - `code_hash` (text) - SHA-256 of the code; the code itself is only ever
+         returned once, when generated.
+       - `used_at` (timestamptz, nullable) - Set when the code is redeemed.
+       - `created_at` (timestamptz, default: now())
+
+  2. Functions
+     - `generate_mfa_recovery_codes()` - Replaces the caller's codes with ten new
+       ones and returns them. Requires an AAL2 session.
+     - `redeem_mfa_recovery_code(code)` - Marks a matching unused code as used and
+       removes the caller's MFA factors, so they can sign in with their password
+       alone and enrol a new authenticator. Returns whether a code matched.
+
+  3. Security
+     - Enable RLS on `mfa_recovery_codes`; users can only SELECT their own rows
+       (to count the codes left). Codes are written only by the functions above.
+     - Restrictive policies on `passwords` and `password_history`: users with a
+       verified MFA factor need an AAL2 session to reach their vault.
+*/
+
+-- 1. Create Table
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS mfa_recovery_codes_user_id_idx ON mfa_recovery_codes(user_id);
+
+-- 2. Enable RLS
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS policies
+CREATE POLICY "Users can view their own recovery codes"
+  ON mfa_recovery_codes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 4. Generate codes: ten groups of 5-5 lowercase hex, e.g. 3f9a1-c07be.
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  code text;
+BEGIN
+  IF coalesce(auth.jwt() ->> 'aal', '') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator before generating recovery codes.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+  FOR i IN 1..10 LOOP
+    code := encode(gen_random_bytes(5), 'hex');
+    code := substr(code, 1, 5) || '-' || substr(code, 6, 5);
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+      VALUES (auth.uid(), encode(digest(code, 'sha256'), 'hex'));
+    RETURN NEXT code;
+  END LOOP;
+END;
+$$;
+
+-- 5. Redeem a code. Codes are compared case-insensitively, ignoring spaces.
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  matched uuid;
+BEGIN
+  UPDATE mfa_recovery_codes
+    SET used_at = now()
+    WHERE id = (
+      SELECT id FROM mfa_recovery_codes
+        WHERE user_id = auth.uid()
+          AND used_at IS NULL
+          AND code_hash = encode(digest(lower(regexp_replace(code, '\s', '', 'g')), 'sha256'), 'hex')
+        LIMIT 1
+    )
+    RETURNING id INTO matched;
+
+  IF matched IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- The lost authenticator goes, and with it the remaining codes
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid() AND used_at IS NULL;
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION generate_mfa_recovery_codes() FROM public, anon;
+REVOKE ALL ON FUNCTION redeem_mfa_recovery_code(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION generate_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_mfa_recovery_code(text) TO authenticated;
+
+-- 6. Require AAL2 for vault data once a verified factor exists
+CREATE POLICY "Require MFA when enrolled"
+  ON passwords
+  AS RESTRICTIVE
+  TO authenticated
+  USING (
+    (auth.jwt() ->> 'aal') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+    )
+  );
+
+CREATE POLICY "Require MFA when enrolled"
+  ON password_history
+  AS RESTRICTIVE
+  TO authenticated
+  USING (
+    (auth.jwt() ->> 'aal') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+    )
+  );
@@ -0,0 +1,372 @@
+/*
+  # Shared collections for teams
+
+  Entries can now live in a shared collection instead of a personal vault.
+  Members are invited by email and hold one of three roles: viewers can read
+  entries, editors can also add, change and delete them, and owners can also
+  manage members.
+
+  Entries stay end-to-end encrypted. Each collection has a random AES-256 key,
+  and every member holds a copy of it wrapped (RSA-OAEP) with their own public
+  key. A member's private key is stored encrypted under their vault key, so
+  only someone who knows their master passphrase can unwrap it.
+
+  On collection entries the KDF columns name the collection key instead of a
+  passphrase-derived one: `kdf_algorithm` is 'COLLECTION-AES256', `kdf_salt`
+  the collection id and `kdf_iterations` the key version (1).
+
+  1. New Tables
+     - `user_keys`
+       - `user_id` (uuid, primary key, foreign key to `auth.users`, cascade on delete)
+       - `public_key` (text) - Base64 SPKI of the member's RSA-OAEP key.
+       - `ciphertext`, `iv`, `kdf_algorithm`, `kdf_salt`, `kdf_iterations`,
+         `encryption_version` - The private key (base64 PKCS#8), encrypted
+         under the vault key exactly like a saved password.
+       - `created_at` (timestamptz, default: now())
+     - `collections`
+       - `id` (uuid, primary key, default: gen_random_uuid())
+       - `name` (text, 1-100 characters)
+       - `created_by` (uuid, foreign key to `auth.users`, set null on delete)
+       - `created_at` (timestamptz, default: now())
+     - `collection_members`
+       - `collection_id` (uuid, foreign key to `collections`, cascade on delete)
+       - `user_id` (uuid, foreign key to `auth.users`, cascade on delete)
+       - `email` (text) - Shown in the member list.
+       - `role` (text) - 'viewer', 'editor' or 'owner'.
+       - `wrapped_key` (text) - Base64 collection key wrapped for this member.
+       - `added_by` (uuid, nullable) - Who invited the member.
+       - `created_at` (timestamptz, default: now())
+       - Primary key `(collection_id, user_id)`.
+
+  2. Modified Tables
+     - `passwords`
+       - `collection_id` (uuid, nullable, foreign key to `collections`, cascade
+         on delete) - Null for personal entries. `user_id` is the member who
+         created a collection entry.
+
+  3. Security
+     - The personal policies on `passwords` now only cover personal entries
+       (`collection_id IS NULL`).
+     - Members can SELECT the entries and password history of their
+       collections; editors and owners can INSERT, UPDATE and DELETE entries.
+     - Members can see their collections and each other; owners can rename or
+       delete a collection and add, change and remove members. Any member can
+       leave. A collection always keeps at least one owner.
+     - `user_keys` rows are only readable by their owner; other users' public
+       keys are looked up by email through `find_user_key`.
+     - The "Require MFA when enrolled" policy now also covers the new tables.
+
+  4. Functions
+     - `collection_role(collection_id)` - The caller's role, or NULL. SECURITY
+       DEFINER so policies on `collection_members` can use it without recursing.
+     - `create_collection(name, wrapped_key)` - Creates a collection with the
+       caller as its owner.
+     - `find_user_key(invitee_email)` - The user id and public key of the
+       account with that email, if it has set up sharing.
+
+  5. Views
+     - `vault_kdf_params` skips collection entries, whose key isn't derived
+       from the passphrase, and includes the sealed private key, so a vault
+       with no entries of its own still unlocks with the same parameters.
+*/
+
+-- 1. Member key pairs
+CREATE TABLE IF NOT EXISTS user_keys (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key text NOT NULL,
+  ciphertext text NOT NULL,
+  iv text NOT NULL,
+  kdf_algorithm text NOT NULL,
+  kdf_salt text NOT NULL,
+  kdf_iterations integer NOT NULL,
+  encryption_version smallint NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE user_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own keys"
+  ON user_keys
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own keys"
+  ON user_keys
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- 2. Collections and their members
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS collection_members (
+  collection_id uuid NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+  wrapped_key text NOT NULL,
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (collection_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_members_user ON collection_members(user_id);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_members ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION collection_role(target uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM collection_members
+    WHERE collection_id = target AND user_id = auth.uid();
+$$;
+
+CREATE POLICY "Members can view their collections"
+  ON collections
+  FOR SELECT
+  TO authenticated
+  USING (collection_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can rename collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (collection_role(id) = 'owner')
+  WITH CHECK (collection_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (collection_role(id) = 'owner');
+
+CREATE POLICY "Members can view fellow members"
+  ON collection_members
+  FOR SELECT
+  TO authenticated
+  USING (collection_role(collection_id) IS NOT NULL);
+
+CREATE POLICY "Owners can add members"
+  ON collection_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (collection_role(collection_id) = 'owner' AND added_by = auth.uid());
+
+CREATE POLICY "Owners can change roles"
+  ON collection_members
+  FOR UPDATE
+  TO authenticated
+  USING (collection_role(collection_id) = 'owner')
+  WITH CHECK (collection_role(collection_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON collection_members
+  FOR DELETE
+  TO authenticated
+  USING (collection_role(collection_id) = 'owner' OR user_id = auth.uid());
+
+-- A collection must keep an owner; deleting the collection itself is fine.
+CREATE OR REPLACE FUNCTION ensure_collection_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM collections WHERE id = OLD.collection_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM collection_members
+         WHERE collection_id = OLD.collection_id AND role = 'owner'
+     ) THEN
+    RAISE EXCEPTION 'A collection needs at least one owner.';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER collection_members_keep_owner
+  AFTER UPDATE OR DELETE ON collection_members
+  FOR EACH ROW
+  EXECUTE FUNCTION ensure_collection_owner();
+
+CREATE OR REPLACE FUNCTION create_collection(name text, wrapped_key text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in.';
+  END IF;
+  INSERT INTO collections (name, created_by)
+    VALUES (create_collection.name, auth.uid())
+    RETURNING id INTO new_id;
+  INSERT INTO collection_members (collection_id, user_id, email, role, wrapped_key, added_by)
+    VALUES (new_id, auth.uid(), auth.jwt() ->> 'email', 'owner', create_collection.wrapped_key, auth.uid());
+  RETURN new_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION find_user_key(invitee_email text)
+RETURNS TABLE (user_id uuid, public_key text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT k.user_id, k.public_key
+    FROM user_keys k
+    JOIN auth.users u ON u.id = k.user_id
+    WHERE lower(u.email) = lower(invitee_email);
+$$;
+
+REVOKE ALL ON FUNCTION collection_role(uuid) FROM public, anon;
+REVOKE ALL ON FUNCTION create_collection(text, text) FROM public, anon;
+REVOKE ALL ON FUNCTION find_user_key(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION collection_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_collection(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION find_user_key(text) TO authenticated;
+
+-- 3. Collection entries
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS collection_id uuid REFERENCES collections(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_passwords_collection_created_at ON passwords(collection_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Users can view their own passwords" ON passwords;
+DROP POLICY IF EXISTS "Users can insert their own passwords" ON passwords;
+DROP POLICY IF EXISTS "Users can update their own passwords" ON passwords;
+DROP POLICY IF EXISTS "Users can delete their own passwords" ON passwords;
+
+CREATE POLICY "Users can view their own passwords"
+  ON passwords
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id AND collection_id IS NULL);
+
+CREATE POLICY "Users can insert their own passwords"
+  ON passwords
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND collection_id IS NULL);
+
+CREATE POLICY "Users can update their own passwords"
+  ON passwords
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND collection_id IS NULL)
+  WITH CHECK (auth.uid() = user_id AND collection_id IS NULL);
+
+CREATE POLICY "Users can delete their own passwords"
+  ON passwords
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND collection_id IS NULL);
+
+CREATE POLICY "Members can view collection passwords"
+  ON passwords
+  FOR SELECT
+  TO authenticated
+  USING (collection_id IS NOT NULL AND collection_role(collection_id) IS NOT NULL);
+
+CREATE POLICY "Editors can insert collection passwords"
+  ON passwords
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND collection_role(collection_id) IN ('editor', 'owner'));
+
+CREATE POLICY "Editors can update collection passwords"
+  ON passwords
+  FOR UPDATE
+  TO authenticated
+  USING (collection_role(collection_id) IN ('editor', 'owner'))
+  WITH CHECK (collection_role(collection_id) IN ('editor', 'owner'));
+
+CREATE POLICY "Editors can delete collection passwords"
+  ON passwords
+  FOR DELETE
+  TO authenticated
+  USING (collection_role(collection_id) IN ('editor', 'owner'));
+
+CREATE POLICY "Members can view collection password history"
+  ON password_history
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM passwords p
+      WHERE p.id = password_id
+        AND p.collection_id IS NOT NULL
+        AND collection_role(p.collection_id) IS NOT NULL
+  ));
+
+-- 4. Second factor, as for the rest of the vault
+CREATE POLICY "Require MFA when enrolled"
+  ON user_keys
+  AS RESTRICTIVE
+  TO authenticated
+  USING (
+    (auth.jwt() ->> 'aal') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+    )
+  );
+
+CREATE POLICY "Require MFA when enrolled"
+  ON collection_members
+  AS RESTRICTIVE
+  TO authenticated
+  USING (
+    (auth.jwt() ->> 'aal') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+    )
+  );
+
+-- 5. Only passphrase-derived keys are unlocked from the KDF samples
+CREATE OR REPLACE VIEW vault_kdf_params
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (user_id, kdf_algorithm, kdf_salt, kdf_iterations) *
+FROM (
+  SELECT
+    id,
+    user_id,
+    NULL::text AS password_text,
+    ciphertext,
+    iv,
+    kdf_algorithm,
+    kdf_salt,
+    kdf_iterations,
+    encryption_version,
+    created_at
+  FROM passwords
+  WHERE ciphertext IS NOT NULL AND collection_id IS NULL
+  UNION ALL
+  SELECT
+    user_id AS id,
+    user_id,
+    NULL::text AS password_text,
+    ciphertext,
+    iv,
+    kdf_algorithm,
+    kdf_salt,
+    kdf_iterations,
+    encryption_version,
+    created_at
+  FROM user_keys
+) AS sealed
+ORDER BY user_id, kdf_algorithm, kdf_salt, kdf_iterations, created_at DESC;
@@ -0,0 +1,210 @@
+/*
+  # Audit log of vault activity
+
+  Records what happened to an account and its vault, for the activity page and
+  the navbar's alerts. Sign-ins and entry changes are written by triggers, so
+  every client is covered; reveals, copies and exports happen only in the
+  browser, so the app records those itself.
+
+  1. New Tables
+     - `audit_events`
+       - `id` (uuid, primary key, default: gen_random_uuid())
+       - `user_id` (uuid, foreign key to `auth.users`, cascade on delete,
+         default: auth.uid()) - Who did it.
+       - `event_type` (text) - 'login', 'entry_created', 'entry_updated',
+         'entry_deleted', 'entry_revealed', 'entry_copied' or 'vault_exported'.
+       - `entry_id` (uuid, nullable) - The entry concerned. Not a foreign key:
+         events outlive the entries they describe.
+       - `collection_id` (uuid, nullable) - Set for entries in a shared collection.
+       - `entry_label` (text, nullable) - The entry's label at the time.
+       - `details` (jsonb, default: '{}') - e.g. `password_changed` on updates,
+         `format` and `count` on exports.
+       - `user_agent` (text, nullable) - The browser or client that made the request.
+       - `new_device` (boolean, default: false) - A sign-in from a user agent
+         the account hasn't signed in from before.
+       - `alert` (boolean, generated) - Security-relevant: sign-ins from a new
+         device and exports.
+       - `read_at` (timestamptz, nullable) - When the user dismissed the alert.
+       - `created_at` (timestamptz, default: now())
+
+  2. Security
+     - Enable RLS on `audit_events`. Users can SELECT their own events, INSERT
+       only the browser-side event types, and UPDATE only `read_at`. Nobody can
+       delete or rewrite events.
+     - The "Require MFA when enrolled" policy covers the table.
+
+  3. Functions & Triggers
+     - `request_user_agent()` - The User-Agent header of the current API request.
+     - `record_login_event()` - AFTER INSERT on `auth.sessions`. Never blocks a
+       sign-in: failures are only logged.
+     - `record_entry_event()` - AFTER INSERT, UPDATE and DELETE on `passwords`.
+
+  4. Indexes
+     - `audit_events(user_id, created_at DESC)` for the activity page.
+     - Partial index on unread alerts for the navbar.
+*/
+
+-- 1. Create Table; `user_agent` defaults to the requesting client
+CREATE OR REPLACE FUNCTION request_user_agent()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT nullif(current_setting('request.headers', true), '')::json ->> 'user-agent';
+$$;
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'login', 'entry_created', 'entry_updated', 'entry_deleted',
+    'entry_revealed', 'entry_copied', 'vault_exported'
+  )),
+  entry_id uuid,
+  collection_id uuid,
+  entry_label text,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  user_agent text DEFAULT request_user_agent(),
+  new_device boolean NOT NULL DEFAULT false,
+  alert boolean GENERATED ALWAYS AS (event_type = 'vault_exported' OR new_device) STORED,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_user_id_created_at_idx
+  ON audit_events(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_events_unread_alerts_idx
+  ON audit_events(user_id)
+  WHERE alert AND read_at IS NULL;
+
+-- 2. Enable RLS
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS policies
+CREATE POLICY "Users can view their own events"
+  ON audit_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record browser-side events"
+  ON audit_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND event_type IN ('entry_revealed', 'entry_copied', 'vault_exported')
+  );
+
+CREATE POLICY "Users can mark their own events read"
+  ON audit_events
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Require MFA when enrolled"
+  ON audit_events
+  AS RESTRICTIVE
+  TO authenticated
+  USING (
+    (auth.jwt() ->> 'aal') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+    )
+  );
+
+-- The policies pick the rows; these pick the columns a client may write.
+REVOKE INSERT, UPDATE, DELETE ON audit_events FROM anon, authenticated;
+GRANT INSERT (user_id, event_type, entry_id, collection_id, entry_label, details)
+  ON audit_events TO authenticated;
+GRANT UPDATE (read_at) ON audit_events TO authenticated;
+
+-- 4. Sign-ins. A new device is a user agent the account hasn't signed in from
+-- before; the very first sign-in isn't flagged.
+CREATE OR REPLACE FUNCTION record_login_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    INSERT INTO audit_events (user_id, event_type, user_agent, new_device)
+    VALUES (
+      NEW.user_id,
+      'login',
+      NEW.user_agent,
+      EXISTS (
+        SELECT 1 FROM audit_events
+          WHERE user_id = NEW.user_id AND event_type = 'login'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM audit_events
+          WHERE user_id = NEW.user_id AND event_type = 'login'
+            AND user_agent IS NOT DISTINCT FROM NEW.user_agent
+      )
+    );
+  EXCEPTION WHEN others THEN
+    RAISE WARNING 'record_login_event: %', SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_session_created ON auth.sessions;
+CREATE TRIGGER on_auth_session_created
+  AFTER INSERT ON auth.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_login_event();
+
+-- 5. Entry changes, recorded for whoever made them
+CREATE OR REPLACE FUNCTION record_entry_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry passwords%ROWTYPE;
+  actor uuid;
+  event_details jsonb := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    entry := OLD;
+  ELSE
+    entry := NEW;
+  END IF;
+  actor := coalesce(auth.uid(), entry.user_id);
+
+  -- Entries removed along with their owner's account have no one to report to
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = actor) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    event_details := jsonb_build_object(
+      'password_changed',
+      NEW.ciphertext IS DISTINCT FROM OLD.ciphertext OR NEW.password_text IS DISTINCT FROM OLD.password_text
+    );
+  END IF;
+
+  INSERT INTO audit_events (user_id, event_type, entry_id, collection_id, entry_label, details)
+  VALUES (
+    actor,
+    CASE TG_OP WHEN 'INSERT' THEN 'entry_created' WHEN 'UPDATE' THEN 'entry_updated' ELSE 'entry_deleted' END,
+    entry.id,
+    entry.collection_id,
+    entry.label,
+    event_details
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER passwords_record_event
+  AFTER INSERT OR UPDATE OR DELETE ON passwords
+  FOR EACH ROW
+  EXECUTE FUNCTION record_entry_event();
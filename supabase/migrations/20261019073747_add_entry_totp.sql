@@ -0,0 +1,20 @@
+/*
+  # Authenticator (TOTP) keys on vault entries
+
+  An entry can hold the key for its account's two-step verification codes, so
+  the vault shows the current code next to the password. The key is stored as
+  an `otpauth://totp/` URI, encrypted under the same key and KDF params as the
+  password, like the notes.
+
+  1. Modified Tables
+     - `passwords`
+       - `totp_ciphertext` (text, nullable) - Base64 AES-GCM ciphertext of the otpauth:// URI.
+       - `totp_iv` (text, nullable) - Base64 nonce for `totp_ciphertext`.
+*/
+
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS totp_ciphertext text;
+ALTER TABLE passwords ADD COLUMN IF NOT EXISTS totp_iv text;
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_totp_encrypted
+  CHECK (totp_ciphertext IS NULL OR (totp_iv IS NOT NULL AND ciphertext IS NOT NULL));
@@ -0,0 +1,17 @@
+/*
+  # Interface language per user
+
+  The language the app is shown in follows the user across devices, like the
+  lock settings.
+
+  1. Modified Tables
+     - `user_settings`
+       - `locale` (text, nullable) - BCP 47 language tag of the chosen
+         interface language, e.g. `am`; null = use the browser's language.
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS locale text;
+
+ALTER TABLE user_settings
+  ADD CONSTRAINT user_settings_locale_format
+  CHECK (locale IS NULL OR locale ~ '^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$');
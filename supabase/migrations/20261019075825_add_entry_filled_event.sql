@@ -0,0 +1,35 @@
+/*
+  # Autofill in the audit log
+
+  The browser extension fills saved logins into web pages. Like a copy, that
+  takes a password out of the vault in the browser only, so the extension
+  records it itself.
+
+  1. Modified Tables
+     - `audit_events`
+       - `event_type` also allows 'entry_filled'; `details.site` holds the
+         host the password was filled on.
+
+  2. Security
+     - "Users can record browser-side events" now also allows 'entry_filled'.
+*/
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_event_type_check;
+
+ALTER TABLE audit_events
+  ADD CONSTRAINT audit_events_event_type_check
+  CHECK (event_type IN (
+    'login', 'entry_created', 'entry_updated', 'entry_deleted',
+    'entry_revealed', 'entry_copied', 'entry_filled', 'vault_exported'
+  ));
+
+DROP POLICY IF EXISTS "Users can record browser-side events" ON audit_events;
+
+CREATE POLICY "Users can record browser-side events"
+  ON audit_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND event_type IN ('entry_revealed', 'entry_copied', 'entry_filled', 'vault_exported')
+  );
@@ -0,0 +1,56 @@
+/*
+  # Keep plaintext out of password history
+
+  `archive_password_history()` copied the old `password_text` into
+  `password_history` along with the ciphertext. For an entry saved before
+  encryption, that means re-encrypting it (which nulls `password_text` on the
+  entry) left its plaintext on the server for good, in history. History now
+  only ever holds ciphertext.
+
+  1. Modified Tables
+     - `password_history`
+       - `password_text` is cleared on every existing row; rows that then hold
+         no secret at all (the archived plaintext of legacy entries) are
+         deleted.
+
+  2. Functions
+     - `archive_password_history()` no longer archives `password_text`, and
+       archives nothing when the replaced value was a legacy plaintext one.
+*/
+
+-- 1. Clean up history already written
+UPDATE password_history
+  SET password_text = NULL
+  WHERE password_text IS NOT NULL;
+
+DELETE FROM password_history
+  WHERE ciphertext IS NULL;
+
+-- 2. Archive ciphertext only
+CREATE OR REPLACE FUNCTION archive_password_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.password_text IS DISTINCT FROM OLD.password_text
+     OR NEW.ciphertext IS DISTINCT FROM OLD.ciphertext THEN
+    NEW.password_changed_at := now();
+
+    IF OLD.ciphertext IS NOT NULL THEN
+      INSERT INTO password_history (
+        password_id, user_id, ciphertext, iv, kdf_algorithm,
+        kdf_salt, kdf_iterations, encryption_version, generation_mode, strength_score
+      ) VALUES (
+        OLD.id, OLD.user_id, OLD.ciphertext, OLD.iv, OLD.kdf_algorithm,
+        OLD.kdf_salt, OLD.kdf_iterations, OLD.encryption_version, OLD.generation_mode, OLD.strength_score
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
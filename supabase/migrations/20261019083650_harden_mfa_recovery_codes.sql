@@ -0,0 +1,116 @@
+/*
+  # Stronger MFA recovery codes with an attempt limit
+
+  Recovery codes carried 40 bits and were stored as unsalted SHA-256, and
+  `redeem_mfa_recovery_code` could be called without limit. Since redeeming a
+  code removes every MFA factor, anyone with the password could guess codes
+  until one matched and then get past the second factor.
+
+  1. Modified Tables
+     - `mfa_recovery_codes`
+       - `code_hash` now holds a bcrypt hash (pgcrypto `crypt`) of an 80-bit
+         code, e.g. 3f9a1-c07be-52d8e-a4b10.
+       - Existing codes are deleted: they are too short to keep. Users with an
+         authenticator generate new ones from their account settings.
+
+  2. New Tables
+     - `mfa_recovery_attempts`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, foreign key to `auth.users`) - Who tried a code.
+       - `attempted_at` (timestamptz, default: now())
+
+  3. Functions
+     - `generate_mfa_recovery_codes()` - Codes are 20 hex digits in groups of five.
+     - `redeem_mfa_recovery_code(code)` - Records every failed attempt. After 5
+       failures within an hour it refuses to check codes until the hour is up.
+       A successful redeem clears the user's failures.
+
+  4. Security
+     - Enable RLS on `mfa_recovery_attempts` with no policies: only the
+       functions above read or write it.
+*/
+
+-- 1. Drop the short codes
+DELETE FROM mfa_recovery_codes;
+
+-- 2. Failed attempts
+CREATE TABLE IF NOT EXISTS mfa_recovery_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS mfa_recovery_attempts_user_id_idx
+  ON mfa_recovery_attempts(user_id, attempted_at DESC);
+
+ALTER TABLE mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- 3. Generate codes: ten codes of 4 groups of 5 lowercase hex digits.
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  code text;
+BEGIN
+  IF coalesce(auth.jwt() ->> 'aal', '') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator before generating recovery codes.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+  FOR i IN 1..10 LOOP
+    code := encode(gen_random_bytes(10), 'hex');
+    code := substr(code, 1, 5) || '-' || substr(code, 6, 5) || '-'
+      || substr(code, 11, 5) || '-' || substr(code, 16, 5);
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+      VALUES (auth.uid(), crypt(code, gen_salt('bf')));
+    RETURN NEXT code;
+  END LOOP;
+END;
+$$;
+
+-- 4. Redeem a code. Codes are compared case-insensitively, ignoring spaces.
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  normalized text := lower(regexp_replace(code, '\s', '', 'g'));
+  matched uuid;
+BEGIN
+  IF (
+    SELECT count(*) FROM mfa_recovery_attempts
+      WHERE user_id = auth.uid() AND attempted_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many recovery codes tried. Try again in an hour.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE mfa_recovery_codes
+    SET used_at = now()
+    WHERE id = (
+      SELECT id FROM mfa_recovery_codes
+        WHERE user_id = auth.uid()
+          AND used_at IS NULL
+          AND code_hash = crypt(normalized, code_hash)
+        LIMIT 1
+    )
+    RETURNING id INTO matched;
+
+  IF matched IS NULL THEN
+    INSERT INTO mfa_recovery_attempts (user_id) VALUES (auth.uid());
+    RETURN false;
+  END IF;
+
+  -- The lost authenticator goes, and with it the remaining codes
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid() AND used_at IS NULL;
+  DELETE FROM mfa_recovery_attempts WHERE user_id = auth.uid();
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,342 @@
+/*
+  # Tighter access around shared collections
+
+  Three gaps in shared collections:
+  - `find_user_key(email)` told any signed-in user whether an email had an
+    account, as often as they liked.
+  - The personal `password_history` policies (`auth.uid() = user_id`) also
+    covered the history of collection entries, so the member who created an
+    entry could still read its old passwords after being removed.
+  - A removed member kept a copy of the collection key. Owners now rotate it
+    when they remove someone: every entry and history row is re-encrypted
+    under a new key, wrapped again for the members who remain.
+
+  1. New Tables
+     - `user_key_lookups`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, foreign key to `auth.users`) - Who looked an email up.
+       - `looked_up_at` (timestamptz, default: now())
+
+  2. Modified Tables
+     - `collections`
+       - `key_version` (integer, default: 1) - Version of the collection key.
+         Entries record it in `kdf_iterations`; it goes up on each rotation.
+     - `password_history`
+       - `collection_id` (uuid, nullable, foreign key to `collections`,
+         cascade on delete) - The collection the entry was in when the value
+         was archived. Backfilled from the entries.
+
+  3. Functions
+     - `find_user_key(collection_id, invitee_email)` replaces
+       `find_user_key(invitee_email)`. Only owners of the collection may call
+       it, at most 20 times an hour.
+     - `collection_member_keys(collection_id)` - Public keys of the current
+       members, for owners rotating the key.
+     - `rotate_collection_key(target, from_version, wrapped_keys, entries,
+       history)` - Swaps in the re-encrypted entries, history and wrapped keys
+       in one go, and bumps `key_version`. Refuses if anything changed since
+       the owner read it.
+     - `collection_key_version(collection_id)` - For the policies below.
+     - `archive_password_history()` records `collection_id`, and archives
+       nothing while a key is being rotated: the password stays the same.
+     - `record_entry_event()` logs nothing for the re-encryption either, so a
+       rotation doesn't show up as every entry's password being changed.
+
+  4. Security
+     - Personal history policies only cover history without a collection;
+       collection history is readable by current members only.
+     - Editors can only write collection entries encrypted under the current
+       key version, so a member still holding the old key can't write entries
+       the others can't read.
+     - Enable RLS on `user_key_lookups` with no policies: only
+       `find_user_key` reads or writes it.
+*/
+
+-- 1. Key versions
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS key_version integer DEFAULT 1 NOT NULL;
+
+CREATE OR REPLACE FUNCTION collection_key_version(target uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT key_version FROM collections WHERE id = target;
+$$;
+
+DROP POLICY IF EXISTS "Editors can insert collection passwords" ON passwords;
+DROP POLICY IF EXISTS "Editors can update collection passwords" ON passwords;
+
+CREATE POLICY "Editors can insert collection passwords"
+  ON passwords
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND collection_role(collection_id) IN ('editor', 'owner')
+    AND kdf_iterations = collection_key_version(collection_id)
+  );
+
+CREATE POLICY "Editors can update collection passwords"
+  ON passwords
+  FOR UPDATE
+  TO authenticated
+  USING (collection_role(collection_id) IN ('editor', 'owner'))
+  WITH CHECK (
+    collection_role(collection_id) IN ('editor', 'owner')
+    AND kdf_iterations = collection_key_version(collection_id)
+  );
+
+-- 2. History follows collection membership
+ALTER TABLE password_history
+  ADD COLUMN IF NOT EXISTS collection_id uuid REFERENCES collections(id) ON DELETE CASCADE;
+
+UPDATE password_history h
+  SET collection_id = p.collection_id
+  FROM passwords p
+  WHERE p.id = h.password_id AND p.collection_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_password_history_collection ON password_history(collection_id);
+
+DROP POLICY IF EXISTS "Users can view their own password history" ON password_history;
+DROP POLICY IF EXISTS "Users can delete their own password history" ON password_history;
+DROP POLICY IF EXISTS "Members can view collection password history" ON password_history;
+
+CREATE POLICY "Users can view their own password history"
+  ON password_history
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id AND collection_id IS NULL);
+
+CREATE POLICY "Users can delete their own password history"
+  ON password_history
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND collection_id IS NULL);
+
+CREATE POLICY "Members can view collection password history"
+  ON password_history
+  FOR SELECT
+  TO authenticated
+  USING (collection_id IS NOT NULL AND collection_role(collection_id) IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION archive_password_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  -- Re-encrypting under a rotated collection key doesn't change the password
+  IF current_setting('vault.rotating_collection_key', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.password_text IS DISTINCT FROM OLD.password_text
+     OR NEW.ciphertext IS DISTINCT FROM OLD.ciphertext THEN
+    NEW.password_changed_at := now();
+
+    IF OLD.ciphertext IS NOT NULL THEN
+      INSERT INTO password_history (
+        password_id, user_id, collection_id, ciphertext, iv, kdf_algorithm,
+        kdf_salt, kdf_iterations, encryption_version, generation_mode, strength_score
+      ) VALUES (
+        OLD.id, OLD.user_id, OLD.collection_id, OLD.ciphertext, OLD.iv, OLD.kdf_algorithm,
+        OLD.kdf_salt, OLD.kdf_iterations, OLD.encryption_version, OLD.generation_mode, OLD.strength_score
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Looking up invitees
+CREATE TABLE IF NOT EXISTS user_key_lookups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  looked_up_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS user_key_lookups_user_id_idx ON user_key_lookups(user_id, looked_up_at DESC);
+
+ALTER TABLE user_key_lookups ENABLE ROW LEVEL SECURITY;
+
+DROP FUNCTION IF EXISTS find_user_key(text);
+
+CREATE OR REPLACE FUNCTION find_user_key(collection_id uuid, invitee_email text)
+RETURNS TABLE (user_id uuid, public_key text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF collection_role(find_user_key.collection_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can invite members.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM user_key_lookups l
+      WHERE l.user_id = auth.uid() AND l.looked_up_at > now() - interval '1 hour'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'Too many invitations at once. Try again in an hour.';
+  END IF;
+  INSERT INTO user_key_lookups (user_id) VALUES (auth.uid());
+
+  RETURN QUERY
+    SELECT k.user_id, k.public_key
+      FROM user_keys k
+      JOIN auth.users u ON u.id = k.user_id
+      WHERE lower(u.email) = lower(invitee_email);
+END;
+$$;
+
+-- 4. Rotating the key
+CREATE OR REPLACE FUNCTION collection_member_keys(target uuid)
+RETURNS TABLE (user_id uuid, public_key text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF collection_role(target) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can change the collection key.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+    SELECT m.user_id, k.public_key
+      FROM collection_members m
+      JOIN user_keys k ON k.user_id = m.user_id
+      WHERE m.collection_id = target;
+END;
+$$;
+
+-- The same re-encryption isn't an edit anyone made
+CREATE OR REPLACE FUNCTION record_entry_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry passwords%ROWTYPE;
+  actor uuid;
+  event_details jsonb := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND current_setting('vault.rotating_collection_key', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    entry := OLD;
+  ELSE
+    entry := NEW;
+  END IF;
+  actor := coalesce(auth.uid(), entry.user_id);
+
+  -- Entries removed along with their owner's account have no one to report to
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = actor) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    event_details := jsonb_build_object(
+      'password_changed',
+      NEW.ciphertext IS DISTINCT FROM OLD.ciphertext OR NEW.password_text IS DISTINCT FROM OLD.password_text
+    );
+  END IF;
+
+  INSERT INTO audit_events (user_id, event_type, entry_id, collection_id, entry_label, details)
+  VALUES (
+    actor,
+    CASE TG_OP WHEN 'INSERT' THEN 'entry_created' WHEN 'UPDATE' THEN 'entry_updated' ELSE 'entry_deleted' END,
+    entry.id,
+    entry.collection_id,
+    entry.label,
+    event_details
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- `wrapped_keys` maps each member's user id to their wrapped new key.
+-- `entries` holds {id, ciphertext, iv, notes_ciphertext, notes_iv,
+-- totp_ciphertext, totp_iv} for every entry, `history` {id, ciphertext, iv}
+-- for every history row, all under the new key.
+CREATE OR REPLACE FUNCTION rotate_collection_key(
+  target uuid,
+  from_version integer,
+  wrapped_keys jsonb,
+  entries jsonb,
+  history jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_version integer;
+BEGIN
+  IF collection_role(target) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can change the collection key.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT key_version INTO current_version FROM collections WHERE id = target FOR UPDATE;
+  IF current_version IS DISTINCT FROM from_version
+     OR EXISTS (
+       SELECT 1 FROM collection_members m
+         WHERE m.collection_id = target AND NOT wrapped_keys ? m.user_id::text
+     )
+     OR (SELECT count(*) FROM passwords p WHERE p.collection_id = target) <> jsonb_array_length(entries)
+     OR (SELECT count(*) FROM password_history h WHERE h.collection_id = target) <> jsonb_array_length(history) THEN
+    RAISE EXCEPTION 'The collection changed while its key was being replaced. Try again.';
+  END IF;
+
+  PERFORM set_config('vault.rotating_collection_key', 'on', true);
+
+  UPDATE collection_members m
+    SET wrapped_key = wrapped_keys ->> m.user_id::text
+    WHERE m.collection_id = target;
+
+  UPDATE passwords p
+    SET ciphertext = e.ciphertext,
+        iv = e.iv,
+        notes_ciphertext = e.notes_ciphertext,
+        notes_iv = e.notes_iv,
+        totp_ciphertext = e.totp_ciphertext,
+        totp_iv = e.totp_iv,
+        kdf_iterations = from_version + 1
+    FROM jsonb_to_recordset(entries) AS e(
+      id uuid, ciphertext text, iv text, notes_ciphertext text, notes_iv text, totp_ciphertext text, totp_iv text
+    )
+    WHERE p.id = e.id AND p.collection_id = target;
+
+  UPDATE password_history h
+    SET ciphertext = e.ciphertext,
+        iv = e.iv,
+        kdf_iterations = from_version + 1
+    FROM jsonb_to_recordset(history) AS e(id uuid, ciphertext text, iv text)
+    WHERE h.id = e.id AND h.collection_id = target;
+
+  UPDATE collections SET key_version = from_version + 1 WHERE id = target;
+
+  PERFORM set_config('vault.rotating_collection_key', 'off', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION collection_key_version(uuid) FROM public, anon;
+REVOKE ALL ON FUNCTION find_user_key(uuid, text) FROM public, anon;
+REVOKE ALL ON FUNCTION collection_member_keys(uuid) FROM public, anon;
+REVOKE ALL ON FUNCTION rotate_collection_key(uuid, integer, jsonb, jsonb, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION collection_key_version(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION find_user_key(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION collection_member_keys(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_collection_key(uuid, integer, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Builds the passgen CLI (cli/passgen.ts) as a single Node script. It bundles
+// the app's generator modules, so the CLI and the web app can't drift apart.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/passgen.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'passgen.mjs',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -1,9 +1,42 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+// public/sw.js names its cache after the build it shipped with, so a deploy
+// caches into a fresh cache and the worker deletes the old one (and the old
+// bundles in it) when it takes over. The version is a hash of the bundle
+// names, which Vite fingerprints: an unchanged app keeps its cache.
+const versionServiceWorker = (): Plugin => {
+  let outDir = ''
+  let version = ''
+  return {
+    name: 'version-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    generateBundle(_options, bundle) {
+      version = createHash('sha256').update(Object.keys(bundle).sort().join('\n')).digest('hex').slice(0, 12)
+    },
+    async closeBundle() {
+      const file = resolve(outDir, 'sw.js')
+      const source = await readFile(file, 'utf8')
+      if (!source.includes('__BUILD_VERSION__')) this.error('public/sw.js has no __BUILD_VERSION__ to replace.')
+      await writeFile(file, source.replaceAll('__BUILD_VERSION__', version))
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), versionServiceWorker()],
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'], // e2e/ is Playwright's
+    setupFiles: ['./src/test/setup.ts'],
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
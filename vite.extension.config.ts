@@ -0,0 +1,78 @@
+import { defineConfig, type Plugin } from 'vite'
+import react from '@vitejs/plugin-react'
+import { fileURLToPath } from 'node:url'
+import en, { type Message } from './src/lib/locales/en'
+import am from './src/lib/locales/am'
+import ar from './src/lib/locales/ar'
+
+const fromRoot = (path: string) => fileURLToPath(new URL(path, import.meta.url))
+
+// Content scripts run as classic scripts, which can't load the chunks Rollup
+// moves shared code into; fail the build rather than ship one that won't start.
+const selfContainedContentScript = (): Plugin => ({
+  name: 'self-contained-content-script',
+  generateBundle(_options, bundle) {
+    const content = bundle['content.js']
+    if (content?.type === 'chunk' && (content.imports.length > 0 || content.dynamicImports.length > 0)) {
+      this.error('extension/content.ts must not import code shared with the popup or the worker.')
+    }
+  },
+})
+
+// The content script can't load the app's catalogs either, so its messages,
+// and the manifest's, are written out as the browser's own _locales files and
+// read with chrome.i18n. `{name}` placeholders become `$name$`, numbered in
+// the order they appear in the English text.
+const CHROME_I18N_PREFIXES = ['extension.page.', 'extension.manifest.']
+
+const extensionLocales = (): Plugin => ({
+  name: 'extension-locales',
+  generateBundle() {
+    const keys = (Object.keys(en) as (keyof typeof en)[])
+      .filter(key => CHROME_I18N_PREFIXES.some(prefix => key.startsWith(prefix)))
+    for (const [locale, catalog] of Object.entries({ en, am, ar })) {
+      const messages = Object.fromEntries(keys.map(key => {
+        const english: Message = en[key]
+        const message = catalog[key] ?? english
+        if (typeof english !== 'string' || typeof message !== 'string') {
+          this.error(`${key} has plural forms, which chrome.i18n can't select.`)
+        }
+        const names = [...english.matchAll(/\{(\w+)\}/g)].map(match => match[1])
+        return [key.replace(/\./g, '_'), {
+          message: message.replace(/\{(\w+)\}/g, '$$$1$$'),
+          ...names.length > 0 && {
+            placeholders: Object.fromEntries(names.map((name, i) => [name, { content: `$${i + 1}` }])),
+          },
+        }]
+      }))
+      this.emitFile({ type: 'asset', fileName: `_locales/${locale}/messages.json`, source: JSON.stringify(messages, null, 2) })
+    }
+  },
+})
+
+// Builds the browser extension (extension/) into dist-extension, ready to
+// load unpacked. The popup and the background worker bundle the app's own
+// modules, with extension/supabaseClient.ts standing in for the app's client
+// so both share the session the popup signs in with.
+export default defineConfig({
+  root: fromRoot('./extension'),
+  envDir: fromRoot('.'),
+  plugins: [react(), selfContainedContentScript(), extensionLocales()],
+  resolve: {
+    alias: [{ find: /^.*\/supabaseClient$/, replacement: fromRoot('./extension/supabaseClient.ts') }],
+  },
+  build: {
+    outDir: fromRoot('./dist-extension'),
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        popup: fromRoot('./extension/popup.html'),
+        background: fromRoot('./extension/background.ts'),
+        content: fromRoot('./extension/content.ts'),
+      },
+      output: {
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+})